@@ -0,0 +1,100 @@
+// scripts/check-saves.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Save Fixture Check (Node only; bundled by `npm run check:saves`)
+//
+// Runs every save in scripts/fixtures/saves through the real load path:
+// - v<N>-*.json      must be a version N save that migrates, validates,
+//                    loads, runs CHECK_TICKS ticks and survives a
+//                    save -> load round trip unchanged
+// - invalid-*.json   must be rejected, leaving the live game untouched
+//
+// Add a fixture whenever CURRENT_SAVE_VERSION is bumped (a save written by
+// the old build, before the bump). Exits non-zero if any fixture misbehaves.
+//
+// Usage:
+//   npm run check:saves
+//   npm run check:saves -- path/to/more/saves
+// -----------------------------------------------------------------------------
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { bootstrapGameState, getState, loadGameFromString, serializeGame } from '../src/core/GameState';
+import { CURRENT_SAVE_VERSION, migrateSave } from '../src/core/SaveMigration';
+import { formatSaveIssues, validateGameState } from '../src/core/SaveValidation';
+import { hashState } from '../src/core/Replay';
+import { stepTick } from '../src/core/Simulation';
+
+const FIXTURE_DIR = 'scripts/fixtures/saves';
+
+// Long enough for movement, mining and scans in the fixtures to make progress
+const CHECK_TICKS = 300;
+
+/**
+ * Failure reason, or null when the fixture upgrades and plays cleanly
+ */
+function checkUpgradable(name: string, raw: string): string | null {
+  const expected = Number(/^v(\d+)-/.exec(name)?.[1]);
+  const migrated = migrateSave(JSON.parse(raw));
+  if (!migrated.ok) return migrated.reason;
+  if (migrated.fromVersion !== expected) return `named as a v${expected} save but is v${migrated.fromVersion}`;
+  if (migrated.applied.length !== CURRENT_SAVE_VERSION - expected) return `applied ${migrated.applied.length} migrations`;
+
+  const issues = validateGameState(migrated.save);
+  if (issues.length > 0) return formatSaveIssues(issues).join('; ');
+
+  // Migrations are pure: the same save always upgrades the same way
+  if (JSON.stringify(migrateSave(JSON.parse(raw))) !== JSON.stringify(migrated)) return 'migration is not deterministic';
+
+  if (!loadGameFromString(raw)) return 'rejected by loadGameFromString';
+  const st = getState();
+  for (let i = 0; i < CHECK_TICKS; i++) stepTick(st);
+
+  const hash = hashState(getState());
+  if (!loadGameFromString(serializeGame()) || hashState(getState()) !== hash) {
+    return 'save -> load round trip changed the state';
+  }
+  return null;
+}
+
+/**
+ * Failure reason, or null when the fixture is rejected without side effects
+ */
+function checkRejected(raw: string, report: string[]): string | null {
+  bootstrapGameState(1);
+  const before = hashState(getState());
+  const intelBefore = getState().intelLog.length;
+
+  if (loadGameFromString(raw)) return 'corrupt save was accepted';
+  if (hashState(getState()) !== before) return 'rejected load modified the live game';
+
+  report.push(...getState().intelLog.slice(intelBefore).map(e => e.text));
+  return null;
+}
+
+function main(): void {
+  const dirs = [FIXTURE_DIR, ...process.argv.slice(2)];
+  let failures = 0;
+
+  for (const dir of dirs) {
+    for (const name of readdirSync(dir).filter(f => f.endsWith('.json')).sort()) {
+      const raw = readFileSync(`${dir}/${name}`, 'utf8');
+      const report: string[] = [];
+      let failure: string | null;
+      try {
+        failure = name.startsWith('invalid-') ? checkRejected(raw, report)
+          : /^v\d+-/.test(name) ? checkUpgradable(name, raw)
+          : 'fixture names start with v<N>- or invalid-';
+      } catch (err) {
+        failure = `threw ${err instanceof Error ? err.stack ?? err.message : String(err)}`;
+      }
+
+      if (failure) failures++;
+      console.log(`${failure ? 'FAIL' : 'ok  '} ${dir}/${name}${failure ? `: ${failure}` : ''}`);
+      for (const line of report) console.log(`       ${line}`);
+    }
+  }
+
+  console.log(failures > 0 ? `${failures} fixture(s) failed` : `all fixtures ok (save format v${CURRENT_SAVE_VERSION})`);
+  if (failures > 0) process.exitCode = 1;
+}
+
+main();
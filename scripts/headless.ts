@@ -0,0 +1,98 @@
+// scripts/headless.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Headless CLI (Node only; bundled by `npm run sim`)
+//
+// Runs seeded games through src/core/Headless.ts and prints one JSON
+// report per seed (an array when --count > 1) to stdout.
+//
+// Usage:
+//   npm run sim -- --seed 42 --ticks 6000
+//   npm run sim -- --seed 1 --count 500 --ticks 12000 --sample 600 --out sweep.json
+//   npm run sim -- --seed 7 --script repro.json --no-auto
+//
+// Options:
+//   --seed N        first seed (default 1)
+//   --count N       number of consecutive seeds (default 1)
+//   --ticks N       ticks per game (default 3000 = 5 minutes of game time)
+//   --systems N     galaxy size (default: generator default)
+//   --shape S       galaxy shape (RING | SPIRAL | CLUSTER)
+//   --sample N      resource sample interval in ticks (default 100)
+//   --script FILE   JSON array of { tick, command } to issue during the run
+//   --no-auto       disable the auto player (script only / idle)
+//   --keep-going    don't stop at victory or defeat
+//   --out FILE      write the JSON to a file instead of stdout
+// -----------------------------------------------------------------------------
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { runHeadless, runHeadlessBatch, type HeadlessOptions, type ScriptedCommand } from '../src/core/Headless';
+import { DEFAULT_GALAXY_OPTIONS, GALAXY_SHAPES } from '../src/core/GalaxyGenerator';
+import type { GalaxyShape } from '../src/core/types';
+
+function parseArgs(argv: string[]): Record<string, string | true> {
+  const args: Record<string, string | true> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const value = argv[i + 1];
+    if (value !== undefined && !value.startsWith('--')) {
+      args[key] = value;
+      i++;
+    } else {
+      args[key] = true;
+    }
+  }
+  return args;
+}
+
+function intArg(args: Record<string, string | true>, key: string, fallback: number): number {
+  const raw = args[key];
+  if (raw === undefined || raw === true) return fallback;
+  const n = Number.parseInt(raw, 10);
+  if (!Number.isFinite(n)) {
+    throw new Error(`--${key} expects a number, got "${raw}"`);
+  }
+  return n;
+}
+
+function shapeArg(args: Record<string, string | true>, fallback: GalaxyShape): GalaxyShape {
+  const raw = args.shape;
+  if (raw === undefined || raw === true) return fallback;
+  const shape = GALAXY_SHAPES.find(s => s === raw.toUpperCase());
+  if (!shape) {
+    throw new Error(`--shape expects one of ${GALAXY_SHAPES.join(' | ')}, got "${raw}"`);
+  }
+  return shape;
+}
+
+function main(): void {
+  const args = parseArgs(process.argv.slice(2));
+
+  const script = typeof args.script === 'string'
+    ? (JSON.parse(readFileSync(args.script, 'utf8')) as ScriptedCommand[])
+    : undefined;
+
+  const options: HeadlessOptions = {
+    seed: intArg(args, 'seed', 1),
+    ticks: intArg(args, 'ticks', 3000),
+    galaxyOptions: {
+      systemCount: intArg(args, 'systems', DEFAULT_GALAXY_OPTIONS.systemCount),
+      shape: shapeArg(args, DEFAULT_GALAXY_OPTIONS.shape)
+    },
+    autoPlayer: !args['no-auto'],
+    script,
+    sampleEveryTicks: intArg(args, 'sample', 100),
+    stopOnGameOver: !args['keep-going']
+  };
+
+  const count = intArg(args, 'count', 1);
+  const result = count > 1 ? runHeadlessBatch(options, count) : runHeadless(options);
+  const json = `${JSON.stringify(result, null, 2)}\n`;
+  if (typeof args.out === 'string') {
+    writeFileSync(args.out, json);
+  } else {
+    process.stdout.write(json);
+  }
+}
+
+main();
@@ -0,0 +1,115 @@
+// src/core/AutoPlayer.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Scripted Stand-In Player (NO Phaser imports)
+//
+// A deliberately simple player for headless runs and balancing sweeps.
+// It only looks at what the player could see and only acts through
+// Commands, so its runs replay like any human game.
+//
+// Priorities each decision:
+// 1. Idle miners mine the closest known asteroid field (or scout if none)
+// 2. Idle combat fleets suppress pressure where they can hold it down,
+//    otherwise scan the nearest system with missing or stale intel
+// 3. Spare metals become corvettes at the home shipyard, one at a time,
+//    up to a small standing force
+// -----------------------------------------------------------------------------
+
+import { getBlueprints } from './GameState';
+import { HOME_SYSTEM_ID } from './GalaxyGenerator';
+import { findPath, isHostileSystem } from './Pathfinding';
+import { calculatePressureRate, calculateSuppression } from './Pressure';
+import { needsScan } from './Scanning';
+import { getShipyard } from './Shipyard';
+import type { Command, Fleet, GameState, StarSystem } from './types';
+
+// Decide every 5 seconds of game time
+export const AUTO_PLAYER_INTERVAL_TICKS = 50;
+
+// Standing combat hulls the auto player keeps building toward
+// (finished ships may join one rally fleet, so hulls are counted, not fleets)
+const TARGET_COMBAT_SHIPS = 3;
+const AUTO_BUILD_BLUEPRINT = 'CORVETTE';
+
+// Miners stay out of the dangerous outer tiers
+const MAX_MINING_TIER = 2;
+
+/**
+ * Commands the auto player would issue right now.
+ * Pure: reads the state passed in.
+ */
+export function planPlayerCommands(st: GameState): Command[] {
+  const commands: Command[] = [];
+  const fleets = Object.values(st.fleets)
+    .filter(f => f.owner === 'PLAYER' && f.maxMoves > 0)
+    .sort((a, b) => a.id.localeCompare(b.id));
+
+  // Systems already claimed this decision, so two fleets don't chase one target
+  const claimed = new Set<string>();
+
+  for (const fleet of fleets) {
+    if (fleet.task !== 'IDLE') continue;
+
+    if (fleet.miningTier) {
+      const field = closestSystem(st, fleet, sys => canMineAt(st, sys) && !claimed.has(sys.id));
+      if (field) {
+        claimed.add(field);
+        commands.push({ type: 'ASSIGN_TASK', fleetId: fleet.id, task: 'MINE', target: field });
+        continue;
+      }
+    }
+
+    if (calculateSuppression(fleet) > 0) {
+      // Only where this fleet alone outpaces the system; anywhere else it would be crushed
+      const fight = closestSystem(st, fleet, sys => (sys.pressure?.current ?? 0) > 0 && !claimed.has(sys.id)
+        && calculateSuppression(fleet) > calculatePressureRate(sys));
+      if (fight) {
+        claimed.add(fight);
+        commands.push({ type: 'ASSIGN_TASK', fleetId: fleet.id, task: 'SUPPRESS', target: fight });
+        continue;
+      }
+    }
+
+    const scout = closestSystem(st, fleet, sys => needsScan(sys) && !claimed.has(sys.id) && !isHostileSystem(st, sys.id, 'PLAYER'));
+    if (scout) {
+      claimed.add(scout);
+      commands.push({ type: 'ASSIGN_TASK', fleetId: fleet.id, task: 'SCAN', target: scout });
+    }
+  }
+
+  const combatShips = fleets.reduce((sum, f) => sum + f.ships.filter(s => s.type !== 'MINER').length, 0);
+  const bp = getBlueprints().find(b => b.key === AUTO_BUILD_BLUEPRINT);
+  const yard = getShipyard(st.galaxy[HOME_SYSTEM_ID]);
+  const tm = st.resources.tieredMetals;
+  if (bp && yard && yard.queue.length === 0 && combatShips < TARGET_COMBAT_SHIPS
+      && (bp.cost.T1 ?? 0) <= tm.T1 && (bp.cost.T2 ?? 0) <= tm.T2 && (bp.cost.T3 ?? 0) <= tm.T3) {
+    commands.push({ type: 'QUEUE_BUILD', blueprint: bp.key, systemId: HOME_SYSTEM_ID });
+  }
+
+  return commands;
+}
+
+function canMineAt(st: GameState, sys: StarSystem): boolean {
+  const a = sys.asteroids;
+  if (!a || a.yieldRemaining <= 0 || sys.intel === 'UNKNOWN') return false;
+  return sys.id === HOME_SYSTEM_ID || (sys.tier <= MAX_MINING_TIER && !isHostileSystem(st, sys.id, 'PLAYER'));
+}
+
+/**
+ * Matching system with the cheapest known route (the fleet's own system first)
+ */
+function closestSystem(st: GameState, fleet: Fleet, matches: (sys: StarSystem) => boolean): string | null {
+  const here = st.galaxy[fleet.location];
+  if (here && matches(here)) return here.id;
+
+  let best: string | null = null;
+  let bestCost = Infinity;
+  for (const sys of Object.values(st.galaxy).sort((a, b) => a.id.localeCompare(b.id))) {
+    if (sys.id === fleet.location || !matches(sys)) continue;
+    const path = findPath(st, fleet.location, sys.id, 'PLAYER');
+    if (path && path.route.length > 0 && path.cost < bestCost) {
+      bestCost = path.cost;
+      best = sys.id;
+    }
+  }
+  return best;
+}
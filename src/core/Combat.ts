@@ -0,0 +1,385 @@
+// src/core/Combat.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Tactical Fleet Combat (NO Phaser imports)
+//
+// Whenever PLAYER and ENEMY fleets share a system they fight an engagement:
+// - Up to MAX_ROUNDS rounds; every ship still in the fight fires once per
+//   round at a random enemy ship (seeded, so replays agree)
+// - A hit scales with the attacker's firepower (its weapons) and morale, and
+//   is cut down by the target's toughness; each weapon type meets the
+//   target's defensive layers as Weapons.ts says, so composition matters
+// - Damage and lost wingmen cost morale; a fleet whose average morale drops
+//   below MORALE_BREAK routs and leaves the fight (stations can't)
+// - Destroyed ships are removed one by one and leave wrecks
+// - Rank and captain (Veterancy.ts) scale a ship's firepower, toughness and
+//   how much morale it loses; survivors earn XP once the report is filed
+// simulateBattle() is pure and works on copies; applyBattle() writes the
+// result back and files it in battleReports (the last MAX_BATTLE_REPORTS).
+// A system that just fought cools down before the next engagement.
+// predictBattle() runs the same model many times for a pre-battle odds preview.
+// -----------------------------------------------------------------------------
+
+import { getState, pushIntel, assignFleetTask, nextId, refreshFleetStats, reportShipLosses } from './GameState';
+import { issueCommand } from './Commands';
+import { emit } from './Events';
+import { getNeighbors } from './Hyperlanes';
+import { isHostileSystem } from './Pathfinding';
+import { pickRetreat } from './Pressure';
+import { deriveSeed, makeRng, pickOne, randFloat } from './RNG';
+import { estimateWreckLoot, leaveWreck } from './Salvage';
+import { intelConfidenceCap, intelUncertainty } from './Scanning';
+import { createShipFromBlueprint, stockBlueprint } from './ShipDesign';
+import { TICKS_PER_SECOND, consumeTimer, hasTimer, setTimer } from './Simulation';
+import { awardBattleXp, combatProfile } from './Veterancy';
+import { loadoutDamage, scaleLoadout } from './Weapons';
+import type {
+  BattleHit, BattleOdds, BattleReport, BattleResult, BattleRout, BattleShipReport, BattleWreck,
+  EnemySighting, Fleet, FleetOwner, GameState, SalvageLoot, ShipLoadout, SystemIntel
+} from './types';
+
+const MAX_ROUNDS = 8;
+const BATTLE_COOLDOWN_TICKS = 5 * TICKS_PER_SECOND;
+export const MAX_BATTLE_REPORTS = 40;
+
+// Engagements run per odds preview
+const ODDS_SAMPLES = 200;
+
+// Damage per point of firepower before defenses
+const HIT_SCALE = 6;
+
+// Morale lost per point of damage taken, and per friendly ship lost in the fleet
+const MORALE_PER_DAMAGE = 0.75;
+const MORALE_ON_LOSS = 10;
+const MORALE_BREAK = 25;
+
+// What simulateBattle needs of a fleet (previews pass stand-ins)
+type BattleFleet = Pick<Fleet, 'id' | 'name' | 'owner' | 'maxMoves' | 'ships'>;
+
+type Combatant = BattleShipReport & {
+  firepower: number;
+  toughness: number;
+  loadout: ShipLoadout;
+  resolve: number;
+  canFlee: boolean;
+};
+
+// -----------------------------------------------------------------------------
+// Simulation (pure)
+// -----------------------------------------------------------------------------
+
+/**
+ * Fight an engagement between the given fleets without touching them
+ */
+export function simulateBattle(fleets: BattleFleet[], seed: number, systemId: string, tick: number): BattleResult {
+  const rng = makeRng(seed);
+  const ships: Combatant[] = [];
+  for (const fleet of [...fleets].sort((a, b) => a.id.localeCompare(b.id))) {
+    for (const ship of fleet.ships) {
+      ships.push({
+        shipId: ship.id,
+        shipName: ship.name,
+        shipType: ship.type,
+        fleetId: fleet.id,
+        fleetName: fleet.name,
+        owner: fleet.owner,
+        integrityBefore: ship.integrity,
+        integrityAfter: ship.integrity,
+        moraleBefore: ship.morale,
+        moraleAfter: ship.morale,
+        damageDealt: 0,
+        damageTaken: 0,
+        destroyed: false,
+        ...combatProfile(ship),
+        canFlee: fleet.maxMoves > 0
+      });
+    }
+  }
+
+  const routed = new Set<string>();
+  const routs: BattleRout[] = [];
+  const hits: BattleHit[] = [];
+  const fighting = (owner: FleetOwner) =>
+    ships.filter(s => s.owner === owner && !s.destroyed && !routed.has(s.fleetId));
+
+  let rounds = 0;
+  while (rounds < MAX_ROUNDS && fighting('PLAYER').length > 0 && fighting('ENEMY').length > 0) {
+    rounds++;
+    // Everyone in the fight at the start of the round fires, even if hit first
+    const shooters = ships.filter(s => !s.destroyed && !routed.has(s.fleetId) && s.firepower > 0);
+    for (const attacker of shooters) {
+      const targets = fighting(attacker.owner === 'PLAYER' ? 'ENEMY' : 'PLAYER');
+      if (targets.length === 0) continue;
+      const target = pickOne(rng, targets);
+      const damage = rollDamage(attacker, target, randFloat(rng, 0.75, 1.25));
+
+      target.integrityAfter = Math.max(0, target.integrityAfter - damage);
+      target.moraleAfter = Math.max(0, target.moraleAfter - damage * MORALE_PER_DAMAGE / target.resolve);
+      target.damageTaken += damage;
+      attacker.damageDealt += damage;
+
+      const destroyed = target.integrityAfter <= 0;
+      if (destroyed) {
+        target.destroyed = true;
+        for (const mate of ships) {
+          if (mate.fleetId === target.fleetId && !mate.destroyed) {
+            mate.moraleAfter = Math.max(0, mate.moraleAfter - MORALE_ON_LOSS / mate.resolve);
+          }
+        }
+      }
+      hits.push({ round: rounds, attackerId: attacker.shipId, targetId: target.shipId, damage, destroyed });
+    }
+
+    for (const fleetId of new Set(ships.map(s => s.fleetId))) {
+      const alive = ships.filter(s => s.fleetId === fleetId && !s.destroyed);
+      if (alive.length === 0 || routed.has(fleetId) || !alive[0].canFlee) continue;
+      const morale = alive.reduce((sum, s) => sum + s.moraleAfter, 0) / alive.length;
+      if (morale >= MORALE_BREAK) continue;
+      routed.add(fleetId);
+      routs.push({ round: rounds, fleetId });
+    }
+  }
+
+  const playerLeft = fighting('PLAYER').length > 0;
+  const enemyLeft = fighting('ENEMY').length > 0;
+  return {
+    systemId,
+    tick,
+    rounds,
+    winner: playerLeft && !enemyLeft ? 'PLAYER' : enemyLeft && !playerLeft ? 'ENEMY' : null,
+    ships: ships.map(({ firepower, toughness, loadout, resolve, canFlee, ...report }) => ({
+      ...report,
+      integrityAfter: round1(report.integrityAfter),
+      moraleAfter: round1(report.moraleAfter),
+      damageDealt: round1(report.damageDealt),
+      damageTaken: round1(report.damageTaken)
+    })),
+    routs,
+    hits
+  };
+}
+
+function rollDamage(attacker: Combatant, target: Combatant, roll: number): number {
+  const moraleFactor = 0.5 + attacker.moraleAfter / 200;
+  const getsThrough = loadoutDamage(attacker.loadout.weapons, target.toughness, target.loadout.defenses);
+  return round1(getsThrough * HIT_SCALE * roll * moraleFactor);
+}
+
+function round1(n: number): number {
+  return Math.round(n * 10) / 10;
+}
+
+// -----------------------------------------------------------------------------
+// Odds preview (pure)
+// -----------------------------------------------------------------------------
+
+/**
+ * Monte-Carlo odds for sending a fleet into a system, against the enemy
+ * forces the player knows of there (null: none known). Seeded from the run,
+ * fleet and system, so the same question gets the same answer. Each sample
+ * scales enemy strength by up to +/- the intel uncertainty.
+ */
+export function predictBattle(st: GameState, fleetId: string, systemId: string, samples: number = ODDS_SAMPLES): BattleOdds | null {
+  const fleet = st.fleets[fleetId];
+  const sys = st.galaxy[systemId];
+  if (!fleet || fleet.owner !== 'PLAYER' || !sys) return null;
+
+  const visible = st.visibility.visibleSystems.includes(systemId);
+  const enemies = knownEnemyForces(st, systemId, visible);
+  if (enemies.length === 0) return null;
+
+  // Out of sensor range the sightings are old news, whatever the scan level
+  const intel: SystemIntel = visible || intelUncertainty(sys.intel) >= intelUncertainty('STALE') ? sys.intel : 'STALE';
+  const uncertainty = intelUncertainty(intel);
+  const allies = Object.values(st.fleets).filter(f => f.owner === 'PLAYER' && f.location === systemId && f.id !== fleetId);
+
+  const rng = makeRng(deriveSeed(st.runSeed, 'odds', fleetId, systemId));
+  const tally = { wins: 0, losses: 0, draws: 0, lost: 0, killed: 0 };
+  const loot: SalvageLoot = { tieredMetals: {}, alloys: 0, crystals: 0 };
+
+  for (let i = 0; i < samples; i++) {
+    const strength = randFloat(rng, 1 - uncertainty, 1 + uncertainty);
+    const sides = [fleet, ...allies, ...enemies.map(f => scaleFleet(f, strength))];
+    const result = simulateBattle(sides, deriveSeed(st.runSeed, 'odds', fleetId, systemId, i), systemId, st.tick);
+
+    if (result.winner === 'PLAYER') tally.wins++;
+    else if (result.winner === 'ENEMY') tally.losses++;
+    else tally.draws++;
+
+    for (const enemy of enemies) {
+      const wrecked = result.ships.filter(s => s.fleetId === enemy.id && s.destroyed);
+      tally.killed += wrecked.length;
+      addLoot(loot, estimateWreckLoot(wrecked.map(s => s.shipType)));
+    }
+    tally.lost += result.ships.filter(s => s.owner === 'PLAYER' && s.destroyed).length;
+  }
+
+  const average = (n: number) => Math.round(n / samples * 10) / 10;
+  return {
+    samples,
+    enemyShips: enemies.reduce((sum, f) => sum + f.ships.length, 0),
+    winChance: tally.wins / samples,
+    lossChance: tally.losses / samples,
+    drawChance: tally.draws / samples,
+    expectedLosses: average(tally.lost),
+    expectedEnemyLosses: average(tally.killed),
+    expectedLoot: {
+      tieredMetals: {
+        T1: Math.round((loot.tieredMetals.T1 ?? 0) / samples),
+        T2: Math.round((loot.tieredMetals.T2 ?? 0) / samples),
+        T3: Math.round((loot.tieredMetals.T3 ?? 0) / samples)
+      },
+      alloys: Math.round(loot.alloys / samples),
+      crystals: Math.round(loot.crystals / samples)
+    },
+    uncertainty,
+    confidence: intelConfidenceCap(intel)
+  };
+}
+
+/**
+ * Enemy fleets the player can see there, or failing that its last sightings
+ */
+function knownEnemyForces(st: GameState, systemId: string, visible: boolean): BattleFleet[] {
+  if (visible) {
+    return Object.values(st.fleets)
+      .filter(f => f.owner === 'ENEMY' && f.location === systemId && f.ships.length > 0)
+      .sort((a, b) => a.id.localeCompare(b.id));
+  }
+  return Object.values(st.visibility.lastSeen)
+    .filter(seen => seen.systemId === systemId && seen.shipCount > 0)
+    .sort((a, b) => a.fleetId.localeCompare(b.fleetId))
+    .map(standInFleet);
+}
+
+/**
+ * A sighting only tells role and size: assume stock hulls of that role
+ */
+function standInFleet(seen: EnemySighting): BattleFleet {
+  const bp = stockBlueprint(seen.role === 'MINER' ? 'MINER' : 'CORVETTE');
+  const ships = Array.from({ length: seen.shipCount }, (_, i) => createShipFromBlueprint(bp, `${seen.fleetId}-ship-${i}`, `${bp.name}-${i + 1}`));
+  return { id: seen.fleetId, name: seen.name, owner: 'ENEMY', maxMoves: 1, ships };
+}
+
+function scaleFleet(fleet: BattleFleet, strength: number): BattleFleet {
+  return {
+    ...fleet,
+    ships: fleet.ships.map(s => ({
+      ...s,
+      firepower: s.firepower * strength,
+      toughness: s.toughness * strength,
+      loadout: scaleLoadout(s.loadout, strength)
+    }))
+  };
+}
+
+function addLoot(into: SalvageLoot, loot: SalvageLoot): void {
+  for (const tier of ['T1', 'T2', 'T3'] as const) {
+    into.tieredMetals[tier] = (into.tieredMetals[tier] ?? 0) + (loot.tieredMetals[tier] ?? 0);
+  }
+  into.alloys += loot.alloys;
+  into.crystals += loot.crystals;
+}
+
+// -----------------------------------------------------------------------------
+// Applying a result
+// -----------------------------------------------------------------------------
+
+/**
+ * Write an engagement back to the fleets (damage, losses, wrecks, retreats)
+ * and file its report
+ */
+export function applyBattle(result: BattleResult): BattleReport {
+  const state = getState();
+  const wrecks: BattleWreck[] = [];
+  const byFleet = new Map<string, BattleShipReport[]>();
+  for (const s of result.ships) {
+    const mine = byFleet.get(s.fleetId);
+    if (mine) mine.push(s);
+    else byFleet.set(s.fleetId, [s]);
+  }
+
+  for (const [fleetId, results] of byFleet) {
+    const fleet = state.fleets[fleetId];
+    if (!fleet) continue;
+
+    for (const r of results) {
+      const ship = fleet.ships.find(s => s.id === r.shipId);
+      if (!ship) continue;
+      ship.integrity = r.integrityAfter;
+      ship.morale = r.moraleAfter;
+    }
+
+    const destroyed = fleet.ships.filter(s => results.some(r => r.shipId === s.id && r.destroyed));
+    if (destroyed.length > 0) {
+      fleet.ships = fleet.ships.filter(s => !destroyed.includes(s));
+      const wreck = leaveWreck(fleet.location, destroyed, fleet.name);
+      if (wreck) wrecks.push({ wreckId: wreck.id, name: wreck.name, tier: wreck.tier, hulls: wreck.hulls });
+    }
+    if (fleet.ships.length === 0) {
+      delete state.fleets[fleet.id];
+      if (state.selectedFleetId === fleet.id) state.selectedFleetId = null;
+    } else {
+      refreshFleetStats(fleet);
+    }
+    reportShipLosses(fleet, destroyed, 'COMBAT');
+  }
+
+  const report: BattleReport = { id: nextId('BATTLE'), ...result, wrecks };
+  state.battleReports = [...state.battleReports, report].slice(-MAX_BATTLE_REPORTS);
+  emit({ type: 'BattleFought', systemId: report.systemId, report });
+  awardBattleXp(report);
+
+  for (const { fleetId } of report.routs) {
+    const fleet = state.fleets[fleetId];
+    if (fleet) retreat(state, fleet);
+  }
+  return report;
+}
+
+function retreat(state: GameState, fleet: Fleet): void {
+  const sys = state.galaxy[fleet.location];
+  if (!sys) return;
+
+  if (fleet.owner === 'ENEMY') {
+    const options = getNeighbors(state.lanes, sys.id, 'ENEMY')
+      .sort((a, b) => Number(isHostileSystem(state, a, 'ENEMY')) - Number(isHostileSystem(state, b, 'ENEMY')) || a.localeCompare(b));
+    if (options[0]) issueCommand({ type: 'AI_ORDER', fleetId: fleet.id, task: 'MOVE', target: options[0] }, 'AI');
+    return;
+  }
+
+  const fallback = pickRetreat(sys);
+  const result = fallback ? assignFleetTask(fleet.id, 'MOVE', fallback) : { ok: false as const, reason: 'No way out' };
+  if (fallback && result.ok) {
+    pushIntel('MOVE', `ROUTED: ${fleet.name} breaks off and falls back to ${state.galaxy[fallback]?.name ?? fallback}`, { fleetId: fleet.id, systemId: fallback, severity: 'WARNING' });
+  } else if (!result.ok) {
+    pushIntel('ALERT', `ROUTED: ${fleet.name} breaks but cannot escape ${sys.name} (${result.reason})`, { fleetId: fleet.id, systemId: sys.id, severity: 'CRITICAL' });
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Tick
+// -----------------------------------------------------------------------------
+
+/**
+ * Start an engagement in every system holding fleets of both sides
+ */
+export function processCombat(): void {
+  const state = getState();
+  const bySystem = new Map<string, Fleet[]>();
+  for (const fleet of Object.values(state.fleets)) {
+    if (fleet.ships.length === 0) continue;
+    const here = bySystem.get(fleet.location);
+    if (here) here.push(fleet);
+    else bySystem.set(fleet.location, [fleet]);
+  }
+
+  for (const [systemId, fleets] of [...bySystem.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    if (!fleets.some(f => f.owner === 'PLAYER') || !fleets.some(f => f.owner === 'ENEMY')) continue;
+
+    const cooldown = `battle:${systemId}`;
+    if (hasTimer(state, cooldown) && !consumeTimer(state, cooldown)) continue;
+
+    applyBattle(simulateBattle(fleets, deriveSeed(state.runSeed, 'battle', state.tick, systemId), systemId, state.tick));
+    setTimer(state, cooldown, BATTLE_COOLDOWN_TICKS);
+  }
+}
@@ -0,0 +1,146 @@
+// src/core/Commands.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Command Objects & Command Log (NO Phaser imports)
+//
+// Every state-changing action (player or AI) is a plain, serializable
+// Command. issueCommand() stamps it with the current tick, records it in
+// state.commandLog and applies it. Because commands are applied between
+// ticks, replaying the same commands at the same ticks from the same
+// runSeed reproduces the run (see Replay.ts).
+//
+// UI-only actions (selection, pause, game speed, camera) are not commands:
+// they never change simulation results.
+// -----------------------------------------------------------------------------
+
+import {
+  getState,
+  pushIntel,
+  moveFleet,
+  assignFleetTask,
+  queueFleetOrder,
+  clearFleetOrders,
+  setFleetOrderLoop,
+  boostMining,
+  toggleLaneBlockade,
+  buildFleet,
+  buildStation,
+  dismantleFleet,
+  splitFleet,
+  mergeFleets,
+  transferShips,
+  moveFleetInSystem,
+  mineAtFleetPosition,
+  orderAiFleet,
+  endTurn,
+  advanceTurn
+} from './GameState';
+import { startInvasion } from './Invasion';
+import { cancelBuild, moveBuild, queueBuild, setRallyFleet } from './Shipyard';
+import { createDesign, deleteDesign } from './ShipDesign';
+import { setRepairPriority } from './Repair';
+import { reinforcePlanet } from './Reinforcement';
+import type { ActionResult, Command, CommandLog, CommandRecord, CommandSource } from './types';
+
+export function createCommandLog(): CommandLog {
+  return { commands: [], checkpoints: [] };
+}
+
+/**
+ * Stamp, record and apply a command.
+ */
+export function issueCommand(command: Command, source: CommandSource = 'PLAYER'): ActionResult {
+  const state = getState();
+  const record: CommandRecord = {
+    tick: state.tick,
+    seq: state.commandLog.commands.length,
+    source,
+    command: cloneCommand(command)
+  };
+  state.commandLog.commands.push(record);
+  return executeCommand(record.command);
+}
+
+/**
+ * Apply a command without recording it (replay uses this).
+ */
+export function executeCommand(command: Command): ActionResult {
+  switch (command.type) {
+    case 'MOVE_FLEET':
+      return moveFleet(command.fleetId, command.target);
+    case 'ASSIGN_TASK':
+      return assignFleetTask(command.fleetId, command.task, command.target);
+    case 'QUEUE_ORDER':
+      return queueFleetOrder(command.fleetId, command.task, command.target);
+    case 'CLEAR_ORDERS':
+      return clearFleetOrders(command.fleetId);
+    case 'SET_ORDER_LOOP':
+      return setFleetOrderLoop(command.fleetId, command.loop);
+    case 'BOOST_MINING':
+      return boostMining(command.fleetId);
+    case 'TOGGLE_BLOCKADE':
+      return toggleLaneBlockade(command.fleetId, command.target);
+    case 'BUILD_FLEET':
+      return fromBoolean(buildFleet(command.blueprint, command.systemId), 'Build failed');
+    case 'BUILD_STATION':
+      return fromBoolean(buildStation(command.systemId), 'Station build failed');
+    case 'DISMANTLE_FLEET':
+      return fromBoolean(dismantleFleet(command.fleetId), 'Dismantle failed');
+    case 'QUEUE_BUILD':
+      return queueBuild(command.systemId, command.blueprint);
+    case 'CANCEL_BUILD':
+      return cancelBuild(command.systemId, command.orderId);
+    case 'MOVE_BUILD':
+      return moveBuild(command.systemId, command.orderId, command.toIndex);
+    case 'SET_RALLY_FLEET':
+      return setRallyFleet(command.systemId, command.fleetId);
+    case 'CREATE_DESIGN':
+      return createDesign(command.name, command.hull, command.parts);
+    case 'DELETE_DESIGN':
+      return deleteDesign(command.designKey);
+    case 'SET_REPAIR_PRIORITY':
+      return setRepairPriority(command.fleetId, command.priority);
+    case 'SPLIT_FLEET':
+      return splitFleet(command.fleetId, command.shipIds);
+    case 'MERGE_FLEETS':
+      return mergeFleets(command.fleetId, command.intoFleetId);
+    case 'TRANSFER_SHIPS':
+      return transferShips(command.fromFleetId, command.toFleetId, command.shipIds);
+    case 'MOVE_IN_SYSTEM':
+      return moveFleetInSystem(command.fleetId, command.to);
+    case 'MINE_AT_POSITION':
+      return mineAtFleetPosition(command.fleetId);
+    case 'START_INVASION':
+      return fromBoolean(startInvasion(command.planetId, command.strength, 'PLAYER'), 'Invasion failed');
+    case 'REINFORCE_PLANET':
+      return fromBoolean(reinforcePlanet(command.planetId, command.amount, 'PLAYER'), 'Reinforcement failed');
+    case 'END_TURN':
+      endTurn();
+      return { ok: true };
+    case 'ADVANCE_TURN':
+      advanceTurn();
+      return { ok: true };
+    case 'AI_ORDER':
+      return orderAiFleet(command.fleetId, command.task, command.target);
+    default: {
+      const unknown = command as { type?: string };
+      pushIntel('ALERT', `COMMAND REJECTED: unknown command ${unknown.type ?? '?'}`);
+      return { ok: false, reason: 'Unknown command' };
+    }
+  }
+}
+
+/**
+ * Commands recorded for a tick, in issue order
+ */
+export function commandsAtTick(log: CommandLog, tick: number): CommandRecord[] {
+  return log.commands.filter(c => c.tick === tick);
+}
+
+function fromBoolean(ok: boolean, reason: string): ActionResult {
+  return ok ? { ok: true } : { ok: false, reason };
+}
+
+// Commands are plain data; copy so later UI mutation can't rewrite history
+function cloneCommand(command: Command): Command {
+  return JSON.parse(JSON.stringify(command)) as Command;
+}
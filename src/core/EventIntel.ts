@@ -0,0 +1,274 @@
+// src/core/EventIntel.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Intel Log Lines from Domain Events (NO Phaser imports)
+//
+// The intel log is written from the event stream: GameState subscribes
+// describeEvent() to the bus and pushes whatever it returns, with the
+// event's system / fleet / planet, a severity, and a fold group for events
+// that repeat with changing numbers (deliveries, invasion rounds). Events the
+// player shouldn't hear about (unseen enemy hops, trickle income) map to null.
+//
+// Rejections and order feedback ("BUILD FAILED", "ORDER QUEUED") are replies
+// to a command, not things that happened, and are still logged directly.
+// -----------------------------------------------------------------------------
+
+import { getBlueprints } from './GameState';
+import { describeLoot } from './Salvage';
+import { TICKS_PER_SECOND } from './Simulation';
+import { describeCaptain } from './Veterancy';
+import type { IntelDetails } from './IntelLog';
+import type { FleetOwner, GameEvent, GameState, IntelKind, MetalTier, TieredMetals } from './types';
+
+export type IntelLine = IntelDetails & {
+  kind: IntelKind;
+  text: string;
+};
+
+const TIERS: MetalTier[] = ['T1', 'T2', 'T3'];
+
+/**
+ * The intel line for an event, or null if it isn't logged.
+ * Called as the event is emitted, so `st` is the state it just produced.
+ */
+export function describeEvent(st: GameState, event: GameEvent): IntelLine | null {
+  const systemName = (id: string) => st.galaxy[id]?.name ?? id;
+
+  switch (event.type) {
+    case 'FleetArrived': {
+      const refs = { systemId: event.to, fleetId: event.fleetId };
+      if (event.jumpsLeft > 0) {
+        return event.owner === 'PLAYER'
+          ? { kind: 'MOVE', text: `MOVE: ${event.fleetName} reached ${systemName(event.to)} (${event.jumpsLeft} jumps to go)`, ...refs }
+          : null;
+      }
+      if (!event.observed) return null;
+      return {
+        kind: 'MOVE',
+        ...refs,
+        severity: event.owner === 'ENEMY' ? 'WARNING' : 'INFO',
+        text: event.owner === 'PLAYER'
+          ? `MOVE: ${event.fleetName} arrived at ${systemName(event.to)}`
+          : `ENEMY MOVE: ${event.fleetName} -> ${systemName(event.to)}`
+      };
+    }
+
+    case 'FleetBuilt':
+      return { kind: 'BUILD', text: `BUILD: ${event.fleetName} constructed at ${systemName(event.systemId)}.`, systemId: event.systemId, fleetId: event.fleetId };
+
+    case 'ShipBuilt':
+      // A hull that founds a fleet is announced by its FleetBuilt line
+      if (event.newFleet) return null;
+      return {
+        kind: 'BUILD',
+        systemId: event.systemId,
+        fleetId: event.fleetId,
+        text: `SHIPYARD: ${getBlueprints().find(b => b.key === event.blueprint)?.name ?? event.blueprint} completed at ${systemName(event.systemId)}, joined ${event.fleetName}.`
+      };
+
+    case 'ShipPromoted':
+      if (event.owner !== 'PLAYER') return null;
+      return {
+        kind: 'SYSTEM',
+        fleetId: event.fleetId,
+        text: `PROMOTED: ${event.shipName} (${event.fleetName}) is now ${event.rank} through ${event.source.toLowerCase()}` +
+          (event.captain ? ` — ${describeCaptain(event.captain)} takes command` : '')
+      };
+
+    case 'FleetRepaired':
+      return {
+        kind: 'SYSTEM',
+        systemId: event.systemId,
+        fleetId: event.fleetId,
+        text: event.source === 'STATION'
+          ? `REPAIRED: ${event.fleetName} fully repaired at ${systemName(event.systemId)}`
+          : `FIELD REPAIR: ${event.fleetName} patched up as far as its repair bays can`
+      };
+
+    case 'StationBuilt':
+      return {
+        kind: 'BUILD',
+        systemId: event.systemId,
+        fleetId: event.fleetId,
+        text: event.free
+          ? `STATION: ${event.fleetName} established at ${systemName(event.systemId)} (free starter).`
+          : `STATION: ${event.fleetName} constructed at ${systemName(event.systemId)}.`
+      };
+
+    case 'ShipsTransferred': {
+      const ships = `${event.shipIds.length} ship${event.shipIds.length === 1 ? '' : 's'}`;
+      const refs = { systemId: event.systemId, fleetId: event.toFleetId };
+      switch (event.kind) {
+        case 'SPLIT': return { kind: 'SYSTEM', ...refs, text: `FLEET SPLIT: ${event.toFleetName} detached from ${event.fromFleetName} (${ships})` };
+        case 'MERGE': return { kind: 'SYSTEM', ...refs, text: `FLEET MERGED: ${event.fromFleetName} joined ${event.toFleetName} (${ships})` };
+        case 'TRANSFER': return { kind: 'SYSTEM', ...refs, text: `TRANSFER: ${ships} from ${event.fromFleetName} to ${event.toFleetName}` };
+      }
+      break;
+    }
+
+    case 'ShipDestroyed':
+      // Only veterans carry captains; losing one is worth its own line
+      if (event.owner === 'PLAYER' && event.captain) {
+        return {
+          kind: 'ALERT',
+          text: `VETERAN LOST: ${event.fleetName} lost the ${event.rank} ${event.shipName} and Cpt. ${event.captain} to ${event.cause.toLowerCase()}`,
+          severity: 'CRITICAL',
+          systemId: event.systemId,
+          fleetId: event.fleetId
+        };
+      }
+      // The fleet's own FleetDestroyed line covers a total loss
+      if (!st.fleets[event.fleetId]) return null;
+      return {
+        kind: 'ALERT',
+        text: `SHIP LOST: ${event.fleetName} lost a ${event.shipType} to ${event.cause.toLowerCase()}`,
+        severity: 'WARNING',
+        systemId: event.systemId,
+        fleetId: event.fleetId
+      };
+
+    case 'FleetDestroyed':
+      return {
+        kind: 'ALERT',
+        severity: event.owner === 'PLAYER' ? 'CRITICAL' : 'INFO',
+        systemId: event.systemId,
+        fleetId: event.fleetId,
+        text: event.cause === 'PRESSURE'
+          ? `FLEET DESTROYED: ${event.fleetName} was crushed by pressure at ${systemName(event.systemId)}`
+          : `FLEET DESTROYED: ${event.fleetName} was completely destroyed in combat`
+      };
+
+    case 'BattleFought': {
+      const { report } = event;
+      const lost = (owner: FleetOwner) => report.ships.filter(s => s.owner === owner && s.destroyed).length;
+      const playerLosses = lost('PLAYER');
+      const outcome = report.winner === 'PLAYER' ? 'VICTORY' : report.winner === 'ENEMY' ? 'DEFEAT' : 'INDECISIVE';
+      return {
+        kind: 'ALERT',
+        severity: report.winner === 'ENEMY' ? 'CRITICAL' : playerLosses > 0 ? 'WARNING' : 'INFO',
+        systemId: event.systemId,
+        battleId: report.id,
+        // Every engagement keeps its own entry (and report link)
+        group: report.id,
+        text: `COMBAT: ${outcome} at ${systemName(event.systemId)} after ${report.rounds} round${report.rounds === 1 ? '' : 's'} (lost ${playerLosses}, destroyed ${lost('ENEMY')})`
+      };
+    }
+
+    case 'ResourcesGained':
+      return describeResources(st, event);
+
+    case 'BlueprintRecovered':
+      return { kind: 'SALVAGE', text: `BLUEPRINT RECOVERED: ${event.blueprint} can now be built.`, systemId: event.systemId };
+
+    case 'BoostStarted': {
+      const effect = event.multiplier === 2 ? 'doubled' : `x${event.multiplier}`;
+      return { kind: 'BOOST', text: `MINING BOOST: ${event.fleetName} efficiency ${effect} for ${event.durationTicks / TICKS_PER_SECOND} seconds`, fleetId: event.fleetId };
+    }
+
+    case 'BoostExpired':
+      return { kind: 'BOOST', text: `Mining boost expired for ${event.fleetName}`, fleetId: event.fleetId };
+
+    case 'ScanCompleted':
+      return { kind: 'SCAN', text: `SCAN COMPLETE: ${systemName(event.systemId)} fully surveyed by ${event.fleetName}.`, systemId: event.systemId, fleetId: event.fleetId };
+
+    case 'IntelStale':
+      return { kind: 'SCAN', text: `INTEL STALE: ${systemName(event.systemId)} has not been observed recently.`, systemId: event.systemId };
+
+    case 'ContactSighted':
+      return { kind: 'ALERT', text: `CONTACT: ${event.fleetName} sighted at ${systemName(event.systemId)}`, systemId: event.systemId, fleetId: event.fleetId };
+
+    case 'InvasionStarted':
+      return {
+        kind: 'ALERT',
+        text: `INVASION START: ${planetLabel(st, event.systemId, event.planetId)} by ${event.attacker} (STR ${event.strength})`,
+        severity: event.attacker === 'ENEMY' ? 'CRITICAL' : 'WARNING',
+        systemId: event.systemId,
+        planetId: event.planetId
+      };
+
+    case 'InvasionTick':
+      return {
+        kind: 'SYSTEM',
+        text: `INVASION: ${planetLabel(st, event.systemId, event.planetId)} - Turn ${event.turnsOngoing} - Garrison: ${event.garrison}, Invasion: ${event.invasionStrength}, Fortification: ${event.fortification}` +
+          (event.bombardment > 0 ? ` (-${event.bombardment} bombardment)` : ''),
+        group: `invasion:${event.systemId}:${event.planetId}`,
+        systemId: event.systemId,
+        planetId: event.planetId
+      };
+
+    case 'PlanetCaptured':
+      return {
+        kind: 'ALERT',
+        text: `CAPTURED: ${planetLabel(st, event.systemId, event.planetId)} by ${event.by}${describeLosses(event.troopLosses)}`,
+        severity: event.by === 'ENEMY' ? 'CRITICAL' : 'WARNING',
+        systemId: event.systemId,
+        planetId: event.planetId
+      };
+
+    case 'InvasionRepelled':
+      return {
+        kind: 'ALERT',
+        text: `INVASION FAILED: ${planetLabel(st, event.systemId, event.planetId)} defended${describeLosses(event.troopLosses)}`,
+        systemId: event.systemId,
+        planetId: event.planetId
+      };
+
+    case 'PressureChanged': {
+      const name = systemName(event.systemId);
+      const pct = Math.floor(event.pressure);
+      const systemId = event.systemId;
+      switch (event.level) {
+        case 'CRITICAL': return { kind: 'ALERT', severity: 'CRITICAL', systemId, text: `PRESSURE CRITICAL: ${name} ${pct}% — retreat window closing!` };
+        case 'WARNING': return { kind: 'ALERT', severity: 'WARNING', systemId, text: `PRESSURE WARNING: ${name} ${pct}% — fleets taking damage` };
+        case 'CONTAINED': return { kind: 'ALERT', severity: 'INFO', systemId, text: `PRESSURE RISING: ${name} ${pct}%` };
+        case 'SAFE': return { kind: 'SYSTEM', systemId, text: `PRESSURE STABILIZED: ${name} ${pct}%` };
+      }
+      break;
+    }
+
+    case 'PressureCollapsed':
+      return { kind: 'ALERT', severity: 'CRITICAL', systemId: event.systemId, text: `PRESSURE COLLAPSE: ${systemName(event.systemId)} — all fleets forced to retreat!` };
+  }
+  return null;
+}
+
+function describeResources(st: GameState, event: Extract<GameEvent, { type: 'ResourcesGained' }>): IntelLine | null {
+  const fleet = event.fleetName ?? event.fleetId ?? 'Unknown fleet';
+  const systemName = st.galaxy[event.systemId]?.name ?? event.systemId;
+  // One fleet's steady income at one place folds into a single entry
+  const refs = { systemId: event.systemId, fleetId: event.fleetId, group: `${event.source}:${event.fleetId ?? ''}:${event.systemId}` };
+
+  switch (event.source) {
+    case 'MINING': {
+      const tier = TIERS.find(t => event.metals[t]) ?? 'T1';
+      const yieldLeft = st.galaxy[event.systemId]?.asteroids?.yieldRemaining ?? 0;
+      const status = yieldLeft <= 0 ? ' [DEPLETED]' : ` [${Math.floor(yieldLeft)}%]`;
+      return { kind: 'MINE', text: `[${tier}] MINE: ${fleet} mined +${event.metals[tier]} ${tier} metals${status}`, ...refs };
+    }
+    case 'DELIVERY':
+      return { kind: 'MINE', text: `DELIVERED: ${fleet} unloaded ${describeMetals(event.metals)} at ${systemName}`, ...refs };
+    case 'SALVAGE': {
+      const loot = describeLoot({ tieredMetals: event.metals, alloys: event.alloys ?? 0, crystals: event.crystals ?? 0 });
+      return { kind: 'SALVAGE', text: `SALVAGE: ${fleet} recovered ${loot} from ${event.from ?? systemName}`, ...refs };
+    }
+    case 'DISMANTLE':
+      return { kind: 'DISMANTLE', text: `DISMANTLE: ${fleet} dismantled. Recovered ${describeMetals(event.metals)}`, systemId: event.systemId, fleetId: event.fleetId };
+    case 'STATION':
+      // A unit at a time, every few seconds: shown in the resource bar, not the log
+      return null;
+  }
+}
+
+function describeMetals(metals: Partial<TieredMetals>): string {
+  return `[${TIERS.map(t => `${t}:${metals[t] ?? 0}`).join(' ')}]`;
+}
+
+function describeLosses(troopLosses: number | undefined): string {
+  return troopLosses === undefined ? '' : `. Losses: ${troopLosses} troops.`;
+}
+
+function planetLabel(st: GameState, systemId: string, planetId: string): string {
+  const sys = st.galaxy[systemId];
+  const planet = sys?.planets?.[planetId];
+  if (!sys) return planetId;
+  return planet?.name ? `${planet.name} (${sys.name})` : sys.name;
+}
@@ -0,0 +1,81 @@
+// src/core/Events.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Domain Event Bus (NO Phaser imports)
+//
+// Core emits a typed GameEvent at the moment something happens (a fleet
+// arrives, a ship dies, a planet falls). Anyone can listen:
+// - GameState writes the intel log from them (see EventIntel.ts)
+// - Scenes animate from them instead of diffing state every frame
+// - Headless runs tally their statistics from them
+//
+// Delivery is synchronous and in emit order, inside the tick that caused it,
+// so listeners see the state exactly as the event left it. Listeners must not
+// change game state: replays and hashes only cover what systems and commands do.
+// -----------------------------------------------------------------------------
+
+import type { GameEvent, GameEventOf, GameEventType } from './types';
+
+type Listener = (event: GameEvent) => void;
+
+const listeners: Listener[] = [];
+
+// > 0 while events are muted (see withEventsMuted)
+let muted = 0;
+
+// -----------------------------------------------------------------------------
+// Emit
+// -----------------------------------------------------------------------------
+
+/**
+ * Deliver an event to every listener. A failing listener is logged and
+ * skipped, never allowed to break the tick that emitted the event.
+ */
+export function emit(event: GameEvent): void {
+  if (muted > 0) return;
+
+  // Copy: listeners may unsubscribe while handling
+  for (const listener of listeners.slice()) {
+    try {
+      listener(event);
+    } catch (err) {
+      console.error(`[events] ${event.type} listener failed`, err);
+    }
+  }
+}
+
+/**
+ * Run fn with no events delivered (e.g. re-simulating a run to verify it,
+ * which must not animate scenes or log intel a second time)
+ */
+export function withEventsMuted<T>(fn: () => T): T {
+  muted++;
+  try {
+    return fn();
+  } finally {
+    muted--;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Subscribe
+// -----------------------------------------------------------------------------
+
+/**
+ * Listen for one event type. Returns the unsubscribe function.
+ */
+export function onEvent<T extends GameEventType>(type: T, handler: (event: GameEventOf<T>) => void): () => void {
+  return onAnyEvent(event => {
+    if (event.type === type) handler(event as GameEventOf<T>);
+  });
+}
+
+/**
+ * Listen for every event. Returns the unsubscribe function.
+ */
+export function onAnyEvent(handler: Listener): () => void {
+  listeners.push(handler);
+  return () => {
+    const at = listeners.indexOf(handler);
+    if (at >= 0) listeners.splice(at, 1);
+  };
+}
@@ -0,0 +1,533 @@
+// src/core/GalaxyGenerator.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Seeded Procedural Galaxy Generator (NO Phaser imports)
+//
+// Replaces the hard-coded five-system map. Given a run seed and options, it:
+// - grows a connected set of hex cells outward from the home system (SOL)
+//   using a shape-specific weighting (ring, spiral, cluster)
+// - assigns tiers by distance from home (1..3)
+// - rolls system type, asteroids, stations and planets from weighted tables
+// - links systems with hyperlanes (spanning tree + sparse extra lanes)
+//
+// Same seed + same options => identical galaxy. The result is stored in the
+// save and is authoritative; never regenerate on load.
+// -----------------------------------------------------------------------------
+
+import type {
+  Galaxy,
+  GalaxyGenOptions,
+  HyperlaneGraph,
+  GalaxyShape,
+  GalaxySize,
+  HexCoord,
+  MetalTier,
+  Planet,
+  PlanetController,
+  StarSystem,
+  StarSystemType,
+  Station,
+  Wreck
+} from './types';
+import { makeRng, pickWeighted, randInt, deriveSeed, type RNG } from './RNG';
+import { hexDistance, hexKey, hexNeighbor, hexToPixel } from '../utils/hex';
+import { createLane } from './Hyperlanes';
+
+// -----------------------------------------------------------------------------
+// Balance knobs
+// -----------------------------------------------------------------------------
+
+export const HOME_SYSTEM_ID = 'SOL';
+
+export const GALAXY_SIZES: Record<GalaxySize, number> = {
+  SMALL: 12,
+  MEDIUM: 24,
+  LARGE: 48,
+  HUGE: 96
+};
+
+export const GALAXY_SHAPES: GalaxyShape[] = ['CLUSTER', 'RING', 'SPIRAL'];
+
+export const DEFAULT_GALAXY_OPTIONS: GalaxyGenOptions = {
+  systemCount: GALAXY_SIZES.MEDIUM,
+  shape: 'CLUSTER'
+};
+
+const MIN_SYSTEMS = 4;
+const MAX_SYSTEMS = 256;
+const MAX_TIER = 3;
+
+// Weighted system type distribution by tier (TDD §7.6, extended with legacy types)
+const SYSTEM_TYPE_WEIGHTS: Record<number, Partial<Record<StarSystemType, number>>> = {
+  1: { EMPTY_SPACE: 35, MINING_SYSTEM: 25, DERELICT: 8, STAR: 15, NEBULA: 10, RUIN: 4, ANOMALY: 3 },
+  2: { EMPTY_SPACE: 25, MINING_SYSTEM: 25, DERELICT: 15, HOSTILE_STRONGHOLD: 8, STAR: 8, NEBULA: 8, RUIN: 6, ANOMALY: 5 },
+  3: { EMPTY_SPACE: 12, MINING_SYSTEM: 18, DERELICT: 18, HOSTILE_STRONGHOLD: 22, ABYSS_ZONE: 8, NEBULA: 6, RUIN: 8, ANOMALY: 8 }
+};
+
+// Chance that a system of this type carries an asteroid field
+const ASTEROID_CHANCE: Record<StarSystemType, number> = {
+  EMPTY_SPACE: 0.25,
+  MINING_SYSTEM: 1.0,
+  DERELICT: 0.3,
+  HOSTILE_STRONGHOLD: 0.3,
+  ABYSS_ZONE: 0.5,
+  STAR: 0.5,
+  NEBULA: 0.6,
+  RUIN: 0.3,
+  ANOMALY: 0.4
+};
+
+const METAL_TIER_WEIGHTS: Record<number, Record<MetalTier, number>> = {
+  1: { T1: 80, T2: 18, T3: 2 },
+  2: { T1: 45, T2: 40, T3: 15 },
+  3: { T1: 20, T2: 45, T3: 35 }
+};
+
+// Asteroid richness distribution (TDD §7.6): POOR / NORMAL / RICH / ABUNDANT
+const RICHNESS_WEIGHTS: { item: number; weight: number }[] = [
+  { item: 0.5, weight: 30 },
+  { item: 1.0, weight: 50 },
+  { item: 1.5, weight: 15 },
+  { item: 2.0, weight: 5 }
+];
+
+// Planet count range [min, max] per system type
+const PLANET_COUNT: Record<StarSystemType, [number, number]> = {
+  EMPTY_SPACE: [0, 1],
+  MINING_SYSTEM: [0, 2],
+  DERELICT: [0, 1],
+  HOSTILE_STRONGHOLD: [1, 3],
+  ABYSS_ZONE: [0, 0],
+  STAR: [1, 3],
+  NEBULA: [0, 2],
+  RUIN: [1, 2],
+  ANOMALY: [0, 1]
+};
+
+// Ancient hulks [min, max] in DERELICT systems (salvage targets)
+const DERELICT_WRECKS: [number, number] = [1, 3];
+
+// Hyperlanes: a random spanning tree over hex-adjacent systems guarantees
+// connectivity; extra lanes add loops. Sparse extras leave chokepoints.
+const EXTRA_ADJACENT_LANE_CHANCE = 0.3;
+const LONG_LANE_CHANCE = 0.06; // lanes jumping a two-hex gap
+const LANE_DRAG_WEIGHTS: { item: number; weight: number }[] = [
+  { item: 1.0, weight: 70 },
+  { item: 1.5, weight: 20 },
+  { item: 2.0, weight: 10 }
+];
+
+const ROMAN = ['I', 'II', 'III', 'IV', 'V', 'VI'];
+
+const NAME_POOL = [
+  'Alpha', 'Beta', 'Gamma', 'Delta', 'Epsilon', 'Zeta', 'Eta', 'Theta', 'Iota', 'Kappa',
+  'Lambda', 'Mu', 'Nu', 'Xi', 'Omicron', 'Pi', 'Rho', 'Sigma', 'Tau', 'Upsilon',
+  'Phi', 'Chi', 'Psi', 'Omega', 'Vega', 'Rigel', 'Deneb', 'Altair', 'Sirius', 'Procyon',
+  'Antares', 'Castor', 'Pollux', 'Mira', 'Algol', 'Spica', 'Regulus', 'Capella', 'Arcturus', 'Hadar',
+  'Mimosa', 'Shaula', 'Bellatrix', 'Elnath', 'Alnilam', 'Alnitak', 'Mintaka', 'Saiph', 'Wezen', 'Adhara',
+  'Izar', 'Kochab', 'Mizar', 'Alcor', 'Merak', 'Dubhe', 'Phecda', 'Megrez', 'Alioth', 'Thuban',
+  'Nashira', 'Sadr', 'Tarazed', 'Zosma', 'Denebola', 'Alphard', 'Naos', 'Avior', 'Atria', 'Peacock'
+];
+
+// -----------------------------------------------------------------------------
+// Public API
+// -----------------------------------------------------------------------------
+
+/**
+ * Generate a complete galaxy for a run.
+ * @param runSeed - Run seed (GameState.runSeed)
+ * @param options - Size and shape; defaults to DEFAULT_GALAXY_OPTIONS
+ * @returns Galaxy record keyed by system id. The home system is always `SOL` at {0,0}.
+ */
+export function generateGalaxy(runSeed: number, options: GalaxyGenOptions = DEFAULT_GALAXY_OPTIONS): Galaxy {
+  const count = Math.max(MIN_SYSTEMS, Math.min(MAX_SYSTEMS, Math.floor(options.systemCount)));
+
+  // Separate streams so that changing one roll table never reshapes the map.
+  const layoutRng = makeRng(deriveSeed(runSeed, 'layout', options.shape, count));
+  const coords = layoutCoords(layoutRng, count, options.shape);
+
+  const maxDist = coords.reduce((m, c) => Math.max(m, hexDistance(c, { q: 0, r: 0 })), 1);
+  const names = assignNames(makeRng(deriveSeed(runSeed, 'names')), coords.length - 1);
+
+  const galaxy: Galaxy = {};
+  galaxy[HOME_SYSTEM_ID] = createHomeSystem(runSeed);
+
+  for (let i = 1; i < coords.length; i++) {
+    const coord = coords[i];
+    const name = names[i - 1];
+    const id = uniqueId(galaxy, name.toUpperCase());
+    const seed = deriveSeed(runSeed, 'system', coord.q, coord.r);
+    const tier = tierForDistance(hexDistance(coord, { q: 0, r: 0 }), maxDist);
+
+    galaxy[id] = rollSystem(makeRng(seed), { id, name, coord, seed, tier });
+  }
+
+  return galaxy;
+}
+
+/**
+ * Map a hex distance from home to a tier in 1..MAX_TIER.
+ * Normalized against the farthest system so small and large maps both span all tiers.
+ */
+export function tierForDistance(dist: number, maxDist: number): number {
+  if (dist <= 0) return 1;
+  return Math.min(MAX_TIER, 1 + Math.floor((dist / (maxDist + 1)) * MAX_TIER));
+}
+
+/**
+ * Generate the hyperlane graph for a galaxy.
+ * Every system is reachable from home; lane travel multipliers scale with the
+ * hex span of the lane plus a seeded drag factor (nebulae add more drag).
+ * @param runSeed - Run seed (GameState.runSeed)
+ * @param galaxy - Galaxy produced by generateGalaxy
+ */
+export function generateHyperlanes(runSeed: number, galaxy: Galaxy): HyperlaneGraph {
+  const rng = makeRng(deriveSeed(runSeed, 'lanes'));
+  const ids = Object.keys(galaxy).sort();
+  const lanes: HyperlaneGraph = {};
+
+  const adjacent: [string, string][] = [];
+  const gaps: [string, string][] = [];
+  for (let i = 0; i < ids.length; i++) {
+    for (let j = i + 1; j < ids.length; j++) {
+      const d = hexDistance(galaxy[ids[i]].coord, galaxy[ids[j]].coord);
+      if (d === 1) adjacent.push([ids[i], ids[j]]);
+      else if (d === 2) gaps.push([ids[i], ids[j]]);
+    }
+  }
+
+  const addLane = (a: string, b: string) => {
+    const span = hexDistance(galaxy[a].coord, galaxy[b].coord);
+    const nebula = galaxy[a].type === 'NEBULA' || galaxy[b].type === 'NEBULA' ? 0.5 : 0;
+    const lane = createLane(a, b, span * pickWeighted(rng, LANE_DRAG_WEIGHTS) + nebula);
+    lanes[lane.id] = lane;
+  };
+
+  // Kruskal over randomly ordered adjacent pairs -> random spanning tree
+  const parent: Record<string, string> = {};
+  ids.forEach(id => (parent[id] = id));
+  const find = (id: string): string => {
+    while (parent[id] !== id) {
+      parent[id] = parent[parent[id]];
+      id = parent[id];
+    }
+    return id;
+  };
+
+  const order = adjacent.map(pair => ({ pair, key: rng() })).sort((x, y) => x.key - y.key);
+  const extras: [string, string][] = [];
+  for (const { pair } of order) {
+    const ra = find(pair[0]);
+    const rb = find(pair[1]);
+    if (ra === rb) {
+      extras.push(pair);
+      continue;
+    }
+    parent[ra] = rb;
+    addLane(pair[0], pair[1]);
+  }
+
+  for (const [a, b] of extras) {
+    if (rng() < EXTRA_ADJACENT_LANE_CHANCE) addLane(a, b);
+  }
+  for (const [a, b] of gaps) {
+    if (rng() < LONG_LANE_CHANCE) addLane(a, b);
+  }
+
+  return lanes;
+}
+
+// -----------------------------------------------------------------------------
+// Layout
+// -----------------------------------------------------------------------------
+
+/**
+ * Grow `count` connected hex cells outward from the origin.
+ * Each step picks one frontier cell weighted by the shape function, so the
+ * map is always connected to home by hex adjacency.
+ */
+function layoutCoords(rng: RNG, count: number, shape: GalaxyShape): HexCoord[] {
+  const origin: HexCoord = { q: 0, r: 0 };
+  const placed: HexCoord[] = [origin];
+  const used = new Set<string>([hexKey(origin)]);
+  const frontier = new Map<string, HexCoord>();
+
+  const ringRadius = Math.max(2, Math.round(count / 7));
+  const addFrontier = (c: HexCoord) => {
+    for (let d = 0; d < 6; d++) {
+      const n = hexNeighbor(c, d);
+      const k = hexKey(n);
+      if (!used.has(k)) frontier.set(k, n);
+    }
+  };
+  addFrontier(origin);
+
+  while (placed.length < count) {
+    const candidates = Array.from(frontier.values()).map(c => ({
+      item: c,
+      weight: shapeWeight(shape, c, ringRadius)
+    }));
+    const next = pickWeighted(rng, candidates);
+    const k = hexKey(next);
+
+    frontier.delete(k);
+    used.add(k);
+    placed.push(next);
+    addFrontier(next);
+  }
+
+  return placed;
+}
+
+function shapeWeight(shape: GalaxyShape, c: HexCoord, ringRadius: number): number {
+  const d = hexDistance(c, { q: 0, r: 0 });
+
+  switch (shape) {
+    case 'CLUSTER':
+      // Compact blob: strongly prefer cells near home.
+      return 1 / ((1 + d) * (1 + d));
+
+    case 'RING': {
+      // Band at ringRadius; inner cells only grow as a thin spoke.
+      const off = d - ringRadius;
+      return 0.02 + Math.exp(-(off * off));
+    }
+
+    case 'SPIRAL': {
+      // Two logarithmic-ish arms: weight by angular distance to the nearest arm.
+      const p = hexToPixel(c, 1);
+      const radius = Math.sqrt(p.x * p.x + p.y * p.y);
+      if (radius < 1.5) return 1;
+      const theta = Math.atan2(p.y, p.x);
+      let best = Math.PI;
+      for (let arm = 0; arm < 2; arm++) {
+        const armTheta = radius * 0.45 + arm * Math.PI;
+        let diff = Math.abs(theta - armTheta) % (Math.PI * 2);
+        if (diff > Math.PI) diff = Math.PI * 2 - diff;
+        best = Math.min(best, diff);
+      }
+      const arcDist = best * radius;
+      return 0.02 + Math.exp(-(arcDist * arcDist) / 2) / (1 + d * 0.1);
+    }
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Naming
+// -----------------------------------------------------------------------------
+
+function assignNames(rng: RNG, count: number): string[] {
+  // Seeded shuffle of the pool; overflow reuses names with a numeric suffix.
+  const pool = NAME_POOL.slice();
+  for (let i = pool.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [pool[i], pool[j]] = [pool[j], pool[i]];
+  }
+
+  const names: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const base = pool[i % pool.length];
+    const cycle = Math.floor(i / pool.length);
+    names.push(cycle === 0 ? base : `${base} ${cycle + 1}`);
+  }
+  return names;
+}
+
+function uniqueId(galaxy: Galaxy, base: string): string {
+  const clean = base.replace(/[^A-Z0-9]+/g, '-');
+  let id = clean;
+  let n = 2;
+  while (galaxy[id]) {
+    id = `${clean}-${n++}`;
+  }
+  return id;
+}
+
+// -----------------------------------------------------------------------------
+// System contents
+// -----------------------------------------------------------------------------
+
+function createHomeSystem(runSeed: number): StarSystem {
+  const seed = deriveSeed(runSeed, 'system', 0, 0);
+  const rng = makeRng(seed);
+  const planets: Record<string, Planet> = {};
+
+  const home: StarSystem = {
+    id: HOME_SYSTEM_ID,
+    name: 'Sol',
+    coord: { q: 0, r: 0 },
+    seed,
+    discovered: true,
+    type: 'STAR',
+    tier: 1,
+    intel: 'SCANNED',
+    // Guaranteed starter field so the opening miner always has work.
+    asteroids: {
+      metalTier: 'T1',
+      richness: 1.0,
+      yieldRemaining: 100,
+      totalYield: 1000
+    },
+    planets
+  };
+
+  const planetCount = randInt(rng, 1, 2);
+  for (let i = 0; i < planetCount; i++) {
+    planets[`${HOME_SYSTEM_ID}-P${i + 1}`] = rollPlanet(rng, `Sol ${ROMAN[i]}`, 'PLAYER', 1);
+  }
+
+  return home;
+}
+
+function rollSystem(
+  rng: RNG,
+  base: { id: string; name: string; coord: HexCoord; seed: number; tier: number }
+): StarSystem {
+  const weights = SYSTEM_TYPE_WEIGHTS[base.tier] ?? SYSTEM_TYPE_WEIGHTS[MAX_TIER];
+  const type = pickWeighted(
+    rng,
+    (Object.entries(weights) as [StarSystemType, number][]).map(([item, weight]) => ({ item, weight }))
+  );
+
+  const sys: StarSystem = {
+    ...base,
+    discovered: false,
+    type,
+    intel: 'UNKNOWN'
+  };
+
+  if (rng() < ASTEROID_CHANCE[type]) {
+    const tierWeights = METAL_TIER_WEIGHTS[base.tier] ?? METAL_TIER_WEIGHTS[MAX_TIER];
+    sys.asteroids = {
+      metalTier: pickWeighted(
+        rng,
+        (Object.entries(tierWeights) as [MetalTier, number][]).map(([item, weight]) => ({ item, weight }))
+      ),
+      richness: pickWeighted(rng, RICHNESS_WEIGHTS),
+      yieldRemaining: 100,
+      totalYield: randInt(rng, 8, 16) * 100
+    };
+  }
+
+  const station = rollStation(rng, sys);
+  if (station) sys.station = station;
+
+  if (type === 'DERELICT') {
+    sys.wrecks = rollDerelictField(sys);
+  }
+
+  const [minPlanets, maxPlanets] = PLANET_COUNT[type];
+  const planetCount = randInt(rng, minPlanets, maxPlanets);
+  if (planetCount > 0) {
+    const controller: PlanetController = type === 'HOSTILE_STRONGHOLD' ? 'ENEMY' : 'NEUTRAL';
+    sys.planets = {};
+    for (let i = 0; i < planetCount; i++) {
+      sys.planets[`${sys.id}-P${i + 1}`] = rollPlanet(rng, `${sys.name} ${ROMAN[i]}`, controller, base.tier);
+    }
+  }
+
+  return sys;
+}
+
+function rollStation(rng: RNG, sys: StarSystem): Station | null {
+  const isDerelict = sys.type === 'DERELICT' || (sys.type === 'RUIN' && rng() < 0.3);
+
+  if (isDerelict) {
+    return {
+      id: `${sys.id}-STATION`,
+      name: `${sys.name} Hulk`,
+      owner: 'NEUTRAL',
+      type: pickWeighted(rng, [
+        { item: 'MINING' as const, weight: 3 },
+        { item: 'INDUSTRIAL' as const, weight: 3 },
+        { item: 'MILITARY' as const, weight: 2 },
+        { item: 'RESEARCH' as const, weight: 2 }
+      ]),
+      state: 'DERELICT',
+      integrity: randInt(rng, 10, 40),
+      functional: false,
+      salvageRemaining: 100
+    };
+  }
+
+  if (sys.type === 'HOSTILE_STRONGHOLD') {
+    return {
+      id: `${sys.id}-STATION`,
+      name: `${sys.name} Bastion`,
+      owner: 'ENEMY',
+      type: 'MILITARY',
+      state: 'ENEMY',
+      integrity: 100,
+      functional: true
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Ancient hulks drifting in a DERELICT system. Uses its own derived stream so
+ * adding wrecks doesn't shift any other roll for the system.
+ */
+function rollDerelictField(sys: StarSystem): Wreck[] {
+  const rng = makeRng(deriveSeed(sys.seed, 'derelict-field'));
+  const count = randInt(rng, DERELICT_WRECKS[0], DERELICT_WRECKS[1]);
+  const wrecks: Wreck[] = [];
+  for (let i = 0; i < count; i++) {
+    wrecks.push({
+      id: `${sys.id}-HULK-${i + 1}`,
+      name: `${sys.name} Hulk ${i + 1}`,
+      source: 'DERELICT',
+      tier: Math.min(MAX_TIER, sys.tier + (rng() < 0.25 ? 1 : 0)),
+      hulls: randInt(rng, 1, 3),
+      scrapRemaining: 100,
+      seed: deriveSeed(sys.seed, 'hulk', i)
+    });
+  }
+  return wrecks;
+}
+
+function rollPlanet(rng: RNG, name: string, controller: PlanetController, tier: number): Planet {
+  const garrison =
+    controller === 'NEUTRAL' ? 0 :
+    controller === 'PLAYER' ? 50 :
+    randInt(rng, 15, 30) + tier * 15;
+  const fortification =
+    controller === 'NEUTRAL' ? randInt(rng, 10, 30) :
+    controller === 'PLAYER' ? 40 :
+    randInt(rng, 30, 60) + tier * 5;
+
+  return {
+    name,
+    controller,
+    groundTroops: garrison,
+    defenses: fortification,
+    population: randInt(rng, 1000, 11000),
+    defense: {
+      control: controller,
+      garrison,
+      fortification,
+      unrest: 0
+    }
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Queries used by bootstrap
+// -----------------------------------------------------------------------------
+
+/**
+ * Pick where the opening enemy fleet spawns: the farthest hostile stronghold,
+ * else the farthest system from home.
+ */
+export function findEnemyStartSystem(galaxy: Galaxy): string {
+  const systems = Object.values(galaxy).filter(s => s.id !== HOME_SYSTEM_ID);
+  if (systems.length === 0) return HOME_SYSTEM_ID;
+
+  const byDistance = (a: StarSystem, b: StarSystem) =>
+    hexDistance(b.coord, { q: 0, r: 0 }) - hexDistance(a.coord, { q: 0, r: 0 }) || a.id.localeCompare(b.id);
+
+  const strongholds = systems.filter(s => s.type === 'HOSTILE_STRONGHOLD').sort(byDistance);
+  if (strongholds.length > 0) return strongholds[0].id;
+
+  return systems.sort(byDistance)[0].id;
+}
@@ -4,12 +4,14 @@
 //
 // Includes:
 // - New Game bootstrap
-// - Save/Load (localStorage)
+// - Save/Load serialization (storage + slots: SaveStorage.ts, versions: SaveMigration.ts)
 // - Select system/fleet
-// - Movement (adjacent hex, costs 1 move)
+// - Movement (along hyperlanes, costs 1 move)
 // - End Turn (resets moves, runs ENEMY step)
+// - Per-tick systems registered with the Simulation engine
 // - Mining tick (miners harvest if stationed on asteroids)
 // - Build fleet (spend tiered metals)
+// - Intel log, written from domain events (Events.ts, EventIntel.ts)
 // -----------------------------------------------------------------------------
 
 import {
@@ -26,16 +28,12 @@ import {
   Resources,
   TieredMetals,
   MetalTier,
-  SystemIntel,
   StarSystem,
   PlanetController,
   Planet,
   HexCoord,
   SystemObjectType,
   SystemObjectRef,
-  CombatOutcomeType,
-  CombatIntel,
-  CombatOutcome,
   VictoryType,
   VictoryCheck,
   VictoryResult,
@@ -44,20 +42,59 @@ import {
   DefeatResult,
   ActionResult,
   FleetTask,
-  MiningBoost
+  FleetOrder,
+  MiningBoost,
+  GalaxyGenOptions,
+  StationType,
+  DamageCause,
+  Blueprint
 } from './types';
 
 import { hexDistance } from '../utils/hex';
 import { resolveInvasions } from './Invasion';
-import { getAsteroidHex, isAsteroidHex } from './systemLayout';
-
-const STORAGE_KEY = 'hexfleet_save_v2';
+import { getAsteroidHex, isAsteroidHex, getSystemObjectPositions } from './systemLayout';
+import { generateGalaxy, generateHyperlanes, findEnemyStartSystem, DEFAULT_GALAXY_OPTIONS, HOME_SYSTEM_ID } from './GalaxyGenerator';
+import { findPath } from './Pathfinding';
+import { getLane, getNeighbors, laneDistances, laneTravelMultiplier, isLanePassable } from './Hyperlanes';
+import { ageIntel, beginScan, needsScan, processScan, revealOnArrival } from './Scanning';
+import { isSystemVisible, updateVisibility } from './Visibility';
+import { hasSalvage, leaveWreck, processSalvage } from './Salvage';
+import { processShipyards } from './Shipyard';
+import { processRepairs } from './Repair';
+import { processCombat } from './Combat';
+import { awardMiningXp, getRank, miningMultiplier, mournLosses, processVeterancy } from './Veterancy';
+import { createShipFromBlueprint, hullUnlocked, listBlueprints, stockBlueprint } from './ShipDesign';
+import { calculatePressureRate, calculateSuppression, processPressure } from './Pressure';
+import { deriveSeed, makeRng, randInt } from './RNG';
+import { createCommandLog, issueCommand } from './Commands';
+import { recordCheckpoint } from './Replay';
+import { CURRENT_SAVE_VERSION } from './SaveMigration';
+import { parseSave } from './SaveValidation';
+import { emit, onAnyEvent } from './Events';
+import { describeEvent } from './EventIntel';
+import { recordIntel, type IntelDetails } from './IntelLog';
+import {
+  GAME_SPEEDS,
+  TICKS_PER_SECOND,
+  createSimClock,
+  everyTicks,
+  feedRealTime,
+  getSpeed,
+  registerSimSystem,
+  setTimer,
+  clearTimer,
+  consumeTimer,
+  stepTick,
+  type GameSpeed
+} from './Simulation';
+
+export { GAME_SPEEDS, TICKS_PER_SECOND, type GameSpeed };
 
 // -----------------------------------------------------------------------------
 // Real-time balance knobs
 // -----------------------------------------------------------------------------
 
-const TICKS_PER_SECOND = 10;
+const MOVE_TICKS_PER_LANE = 30; // 3 seconds to cross a lane with multiplier 1
 const MINER_YIELD_PER_SECOND: Record<MetalTier, number> = {
   T1: 2,   // Base metals per second
   T2: 5,
@@ -70,6 +107,9 @@ const MINER_YIELD_PER_TICK: Record<MetalTier, number> = {
   T3: MINER_YIELD_PER_SECOND.T3 / TICKS_PER_SECOND
 };
 
+// Cargo hold: ore mined away from a friendly station is carried until docking
+const CARGO_PER_MINER = 40;
+
 // Legacy turn-based constants (kept for compatibility)
 const MOVES_PER_TURN = 2;
 const MINER_YIELD_PER_TURN: Record<MetalTier, number> = {
@@ -78,21 +118,8 @@ const MINER_YIELD_PER_TURN: Record<MetalTier, number> = {
   T3: 9
 };
 
-type Blueprint = {
-  key: string;
-  name: string;
-  shipType: ShipType;
-  cost: Partial<TieredMetals>;
-};
-
-const BLUEPRINTS: Blueprint[] = [
-  { key: 'CORVETTE', name: 'Corvette', shipType: 'CORVETTE', cost: { T1: 10 } },
-  { key: 'FRIGATE', name: 'Frigate', shipType: 'FRIGATE', cost: { T1: 15, T2: 5 } },
-  { key: 'DESTROYER', name: 'Destroyer', shipType: 'DESTROYER', cost: { T2: 10, T3: 2 } },
-];
-
 function blueprintByKey(key: string): Blueprint | undefined {
-  return BLUEPRINTS.find(b => b.key === key);
+  return getBlueprints().find(b => b.key === key);
 }
 
 // -----------------------------------------------------------------------------
@@ -109,21 +136,23 @@ function now(): number {
   return Date.now();
 }
 
-function uid(): string {
-  // Simple deterministic-ish id for logs
-  return `${Date.now()}-${Math.floor(Math.random() * 1e9)}`;
+/**
+ * Deterministic entity id (part of the simulation; same commands = same ids)
+ */
+export function nextId(prefix: string): string {
+  return `${prefix}-${state.nextEntityId++}`;
 }
 
 function ensureTieredMetals(tm?: TieredMetals): TieredMetals {
   return tm ?? { T1: 0, T2: 0, T3: 0 };
 }
 
-function canAfford(resources: GameState['resources'], cost: Partial<TieredMetals>): boolean {
+export function canAfford(resources: GameState['resources'], cost: Partial<TieredMetals>): boolean {
   const tm = resources.tieredMetals;
   return (cost.T1 ?? 0) <= tm.T1 && (cost.T2 ?? 0) <= tm.T2 && (cost.T3 ?? 0) <= tm.T3;
 }
 
-function pay(resources: GameState['resources'], cost: Partial<TieredMetals>): void {
+export function pay(resources: GameState['resources'], cost: Partial<TieredMetals>): void {
   resources.tieredMetals.T1 -= (cost.T1 ?? 0);
   resources.tieredMetals.T2 -= (cost.T2 ?? 0);
   resources.tieredMetals.T3 -= (cost.T3 ?? 0);
@@ -133,22 +162,27 @@ function addMetals(resources: GameState['resources'], tier: MetalTier, amount: n
   resources.tieredMetals[tier] += amount;
 }
 
-export function pushIntel(kind: IntelEntry['kind'], text: string): void {
-  state.intelLog.push({
-    id: uid(),
-    turn: state.turn,
-    tick: state.tick,  // NEW: tick-level precision
-    ts: now(),
-    kind,
-    text
-  });
-
-  // keep log bounded
-  if (state.intelLog.length > 200) {
-    state.intelLog.splice(0, state.intelLog.length - 200);
+/**
+ * Log a line to the intel archive (see IntelLog.ts). Details say what it is
+ * about and how serious it is; repeats fold into one entry.
+ */
+export function pushIntel(kind: IntelEntry['kind'], text: string, details: IntelDetails = {}): void {
+  // No game yet (e.g. loading from the main menu): nowhere to log but the console
+  if (!state) {
+    console.warn(`[${kind}] ${text}`);
+    return;
   }
+
+  recordIntel(state, kind, text, details, now());
 }
 
+// Everything worth telling the player about is logged from the event stream
+onAnyEvent(event => {
+  if (!state) return;
+  const line = describeEvent(state, event);
+  if (line) pushIntel(line.kind, line.text, line);
+});
+
 function getSystem(id: string): StarSystem | null {
   return state.galaxy[id] ?? null;
 }
@@ -165,7 +199,8 @@ function systemHasAsteroids(id: string): boolean {
 
 function resetMovesFor(owner: 'PLAYER' | 'ENEMY'): void {
   for (const f of Object.values(state.fleets)) {
-    if (f.owner !== owner) continue;
+    // Stations (maxMoves 0) stay immobile
+    if (f.owner !== owner || f.maxMoves === 0) continue;
     f.maxMoves = MOVES_PER_TURN;
     f.movesLeft = MOVES_PER_TURN;
   }
@@ -175,135 +210,19 @@ function resetMovesFor(owner: 'PLAYER' | 'ENEMY'): void {
 // Bootstrap seed
 // -----------------------------------------------------------------------------
 
-function seedGalaxy(): Galaxy {
-  const g: Galaxy = {
-    SOL: {
-      id: 'SOL',
-      name: 'Sol',
-      coord: { q: 0, r: 0 },
-      seed: 1,
-      discovered: true,
-      type: 'STAR',
-      tier: 1,
-      intel: 'SCANNED',
-      asteroids: { 
-        metalTier: 'T1', 
-        richness: 0.75,
-        yieldRemaining: 100,
-        totalYield: 1000 // Base total yield
-      }
-    },
-    ALPHA: {
-      id: 'ALPHA',
-      name: 'Alpha',
-      coord: { q: 1, r: 0 },
-      seed: 2,
-      discovered: false,
-      type: 'STAR',
-      tier: 1,
-      intel: 'UNKNOWN',
-      asteroids: { 
-        metalTier: 'T2', 
-        richness: 1.0,
-        yieldRemaining: 100,
-        totalYield: 1500
-      }
-    },
-    BETA: {
-      id: 'BETA',
-      name: 'Beta',
-      coord: { q: 0, r: 1 },
-      seed: 3,
-      discovered: false,
-      type: 'NEBULA',
-      tier: 1,
-      intel: 'UNKNOWN',
-      asteroids: { 
-        metalTier: 'T1', 
-        richness: 1.25,
-        yieldRemaining: 100,
-        totalYield: 1200
-      }
-    },
-    GAMMA: {
-      id: 'GAMMA',
-      name: 'Gamma',
-      coord: { q: -1, r: 1 },
-      seed: 4,
-      discovered: false,
-      type: 'RUIN',
-      tier: 2,
-      intel: 'UNKNOWN'
-    },
-    DELTA: {
-      id: 'DELTA',
-      name: 'Delta',
-      coord: { q: -1, r: 0 },
-      seed: 5,
-      discovered: false,
-      type: 'ANOMALY',
-      tier: 2,
-      intel: 'UNKNOWN',
-      asteroids: { 
-        metalTier: 'T3', 
-        richness: 0.6,
-        yieldRemaining: 100,
-        totalYield: 800
-      }
-    }
-  };
-
-  return g;
-}
+// Galaxy layout and contents come from GalaxyGenerator (seeded by runSeed).
+// The home system is always HOME_SYSTEM_ID; the first enemy spawns far away.
 
 // -----------------------------------------------------------------------------
 // Ship creation helpers
 // -----------------------------------------------------------------------------
 
-function createShip(shipType: ShipType, fleetId: string, index: number): Ship {
-  const baseCosts: Record<ShipType, Partial<TieredMetals>> = {
-    MINER: { T1: 8 },
-    CORVETTE: { T1: 10 },
-    FRIGATE: { T1: 15, T2: 5 },
-    DESTROYER: { T2: 10, T3: 2 },
-    CRUISER: { T2: 15, T3: 5 },
-    BATTLESHIP: { T3: 12 },
-    CARRIER: { T2: 20, T3: 8 }
-  };
-
-  const combatStats: Record<ShipType, { firepower: number; toughness: number; groundTroops: number; groundTroopCapacity: number }> = {
-    MINER: { firepower: 1, toughness: 2, groundTroops: 0, groundTroopCapacity: 0 },
-    CORVETTE: { firepower: 3, toughness: 3, groundTroops: 5, groundTroopCapacity: 10 },
-    FRIGATE: { firepower: 5, toughness: 4, groundTroops: 10, groundTroopCapacity: 20 },
-    DESTROYER: { firepower: 8, toughness: 6, groundTroops: 15, groundTroopCapacity: 30 },
-    CRUISER: { firepower: 12, toughness: 8, groundTroops: 20, groundTroopCapacity: 40 },
-    BATTLESHIP: { firepower: 20, toughness: 12, groundTroops: 30, groundTroopCapacity: 60 },
-    CARRIER: { firepower: 5, toughness: 10, groundTroops: 50, groundTroopCapacity: 100 }
-  };
-
-  const stats = combatStats[shipType];
-  const cost = baseCosts[shipType];
-
-  const ship: Ship = {
-    id: `${fleetId}-ship-${index}`,
-    name: `${shipType}-${index + 1}`,
-    type: shipType,
-    integrity: 100,
-    morale: 100,
-    firepower: stats.firepower,
-    toughness: stats.toughness,
-    groundTroops: stats.groundTroops,
-    groundTroopCapacity: stats.groundTroopCapacity,
-    buildCost: cost
-  };
-
-  // Combat ships get weapons/armor
-  if (shipType !== 'MINER') {
-    ship.weapons = shipType === 'CARRIER' ? 6 : shipType === 'BATTLESHIP' ? 8 : 4;
-    ship.armor = shipType === 'DESTROYER' || shipType === 'BATTLESHIP' ? 6 : 4;
-  }
-
-  return ship;
+/**
+ * A new ship of the given hull, built to its stock design unless a
+ * blueprint says otherwise (stats come from the parts, see ShipDesign.ts)
+ */
+export function createShip(shipType: ShipType, fleetId: string, index: number, blueprint: Blueprint = stockBlueprint(shipType)): Ship {
+  return createShipFromBlueprint(blueprint, `${fleetId}-ship-${index}`, `${shipType}-${index + 1}`);
 }
 
 function calculateFleetStats(ships: Ship[]): { role: FleetRole; shipType: ShipType; integrity: number; morale: number; miningTier?: MetalTier; groundTroops: number; groundTroopCapacity: number } {
@@ -342,7 +261,8 @@ function calculateFleetStats(ships: Ship[]): { role: FleetRole; shipType: ShipTy
   return { role, shipType: primaryShipType, integrity: avgIntegrity, morale: avgMorale, miningTier, groundTroops, groundTroopCapacity };
 }
 
-function seedFleets(): Record<string, Fleet> {
+function seedFleets(galaxy: Galaxy): Record<string, Fleet> {
+  const enemyStart = findEnemyStartSystem(galaxy);
   const minerShip = createShip('MINER', 'MINER-1', 0);
   const enemyShip = createShip('CORVETTE', 'ENEMY-1', 0);
   
@@ -357,7 +277,7 @@ function seedFleets(): Record<string, Fleet> {
       role: minerStats.role,
       shipType: minerStats.shipType,
       ships: [minerShip],
-      location: 'SOL',
+      location: HOME_SYSTEM_ID,
       task: 'IDLE',  // NEW: real-time task system
       taskTarget: undefined,
       etaTicks: undefined,
@@ -377,7 +297,7 @@ function seedFleets(): Record<string, Fleet> {
       role: enemyStats.role,
       shipType: enemyStats.shipType,
       ships: [enemyShip],
-      location: 'DELTA',
+      location: enemyStart,
       task: 'IDLE',  // NEW: real-time task system
       taskTarget: undefined,
       etaTicks: undefined,
@@ -421,7 +341,7 @@ export function buildStation(atSystemId: string, free: boolean = false): boolean
     pay(state.resources, stationCost);
   }
 
-  const id = `STATION-${uid()}`;
+  const id = nextId('STATION');
   const stationShip = createShip('CORVETTE', id, 0); // Use corvette as base for station
   stationShip.name = 'Station Module';
   stationShip.type = 'STATION' as any; // Override type for station
@@ -455,13 +375,11 @@ export function buildStation(atSystemId: string, free: boolean = false): boolean
     type: 'MINING', // Default to mining station
     state: 'FRIENDLY',
     integrity: 100,
-    functional: true
+    functional: true,
+    shipyard: { queue: [] }
   };
 
-  const message = free ? 
-    `STATION: ${state.fleets[id].name} established at ${sys.name} (free starter).` :
-    `STATION: ${state.fleets[id].name} constructed at ${sys.name}.`;
-  pushIntel('BUILD', message);
+  emit({ type: 'StationBuilt', fleetId: id, fleetName: state.fleets[id].name, systemId: sys.id, free });
   return true;
 }
 
@@ -469,18 +387,28 @@ export function buildStation(atSystemId: string, free: boolean = false): boolean
 // Public API
 // -----------------------------------------------------------------------------
 
-export function bootstrapGameState(runSeed?: number): void {
+export function bootstrapGameState(runSeed?: number, galaxyOptions: GalaxyGenOptions = DEFAULT_GALAXY_OPTIONS): void {
+  const seed = runSeed ?? Math.floor(Math.random() * 1000000);  // NEW: seed for reproducible runs
+  const galaxy = generateGalaxy(seed, galaxyOptions);
+
   state = {
-    version: 2,  // Updated for real-time mechanics
-    runSeed: runSeed ?? Math.floor(Math.random() * 1000000),  // NEW: seed for reproducible runs
+    version: CURRENT_SAVE_VERSION,
+    runSeed: seed,
     tick: 0,     // NEW: tick counter
     isPaused: false,  // NEW: pause state
+    clock: createSimClock(),
+    nextEntityId: 1,
+    nextIntelId: 1,
+    commandLog: createCommandLog(),
     turn: 1,
     phase: 'PLAYER',
-    galaxy: seedGalaxy(),
-    fleets: seedFleets(),
+    galaxy,
+    galaxyOptions: { ...galaxyOptions },
+    lanes: generateHyperlanes(seed, galaxy),
+    fleets: seedFleets(galaxy),
+    visibility: { visibleSystems: [], lastSeen: {} },
 
-    selectedSystemId: 'SOL',
+    selectedSystemId: HOME_SYSTEM_ID,
     selectedFleetId: 'MINER-1',
     selectedSystemObject: null,
 
@@ -491,19 +419,31 @@ export function bootstrapGameState(runSeed?: number): void {
       crystals: 0
     },
 
+    unlockedBlueprints: [],
+    designs: [],
+    battleReports: [],
+
     intelLog: []
   };
 
   pushIntel('SYSTEM', 'NEW GAME: Prospector-1 online. Use SPACE to pause. Use 1/2/3 to build ships. Use S to build stations.');
   
-  // Give player a free starter station at SOL
-  buildStation('SOL', true);
+  // Give player a free starter station at home
+  buildStation(HOME_SYSTEM_ID, true);
+  updateVisibility();
 }
 
 export function getState(): GameState {
   return state;
 }
 
+/**
+ * Swap the live state wholesale (replay verification restores the run it interrupted)
+ */
+export function replaceState(next: GameState): void {
+  state = next;
+}
+
 // -----------------------------------------------------------------------------
 // Real-time simulation core
 // -----------------------------------------------------------------------------
@@ -513,23 +453,49 @@ export function togglePause(): void {
   pushIntel('SYSTEM', state.isPaused ? 'GAME PAUSED' : 'GAME RESUMED');
 }
 
+/**
+ * Run a single simulation tick (no-op while paused)
+ */
 export function advanceTick(): void {
   if (state.isPaused) return;
-  
-  state.tick++;
-  
-  // Process fleet tasks
+  stepTick(state);
+}
+
+/**
+ * Feed real elapsed milliseconds (scenes call this every frame).
+ * @returns Number of ticks run
+ */
+export function advanceSimulation(realDeltaMs: number): number {
+  return feedRealTime(state, realDeltaMs);
+}
+
+function processFleetTasks(tasks: FleetTask[]): void {
   for (const fleet of Object.values(state.fleets)) {
-    processFleetTask(fleet);
+    // A fleet removed earlier this tick (pressure, combat) is skipped
+    if (state.fleets[fleet.id] && tasks.includes(fleet.task)) {
+      processFleetTask(fleet);
+    }
   }
-  
-  // Process mining boosts
-  processMiningBoosts();
-  
-  // Process system threats (Phase 2)
-  // processSystemThreats();
 }
 
+// Per-tick systems, in run order
+registerSimSystem({ id: 'movement', order: 10, update: () => processFleetTasks(['MOVE']) });
+registerSimSystem({ id: 'combat', order: 15, update: () => processCombat() });
+registerSimSystem({ id: 'mining', order: 20, update: () => processFleetTasks(['MINE']) });
+registerSimSystem({ id: 'operations', order: 30, update: () => processFleetTasks(['SCAN', 'SALVAGE', 'SUPPRESS', 'FIGHT']) });
+registerSimSystem({ id: 'boosts', order: 40, update: () => processMiningBoosts() });
+registerSimSystem({ id: 'stations', order: 50, update: () => processStationIncome() });
+registerSimSystem({ id: 'repairs', order: 52, update: () => processRepairs() });
+registerSimSystem({ id: 'shipyards', order: 55, update: () => processShipyards() });
+registerSimSystem({ id: 'invasions', order: 60, update: () => processInvasions() });
+registerSimSystem({ id: 'ai', order: 70, update: () => processAI() });
+registerSimSystem({ id: 'pressure', order: 80, update: () => processPressure() });
+registerSimSystem({ id: 'veterancy', order: 85, update: () => processVeterancy() });
+registerSimSystem({ id: 'intel', order: 90, update: () => ageIntel() });
+registerSimSystem({ id: 'visibility', order: 100, update: () => updateVisibility() });
+registerSimSystem({ id: 'turns', order: 110, update: () => processTurnTimer() });
+registerSimSystem({ id: 'checkpoints', order: 1000, update: () => recordCheckpoint() });
+
 export function boostMining(fleetId: string): ActionResult {
   const fleet = state.fleets[fleetId];
   if (!fleet) {
@@ -549,7 +515,7 @@ export function boostMining(fleetId: string): ActionResult {
     cooldownTicks: 300   // 30 seconds cooldown
   };
   
-  pushIntel('BOOST', `MINING BOOST: ${fleet.name} efficiency doubled for 6 seconds`);
+  emit({ type: 'BoostStarted', fleetId, fleetName: fleet.name, multiplier: fleet.boost.multiplier, durationTicks: fleet.boost.durationTicks });
   return { ok: true, intel: 'Mining boost activated' };
 }
 
@@ -562,36 +528,225 @@ export function assignFleetTask(fleetId: string, task: FleetTask, targetId?: str
   if (fleet.owner !== 'PLAYER') {
     return { ok: false, reason: 'Cannot assign tasks to enemy fleets' };
   }
-  
+
+  // A direct order replaces the current task and anything queued
+  const previousOrders = fleet.orders;
+  fleet.orders = [];
+  const result = beginOrder(fleet, { task, target: targetId });
+  if (!result.ok) {
+    fleet.orders = previousOrders;
+  }
+  return result;
+}
+
+/**
+ * AI counterpart of assignFleetTask for enemy fleets
+ */
+export function orderAiFleet(fleetId: string, task: FleetTask, targetId?: string): ActionResult {
+  const fleet = state.fleets[fleetId];
+  if (!fleet) {
+    return { ok: false, reason: 'Fleet not found' };
+  }
+  if (fleet.owner !== 'ENEMY') {
+    return { ok: false, reason: 'AI only commands enemy fleets' };
+  }
+  return beginOrder(fleet, { task, target: targetId });
+}
+
+/**
+ * Append an order to a fleet's queue. Starts it right away if the fleet is idle.
+ */
+export function queueFleetOrder(fleetId: string, task: FleetTask, targetId?: string): ActionResult {
+  const fleet = state.fleets[fleetId];
+  if (!fleet) {
+    return { ok: false, reason: 'Fleet not found' };
+  }
+  if (fleet.owner !== 'PLAYER') {
+    return { ok: false, reason: 'Cannot assign tasks to enemy fleets' };
+  }
+  if (task === 'IDLE') {
+    return { ok: false, reason: 'Cannot queue IDLE' };
+  }
+
+  if (fleet.task === 'IDLE') {
+    return beginOrder(fleet, { task, target: targetId });
+  }
+
+  fleet.orders = [...(fleet.orders ?? []), { task, target: targetId }];
+  pushIntel('SYSTEM', `ORDER QUEUED: ${fleet.name} ${describeOrder({ task, target: targetId })} (#${fleet.orders.length})`, { fleetId: fleet.id });
+  return { ok: true, intel: `Queued ${task}` };
+}
+
+export function clearFleetOrders(fleetId: string): ActionResult {
+  const fleet = state.fleets[fleetId];
+  if (!fleet) {
+    return { ok: false, reason: 'Fleet not found' };
+  }
+  if (fleet.owner !== 'PLAYER') {
+    return { ok: false, reason: 'Cannot command enemy fleets' };
+  }
+
+  fleet.orders = [];
+  fleet.loopOrders = false;
+  pushIntel('SYSTEM', `ORDERS CLEARED: ${fleet.name}`, { fleetId: fleet.id });
+  return { ok: true };
+}
+
+/**
+ * Toggle (or set) queue looping: finished orders go back to the end of the queue.
+ */
+export function setFleetOrderLoop(fleetId: string, loop?: boolean): ActionResult {
+  const fleet = state.fleets[fleetId];
+  if (!fleet) {
+    return { ok: false, reason: 'Fleet not found' };
+  }
+  if (fleet.owner !== 'PLAYER') {
+    return { ok: false, reason: 'Cannot command enemy fleets' };
+  }
+
+  fleet.loopOrders = loop ?? !fleet.loopOrders;
+  pushIntel('SYSTEM', `ORDER LOOP ${fleet.loopOrders ? 'ON' : 'OFF'}: ${fleet.name}`, { fleetId: fleet.id });
+  return { ok: true };
+}
+
+export function describeOrder(order: FleetOrder): string {
+  const where = order.target ? ` @ ${state.galaxy[order.target]?.name ?? order.target}` : '';
+  return `${order.task}${where}`;
+}
+
+/**
+ * Start an order as the fleet's current task. Validates eligibility.
+ * A MINE, SCAN, SALVAGE or SUPPRESS order at another system first travels there (the order
+ * stays at the head of the queue until arrival).
+ */
+function beginOrder(fleet: Fleet, order: FleetOrder): ActionResult {
+  const { task } = order;
+
   // Validate task eligibility
   if (task === 'MINE' && !fleet.miningTier) {
     return { ok: false, reason: 'Fleet has no mining capability' };
   }
   
-  if (task === 'MOVE' && !targetId) {
+  if (task === 'MOVE' && !order.target) {
     return { ok: false, reason: 'Movement task requires target' };
   }
+
+  // Stations (maxMoves 0) never leave their system
+  const travels = task === 'MOVE' || (!!order.target && order.target !== fleet.location);
+  if (travels && fleet.maxMoves <= 0) {
+    return { ok: false, reason: `${fleet.name} cannot move` };
+  }
+
+  // Suppressing / fighting needs combat ships
+  if (task === 'SUPPRESS' || task === 'FIGHT') {
+    if (calculateSuppression(fleet) <= 0) {
+      return { ok: false, reason: 'Fleet has no combat ships' };
+    }
+  }
+
+  // Mining / scanning elsewhere: travel first
+  if ((task === 'MINE' || task === 'SCAN' || task === 'SALVAGE' || task === 'SUPPRESS' || task === 'FIGHT') && order.target && order.target !== fleet.location) {
+    const approach = findPath(state, fleet.location, order.target, fleet.owner);
+    if (!approach || approach.route.length === 0) {
+      return { ok: false, reason: 'No known route to target' };
+    }
+    startMove(fleet, order.target, approach.route);
+    fleet.activeOrder = undefined;
+    fleet.orders = [order, ...(fleet.orders ?? [])];
+    pushIntel('SYSTEM', `TASK: ${fleet.name} heading to ${describeOrder(order)}`, { fleetId: fleet.id });
+    return { ok: true, intel: `Task assigned: ${task}` };
+  }
+
+  if (task === 'MINE') {
+    const system = state.galaxy[order.target ?? fleet.location];
+    if (!system?.asteroids) {
+      return { ok: false, reason: 'No asteroids in this system' };
+    }
+    if (system.asteroids.yieldRemaining <= 0) {
+      return { ok: false, reason: 'Asteroids are depleted' };
+    }
+    if (!hasFriendlyDock(system.id, fleet.owner) && cargoTotal(fleet) >= cargoCapacity(fleet)) {
+      return { ok: false, reason: 'Cargo hold is full' };
+    }
+    // Miners take station on the asteroid hex
+    fleet.systemPos = getAsteroidHex(system) ?? fleet.systemPos;
+  }
+
+  if (task === 'SCAN') {
+    const system = state.galaxy[order.target ?? fleet.location];
+    if (!system) {
+      return { ok: false, reason: 'Invalid system' };
+    }
+    if (!needsScan(system)) {
+      return { ok: false, reason: 'System intel is already current' };
+    }
+    beginScan(fleet, system);
+  }
+
+  if (task === 'SALVAGE') {
+    const system = state.galaxy[order.target ?? fleet.location];
+    if (!system || !hasSalvage(system)) {
+      return { ok: false, reason: 'Nothing to salvage here' };
+    }
+  }
+
+  const path = task === 'MOVE' && order.target ? findPath(state, fleet.location, order.target, fleet.owner) : null;
+  if (task === 'MOVE' && (!path || path.route.length === 0)) {
+    return { ok: false, reason: path ? 'Fleet is already there' : 'No known route to target' };
+  }
   
   // Assign task
-  fleet.task = task;
-  fleet.taskTarget = targetId;
-  
-  // Calculate ETA for movement
-  if (task === 'MOVE' && targetId) {
-    const fromSystem = state.galaxy[fleet.location];
-    const toSystem = state.galaxy[targetId];
-    if (fromSystem && toSystem) {
-      const distance = hexDistance(fromSystem.coord, toSystem.coord);
-      fleet.etaTicks = Math.ceil(distance * 30); // 3 seconds per hex
-    }
+  if (task === 'MOVE' && path && order.target) {
+    startMove(fleet, order.target, path.route);
   } else {
+    fleet.task = task;
+    fleet.taskTarget = order.target;
+    fleet.route = undefined;
     fleet.etaTicks = undefined;
   }
+  fleet.activeOrder = { ...order };
   
-  pushIntel('SYSTEM', `TASK: ${fleet.name} assigned to ${task}${targetId ? ` at ${targetId}` : ''}`);
+  const via = path && path.route.length > 1 ? ` (${path.route.length} jumps)` : '';
+  if (fleet.owner === 'PLAYER') {
+    pushIntel('SYSTEM', `TASK: ${fleet.name} assigned to ${task}${order.target ? ` at ${order.target}` : ''}${via}`, { fleetId: fleet.id });
+  }
   return { ok: true, intel: `Task assigned: ${task}` };
 }
 
+function startMove(fleet: Fleet, targetId: string, route: string[]): void {
+  // Plan route; ETA counts down per hop
+  fleet.task = 'MOVE';
+  fleet.taskTarget = targetId;
+  fleet.route = route;
+  fleet.etaTicks = hopTicks(fleet.location, route[0]);
+}
+
+/**
+ * Current task is done: loop it back if requested, then start the next order.
+ */
+function completeOrder(fleet: Fleet): void {
+  const finished = fleet.activeOrder;
+
+  fleet.task = 'IDLE';
+  fleet.taskTarget = undefined;
+  fleet.etaTicks = undefined;
+  fleet.route = undefined;
+  fleet.activeOrder = undefined;
+
+  if (fleet.loopOrders && finished) {
+    fleet.orders = [...(fleet.orders ?? []), finished];
+  }
+
+  // Failed orders are dropped (not looped) so a broken queue can't spin forever
+  while (fleet.orders && fleet.orders.length > 0) {
+    const next = fleet.orders.shift();
+    if (!next) break;
+    const result = beginOrder(fleet, next);
+    if (result.ok) return;
+    pushIntel('ALERT', `ORDER SKIPPED: ${fleet.name} ${describeOrder(next)} — ${result.reason}`, { fleetId: fleet.id });
+  }
+}
+
 function processFleetTask(fleet: Fleet): void {
   switch (fleet.task) {
     case 'MOVE':
@@ -604,32 +759,82 @@ function processFleetTask(fleet: Fleet): void {
       break;
       
     case 'MINE':
-      if (canMine(fleet)) {
-        const minedAmount = calculateMiningYield(fleet);
-        addMetals(state.resources, fleet.miningTier!, minedAmount);
-        pushIntel('MINE', `Mining +${minedAmount} ${fleet.miningTier} metals/tick`);
-      }
+      processMining(fleet);
       break;
       
     case 'SCAN':
-      // TODO: Implement scanning progress
+      if (processScan(fleet)) {
+        completeOrder(fleet);
+      }
+      break;
+
+    case 'SALVAGE':
+      if (processSalvage(fleet)) {
+        completeOrder(fleet);
+      }
       break;
       
-    case 'FIGHT':
-      // TODO: Implement combat pressure system
+    case 'SUPPRESS':
+    case 'FIGHT': {
+      // Suppression itself is applied system-wide in processPressure();
+      // the order ends once the system has nothing left to push back
+      const sys = state.galaxy[fleet.location];
+      if (!sys || ((sys.pressure?.current ?? 0) <= 0 && calculatePressureRate(sys) <= 0)) {
+        completeOrder(fleet);
+      }
       break;
+    }
   }
 }
 
+function hopTicks(fromId: string, toId: string): number {
+  const lane = getLane(state.lanes, fromId, toId);
+  return Math.ceil(MOVE_TICKS_PER_LANE * (lane ? laneTravelMultiplier(lane) : 1));
+}
+
+/**
+ * Fleet reached the next system on its route: move it there, then either
+ * finish the order or start the next hop (re-planning if the lane closed).
+ */
 function completeMovement(fleet: Fleet): void {
-  if (fleet.taskTarget) {
-    fleet.location = fleet.taskTarget;
-    fleet.task = 'IDLE';
-    fleet.taskTarget = undefined;
-    fleet.etaTicks = undefined;
-    
-    pushIntel('MOVE', `MOVE: ${fleet.name} arrived at ${fleet.location}`);
+  const next = fleet.route?.shift() ?? fleet.taskTarget;
+  if (!next) return;
+
+  const from = fleet.location;
+  const observed = fleet.owner === 'PLAYER' || isSystemVisible(from) || isSystemVisible(next);
+  fleet.location = next;
+  const sys = state.galaxy[next];
+  if (sys && fleet.owner === 'PLAYER') {
+    revealOnArrival(sys);
+  }
+  refreshLaneStates();
+
+  let route = fleet.route ?? [];
+  const arrived = route.length === 0 || next === fleet.taskTarget;
+  const jumpsLeft = arrived ? 0 : route.length;
+  emit({ type: 'FleetArrived', fleetId: fleet.id, fleetName: fleet.name, owner: fleet.owner, from, to: next, jumpsLeft, observed });
+
+  if (arrived) {
+    unloadCargo(fleet);
+    completeOrder(fleet);
+    return;
   }
+
+  const lane = getLane(state.lanes, fleet.location, route[0]);
+  if (!lane || !isLanePassable(lane, fleet.owner)) {
+    const target = fleet.taskTarget;
+    const replanned = target ? findPath(state, fleet.location, target, fleet.owner) : null;
+    if (!target || !replanned || replanned.route.length === 0) {
+      pushIntel('ALERT', `MOVE HALTED: ${fleet.name} has no route to ${target ? state.galaxy[target]?.name ?? target : 'its target'}`, { fleetId: fleet.id, systemId: fleet.location });
+      completeOrder(fleet);
+      return;
+    }
+    route = replanned.route;
+    fleet.route = route;
+    pushIntel('MOVE', `REROUTE: ${fleet.name} via ${route.map(id => state.galaxy[id]?.name ?? id).join(' > ')}`, { fleetId: fleet.id });
+  }
+
+  fleet.etaTicks = hopTicks(fleet.location, route[0]);
 }
 
 function canMine(fleet: Fleet): boolean {
@@ -657,16 +862,86 @@ function calculateMiningYield(fleet: Fleet): number {
   
   // Apply boost if active
   if (fleet.boost && fleet.boost.durationTicks > 0) {
-    minedAmount = Math.floor(minedAmount * fleet.boost.multiplier);
+    minedAmount = minedAmount * fleet.boost.multiplier;
   }
   
   // Apply system richness
   const richnessMultiplier = system.asteroids.richness ?? 1.0;
-  minedAmount = Math.floor(minedAmount * richnessMultiplier);
+  minedAmount = minedAmount * richnessMultiplier;
+
+  // Mining captains (see Veterancy.ts)
+  minedAmount = minedAmount * miningMultiplier(fleet);
   
+  // Fractional per tick; whole units are delivered from the hold
   return Math.max(0, minedAmount);
 }
 
+/**
+ * One tick of a MINE task: ore goes into the hold. Docked at a friendly
+ * station it is delivered straight away; elsewhere the order completes
+ * when the hold is full or the field runs dry.
+ */
+function processMining(fleet: Fleet): void {
+  const system = state.galaxy[fleet.location];
+  if (!system?.asteroids || system.asteroids.yieldRemaining <= 0) {
+    pushIntel('MINE', `MINE: ${fleet.name} finished — ${system?.name ?? fleet.location} field depleted`, { fleetId: fleet.id, systemId: fleet.location });
+    completeOrder(fleet);
+    return;
+  }
+  if (!canMine(fleet)) return;
+
+  const docked = hasFriendlyDock(system.id, fleet.owner);
+  const space = docked ? Infinity : cargoCapacity(fleet) - cargoTotal(fleet);
+  const mined = Math.min(calculateMiningYield(fleet), space);
+  if (mined > 0) {
+    fleet.cargo = fleet.cargo ?? ensureTieredMetals();
+    fleet.cargo[system.asteroids.metalTier] += mined;
+    system.asteroids.yieldRemaining = Math.max(0, system.asteroids.yieldRemaining - (mined / system.asteroids.totalYield) * 100);
+    awardMiningXp(fleet);
+  }
+
+  if (docked) {
+    unloadCargo(fleet);
+  } else if (cargoTotal(fleet) >= cargoCapacity(fleet)) {
+    pushIntel('MINE', `HOLD FULL: ${fleet.name} carrying ${Math.floor(cargoTotal(fleet))} ore at ${system.name}`, { fleetId: fleet.id, systemId: system.id });
+    completeOrder(fleet);
+  }
+}
+
+function cargoCapacity(fleet: Fleet): number {
+  return fleet.ships.filter(s => s.type === 'MINER').length * CARGO_PER_MINER;
+}
+
+function cargoTotal(fleet: Fleet): number {
+  const c = fleet.cargo;
+  return c ? c.T1 + c.T2 + c.T3 : 0;
+}
+
+function hasFriendlyDock(systemId: string, owner: FleetOwner): boolean {
+  const station = state.galaxy[systemId]?.station;
+  return !!station && station.owner === owner && station.functional;
+}
+
+/**
+ * Deliver whole units of carried ore if the fleet is at a friendly station.
+ * Fractions stay in the hold until they add up.
+ */
+function unloadCargo(fleet: Fleet): void {
+  if (!fleet.cargo || fleet.owner !== 'PLAYER') return;
+  if (!hasFriendlyDock(fleet.location, fleet.owner)) return;
+
+  const delivered: TieredMetals = { T1: 0, T2: 0, T3: 0 };
+  for (const tier of ['T1', 'T2', 'T3'] as MetalTier[]) {
+    delivered[tier] = Math.floor(fleet.cargo[tier] + 1e-9);
+    fleet.cargo[tier] = Math.max(0, fleet.cargo[tier] - delivered[tier]);
+    addMetals(state.resources, tier, delivered[tier]);
+  }
+
+  if (delivered.T1 + delivered.T2 + delivered.T3 > 0) {
+    emit({ type: 'ResourcesGained', source: 'DELIVERY', systemId: fleet.location, fleetId: fleet.id, fleetName: fleet.name, metals: delivered });
+  }
+}
+
 function processMiningBoosts(): void {
   for (const fleet of Object.values(state.fleets)) {
     if (fleet.boost) {
@@ -675,7 +950,7 @@ function processMiningBoosts(): void {
       } else {
         // Boost expired
         delete fleet.boost;
-        pushIntel('BOOST', `Mining boost expired for ${fleet.name}`);
+        emit({ type: 'BoostExpired', fleetId: fleet.id, fleetName: fleet.name });
       }
     }
   }
@@ -693,9 +968,9 @@ export function selectSystem(systemId: string): void {
   // auto-discover on selection if scanned (keeps fog simple)
   const sys = state.galaxy[systemId];
   if (sys.intel === 'UNKNOWN') {
-    pushIntel('SCAN', `UNKNOWN SIGNAL: ${sys.name} selected (intel unknown).`);
+    pushIntel('SCAN', `UNKNOWN SIGNAL: ${sys.name} selected (intel unknown).`, { systemId });
   } else {
-    pushIntel('SYSTEM', `SYSTEM: ${sys.name} selected.`);
+    pushIntel('SYSTEM', `SYSTEM: ${sys.name} selected.`, { systemId });
   }
 }
 
@@ -708,7 +983,7 @@ export function selectFleet(fleetId: string): ActionResult {
     return { ok: false, reason: 'Cannot select enemy fleets' };
   }
   state.selectedFleetId = fleetId;
-  pushIntel('SYSTEM', `FLEET: ${f.name} selected.`);
+  pushIntel('SYSTEM', `FLEET: ${f.name} selected.`, { fleetId, systemId: f.location });
   return { ok: true, intel: `Selected ${f.name}` };
 }
 
@@ -729,7 +1004,7 @@ export function selectSystemObject(systemId: string, objectId: string): void {
   
   if (objectExists) {
     state.selectedSystemObject = { systemId, objectId };
-    pushIntel('SYSTEM', `OBJECT: ${objectId} selected in ${system.name}.`);
+    pushIntel('SYSTEM', `OBJECT: ${objectId} selected in ${system.name}.`, { systemId });
   } else {
     state.selectedSystemObject = null;
   }
@@ -762,58 +1037,16 @@ export function listSystemObjects(systemId: string): SystemObjectRef[] {
   const system = state.galaxy[systemId];
   if (!system) return [];
 
-  const objects: SystemObjectRef[] = [];
-  let objectIndex = 0;
-
-  // Add asteroids if present
-  if (system.asteroids) {
-    objects.push({
-      systemId,
-      objectId: `${systemId}:asteroid:0`,
-      type: 'asteroid',
-      coord: { q: 0, r: 0 } // Will be overridden by scene positioning
-    });
-    objectIndex++;
-  }
-
-  // Add station if present
-  if (system.station) {
-    objects.push({
-      systemId,
-      objectId: `${systemId}:station:${system.station.id}`,
-      type: 'station',
-      coord: { q: 0, r: 0 } // Will be overridden by scene positioning
-    });
-    objectIndex++;
-  }
-
-  // Add planets if present
-  if (system.planets) {
-    for (const [planetId, planet] of Object.entries(system.planets)) {
-      objects.push({
-        systemId,
-        objectId: `${systemId}:planet:${planetId}`,
-        type: 'planet',
-        coord: { q: 0, r: 0 } // Will be overridden by scene positioning
-      });
-      objectIndex++;
-    }
-  }
-
-  // Add procedural anomalies (deterministic based on system seed)
-  if (system.type === 'ANOMALY' || system.type === 'RUIN') {
-    const anomalyCount = system.type === 'ANOMALY' ? 1 : Math.floor(system.seed % 3) + 1;
-    for (let i = 0; i < anomalyCount; i++) {
-      objects.push({
-        systemId,
-        objectId: `${systemId}:anomaly:${i}`,
-        type: 'anomaly',
-        coord: { q: 0, r: 0 } // Will be overridden by scene positioning
-      });
+  // Positions come from systemLayout so the scene and core always agree.
+  return getSystemObjectPositions(system).map(pos => {
+    let objectId: string;
+    switch (pos.type) {
+      case 'asteroid': objectId = `${systemId}:asteroid:0`; break;
+      case 'station': objectId = system.station ? `${systemId}:station:${system.station.id}` : `${systemId}:${pos.key}`; break;
+      default: objectId = `${systemId}:${pos.key}`; break;
     }
-  }
-
-  return objects;
+    return { systemId, objectId, type: pos.type, coord: pos.coord };
+  });
 }
 
 export function moveFleetInSystem(fleetId: string, to: HexCoord): ActionResult {
@@ -887,33 +1120,31 @@ export function moveFleet(fleetId: string, targetSystemId: string): ActionResult
     return { ok: false, reason: `${f.name} has no moves left` };
   }
 
-  const fromCoord = systemCoord(f.location);
-  const toCoord = systemCoord(targetSystemId);
-  if (!fromCoord || !toCoord) {
-    return { ok: false, reason: 'Invalid system coordinates' };
+  const lane = getLane(state.lanes, f.location, targetSystemId);
+  if (!lane) {
+    return { ok: false, reason: `No hyperlane to ${target.name}` };
   }
-
-  const dist = hexDistance(fromCoord, toCoord);
-  if (dist !== 1) {
-    return { ok: false, reason: `${target.name} is not adjacent` };
+  if (!isLanePassable(lane, f.owner)) {
+    return { ok: false, reason: `Hyperlane to ${target.name} is blockaded` };
   }
 
   f.location = targetSystemId;
   f.movesLeft -= 1;
+  refreshLaneStates();
 
-  // entering unknown auto-scans
-  if (target.intel === 'UNKNOWN') {
-    target.intel = 'SCANNED';
-    target.discovered = true;
-    pushIntel('SCAN', `SCAN COMPLETE: ${target.name} revealed.`);
-  }
+  // entering gives a first look; full contents need a SCAN
+  revealOnArrival(target);
 
-  pushIntel('MOVE', `MOVE: ${f.name} -> ${target.name} (${f.movesLeft}/${f.maxMoves} MP)`);
+  pushIntel('MOVE', `MOVE: ${f.name} -> ${target.name} (${f.movesLeft}/${f.maxMoves} MP)`, { fleetId: f.id, systemId: target.id });
+  updateVisibility();
   return { ok: true, intel: `Moved ${f.name} to ${target.name}` };
 }
 
+/**
+ * Stock blueprints plus the player's designs (see ShipDesign.ts)
+ */
 export function getBlueprints(): Blueprint[] {
-  return BLUEPRINTS.slice();
+  return listBlueprints(state);
 }
 
 export function buildFleet(blueprintKey: string, atSystemId: string): boolean {
@@ -928,6 +1159,11 @@ export function buildFleet(blueprintKey: string, atSystemId: string): boolean {
     return false;
   }
 
+  if (!hullUnlocked(state, bp.shipType)) {
+    pushIntel('ALERT', `BUILD FAILED: ${bp.name} blueprint not recovered yet (salvage derelicts).`);
+    return false;
+  }
+
   if (!canAfford(state.resources, bp.cost)) {
     const tm = state.resources.tieredMetals;
     pushIntel(
@@ -939,18 +1175,28 @@ export function buildFleet(blueprintKey: string, atSystemId: string): boolean {
 
   pay(state.resources, bp.cost);
 
-  const id = `P-${bp.key}-${uid()}`;
-  const newShip = createShip(bp.shipType, id, 0);
-  const fleetStats = calculateFleetStats([newShip]);
-  
-  state.fleets[id] = {
+  const id = nextId(`P-${bp.key}`);
+  const fleet = addPlayerFleet(id, bp.name, [createShip(bp.shipType, id, 0, bp)], atSystemId);
+
+  emit({ type: 'FleetBuilt', fleetId: id, fleetName: fleet.name, systemId: sys.id });
+  return true;
+}
+
+/**
+ * Put a new idle player fleet of the given ships into play.
+ * Named after its class plus a running number ("Corvette-04").
+ */
+export function addPlayerFleet(id: string, className: string, ships: Ship[], location: string): Fleet {
+  const fleetStats = calculateFleetStats(ships);
+
+  const fleet: Fleet = {
     id,
-    name: `${bp.name}-${String(Object.keys(state.fleets).length).padStart(2, '0')}`,
+    name: `${className}-${String(Object.keys(state.fleets).length).padStart(2, '0')}`,
     owner: 'PLAYER',
     role: fleetStats.role,
     shipType: fleetStats.shipType,
-    ships: [newShip],
-    location: atSystemId,
+    ships,
+    location,
     task: 'IDLE',  // NEW: real-time task system
     taskTarget: undefined,
     etaTicks: undefined,
@@ -962,9 +1208,8 @@ export function buildFleet(blueprintKey: string, atSystemId: string): boolean {
     groundTroops: fleetStats.groundTroops,
     groundTroopCapacity: fleetStats.groundTroopCapacity
   };
-
-  pushIntel('BUILD', `BUILD: ${state.fleets[id].name} constructed at ${sys.name}.`);
-  return true;
+  state.fleets[id] = fleet;
+  return fleet;
 }
 
 // -----------------------------------------------------------------------------
@@ -1010,10 +1255,217 @@ export function dismantleFleet(fleetId: string): boolean {
     state.selectedFleetId = null;
   }
 
-  pushIntel('DISMANTLE', `DISMANTLE: ${fleet.name} dismantled. Recovered [T1:${recoveredResources.T1} T2:${recoveredResources.T2} T3:${recoveredResources.T3}]`);
+  emit({ type: 'ResourcesGained', source: 'DISMANTLE', systemId: fleet.location, fleetId, fleetName: fleet.name, metals: recoveredResources });
   return true;
 }
 
+// -----------------------------------------------------------------------------
+// Fleet organization: split / merge / transfer
+// -----------------------------------------------------------------------------
+
+// Ships change hands only between idle-or-working player fleets in the same
+// system. Role, stats and hold capacity are re-derived from the new ship lists
+// (calculateFleetStats); carried ore and embarked troops follow the ships that
+// hold them, capped by what the fleet actually has left.
+
+/**
+ * Re-derive a fleet's aggregate stats from its ships.
+ * Ground troops are fleet-level (spent on invasions), so only the capacity
+ * is re-derived; callers move troops explicitly.
+ */
+export function refreshFleetStats(fleet: Fleet): void {
+  const stats = calculateFleetStats(fleet.ships);
+  fleet.role = stats.role;
+  fleet.shipType = stats.shipType;
+  fleet.integrity = stats.integrity;
+  fleet.morale = stats.morale;
+  fleet.miningTier = stats.miningTier;
+  fleet.groundTroopCapacity = stats.groundTroopCapacity;
+  fleet.groundTroops = Math.min(fleet.groundTroops, fleet.groundTroopCapacity);
+}
+
+/**
+ * Detach the given ships into a new fleet at the same position.
+ * At least one ship must stay behind.
+ */
+export function splitFleet(fleetId: string, shipIds: string[]): ActionResult {
+  const fleet = state.fleets[fleetId];
+  const check = checkReorganizable(fleet);
+  if (!check.ok) return check;
+
+  const picked = pickShips(fleet, shipIds);
+  if (!picked.ok) return picked;
+  if (picked.ships.length === fleet.ships.length) {
+    return { ok: false, reason: 'A split must leave at least one ship behind' };
+  }
+
+  const id = nextId('P-FLEET');
+  const detachment: Fleet = {
+    id,
+    name: `${fleet.name}-${String.fromCharCode(65 + countDetachments(fleet) % 26)}`,
+    owner: fleet.owner,
+    role: fleet.role,
+    shipType: fleet.shipType,
+    ships: [],
+    location: fleet.location,
+    systemPos: fleet.systemPos ? { ...fleet.systemPos } : undefined,
+    systemAnchor: fleet.systemAnchor,
+    task: 'IDLE',
+    maxMoves: fleet.maxMoves,
+    movesLeft: fleet.movesLeft,
+    integrity: 0,
+    morale: 0,
+    groundTroops: 0,
+    groundTroopCapacity: 0
+  };
+  state.fleets[id] = detachment;
+
+  moveShips(fleet, detachment, picked.ships);
+  emit({
+    type: 'ShipsTransferred',
+    kind: 'SPLIT',
+    fromFleetId: fleet.id,
+    fromFleetName: fleet.name,
+    toFleetId: id,
+    toFleetName: detachment.name,
+    systemId: fleet.location,
+    shipIds: picked.ships.map(s => s.id)
+  });
+  return { ok: true, intel: `${detachment.name} detached from ${fleet.name}` };
+}
+
+/**
+ * Fold a fleet into another one in the same system; the first fleet is removed.
+ * The receiving fleet keeps its own task and orders.
+ */
+export function mergeFleets(fleetId: string, intoFleetId: string): ActionResult {
+  const fleet = state.fleets[fleetId];
+  const into = state.fleets[intoFleetId];
+  const check = checkReorganizable(fleet, into);
+  if (!check.ok) return check;
+
+  const shipIds = fleet.ships.map(s => s.id);
+  moveShips(fleet, into, fleet.ships.slice());
+  into.movesLeft = Math.min(into.movesLeft, fleet.movesLeft);
+
+  delete state.fleets[fleetId];
+  if (state.selectedFleetId === fleetId) {
+    state.selectedFleetId = intoFleetId;
+  }
+
+  emit({
+    type: 'ShipsTransferred',
+    kind: 'MERGE',
+    fromFleetId: fleetId,
+    fromFleetName: fleet.name,
+    toFleetId: into.id,
+    toFleetName: into.name,
+    systemId: into.location,
+    shipIds
+  });
+  return { ok: true, intel: `${fleet.name} merged into ${into.name}` };
+}
+
+/**
+ * Move individual ships between two fleets in the same system.
+ * Moving every ship is a merge.
+ */
+export function transferShips(fromFleetId: string, toFleetId: string, shipIds: string[]): ActionResult {
+  const from = state.fleets[fromFleetId];
+  const to = state.fleets[toFleetId];
+  const check = checkReorganizable(from, to);
+  if (!check.ok) return check;
+
+  const picked = pickShips(from, shipIds);
+  if (!picked.ok) return picked;
+  if (picked.ships.length === from.ships.length) {
+    return mergeFleets(fromFleetId, toFleetId);
+  }
+
+  moveShips(from, to, picked.ships);
+  emit({
+    type: 'ShipsTransferred',
+    kind: 'TRANSFER',
+    fromFleetId: from.id,
+    fromFleetName: from.name,
+    toFleetId: to.id,
+    toFleetName: to.name,
+    systemId: to.location,
+    shipIds: picked.ships.map(s => s.id)
+  });
+  return { ok: true, intel: `${picked.ships.length} ship(s) moved from ${from.name} to ${to.name}` };
+}
+
+/**
+ * Every fleet passed must exist and be an idle, mobile player fleet; `others`
+ * must also be different fleets in the same system as `fleet`
+ */
+function checkReorganizable(fleet: Fleet | undefined, ...others: (Fleet | undefined)[]): ActionResult {
+  if (!fleet) return { ok: false, reason: 'Fleet not found' };
+  for (const f of [fleet, ...others]) {
+    if (!f) return { ok: false, reason: 'Fleet not found' };
+    if (f.owner !== 'PLAYER') return { ok: false, reason: 'Cannot reorganize enemy fleets' };
+    if (f.maxMoves === 0) return { ok: false, reason: `${f.name} is a station` };
+    if (f.task === 'MOVE') return { ok: false, reason: `${f.name} is underway` };
+  }
+  for (const other of others) {
+    if (other?.id === fleet.id) return { ok: false, reason: 'Pick two different fleets' };
+    if (other?.location !== fleet.location) return { ok: false, reason: 'Fleets must be in the same system' };
+  }
+  return { ok: true };
+}
+
+function pickShips(fleet: Fleet, shipIds: string[]): { ok: true; ships: Ship[] } | { ok: false; reason: string } {
+  const wanted = new Set(shipIds);
+  if (wanted.size === 0) return { ok: false, reason: 'No ships selected' };
+
+  const ships = fleet.ships.filter(s => wanted.has(s.id));
+  if (ships.length !== wanted.size) return { ok: false, reason: `Ship not in ${fleet.name}` };
+  return { ok: true, ships };
+}
+
+/**
+ * Move ships (and the ore / troops they carry) and re-derive both fleets
+ */
+function moveShips(from: Fleet, to: Fleet, ships: Ship[]): void {
+  const moving = new Set(ships);
+  const minersBefore = from.ships.filter(s => s.type === 'MINER').length;
+  const minersMoving = ships.filter(s => s.type === 'MINER').length;
+
+  from.ships = from.ships.filter(s => !moving.has(s));
+  to.ships = [...to.ships, ...ships];
+
+  // Ore rides with the miners, in proportion
+  if (from.cargo && minersMoving > 0) {
+    const share = minersMoving / minersBefore;
+    to.cargo = to.cargo ?? { T1: 0, T2: 0, T3: 0 };
+    for (const tier of ['T1', 'T2', 'T3'] as MetalTier[]) {
+      const amount = from.cargo[tier] * share;
+      from.cargo[tier] -= amount;
+      to.cargo[tier] += amount;
+    }
+  }
+
+  // Troops go with their transports (whatever hasn't been landed already)
+  const troops = Math.min(from.groundTroops, ships.reduce((sum, s) => sum + s.groundTroops, 0));
+  from.groundTroops -= troops;
+  to.groundTroops += troops;
+
+  refreshFleetStats(from);
+  refreshFleetStats(to);
+
+  // A fleet left without miners can't keep mining
+  for (const f of [from, to]) {
+    if (f.ships.length > 0 && f.task === 'MINE' && f.role !== 'MINER') {
+      completeOrder(f);
+    }
+  }
+}
+
+function countDetachments(fleet: Fleet): number {
+  return Object.values(state.fleets).filter(f => f.name.startsWith(`${fleet.name}-`)).length;
+}
+
 // -----------------------------------------------------------------------------
 // Mining tick
 // -----------------------------------------------------------------------------
@@ -1052,11 +1504,7 @@ export function applyMiningForPlayerTurn(): void {
 
     addMetals(state.resources, sys.asteroids.metalTier, gained);
 
-    const yieldStatus = sys.asteroids.yieldRemaining <= 0 ? ' [DEPLETED]' : ` [${Math.floor(sys.asteroids.yieldRemaining)}%]`;
-    pushIntel(
-      'MINE',
-      `[${sys.asteroids.metalTier}] MINE: ${f.name} auto-mined +${gained} ${sys.asteroids.metalTier} metals${yieldStatus}`
-    );
+    emit({ type: 'ResourcesGained', source: 'MINING', systemId: sys.id, fleetId: f.id, fleetName: f.name, metals: { [sys.asteroids.metalTier]: gained } });
   }
 }
 
@@ -1115,10 +1563,7 @@ export function mineAsteroid(systemId: string, asteroidObjectId: string): boolea
 
   addMetals(state.resources, sys.asteroids.metalTier, gained);
 
-  pushIntel(
-    'MINE',
-    `MINING: ${miner.name} +${gained} ${sys.asteroids.metalTier} metals from ${asteroidObjectId} @ ${sys.name}`
-  );
+  emit({ type: 'ResourcesGained', source: 'MINING', systemId: sys.id, fleetId: miner.id, fleetName: miner.name, metals: { [sys.asteroids.metalTier]: gained } });
 
   return true;
 }
@@ -1189,12 +1634,8 @@ export function mineAtFleetPosition(fleetId: string): ActionResult {
   const depletionAmount = (minedAmount / system.asteroids.totalYield) * 100;
   system.asteroids.yieldRemaining = Math.max(0, system.asteroids.yieldRemaining - depletionAmount);
 
-  // Log success
+  emit({ type: 'ResourcesGained', source: 'MINING', systemId: system.id, fleetId, fleetName: fleet.name, metals: { [system.asteroids.metalTier]: minedAmount } });
   const yieldStatus = system.asteroids.yieldRemaining <= 0 ? ' [DEPLETED]' : ` [${Math.floor(system.asteroids.yieldRemaining)}%]`;
-  pushIntel(
-    'MINE',
-    `[${system.asteroids.metalTier}] MINE: ${fleet.name} mined +${minedAmount} ${system.asteroids.metalTier} metals${yieldStatus}`
-  );
 
   return { 
     ok: true, 
@@ -1203,14 +1644,14 @@ export function mineAtFleetPosition(fleetId: string): ActionResult {
 }
 
 // -----------------------------------------------------------------------------
-// Enemy phase: very simple “move toward SOL if adjacent; else do nothing”
+// Enemy phase: very simple “step toward SOL along hyperlanes; else do nothing”
 // -----------------------------------------------------------------------------
 
 function enemyPhaseStep(): void {
   const enemyFleets = Object.values(state.fleets).filter(f => f.owner === 'ENEMY');
   if (enemyFleets.length === 0) return;
 
-  const sol = state.galaxy.SOL;
+  const sol = state.galaxy[HOME_SYSTEM_ID];
   if (!sol) return;
 
   for (const f of enemyFleets) {
@@ -1221,233 +1662,201 @@ function enemyPhaseStep(): void {
     const from = state.galaxy[f.location];
     if (!from) continue;
 
-    // pick adjacent system that reduces distance to SOL
-    let bestId: string | null = null;
-    let bestDist = Infinity;
-
-    for (const s of Object.values(state.galaxy)) {
-      const d = hexDistance(from.coord, s.coord);
-      if (d !== 1) continue;
-      const distToSol = hexDistance(s.coord, sol.coord);
-      if (distToSol < bestDist) {
-        bestDist = distToSol;
-        bestId = s.id;
-      }
-    }
+    // pick the lane neighbor that gets closest to SOL (by lane travel time)
+    const bestId = nextHopToward(f, sol.id);
 
     if (bestId) {
+      const from = f.location;
+      const observed = isSystemVisible(from) || isSystemVisible(bestId);
       f.location = bestId;
       f.movesLeft -= 1;
-      pushIntel('MOVE', `ENEMY MOVE: ${f.name} -> ${state.galaxy[bestId].name}`);
+      emit({ type: 'FleetArrived', fleetId: f.id, fleetName: f.name, owner: f.owner, from, to: bestId, jumpsLeft: 0, observed });
+    }
+  }
+
+  refreshLaneStates();
+  updateVisibility();
+}
+
+/**
+ * Pick the lane neighbor of a fleet's system that is closest to a goal,
+ * measured in lane travel time. Returns null if no neighbor improves on staying put.
+ */
+function nextHopToward(fleet: Fleet, goalId: string): string | null {
+  const distToGoal = laneDistances(state.lanes, goalId, fleet.owner);
+  let bestId: string | null = null;
+  let bestDist = distToGoal[fleet.location] ?? Infinity;
+
+  for (const id of getNeighbors(state.lanes, fleet.location, fleet.owner).sort()) {
+    const d = distToGoal[id];
+    if (d !== undefined && d < bestDist) {
+      bestDist = d;
+      bestId = id;
     }
   }
+
+  return bestId;
 }
 
 // -----------------------------------------------------------------------------
-// Real-time game management (4X strategy)
+// Hyperlane state (contested lanes, blockades)
 // -----------------------------------------------------------------------------
 
-export interface GameSpeed {
-  multiplier: number;
-  name: string;
+function hasCombatFleet(systemId: string, owner: 'PLAYER' | 'ENEMY'): boolean {
+  return Object.values(state.fleets).some(f =>
+    f.owner === owner && f.location === systemId && f.role === 'COMBAT' && f.maxMoves > 0
+  );
+}
+
+/**
+ * Recompute contested flags and lift blockades whose holder left both ends.
+ * A lane is contested when opposing combat fleets sit at its two ends.
+ */
+export function refreshLaneStates(): void {
+  for (const lane of Object.values(state.lanes)) {
+    lane.contested =
+      (hasCombatFleet(lane.a, 'PLAYER') && hasCombatFleet(lane.b, 'ENEMY')) ||
+      (hasCombatFleet(lane.a, 'ENEMY') && hasCombatFleet(lane.b, 'PLAYER'));
+
+    if (lane.blocked && lane.blockedBy &&
+        !hasCombatFleet(lane.a, lane.blockedBy) && !hasCombatFleet(lane.b, lane.blockedBy)) {
+      lane.blocked = false;
+      lane.blockedBy = undefined;
+      pushIntel('MOVE', `BLOCKADE LIFTED: ${state.galaxy[lane.a].name} <-> ${state.galaxy[lane.b].name}`);
+    }
+  }
 }
 
-export const GAME_SPEEDS: GameSpeed[] = [
-  { multiplier: 0, name: 'PAUSED' },
-  { multiplier: 1, name: 'NORMAL' },
-  { multiplier: 2, name: 'FAST' },
-  { multiplier: 4, name: 'VERY FAST' }
-];
+/**
+ * Toggle a blockade on the lane between a combat fleet's system and a neighbor.
+ * Blockaded lanes are impassable to the other side while the fleet holds an end.
+ */
+export function toggleLaneBlockade(fleetId: string, targetSystemId: string): ActionResult {
+  const f = state.fleets[fleetId];
+  if (!f) {
+    return { ok: false, reason: 'Fleet not found' };
+  }
+  if (f.owner !== 'PLAYER') {
+    return { ok: false, reason: 'Cannot command enemy fleets' };
+  }
+  if (f.role !== 'COMBAT' || f.maxMoves <= 0) {
+    return { ok: false, reason: `${f.name} cannot hold a blockade` };
+  }
+
+  const lane = getLane(state.lanes, f.location, targetSystemId);
+  if (!lane) {
+    return { ok: false, reason: 'No hyperlane from fleet location to target' };
+  }
+  if (lane.blocked && lane.blockedBy !== f.owner) {
+    return { ok: false, reason: 'Hyperlane is blockaded by the enemy' };
+  }
+
+  const route = `${state.galaxy[lane.a].name} <-> ${state.galaxy[lane.b].name}`;
+  if (lane.blocked) {
+    lane.blocked = false;
+    lane.blockedBy = undefined;
+    pushIntel('MOVE', `BLOCKADE LIFTED: ${f.name} released ${route}`, { fleetId: f.id, systemId: f.location });
+    return { ok: true, intel: `Blockade lifted on ${route}` };
+  }
+
+  lane.blocked = true;
+  lane.blockedBy = f.owner;
+  pushIntel('MOVE', `BLOCKADE: ${f.name} holds ${route}`, { fleetId: f.id, systemId: f.location });
+  return { ok: true, intel: `Blockade set on ${route}` };
+}
 
-let currentGameSpeedIndex = 1; // Start at NORMAL speed
-let gameTime = 0; // Game time in seconds
-let lastUpdateTime = 0;
+// -----------------------------------------------------------------------------
+// Game speed (stored in state.clock; see Simulation.ts)
+// -----------------------------------------------------------------------------
 
 export function getGameSpeed(): GameSpeed {
-  return GAME_SPEEDS[currentGameSpeedIndex];
+  return getSpeed(state);
 }
 
 export function setGameSpeed(index: number): void {
   if (index >= 0 && index < GAME_SPEEDS.length) {
-    currentGameSpeedIndex = index;
+    state.clock.speedIndex = index;
     pushIntel('SYSTEM', `Game speed: ${getGameSpeed().name}`);
   }
 }
 
-export function getGameTime(): number {
-  return gameTime;
-}
-
 export function isPaused(): boolean {
-  return getGameSpeed().multiplier === 0;
+  return state.isPaused;
 }
 
-export function updateRealTimeGame(deltaTime: number): void {
-  if (isPaused()) return;
-
-  const speed = getGameSpeed().multiplier;
-  const adjustedDelta = deltaTime * speed;
-  
-  gameTime += adjustedDelta;
-
-  // Update resource generation
-  updateResourceGeneration(adjustedDelta);
-  
-  // Update fleet movements
-  updateFleetMovements(adjustedDelta);
-  
-  // Update AI actions
-  updateAIActions(adjustedDelta);
+/**
+ * Elapsed game time in seconds (derived from the tick counter)
+ */
+export function getGameTime(): number {
+  return state.tick / TICKS_PER_SECOND;
 }
 
 // -----------------------------------------------------------------------------
-// Resource generation (continuous)
+// Station income
 // -----------------------------------------------------------------------------
 
-const RESOURCE_GENERATION_RATE = {
-  T1: 0.5, // 0.5 T1 per second at base rate
-  T2: 0.2, // 0.2 T2 per second
-  T3: 0.1  // 0.1 T3 per second
+// Metals per second from a player station sitting on an asteroid field
+const STATION_INCOME_PER_SECOND: Record<MetalTier, number> = {
+  T1: 0.5,
+  T2: 0.2,
+  T3: 0.1
 };
 
-function updateResourceGeneration(deltaTime: number): void {
-  // Generate resources from stations
+const STATION_INCOME_MULTIPLIER: Partial<Record<StationType, number>> = {
+  MINING: 2,
+  INDUSTRIAL: 1.5
+};
+
+/**
+ * Each producing station pays out one unit whenever its own timer fires,
+ * so slow rates don't round down to nothing.
+ */
+function processStationIncome(): void {
   for (const system of Object.values(state.galaxy)) {
-    if (system.station && system.station.owner === 'PLAYER') {
-      const stationType = system.station.type;
-      
-      // Different station types generate different resources
-      let generationMultiplier = 1;
-      if (stationType === 'MINING') generationMultiplier = 2;
-      if (stationType === 'INDUSTRIAL') generationMultiplier = 1.5;
-      
-      // Generate resources based on station type and system resources
-      if (system.asteroids) {
-        const metalTier = system.asteroids.metalTier;
-        const rate = RESOURCE_GENERATION_RATE[metalTier] * generationMultiplier * deltaTime;
-        addMetals(state.resources, metalTier, Math.floor(rate));
-      }
+    const station = system.station;
+    if (!station || station.owner !== 'PLAYER' || !system.asteroids) continue;
+
+    const tier = system.asteroids.metalTier;
+    const perSecond = STATION_INCOME_PER_SECOND[tier] * (STATION_INCOME_MULTIPLIER[station.type] ?? 1);
+    if (everyTicks(state, `income:${system.id}`, TICKS_PER_SECOND / perSecond)) {
+      addMetals(state.resources, tier, 1);
+      emit({ type: 'ResourcesGained', source: 'STATION', systemId: system.id, metals: { [tier]: 1 } });
     }
   }
 }
 
 // -----------------------------------------------------------------------------
-// Real-time fleet movement
+// AI actions (tick-based)
 // -----------------------------------------------------------------------------
 
-interface FleetMovement {
-  fleetId: string;
-  fromSystemId: string;
-  toSystemId: string;
-  startTime: number;
-  duration: number; // seconds
-}
+const AI_ACTION_TICKS = 5 * TICKS_PER_SECOND; // AI re-plans every 5 seconds
 
-let activeMovements: FleetMovement[] = [];
+function processAI(): void {
+  if (!everyTicks(state, 'ai', AI_ACTION_TICKS)) return;
 
-const MOVEMENT_TIME_PER_HEX = 3.0; // 3 seconds per hex movement
+  const sol = state.galaxy[HOME_SYSTEM_ID];
+  if (!sol) return;
 
-export function startFleetMovement(fleetId: string, targetSystemId: string): boolean {
-  const fleet = state.fleets[fleetId];
-  const targetSystem = state.galaxy[targetSystemId];
-  
-  if (!fleet || !targetSystem) return false;
-  
-  const currentSystem = state.galaxy[fleet.location];
-  if (!currentSystem) return false;
-  
-  // Check if movement is valid (adjacent)
-  if (hexDistance(currentSystem.coord, targetSystem.coord) !== 1) return false;
-  
-  // Check if fleet is already moving
-  if (activeMovements.find(m => m.fleetId === fleetId)) return false;
-  
-  // Calculate movement duration based on fleet speed
-  const baseDuration = MOVEMENT_TIME_PER_HEX;
-  const speedMultiplier = fleet.maxMoves / 3; // Normalize to base speed
-  const duration = baseDuration / speedMultiplier;
-  
-  // Create movement
-  const movement: FleetMovement = {
-    fleetId,
-    fromSystemId: fleet.location,
-    toSystemId: targetSystemId,
-    startTime: gameTime,
-    duration
-  };
-  
-  activeMovements.push(movement);
-  pushIntel('MOVE', `MOVING: ${fleet.name} → ${targetSystem.name} (${duration.toFixed(1)}s)`);
-  
-  return true;
-}
+  // Simple AI: idle enemy fleets step toward SOL along lanes
+  for (const fleet of Object.values(state.fleets)) {
+    if (fleet.owner !== 'ENEMY' || fleet.task !== 'IDLE' || fleet.location === sol.id) continue;
 
-function updateFleetMovements(deltaTime: number): void {
-  const completedMovements: FleetMovement[] = [];
-  
-  for (const movement of activeMovements) {
-    const elapsed = gameTime - movement.startTime;
-    
-    if (elapsed >= movement.duration) {
-      // Movement completed
-      const fleet = state.fleets[movement.fleetId];
-      if (fleet) {
-        fleet.location = movement.toSystemId;
-        pushIntel('MOVE', `ARRIVED: ${fleet.name} at ${state.galaxy[movement.toSystemId].name}`);
-      }
-      completedMovements.push(movement);
+    const hop = nextHopToward(fleet, sol.id);
+    if (hop) {
+      issueCommand({ type: 'AI_ORDER', fleetId: fleet.id, task: 'MOVE', target: hop }, 'AI');
     }
   }
-  
-  // Remove completed movements
-  activeMovements = activeMovements.filter(m => !completedMovements.includes(m));
 }
 
 // -----------------------------------------------------------------------------
-// AI actions (real-time)
+// Invasions (tick-based)
 // -----------------------------------------------------------------------------
 
-let lastAIActionTime = 0;
-const AI_ACTION_INTERVAL = 5.0; // AI acts every 5 seconds
-
-function updateAIActions(deltaTime: number): void {
-  lastAIActionTime += deltaTime;
-  
-  if (lastAIActionTime >= AI_ACTION_INTERVAL) {
-    executeAIActions();
-    lastAIActionTime = 0;
-  }
-}
+const INVASION_ROUND_TICKS = 10 * TICKS_PER_SECOND;
 
-function executeAIActions(): void {
-  const enemyFleets = Object.values(state.fleets).filter(f => f.owner === 'ENEMY');
-  
-  for (const fleet of enemyFleets) {
-    // Simple AI: move toward SOL if not already there
-    if (fleet.location !== 'SOL') {
-      const currentSystem = state.galaxy[fleet.location];
-      const solSystem = state.galaxy['SOL'];
-      
-      if (currentSystem && solSystem) {
-        // Find adjacent system closer to SOL
-        let bestTarget: string | null = null;
-        let bestDistance = hexDistance(currentSystem.coord, solSystem.coord);
-        
-        for (const [systemId, system] of Object.entries(state.galaxy)) {
-          if (hexDistance(currentSystem.coord, system.coord) === 1) {
-            const distanceToSol = hexDistance(system.coord, solSystem.coord);
-            if (distanceToSol < bestDistance) {
-              bestDistance = distanceToSol;
-              bestTarget = systemId;
-            }
-          }
-        }
-        
-        if (bestTarget && !activeMovements.find(m => m.fleetId === fleet.id)) {
-          startFleetMovement(fleet.id, bestTarget);
-        }
-      }
-    }
+function processInvasions(): void {
+  if (everyTicks(state, 'invasions', INVASION_ROUND_TICKS)) {
+    resolveInvasions();
   }
 }
 
@@ -1503,24 +1912,31 @@ export function advanceTurn(): void {
     resetMovesFor('PLAYER');
     pushIntel('SYSTEM', `TURN ${state.turn}: Player phase begins.`);
     
-    // Check for auto-end conditions
+    // Check for auto-end conditions (brief delay to show the turn start)
     if (shouldAutoEndTurn()) {
-      setTimeout(() => {
-        if (shouldAutoEndTurn()) {
-          pushIntel('SYSTEM', 'Auto-ending turn: No actions remaining.');
-          advanceTurn();
-        }
-      }, 1000); // Brief delay to show the turn start
+      setTimer(state, AUTO_END_TURN_TIMER, AUTO_END_TURN_DELAY_TICKS);
     }
   }
 }
 
+const AUTO_END_TURN_TIMER = 'autoEndTurn';
+const AUTO_END_TURN_DELAY_TICKS = TICKS_PER_SECOND;
+
+function processTurnTimer(): void {
+  if (!consumeTimer(state, AUTO_END_TURN_TIMER)) return;
+  if (shouldAutoEndTurn()) {
+    pushIntel('SYSTEM', 'Auto-ending turn: No actions remaining.');
+    advanceTurn();
+  }
+}
+
 // -----------------------------------------------------------------------------
 // Turn handling (updated to use advanceTurn)
 // -----------------------------------------------------------------------------
 
 export function endTurn(): void {
   if (state.phase !== 'PLAYER') return;
+  clearTimer(state, AUTO_END_TURN_TIMER);
 
   // Generate turn summary
   const turnSummary = generateTurnSummary();
@@ -1592,46 +2008,45 @@ function generateTurnSummary(): TurnSummary {
 // Save / Load / New Game
 // -----------------------------------------------------------------------------
 
-export function saveGame(): void {
-  const payload = JSON.stringify(state);
-  localStorage.setItem(STORAGE_KEY, payload);
-  pushIntel('SYSTEM', 'SAVE: Game saved.');
-}
-
-export function loadGame(): boolean {
-  const raw = localStorage.getItem(STORAGE_KEY);
-  if (!raw) {
-    pushIntel('ALERT', 'LOAD FAILED: No save found.');
+/**
+ * The live game as a save payload (storage lives in SaveStorage.ts)
+ */
+export function serializeGame(): string {
+  return JSON.stringify(state);
+}
+
+/**
+ * Replace the live game with a serialized one (see serializeGame).
+ * Older saves are migrated forward; anything that still fails validation
+ * is rejected with the problems reported to the intel log, and the live
+ * game is left untouched.
+ */
+export function loadGameFromString(raw: string): boolean {
+  const parsed = parseSave(raw);
+  if (!parsed.ok) {
+    reportLoadErrors('LOAD FAILED', parsed.errors);
     return false;
   }
 
-  try {
-    const parsed = JSON.parse(raw) as GameState;
-
-    // minimal validation
-    if (!parsed || parsed.version !== 2) {
-      pushIntel('ALERT', 'LOAD FAILED: Bad save version.');
-      return false;
-    }
-    if (!parsed.galaxy || !parsed.fleets || !parsed.resources) {
-      pushIntel('ALERT', 'LOAD FAILED: Corrupt save data.');
-      return false;
-    }
-
-    // ensure tiered metals exists
-    parsed.resources.tieredMetals = ensureTieredMetals(parsed.resources.tieredMetals);
+  state = parsed.save;
+  updateVisibility();
+  const upgraded = parsed.fromVersion !== CURRENT_SAVE_VERSION ? ` (upgraded from v${parsed.fromVersion})` : '';
+  pushIntel('SYSTEM', `LOAD: Game loaded${upgraded}.`);
+  return true;
+}
 
-    state = parsed;
-    pushIntel('SYSTEM', 'LOAD: Game loaded.');
-    return true;
-  } catch {
-    pushIntel('ALERT', 'LOAD FAILED: Could not parse save.');
-    return false;
-  }
+/**
+ * Report parseSave errors: summary line first, details indented
+ */
+export function reportLoadErrors(prefix: string, errors: string[]): void {
+  errors.forEach((line, i) => pushIntel('ALERT', i === 0 ? `${prefix}: ${line}` : `  ${line}`));
 }
 
-export function newGame(): void {
-  bootstrapGameState();
+/**
+ * Start a fresh run. Reuses the current galaxy options unless new ones are given.
+ */
+export function newGame(galaxyOptions?: GalaxyGenOptions): void {
+  bootstrapGameState(undefined, galaxyOptions ?? state?.galaxyOptions ?? DEFAULT_GALAXY_OPTIONS);
 }
 
 // -----------------------------------------------------------------------------
@@ -1658,7 +2073,7 @@ export function createPlanet(systemId: string, planetId: string, controller: Pla
     controller,
     groundTroops: controller === 'NEUTRAL' ? 0 : 50, // Neutral planets have no troops
     defenses: controller === 'NEUTRAL' ? 20 : 40, // Basic defenses
-    population: Math.floor(Math.random() * 10000) + 1000, // Random population
+    population: randInt(makeRng(deriveSeed(system.seed, 'planet', planetId)), 1000, 10999), // Seeded population
     // NEW: Invasion system fields
     defense: {
       control: controller,
@@ -1720,7 +2135,7 @@ export function invadePlanet(systemId: string, planetId: string, attackerFleetId
     fleet.groundTroops -= occupationTroops;
     planet.groundTroops = occupationTroops;
     
-    pushIntel('ALERT', `PLANET CAPTURED: ${planetId} captured by ${attacker}. Losses: ${attackerLosses} troops.`);
+    emit({ type: 'PlanetCaptured', systemId, planetId, by: attacker, troopLosses: attackerLosses });
   } else {
     // Defender wins - deterministic losses
     const attackerLosses = Math.floor(fleet.groundTroops * 0.4); // 40% losses
@@ -1729,7 +2144,7 @@ export function invadePlanet(systemId: string, planetId: string, attackerFleetId
     fleet.groundTroops = Math.max(0, fleet.groundTroops - attackerLosses);
     planet.groundTroops = Math.max(0, planet.groundTroops - defenderLosses);
     
-    pushIntel('ALERT', `INVASION FAILED: ${planetId} defended. Attacker losses: ${attackerLosses} troops.`);
+    emit({ type: 'InvasionRepelled', systemId, planetId, attacker, troopLosses: attackerLosses });
   }
 
   return success;
@@ -1768,7 +2183,7 @@ export function reinforcePlanet(systemId: string, planetId: string, fleetId: str
   fleet.groundTroops -= transferTroops;
   planet.groundTroops += transferTroops;
 
-  pushIntel('SYSTEM', `PLANET REINFORCED: ${transferTroops} troops stationed on ${planetId}`);
+  pushIntel('SYSTEM', `PLANET REINFORCED: ${transferTroops} troops stationed on ${planetId}`, { fleetId, systemId: fleet.location, planetId });
   return true;
 }
 
@@ -1881,22 +2296,9 @@ export function getFleetAnchor(fleetId: string): Fleet['systemAnchor'] {
 }
 
 // -----------------------------------------------------------------------------
-// Combat Resolution System (NEW)
+// Combat estimates (engagements themselves are in Combat.ts)
 // -----------------------------------------------------------------------------
 
-export function calculateFleetPower(fleet: Fleet): number {
-  let power = 0;
-  for (const ship of fleet.ships) {
-    const shipPower = 
-      (ship.weapons || 0) * 1.0 +
-      (ship.armor || 0) * 0.5 +
-      ship.integrity * 0.1 +
-      ship.morale * 0.05;
-    power += shipPower;
-  }
-  return power * (fleet.morale / 100); // Fleet morale modifier
-}
-
 export function calculateSystemThreat(system: StarSystem): number {
   const baseThreat = system.tier * 20;
   const typeModifier = {
@@ -1913,116 +2315,29 @@ export function calculateSystemThreat(system: StarSystem): number {
   return baseThreat + typeModifier;
 }
 
-export function generateCombatIntel(fleetPower: number, systemThreat: number): CombatIntel {
-  const powerRatio = fleetPower / systemThreat;
-  return {
-    fleetPower: Math.floor(fleetPower),
-    estimatedEnemyThreat: Math.floor(systemThreat * (0.8 + Math.random() * 0.4)), // Intel uncertainty
-    powerRatio: Math.round(powerRatio * 100) / 100,
-    confidence: powerRatio > 1.5 ? 'HIGH' : powerRatio > 0.8 ? 'MEDIUM' : 'LOW'
-  };
-}
-
-export function resolveCombat(fleetId: string, systemId: string): CombatOutcome {
-  const fleet = state.fleets[fleetId];
-  const system = state.galaxy[systemId];
-  
-  if (!fleet || !system) {
-    throw new Error(`Invalid combat: fleet ${fleetId} or system ${systemId} not found`);
-  }
-  
-  const fleetPower = calculateFleetPower(fleet);
-  const systemThreat = calculateSystemThreat(system);
-  const powerRatio = fleetPower / systemThreat;
-  
-  // Generate combat intel for logging
-  const intel = generateCombatIntel(fleetPower, systemThreat);
-  
-  // Determine outcome based on power ratio
-  let outcome: CombatOutcomeType;
-  let damageMultiplier: number;
-  
-  if (powerRatio >= 2.0) {
-    outcome = 'VICTORY';
-    damageMultiplier = 0.1;
-  } else if (powerRatio >= 1.2) {
-    outcome = 'PYRRHIC_VICTORY';
-    damageMultiplier = 0.4;
-  } else if (powerRatio >= 0.8) {
-    outcome = 'RETREAT';
-    damageMultiplier = 0.6;
-  } else {
-    outcome = 'DESTRUCTION';
-    damageMultiplier = 1.0;
-  }
-  
-  // Apply damage based on outcome
-  applyCombatDamage(fleetId, damageMultiplier);
-  
-  // Generate loot based on system tier and outcome
-  const loot = calculateLoot(system, outcome);
-  
-  // Log combat result
-  pushIntel('ALERT', `COMBAT: ${fleet.name} vs ${system.name} - ${outcome} (Power: ${intel.fleetPower} vs ${intel.estimatedEnemyThreat})`);
-  
-  return {
-    outcome,
-    intel,
-    damage: damageMultiplier,
-    loot
-  };
-}
-
-function applyCombatDamage(fleetId: string, multiplier: number): void {
-  const fleet = state.fleets[fleetId];
-  if (!fleet) return;
-  
-  // Apply integrity damage
-  const integrityDamage = Math.floor(50 * multiplier);
-  fleet.integrity = Math.max(0, fleet.integrity - integrityDamage);
-  
-  // Apply morale damage
-  const moraleDamage = Math.floor(30 * multiplier);
-  fleet.morale = Math.max(0, fleet.morale - moraleDamage);
-  
-  // Apply ship damage (individual ships can be destroyed)
-  for (const ship of fleet.ships) {
-    const shipDamage = Math.floor(40 * multiplier);
-    ship.integrity = Math.max(0, ship.integrity - shipDamage);
-    ship.morale = Math.max(0, ship.morale - Math.floor(20 * multiplier));
-  }
-  
-  // Remove destroyed ships
-  fleet.ships = fleet.ships.filter(ship => ship.integrity > 0);
-  
-  // Delete fleet if all ships destroyed
-  if (fleet.ships.length === 0) {
-    delete state.fleets[fleetId];
-    pushIntel('ALERT', `FLEET DESTROYED: ${fleet.name} was completely destroyed in combat`);
-  }
-}
-
-function calculateLoot(system: StarSystem, outcome: CombatOutcomeType): Partial<TieredMetals> {
-  if (outcome === 'DESTRUCTION') {
-    return {}; // No loot on destruction
+/**
+ * Announce ships already removed from a fleet, and the fleet itself if none are left
+ */
+export function reportShipLosses(fleet: Fleet, lost: Ship[], cause: DamageCause): void {
+  for (const ship of lost) {
+    emit({
+      type: 'ShipDestroyed',
+      fleetId: fleet.id,
+      fleetName: fleet.name,
+      owner: fleet.owner,
+      shipId: ship.id,
+      shipType: ship.type,
+      systemId: fleet.location,
+      cause,
+      shipName: ship.name,
+      rank: getRank(ship),
+      captain: ship.captain?.name
+    });
   }
-  
-  const baseLoot = {
-    T1: system.tier * 5,
-    T2: system.tier * 2,
-    T3: system.tier * 1
-  };
-  
-  // Reduce loot for retreat
-  if (outcome === 'RETREAT') {
-    return {
-      T1: Math.floor(baseLoot.T1 * 0.5),
-      T2: Math.floor(baseLoot.T2 * 0.5),
-      T3: Math.floor(baseLoot.T3 * 0.5)
-    };
+  mournLosses(fleet, lost);
+  if (lost.length > 0 && fleet.ships.length === 0) {
+    emit({ type: 'FleetDestroyed', fleetId: fleet.id, fleetName: fleet.name, owner: fleet.owner, systemId: fleet.location, cause });
   }
-  
-  return baseLoot;
 }
 
 // -----------------------------------------------------------------------------
@@ -2050,6 +2365,26 @@ export function checkVictoryConditions(state: GameState): VictoryResult | null {
   return null;
 }
 
+/**
+ * The victory condition the player is closest to, with progress 0..1
+ * (shown in save slot metadata)
+ */
+export function getVictoryProgress(state: GameState): { type: VictoryType; progress: number } {
+  const checks: Record<VictoryType, VictoryCheck> = {
+    DOMINATION: checkDominationVictory(state),
+    ECONOMIC: checkEconomicVictory(state),
+    EXPLORATION: checkExplorationVictory(state),
+    SURVIVAL: checkSurvivalVictory(state)
+  };
+
+  let best: { type: VictoryType; progress: number } = { type: 'SURVIVAL', progress: 0 };
+  for (const [type, check] of Object.entries(checks) as [VictoryType, VictoryCheck][]) {
+    const progress = Math.min(1, check.progress);
+    if (progress > best.progress) best = { type, progress };
+  }
+  return best;
+}
+
 function checkDominationVictory(state: GameState): VictoryCheck {
   const allSystems = Object.keys(state.galaxy);
   const playerSystems = allSystems.filter(id => 
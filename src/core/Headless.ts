@@ -0,0 +1,219 @@
+// src/core/Headless.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Headless Simulation Runner (NO Phaser imports, NO DOM)
+//
+// Boots a game from a seed, runs N ticks with scripted and/or auto-player
+// commands, and returns summary statistics as plain JSON-safe data.
+// Used by scripts/headless.ts for overnight balancing sweeps.
+//
+// Everything goes through the normal tick engine and Commands, so a
+// headless run is an ordinary run: its command log replays in the browser.
+// -----------------------------------------------------------------------------
+
+import { bootstrapGameState, getState, checkVictoryConditions, checkDefeatConditions } from './GameState';
+import { issueCommand } from './Commands';
+import { AUTO_PLAYER_INTERVAL_TICKS, planPlayerCommands } from './AutoPlayer';
+import { hashState } from './Replay';
+import { onAnyEvent } from './Events';
+import { stepTick, TICKS_PER_SECOND } from './Simulation';
+import { DEFAULT_GALAXY_OPTIONS } from './GalaxyGenerator';
+import type { Command, DefeatResult, GalaxyGenOptions, GameEvent, GameState, VictoryResult } from './types';
+
+export type ScriptedCommand = {
+  tick: number;       // issued once this tick has been reached
+  command: Command;
+};
+
+export type HeadlessOptions = {
+  seed: number;
+  ticks: number;
+  galaxyOptions?: GalaxyGenOptions;
+  autoPlayer?: boolean;          // default true
+  script?: ScriptedCommand[];
+  sampleEveryTicks?: number;     // resource samples (default 100)
+  stopOnGameOver?: boolean;      // default true
+};
+
+export type ResourceSample = {
+  tick: number;
+  T1: number;
+  T2: number;
+  T3: number;
+  alloys: number;
+  crystals: number;
+};
+
+export type HeadlessReport = {
+  seed: number;
+  galaxyOptions: GalaxyGenOptions;
+  ticksRun: number;
+  finalTurn: number;
+  finalHash: string;
+  commandsIssued: number;
+  commandsRejected: number;
+  resources: ResourceSample[];
+  fleetsLost: number;
+  shipsLost: number;
+  enemyFleetsDestroyed: number;
+  fleetsBuilt: number;
+  invasionsWon: number;
+  invasionsFailed: number;
+  planetsLost: number;
+  battlesFought: number;
+  battlesWon: number;
+  shipsPromoted: number;
+  systemsScanned: number;
+  victory: (VictoryResult & { tick: number }) | null;
+  defeat: (DefeatResult & { tick: number }) | null;
+};
+
+// Victory / defeat checks are relatively costly; once per game second is plenty
+const GAME_OVER_CHECK_TICKS = TICKS_PER_SECOND;
+
+// -----------------------------------------------------------------------------
+// Runner
+// -----------------------------------------------------------------------------
+
+/**
+ * Run one seeded game without a browser. Replaces the live game state.
+ */
+export function runHeadless(options: HeadlessOptions): HeadlessReport {
+  const galaxyOptions = options.galaxyOptions ?? DEFAULT_GALAXY_OPTIONS;
+  bootstrapGameState(options.seed, galaxyOptions);
+  const state = getState();
+
+  const autoPlayer = options.autoPlayer ?? true;
+  const sampleEvery = Math.max(1, options.sampleEveryTicks ?? 100);
+  const script = (options.script ?? []).slice().sort((a, b) => a.tick - b.tick);
+
+  const report: HeadlessReport = {
+    seed: options.seed,
+    galaxyOptions: { ...galaxyOptions },
+    ticksRun: 0,
+    finalTurn: state.turn,
+    finalHash: '',
+    commandsIssued: 0,
+    commandsRejected: 0,
+    resources: [sampleResources(state)],
+    fleetsLost: 0,
+    shipsLost: 0,
+    enemyFleetsDestroyed: 0,
+    fleetsBuilt: 0,
+    invasionsWon: 0,
+    invasionsFailed: 0,
+    planetsLost: 0,
+    battlesFought: 0,
+    battlesWon: 0,
+    shipsPromoted: 0,
+    systemsScanned: 0,
+    victory: null,
+    defeat: null
+  };
+
+  const issue = (command: Command) => {
+    const result = issueCommand(command);
+    report.commandsIssued++;
+    if (!result.ok) report.commandsRejected++;
+  };
+
+  // Losses, builds and invasions are counted as they happen
+  const unsubscribe = onAnyEvent(event => tallyEvent(report, event));
+  try {
+    let next = 0;
+    while (report.ticksRun < options.ticks) {
+      // Player input happens between ticks, like in the browser
+      while (next < script.length && script[next].tick <= state.tick) {
+        issue(script[next].command);
+        next++;
+      }
+      if (autoPlayer && state.tick % AUTO_PLAYER_INTERVAL_TICKS === 0) {
+        for (const command of planPlayerCommands(state)) issue(command);
+      }
+
+      stepTick(state);
+      report.ticksRun++;
+
+      if (state.tick % sampleEvery === 0) {
+        report.resources.push(sampleResources(state));
+      }
+
+      if (state.tick % GAME_OVER_CHECK_TICKS === 0 && !report.victory && !report.defeat) {
+        const victory = checkVictoryConditions(state);
+        const defeat = checkDefeatConditions(state);
+        if (victory) report.victory = { ...victory, tick: state.tick };
+        if (defeat) report.defeat = { ...defeat, tick: state.tick };
+        if ((victory || defeat) && (options.stopOnGameOver ?? true)) break;
+      }
+    }
+  } finally {
+    unsubscribe();
+  }
+
+  if (report.resources[report.resources.length - 1].tick !== state.tick) {
+    report.resources.push(sampleResources(state));
+  }
+  report.finalTurn = state.turn;
+  report.finalHash = hashState(state);
+  report.systemsScanned = Object.values(state.galaxy).filter(s => s.intel === 'SCANNED' || s.intel === 'STALE').length;
+  return report;
+}
+
+/**
+ * Run many seeds in sequence (seed, seed + 1, ...)
+ */
+export function runHeadlessBatch(options: HeadlessOptions, count: number): HeadlessReport[] {
+  const reports: HeadlessReport[] = [];
+  for (let i = 0; i < count; i++) {
+    reports.push(runHeadless({ ...options, seed: options.seed + i }));
+  }
+  return reports;
+}
+
+// -----------------------------------------------------------------------------
+// Bookkeeping
+// -----------------------------------------------------------------------------
+
+/**
+ * Statistics straight from the event stream (losses inside a tick are
+ * combat / pressure / invasions; commands run between ticks)
+ */
+function tallyEvent(report: HeadlessReport, event: GameEvent): void {
+  switch (event.type) {
+    case 'FleetBuilt':
+      report.fleetsBuilt++;
+      break;
+    case 'ShipDestroyed':
+      if (event.owner === 'PLAYER') report.shipsLost++;
+      break;
+    case 'FleetDestroyed':
+      if (event.owner === 'PLAYER') report.fleetsLost++;
+      else report.enemyFleetsDestroyed++;
+      break;
+    case 'BattleFought':
+      report.battlesFought++;
+      if (event.report.winner === 'PLAYER') report.battlesWon++;
+      break;
+    case 'ShipPromoted':
+      if (event.owner === 'PLAYER') report.shipsPromoted++;
+      break;
+    case 'PlanetCaptured':
+      if (event.by === 'PLAYER') report.invasionsWon++;
+      else report.planetsLost++;
+      break;
+    case 'InvasionRepelled':
+      if (event.attacker === 'PLAYER') report.invasionsFailed++;
+      break;
+  }
+}
+
+function sampleResources(st: GameState): ResourceSample {
+  const r = st.resources;
+  return {
+    tick: st.tick,
+    T1: r.tieredMetals.T1,
+    T2: r.tieredMetals.T2,
+    T3: r.tieredMetals.T3,
+    alloys: r.alloys,
+    crystals: r.crystals
+  };
+}
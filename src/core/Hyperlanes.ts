@@ -0,0 +1,128 @@
+// src/core/Hyperlanes.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Hyperlane Graph Helpers (NO Phaser imports)
+//
+// Systems are connected only by explicit lanes (GameState.lanes), not by raw
+// hex adjacency. This module holds the pure graph queries used by movement
+// validation, range highlights and enemy routing:
+// - lane lookup by endpoint pair
+// - passable neighbors for a side (respecting blockades)
+// - travel time multiplier (base lane length + contested penalty)
+// - weighted distances for routing
+// -----------------------------------------------------------------------------
+
+import type { FleetOwner, Hyperlane, HyperlaneGraph } from './types';
+
+// Contested lanes are slower to cross (fleets dodge fire / reroute)
+export const CONTESTED_LANE_PENALTY = 1.5;
+
+/**
+ * Stable lane id for an unordered pair of systems
+ */
+export function laneKey(a: string, b: string): string {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Create a lane between two systems (endpoints are stored sorted)
+ */
+export function createLane(a: string, b: string, travelMultiplier: number = 1): Hyperlane {
+  const [lo, hi] = a < b ? [a, b] : [b, a];
+  return {
+    id: laneKey(lo, hi),
+    a: lo,
+    b: hi,
+    travelMultiplier: Math.max(1, travelMultiplier),
+    blocked: false,
+    contested: false
+  };
+}
+
+/**
+ * Get the lane connecting two systems, or null if they are not connected
+ */
+export function getLane(lanes: HyperlaneGraph, a: string, b: string): Hyperlane | null {
+  return lanes[laneKey(a, b)] ?? null;
+}
+
+/**
+ * The system at the other end of a lane
+ */
+export function otherEnd(lane: Hyperlane, systemId: string): string {
+  return lane.a === systemId ? lane.b : lane.a;
+}
+
+/**
+ * All lanes touching a system
+ */
+export function getLanesFrom(lanes: HyperlaneGraph, systemId: string): Hyperlane[] {
+  return Object.values(lanes).filter(l => l.a === systemId || l.b === systemId);
+}
+
+/**
+ * Can `owner` travel along this lane? Blockades only stop the opposing side.
+ */
+export function isLanePassable(lane: Hyperlane, owner: FleetOwner): boolean {
+  return !lane.blocked || lane.blockedBy === owner;
+}
+
+/**
+ * Systems reachable from `systemId` in one hop for `owner`
+ */
+export function getNeighbors(lanes: HyperlaneGraph, systemId: string, owner: FleetOwner): string[] {
+  return getLanesFrom(lanes, systemId)
+    .filter(l => isLanePassable(l, owner))
+    .map(l => otherEnd(l, systemId));
+}
+
+/**
+ * Are two systems directly connected by a lane `owner` may use?
+ */
+export function areConnected(lanes: HyperlaneGraph, a: string, b: string, owner: FleetOwner): boolean {
+  const lane = getLane(lanes, a, b);
+  return !!lane && isLanePassable(lane, owner);
+}
+
+/**
+ * Effective travel time multiplier for crossing a lane right now
+ */
+export function laneTravelMultiplier(lane: Hyperlane): number {
+  return lane.travelMultiplier * (lane.contested ? CONTESTED_LANE_PENALTY : 1);
+}
+
+/**
+ * Weighted travel distance (sum of lane multipliers) from one system to every
+ * reachable system for `owner`. Unreachable systems are absent.
+ */
+export function laneDistances(lanes: HyperlaneGraph, fromId: string, owner: FleetOwner): Record<string, number> {
+  const dist: Record<string, number> = { [fromId]: 0 };
+  const open = new Set<string>([fromId]);
+  const done = new Set<string>();
+
+  // Plain Dijkstra; galaxies are small enough that a linear scan for the
+  // minimum is fine and keeps the result independent of heap tie-breaking.
+  while (open.size > 0) {
+    let current: string | null = null;
+    for (const id of open) {
+      if (current === null || dist[id] < dist[current] || (dist[id] === dist[current] && id < current)) {
+        current = id;
+      }
+    }
+    if (current === null) break;
+    open.delete(current);
+    done.add(current);
+
+    for (const lane of getLanesFrom(lanes, current)) {
+      if (!isLanePassable(lane, owner)) continue;
+      const next = otherEnd(lane, current);
+      if (done.has(next)) continue;
+      const cost = dist[current] + laneTravelMultiplier(lane);
+      if (dist[next] === undefined || cost < dist[next]) {
+        dist[next] = cost;
+        open.add(next);
+      }
+    }
+  }
+
+  return dist;
+}
@@ -0,0 +1,133 @@
+// src/core/IntelLog.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Intel Archive: Folding, Severity & Queries (NO Phaser imports)
+//
+// Every intel line is kept for the whole run and saved with the game.
+// - Entries carry what they are about (system / fleet / planet) and a severity
+// - A line that repeats within AGGREGATE_WINDOW_TICKS folds into the earlier
+//   entry instead of adding a new one: count goes up, the text becomes the
+//   latest and the entry moves to the end. "Repeats" share a group (set by
+//   the caller, e.g. one mining fleet's deliveries) or, without one, the
+//   same kind and text.
+// - queryIntel() filters the archive for the intel view (IntelScene)
+// -----------------------------------------------------------------------------
+
+import { TICKS_PER_SECOND } from './Simulation';
+import type { GameState, IntelEntry, IntelKind, IntelRefs, IntelSeverity } from './types';
+
+// Optional structure for pushIntel(); anything left out is inferred
+export type IntelDetails = IntelRefs & {
+  severity?: IntelSeverity;
+  group?: string;
+};
+
+export type IntelQuery = {
+  kinds?: IntelKind[];            // empty or absent: every kind
+  minSeverity?: IntelSeverity;
+  search?: string;                // case-insensitive, matched against the text
+  systemId?: string;
+  fleetId?: string;
+};
+
+// In display order (filter chips)
+export const INTEL_KINDS: IntelKind[] = ['ALERT', 'MOVE', 'SCAN', 'MINE', 'SALVAGE', 'BUILD', 'DISMANTLE', 'BOOST', 'SYSTEM'];
+
+export const INTEL_SEVERITIES: IntelSeverity[] = ['INFO', 'WARNING', 'CRITICAL'];
+
+// Repeats further apart than this start a new entry
+const AGGREGATE_WINDOW_TICKS = 30 * TICKS_PER_SECOND;
+
+// How far back from the newest entry a repeat is looked for
+const AGGREGATE_LOOKBACK = 20;
+
+// -----------------------------------------------------------------------------
+// Recording
+// -----------------------------------------------------------------------------
+
+/**
+ * Severity for lines logged without one
+ */
+export function defaultSeverity(kind: IntelKind): IntelSeverity {
+  return kind === 'ALERT' ? 'WARNING' : 'INFO';
+}
+
+/**
+ * Append a line to the archive, or fold it into a recent repeat.
+ * Returns the entry that now holds it.
+ */
+export function recordIntel(st: GameState, kind: IntelKind, text: string, details: IntelDetails, ts: number): IntelEntry {
+  const log = st.intelLog;
+  const group = details.group ?? `${kind}|${text}`;
+
+  for (let i = log.length - 1; i >= Math.max(0, log.length - AGGREGATE_LOOKBACK); i--) {
+    const entry = log[i];
+    if (st.tick - entry.lastTick > AGGREGATE_WINDOW_TICKS) break;
+    if (entry.kind !== kind || groupOf(entry) !== group) continue;
+
+    entry.count++;
+    entry.lastTick = st.tick;
+    entry.ts = ts;
+    entry.text = text;
+    if (i !== log.length - 1) {
+      log.splice(i, 1);
+      log.push(entry);
+    }
+    return entry;
+  }
+
+  const entry: IntelEntry = {
+    id: `I${st.nextIntelId++}`,
+    turn: st.turn,
+    tick: st.tick,
+    ts,
+    kind,
+    text,
+    severity: details.severity ?? defaultSeverity(kind),
+    count: 1,
+    lastTick: st.tick
+  };
+  if (details.group) entry.group = details.group;
+  if (details.systemId) entry.systemId = details.systemId;
+  if (details.fleetId) entry.fleetId = details.fleetId;
+  if (details.planetId) entry.planetId = details.planetId;
+  if (details.battleId) entry.battleId = details.battleId;
+  log.push(entry);
+  return entry;
+}
+
+function groupOf(entry: IntelEntry): string {
+  return entry.group ?? `${entry.kind}|${entry.text}`;
+}
+
+// -----------------------------------------------------------------------------
+// Queries
+// -----------------------------------------------------------------------------
+
+/**
+ * Entries matching every given criterion, newest first
+ */
+export function queryIntel(log: IntelEntry[], query: IntelQuery): IntelEntry[] {
+  const kinds = query.kinds && query.kinds.length > 0 ? new Set(query.kinds) : null;
+  const minRank = query.minSeverity ? INTEL_SEVERITIES.indexOf(query.minSeverity) : 0;
+  const needle = query.search?.trim().toLowerCase() ?? '';
+
+  const matches: IntelEntry[] = [];
+  for (let i = log.length - 1; i >= 0; i--) {
+    const entry = log[i];
+    if (kinds && !kinds.has(entry.kind)) continue;
+    if (INTEL_SEVERITIES.indexOf(entry.severity) < minRank) continue;
+    if (query.systemId && entry.systemId !== query.systemId) continue;
+    if (query.fleetId && entry.fleetId !== query.fleetId) continue;
+    if (needle && !entry.text.toLowerCase().includes(needle)) continue;
+    matches.push(entry);
+  }
+  return matches;
+}
+
+/**
+ * One display line: "[T3 t1234] text", or "[T3 t1200..1234] text (x12)" once folded
+ */
+export function formatIntelEntry(entry: IntelEntry): string {
+  if (entry.count === 1) return `[T${entry.turn} t${entry.tick}] ${entry.text}`;
+  return `[T${entry.turn} t${entry.tick}..${entry.lastTick}] ${entry.text} (x${entry.count})`;
+}
@@ -4,7 +4,10 @@
 // -----------------------------------------------------------------------------
 
 import { getState, pushIntel } from './GameState';
-import type { Planet, PlanetDefense, Invasion, PlanetController } from './types';
+import { emit } from './Events';
+import { awardInvasionXp } from './Veterancy';
+import { bombardmentDamage } from './Weapons';
+import type { Planet, PlanetDefense, Invasion, PlanetController, Fleet, FleetOwner } from './types';
 
 /**
  * Start an invasion on a planet
@@ -19,11 +22,13 @@ export function startInvasion(planetId: string, strength: number, attacker: 'PLA
   // Find the planet across all systems
   let planet: Planet | null = null;
   let planetName: string = '';
+  let systemId: string = '';
   
   for (const system of Object.values(state.galaxy)) {
     if (system.planets?.[planetId]) {
       planet = system.planets[planetId];
       planetName = system.name;
+      systemId = system.id;
       break;
     }
   }
@@ -62,7 +67,7 @@ export function startInvasion(planetId: string, strength: number, attacker: 'PLA
   planet.defense.control = 'CONTESTED';
   planet.controller = 'CONTESTED';
   
-  pushIntel('ALERT', `INVASION START: ${planetName} by ${attacker} (STR ${strength})`);
+  emit({ type: 'InvasionStarted', systemId, planetId, attacker, strength });
   return true;
 }
 
@@ -72,27 +77,27 @@ export function startInvasion(planetId: string, strength: number, attacker: 'PLA
  */
 export function resolveInvasions(): void {
   const state = getState();
-  const invasionsToResolve: { planet: Planet; systemName: string }[] = [];
+  const invasionsToResolve: { planet: Planet; systemId: string }[] = [];
   
   // Collect all planets with active invasions
   for (const system of Object.values(state.galaxy)) {
     for (const planet of Object.values(system.planets || {})) {
       if (planet.invasion) {
-        invasionsToResolve.push({ planet, systemName: system.name });
+        invasionsToResolve.push({ planet, systemId: system.id });
       }
     }
   }
   
   // Resolve each invasion
-  for (const { planet, systemName } of invasionsToResolve) {
-    resolveInvasionTick(planet, systemName);
+  for (const { planet, systemId } of invasionsToResolve) {
+    resolveInvasionTick(planet, systemId);
   }
 }
 
 /**
  * Resolve one tick of an invasion
  */
-function resolveInvasionTick(planet: Planet, systemName: string): void {
+function resolveInvasionTick(planet: Planet, systemId: string): void {
   if (!planet.invasion) return;
   
   const invasion = planet.invasion;
@@ -101,6 +106,11 @@ function resolveInvasionTick(planet: Planet, systemName: string): void {
   // Increment turn counter
   invasion.turnsOngoing++;
   
+  // Ships in orbit knock out fortifications before the troops go in
+  const orbiting = orbitingFleets(systemId, invasion.attacker);
+  const bombardment = bombard(planet, orbiting);
+  defense.fortification = Math.max(0, defense.fortification - bombardment);
+  
   // Calculate damage (deterministic, no RNG)
   const attackDamage = Math.max(1, invasion.invasionStrength - defense.fortification);
   const defenseDamage = Math.max(1, defense.garrison);
@@ -124,7 +134,8 @@ function resolveInvasionTick(planet: Planet, systemName: string): void {
     // Clear invasion
     planet.invasion = undefined;
     
-    pushIntel('ALERT', `CAPTURED: ${systemName} by ${invasion.attacker}`);
+    emit({ type: 'PlanetCaptured', systemId, planetId: invasion.planetId, by: invasion.attacker });
+    awardInvasionXp(orbiting, true);
   } else if (invasion.invasionStrength <= 0) {
     // Defender wins
     const defender = invasion.attacker === 'PLAYER' ? 'ENEMY' : 'PLAYER';
@@ -137,11 +148,42 @@ function resolveInvasionTick(planet: Planet, systemName: string): void {
     // Clear invasion
     planet.invasion = undefined;
     
-    pushIntel('ALERT', `INVASION FAILED: ${systemName}`);
+    emit({ type: 'InvasionRepelled', systemId, planetId: invasion.planetId, attacker: invasion.attacker });
   } else {
     // Invasion continues - show progress
-    pushIntel('SYSTEM', `INVASION: ${systemName} - Turn ${invasion.turnsOngoing} - Garrison: ${defense.garrison}, Invasion: ${invasion.invasionStrength}`);
+    emit({
+      type: 'InvasionTick',
+      systemId,
+      planetId: invasion.planetId,
+      attacker: invasion.attacker,
+      turnsOngoing: invasion.turnsOngoing,
+      garrison: defense.garrison,
+      invasionStrength: invasion.invasionStrength,
+      fortification: defense.fortification,
+      bombardment
+    });
+    awardInvasionXp(orbiting, false);
+  }
+}
+
+/**
+ * The attacker's warships over the planet: fleets still underway and
+ * immobile hulls (stations) don't count
+ */
+function orbitingFleets(systemId: string, attacker: FleetOwner): Fleet[] {
+  return Object.values(getState().fleets)
+    .filter(f => f.owner === attacker && f.location === systemId && f.task !== 'MOVE' && f.maxMoves > 0);
+}
+
+/**
+ * Fortification the orbiting fleets knock out this round
+ */
+function bombard(planet: Planet, fleets: Fleet[]): number {
+  let total = 0;
+  for (const fleet of fleets) {
+    for (const ship of fleet.ships) total += bombardmentDamage(ship, planet);
   }
+  return Math.floor(total);
 }
 
 /**
@@ -0,0 +1,107 @@
+// src/core/Pathfinding.ts
+// -----------------------------------------------------------------------------
+// HexFleet — A* Route Planning over Hyperlanes (NO Phaser imports)
+//
+// Finds the cheapest lane route between two systems for a given side.
+// Cost model:
+// - each lane costs its current travel multiplier (contested lanes cost more)
+// - entering a hostile system adds HOSTILE_SYSTEM_COST (for the player, only
+//   enemy fleets in sensor range or last-known positions count)
+// - the player may only route THROUGH discovered systems; the destination
+//   itself may be unknown (that's how exploration works)
+// - blockaded lanes are skipped for the side they block
+//
+// Pure: reads the state passed in, never mutates it.
+// -----------------------------------------------------------------------------
+
+import type { FleetOwner, GameState } from './types';
+import { getLanesFrom, isLanePassable, laneTravelMultiplier, otherEnd } from './Hyperlanes';
+import { hexDistance } from '../utils/hex';
+
+// Extra cost for passing through a system held by the other side
+export const HOSTILE_SYSTEM_COST = 3;
+
+export type PathResult = {
+  route: string[]; // system ids to visit in order, excluding the start
+  cost: number;    // total weighted cost (lane multipliers + hostile penalties)
+};
+
+/**
+ * Is this system hostile territory for `owner` (as far as `owner` knows)?
+ */
+export function isHostileSystem(st: GameState, systemId: string, owner: FleetOwner): boolean {
+  const sys = st.galaxy[systemId];
+  if (!sys) return false;
+
+  if (owner === 'PLAYER') {
+    // Only enemy fleets the player can see (or last saw there) count
+    const inView = st.visibility.visibleSystems.includes(systemId);
+    if (inView && Object.values(st.fleets).some(f => f.owner === 'ENEMY' && f.location === systemId)) return true;
+    if (!inView && Object.values(st.visibility.lastSeen).some(seen => seen.systemId === systemId)) return true;
+
+    if (sys.intel === 'UNKNOWN') return false;
+    return sys.type === 'HOSTILE_STRONGHOLD' || sys.station?.owner === 'ENEMY';
+  }
+  if (Object.values(st.fleets).some(f => f.owner === 'PLAYER' && f.location === systemId)) return true;
+  return sys.station?.owner === 'PLAYER';
+}
+
+/**
+ * A* search for the cheapest route from one system to another.
+ * @returns Route and cost, or null if no usable route exists
+ */
+export function findPath(st: GameState, fromId: string, toId: string, owner: FleetOwner): PathResult | null {
+  const goal = st.galaxy[toId];
+  if (!st.galaxy[fromId] || !goal) return null;
+  if (fromId === toId) return { route: [], cost: 0 };
+
+  // Lane multipliers are >= the hex span of the lane, so hex distance is admissible.
+  const h = (id: string) => hexDistance(st.galaxy[id].coord, goal.coord);
+
+  const g: Record<string, number> = { [fromId]: 0 };
+  const cameFrom: Record<string, string> = {};
+  const open = new Set<string>([fromId]);
+  const closed = new Set<string>();
+
+  while (open.size > 0) {
+    // Linear scan keeps ties deterministic (lowest f, then lowest id)
+    let current = '';
+    let bestF = Infinity;
+    for (const id of open) {
+      const f = g[id] + h(id);
+      if (f < bestF || (f === bestF && id < current)) {
+        bestF = f;
+        current = id;
+      }
+    }
+
+    if (current === toId) {
+      const route: string[] = [];
+      for (let id = toId; id !== fromId; id = cameFrom[id]) route.push(id);
+      return { route: route.reverse(), cost: g[toId] };
+    }
+
+    open.delete(current);
+    closed.add(current);
+
+    for (const lane of getLanesFrom(st.lanes, current)) {
+      if (!isLanePassable(lane, owner)) continue;
+
+      const next = otherEnd(lane, current);
+      if (closed.has(next)) continue;
+
+      // Player can't plot through space it has never seen
+      if (owner === 'PLAYER' && next !== toId && !st.galaxy[next]?.discovered) continue;
+
+      const cost = g[current] + laneTravelMultiplier(lane) +
+        (isHostileSystem(st, next, owner) ? HOSTILE_SYSTEM_COST : 0);
+      if (g[next] === undefined || cost < g[next]) {
+        g[next] = cost;
+        cameFrom[next] = current;
+        open.add(next);
+      }
+    }
+  }
+
+  return null;
+}
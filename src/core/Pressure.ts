@@ -0,0 +1,258 @@
+// src/core/Pressure.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Real-Time Pressure & SUPPRESS Task (NO Phaser imports)
+//
+// TDD §5.6 / §6.4: holding a hostile system is a pressure meter per system
+// (ship-to-ship fights are Combat.ts).
+// - Hostile systems generate pressure while player fleets are present,
+//   scaled by calculateSystemThreat()
+// - Combat ships on SUPPRESS reduce it (morale-scaled)
+// - Above WARNING / CRITICAL, player fleets in the system take damage
+// - At COLLAPSE the system throws every player fleet out (forced retreat)
+// - With no player fleet holding position, pressure bleeds off
+// -----------------------------------------------------------------------------
+
+import { getState, pushIntel, calculateSystemThreat, assignFleetTask, reportShipLosses, refreshFleetStats } from './GameState';
+import { emit } from './Events';
+import { getNeighbors } from './Hyperlanes';
+import { isHostileSystem } from './Pathfinding';
+import { leaveWreck } from './Salvage';
+import type { Fleet, PressureLevel, ShipType, StarSystem, StarSystemType, SystemPressure } from './types';
+
+export const PRESSURE_THRESHOLD = {
+  SAFE: 30,
+  WARNING: 60,
+  CRITICAL: 85,
+  COLLAPSE: 100
+} as const;
+
+// Base generation per tick (TDD §6.4), before threat scaling
+const PRESSURE_GENERATION: Record<StarSystemType, number> = {
+  HOSTILE_STRONGHOLD: 0.5,
+  ABYSS_ZONE: 1.0,
+  DERELICT: 0.2,
+  MINING_SYSTEM: 0.1,
+  RUIN: 0.15,
+  ANOMALY: 0.1,
+  NEBULA: 0.05,
+  STAR: 0,
+  EMPTY_SPACE: 0
+};
+
+// Extra generation per enemy fleet sitting in the system
+const ENEMY_FLEET_PRESSURE = 0.2;
+
+// calculateSystemThreat() of a typical tier-2 system; scales generation
+const THREAT_REFERENCE = 40;
+
+// Pressure lost per tick when no player fleet is present
+const PRESSURE_DECAY = 0.2;
+
+// Suppression per tick per ship (TDD §6.4, extended to heavy hulls)
+const SHIP_SUPPRESSION: Record<ShipType, number> = {
+  MINER: 0,
+  CORVETTE: 0.1,
+  FRIGATE: 0.2,
+  DESTROYER: 0.3,
+  CRUISER: 0.4,
+  BATTLESHIP: 0.5,
+  CARRIER: 0.3
+};
+
+// Collapse: hit taken on the way out, and where the meter settles afterwards
+const COLLAPSE_INTEGRITY_DAMAGE = 25;
+const COLLAPSE_MORALE_DAMAGE = 20;
+const POST_COLLAPSE_PRESSURE = PRESSURE_THRESHOLD.WARNING;
+
+// -----------------------------------------------------------------------------
+// Queries
+// -----------------------------------------------------------------------------
+
+export function getPressureLevel(pressure: number): PressureLevel {
+  if (pressure > PRESSURE_THRESHOLD.CRITICAL) return 'CRITICAL';
+  if (pressure > PRESSURE_THRESHOLD.WARNING) return 'WARNING';
+  if (pressure > PRESSURE_THRESHOLD.SAFE) return 'CONTAINED';
+  return 'SAFE';
+}
+
+/**
+ * Pressure a fleet removes per tick while on SUPPRESS
+ */
+export function calculateSuppression(fleet: Fleet): number {
+  const base = fleet.ships.reduce((sum, s) => sum + (SHIP_SUPPRESSION[s.type] ?? 0), 0);
+  return base * (fleet.morale / 100);
+}
+
+/**
+ * Pressure a system generates per tick while the player is present
+ */
+export function calculatePressureRate(sys: StarSystem): number {
+  const state = getState();
+  const base = PRESSURE_GENERATION[sys.type] ?? 0;
+  const enemies = Object.values(state.fleets).filter(f => f.owner === 'ENEMY' && f.location === sys.id).length;
+  return base * (calculateSystemThreat(sys) / THREAT_REFERENCE) + enemies * ENEMY_FLEET_PRESSURE;
+}
+
+export function isSuppressing(fleet: Fleet): boolean {
+  return fleet.task === 'SUPPRESS' || fleet.task === 'FIGHT';
+}
+
+function ensurePressure(sys: StarSystem): SystemPressure {
+  if (!sys.pressure) {
+    sys.pressure = { current: 0, max: PRESSURE_THRESHOLD.COLLAPSE, rate: 0, suppression: 0 };
+  }
+  return sys.pressure;
+}
+
+// -----------------------------------------------------------------------------
+// Per-tick processing
+// -----------------------------------------------------------------------------
+
+/**
+ * Advance pressure in every system by one tick (generation, suppression,
+ * threshold damage, collapse).
+ */
+export function processPressure(): void {
+  const state = getState();
+
+  const present: Record<string, Fleet[]> = {};
+  for (const f of Object.values(state.fleets)) {
+    // Stations (maxMoves 0) neither feed the meter nor take its damage
+    if (f.owner !== 'PLAYER' || f.maxMoves === 0) continue;
+    (present[f.location] ??= []).push(f);
+  }
+
+  for (const sys of Object.values(state.galaxy)) {
+    const fleets = present[sys.id] ?? [];
+
+    // Fleets already jumping out don't feed the meter (but still take damage)
+    if (!fleets.some(f => f.task !== 'MOVE')) {
+      if (sys.pressure && sys.pressure.current > 0) {
+        sys.pressure.current = Math.max(0, sys.pressure.current - PRESSURE_DECAY);
+        sys.pressure.rate = 0;
+        sys.pressure.suppression = 0;
+        for (const f of fleets) {
+          applyPressureDamage(f, sys.pressure.current);
+        }
+      }
+      continue;
+    }
+
+    const rate = calculatePressureRate(sys);
+    if (rate <= 0 && !sys.pressure) continue;
+
+    const p = ensurePressure(sys);
+    const before = p.current;
+    p.rate = rate;
+    p.suppression = fleets.filter(isSuppressing).reduce((sum, f) => sum + calculateSuppression(f), 0);
+    p.current = Math.min(p.max, Math.max(0, p.current + p.rate - p.suppression));
+
+    reportThresholds(sys, before, p.current);
+
+    if (p.current >= p.max) {
+      collapse(sys, fleets);
+      continue;
+    }
+
+    for (const f of fleets) {
+      applyPressureDamage(f, p.current);
+    }
+  }
+}
+
+function reportThresholds(sys: StarSystem, before: number, after: number): void {
+  let level: PressureLevel | null = null;
+  if (before <= PRESSURE_THRESHOLD.CRITICAL && after > PRESSURE_THRESHOLD.CRITICAL) {
+    level = 'CRITICAL';
+  } else if (before <= PRESSURE_THRESHOLD.WARNING && after > PRESSURE_THRESHOLD.WARNING) {
+    level = 'WARNING';
+  } else if (before <= PRESSURE_THRESHOLD.SAFE && after > PRESSURE_THRESHOLD.SAFE) {
+    level = 'CONTAINED';
+  } else if (before > PRESSURE_THRESHOLD.SAFE && after <= PRESSURE_THRESHOLD.SAFE) {
+    level = 'SAFE';
+  }
+  if (level) emit({ type: 'PressureChanged', systemId: sys.id, level, pressure: after });
+}
+
+/**
+ * TDD §6.4 threshold damage (per tick)
+ */
+function applyPressureDamage(fleet: Fleet, pressure: number): void {
+  if (pressure > PRESSURE_THRESHOLD.CRITICAL) {
+    damageFleet(fleet, 2, 1);
+  } else if (pressure > PRESSURE_THRESHOLD.WARNING) {
+    damageFleet(fleet, 0.5, 0);
+  }
+}
+
+/**
+ * Apply integrity/morale loss to every ship in a fleet, then re-average the fleet.
+ * Ships reaching 0 are destroyed (leaving a wreck); an emptied fleet is removed.
+ */
+function damageFleet(fleet: Fleet, integrity: number, morale: number): void {
+  const state = getState();
+
+  for (const ship of fleet.ships) {
+    ship.integrity = Math.max(0, ship.integrity - integrity);
+    ship.morale = Math.max(0, ship.morale - morale);
+  }
+
+  const destroyed = fleet.ships.filter(s => s.integrity <= 0);
+  if (destroyed.length === 0) {
+    refreshFleetStats(fleet);
+    return;
+  }
+
+  fleet.ships = fleet.ships.filter(s => s.integrity > 0);
+  leaveWreck(fleet.location, destroyed, fleet.name);
+
+  if (fleet.ships.length === 0) {
+    delete state.fleets[fleet.id];
+    if (state.selectedFleetId === fleet.id) state.selectedFleetId = null;
+  } else {
+    refreshFleetStats(fleet);
+  }
+  reportShipLosses(fleet, destroyed, 'PRESSURE');
+}
+
+/**
+ * Pressure maxed out: every player fleet takes a heavy hit and is forced
+ * toward the safest neighbouring system.
+ */
+function collapse(sys: StarSystem, fleets: Fleet[]): void {
+  const state = getState();
+  emit({ type: 'PressureCollapsed', systemId: sys.id });
+
+  const fallback = pickRetreat(sys);
+  for (const f of fleets) {
+    damageFleet(f, COLLAPSE_INTEGRITY_DAMAGE, COLLAPSE_MORALE_DAMAGE);
+    if (!state.fleets[f.id]) continue;
+
+    const result = fallback ? assignFleetTask(f.id, 'MOVE', fallback) : { ok: false as const, reason: 'No way out' };
+    if (fallback && result.ok) {
+      pushIntel('MOVE', `RETREAT: ${f.name} falling back to ${state.galaxy[fallback]?.name ?? fallback}`, { fleetId: f.id, systemId: fallback });
+    } else if (!result.ok) {
+      pushIntel('ALERT', `RETREAT FAILED: ${f.name} trapped in ${sys.name} (${result.reason})`, { fleetId: f.id, systemId: sys.id, severity: 'CRITICAL' });
+    }
+  }
+
+  ensurePressure(sys).current = POST_COLLAPSE_PRESSURE;
+}
+
+/**
+ * Best neighbour to retreat to: friendly station, then non-hostile, then lowest pressure
+ */
+export function pickRetreat(sys: StarSystem): string | null {
+  const state = getState();
+  const score = (id: string): number => {
+    const n = state.galaxy[id];
+    if (!n) return Infinity;
+    let s = n.pressure?.current ?? 0;
+    if (isHostileSystem(state, id, 'PLAYER')) s += 1000;
+    if (n.station?.owner === 'PLAYER') s -= 1000;
+    return s;
+  };
+
+  const options = getNeighbors(state.lanes, sys.id, 'PLAYER').sort((a, b) => score(a) - score(b) || a.localeCompare(b));
+  return options[0] ?? null;
+}
@@ -83,3 +83,25 @@ export function pickWeighted<T>(rng: RNG, items: { item: T; weight: number }[]):
   // Fallback due to floating point edges.
   return items[items.length - 1].item;
 }
+
+/**
+ * Derives a stable 32-bit seed from a list of parts (numbers or strings).
+ * Use this instead of consuming a shared stream so that adding a new roll
+ * somewhere never shifts unrelated outcomes (see CODING_STANDARDS §8).
+ *
+ * @example deriveSeed(state.runSeed, systemId, state.tick)
+ */
+export function deriveSeed(...parts: Array<number | string>): number {
+  // FNV-1a over the stringified parts, separated so ('ab','c') != ('a','bc').
+  let h = 0x811c9dc5;
+  for (const part of parts) {
+    const s = String(part);
+    for (let i = 0; i < s.length; i++) {
+      h ^= s.charCodeAt(i);
+      h = Math.imul(h, 0x01000193);
+    }
+    h ^= 0x1f;
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
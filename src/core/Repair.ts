@@ -0,0 +1,173 @@
+// src/core/Repair.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Repair & Resupply (NO Phaser imports)
+//
+// Damage is per ship; fleet integrity and morale are the averages of its
+// ships (refreshFleetStats). Three things bring them back up:
+// - Station repair: every REPAIR_INTERVAL_TICKS a working player station
+//   restores REPAIR_STEP integrity to up to STATION_REPAIR_SLOTS docked
+//   ships, paying the hull's repairCost per step. HIGH priority fleets go
+//   first, OFF fleets are skipped; the most damaged ship in a fleet first.
+// - Field repair: repair bays (see ShipDesign.ts) patch up their own fleet
+//   anywhere it isn't underway, slower and only to FIELD_REPAIR_CAP.
+// - Morale: recovers for free when docked, or idle in friendly space.
+// Ships that can't be paid for wait; nothing is repaired on credit.
+// -----------------------------------------------------------------------------
+
+import { getState, pushIntel, canAfford, pay, refreshFleetStats } from './GameState';
+import { emit } from './Events';
+import { everyTicks, TICKS_PER_SECOND } from './Simulation';
+import { isHostileSystem } from './Pathfinding';
+import { getHull } from './ShipDesign';
+import type { ActionResult, Fleet, GameState, RepairPriority, RepairSource, Ship, StarSystem } from './types';
+
+const REPAIR_INTERVAL_TICKS = TICKS_PER_SECOND;
+const FIELD_REPAIR_INTERVAL_TICKS = 3 * TICKS_PER_SECOND;
+
+// Integrity restored per paid step
+const REPAIR_STEP = 5;
+const STATION_REPAIR_SLOTS = 3;
+const FIELD_REPAIR_CAP = 75;
+
+// Morale per second
+const MORALE_DOCKED = 2;
+const MORALE_FRIENDLY_IDLE = 1;
+
+export const REPAIR_PRIORITIES: RepairPriority[] = ['HIGH', 'NORMAL', 'OFF'];
+
+// -----------------------------------------------------------------------------
+// Queries
+// -----------------------------------------------------------------------------
+
+export function getRepairPriority(fleet: Fleet): RepairPriority {
+  return fleet.repairPriority ?? 'NORMAL';
+}
+
+/**
+ * At a working player station and not underway
+ */
+export function isDocked(st: GameState, fleet: Fleet): boolean {
+  const station = st.galaxy[fleet.location]?.station;
+  return fleet.owner === 'PLAYER' && fleet.task !== 'MOVE' && fleet.maxMoves > 0
+    && !!station && station.owner === 'PLAYER' && station.functional;
+}
+
+/**
+ * A player station or planet, and no known enemy presence
+ */
+export function isFriendlySpace(st: GameState, systemId: string): boolean {
+  const sys = st.galaxy[systemId];
+  if (!sys || isHostileSystem(st, systemId, 'PLAYER')) return false;
+  return sys.station?.owner === 'PLAYER'
+    || Object.values(sys.planets ?? {}).some(p => p.controller === 'PLAYER');
+}
+
+/**
+ * Total repair bays in a fleet
+ */
+export function fleetRepairBays(fleet: Fleet): number {
+  return fleet.ships.reduce((sum, s) => sum + (s.repairBays ?? 0), 0);
+}
+
+// -----------------------------------------------------------------------------
+// Commands
+// -----------------------------------------------------------------------------
+
+export function setRepairPriority(fleetId: string, priority: RepairPriority): ActionResult {
+  const fleet = getState().fleets[fleetId];
+  if (!fleet || fleet.owner !== 'PLAYER') return { ok: false, reason: 'Not a player fleet' };
+  if (!REPAIR_PRIORITIES.includes(priority)) return { ok: false, reason: `Unknown priority ${priority}` };
+
+  fleet.repairPriority = priority;
+  pushIntel('SYSTEM', `REPAIR PRIORITY: ${fleet.name} set to ${priority}`, { fleetId });
+  return { ok: true, intel: `${fleet.name} repair priority ${priority}` };
+}
+
+// -----------------------------------------------------------------------------
+// Tick
+// -----------------------------------------------------------------------------
+
+export function processRepairs(): void {
+  const state = getState();
+  if (everyTicks(state, 'repair', REPAIR_INTERVAL_TICKS)) {
+    for (const sys of Object.values(state.galaxy)) repairAtStation(state, sys);
+    recoverMorale(state);
+  }
+  if (everyTicks(state, 'field-repair', FIELD_REPAIR_INTERVAL_TICKS)) {
+    for (const fleet of Object.values(state.fleets)) fieldRepair(state, fleet);
+  }
+}
+
+function repairAtStation(state: GameState, sys: StarSystem): void {
+  const rank = (f: Fleet) => REPAIR_PRIORITIES.indexOf(getRepairPriority(f));
+  const fleets = Object.values(state.fleets)
+    .filter(f => f.location === sys.id && isDocked(state, f) && getRepairPriority(f) !== 'OFF')
+    .sort((a, b) => rank(a) - rank(b) || a.id.localeCompare(b.id));
+
+  let slots = STATION_REPAIR_SLOTS;
+  for (const fleet of fleets) {
+    if (slots === 0) break;
+    let repaired = false;
+    for (const ship of mostDamagedFirst(fleet, 100)) {
+      if (slots === 0) break;
+      if (!repairShip(state, ship, 100)) continue;
+      slots--;
+      repaired = true;
+    }
+    if (repaired) afterRepair(fleet, 100, 'STATION');
+  }
+}
+
+function fieldRepair(state: GameState, fleet: Fleet): void {
+  if (fleet.owner !== 'PLAYER' || fleet.task === 'MOVE' || getRepairPriority(fleet) === 'OFF') return;
+  // Docked fleets get the station's (faster, uncapped) repairs instead
+  if (isDocked(state, fleet)) return;
+
+  let bays = fleetRepairBays(fleet);
+  let repaired = false;
+  for (const ship of mostDamagedFirst(fleet, FIELD_REPAIR_CAP)) {
+    if (bays === 0) break;
+    if (!repairShip(state, ship, FIELD_REPAIR_CAP)) continue;
+    bays--;
+    repaired = true;
+  }
+  if (repaired) afterRepair(fleet, FIELD_REPAIR_CAP, 'FIELD');
+}
+
+function mostDamagedFirst(fleet: Fleet, cap: number): Ship[] {
+  return fleet.ships
+    .filter(s => s.integrity < cap)
+    .sort((a, b) => a.integrity - b.integrity || a.id.localeCompare(b.id));
+}
+
+/**
+ * One paid repair step; false if the hull's repair cost can't be met
+ */
+function repairShip(state: GameState, ship: Ship, cap: number): boolean {
+  const cost = getHull(ship.type)?.repairCost ?? {};
+  if (!canAfford(state.resources, cost)) return false;
+  pay(state.resources, cost);
+  ship.integrity = Math.min(cap, ship.integrity + REPAIR_STEP);
+  return true;
+}
+
+function afterRepair(fleet: Fleet, target: number, source: RepairSource): void {
+  refreshFleetStats(fleet);
+  if (fleet.ships.every(s => s.integrity >= target)) {
+    emit({ type: 'FleetRepaired', fleetId: fleet.id, fleetName: fleet.name, systemId: fleet.location, source });
+  }
+}
+
+function recoverMorale(state: GameState): void {
+  for (const fleet of Object.values(state.fleets)) {
+    if (fleet.owner !== 'PLAYER' || fleet.ships.every(s => s.morale >= 100)) continue;
+
+    const gain = isDocked(state, fleet) ? MORALE_DOCKED
+      : fleet.task === 'IDLE' && isFriendlySpace(state, fleet.location) ? MORALE_FRIENDLY_IDLE
+      : 0;
+    if (gain === 0) continue;
+
+    for (const ship of fleet.ships) ship.morale = Math.min(100, ship.morale + gain);
+    refreshFleetStats(fleet);
+  }
+}
@@ -0,0 +1,192 @@
+// src/core/Replay.ts
+// -----------------------------------------------------------------------------
+// HexFleet — State Hashing & Deterministic Replay (NO Phaser imports)
+//
+// Same seed + same commands = same results:
+// - Every CHECKPOINT_INTERVAL_TICKS the live game hashes its simulation
+//   state into state.commandLog.checkpoints
+// - A ReplayFile (runSeed + galaxy options + command log) rebuilds the run
+//   tick by tick, re-applying PLAYER commands at their recorded ticks
+//   (AI commands are re-derived by the simulation itself)
+// - Each checkpoint hash is compared; the first mismatch is reported
+//
+// The hash covers simulation state only. Intel text, selection, pause,
+// game speed and presentation anchors are ignored.
+// -----------------------------------------------------------------------------
+
+import { bootstrapGameState, getState, pushIntel, replaceState } from './GameState';
+import { withEventsMuted } from './Events';
+import { issueCommand } from './Commands';
+import { deriveSeed } from './RNG';
+import { stepTick } from './Simulation';
+import type { CommandRecord, GalaxyGenOptions, GameState, StateCheckpoint } from './types';
+
+export const CHECKPOINT_INTERVAL_TICKS = 100;
+
+export type ReplayFile = {
+  version: 1;
+  runSeed: number;
+  galaxyOptions: GalaxyGenOptions;
+  finalTick: number;
+  finalHash: string;
+  commands: CommandRecord[];
+  checkpoints: StateCheckpoint[];
+};
+
+export type ReplayMismatch = {
+  tick: number;
+  expected: string;
+  actual: string;
+};
+
+export type ReplayReport = {
+  ok: boolean;
+  ticks: number;
+  commandsApplied: number;
+  checkpointsVerified: number;
+  mismatch?: ReplayMismatch;
+};
+
+// Keys dropped from the hash wherever they appear (presentation only)
+const UNHASHED_KEYS = new Set(['systemAnchor']);
+
+// -----------------------------------------------------------------------------
+// Hashing
+// -----------------------------------------------------------------------------
+
+/**
+ * Stable JSON: object keys sorted, undefined dropped (as JSON.stringify does)
+ */
+function canonicalJson(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(v => canonicalJson(v === undefined ? null : v)).join(',')}]`;
+  }
+  const obj = value as Record<string, unknown>;
+  const keys = Object.keys(obj).filter(k => obj[k] !== undefined && !UNHASHED_KEYS.has(k)).sort();
+  return `{${keys.map(k => `${JSON.stringify(k)}:${canonicalJson(obj[k])}`).join(',')}}`;
+}
+
+/**
+ * Hash of everything that affects future simulation results.
+ * Pure: reads the state passed in.
+ */
+export function hashState(st: GameState): string {
+  const simulated = {
+    runSeed: st.runSeed,
+    tick: st.tick,
+    turn: st.turn,
+    phase: st.phase,
+    timers: st.clock.timers,
+    nextEntityId: st.nextEntityId,
+    galaxy: st.galaxy,
+    lanes: st.lanes,
+    fleets: st.fleets,
+    resources: st.resources,
+    unlockedBlueprints: st.unlockedBlueprints,
+    designs: st.designs,
+    battleReports: st.battleReports,
+    visibility: st.visibility
+  };
+  return deriveSeed(canonicalJson(simulated)).toString(16).padStart(8, '0');
+}
+
+/**
+ * Sim system: record a checkpoint hash every CHECKPOINT_INTERVAL_TICKS
+ */
+export function recordCheckpoint(): void {
+  const state = getState();
+  if (state.tick % CHECKPOINT_INTERVAL_TICKS !== 0) return;
+  state.commandLog.checkpoints.push({ tick: state.tick, hash: hashState(state) });
+}
+
+// -----------------------------------------------------------------------------
+// Export
+// -----------------------------------------------------------------------------
+
+/**
+ * Everything needed to rebuild the current run (share as a bug repro)
+ */
+export function exportReplay(): ReplayFile {
+  const state = getState();
+  return {
+    version: 1,
+    runSeed: state.runSeed,
+    galaxyOptions: { ...state.galaxyOptions },
+    finalTick: state.tick,
+    finalHash: hashState(state),
+    commands: state.commandLog.commands.map(c => ({ ...c, command: { ...c.command } })),
+    checkpoints: state.commandLog.checkpoints.map(c => ({ ...c }))
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Replay
+// -----------------------------------------------------------------------------
+
+/**
+ * Rebuild a run from its seed and command log, verifying checkpoint hashes.
+ * Leaves the replayed game as the live state.
+ * @param stopOnMismatch - Stop at the first divergent checkpoint (default true)
+ */
+export function replayRun(file: ReplayFile, stopOnMismatch: boolean = true): ReplayReport {
+  bootstrapGameState(file.runSeed, file.galaxyOptions);
+  const state = getState();
+
+  const commands = file.commands
+    .filter(c => c.source === 'PLAYER')
+    .sort((a, b) => a.tick - b.tick || a.seq - b.seq);
+  const expected = new Map(file.checkpoints.map(c => [c.tick, c.hash]));
+
+  const report: ReplayReport = { ok: true, ticks: 0, commandsApplied: 0, checkpointsVerified: 0 };
+  const verify = (want: string | undefined): boolean => {
+    if (want === undefined) return true;
+    const actual = hashState(state);
+    if (actual === want) {
+      report.checkpointsVerified++;
+      return true;
+    }
+    report.ok = false;
+    report.mismatch ??= { tick: state.tick, expected: want, actual };
+    return false;
+  };
+
+  let next = 0;
+  for (;;) {
+    // Commands issued while this tick was current (including any left behind)
+    while (next < commands.length && commands[next].tick <= state.tick) {
+      issueCommand(commands[next].command, 'PLAYER');
+      report.commandsApplied++;
+      next++;
+    }
+    if (state.tick >= file.finalTick) break;
+
+    stepTick(state);
+    report.ticks++;
+    if (!verify(expected.get(state.tick)) && stopOnMismatch) return report;
+  }
+
+  verify(file.finalHash);
+  return report;
+}
+
+/**
+ * Replay the current run from its own log and report whether it reproduces.
+ * The live game is restored afterwards.
+ */
+export function verifyCurrentRun(): ReplayReport {
+  const live = getState();
+  // The re-run is private: no animations, no duplicate intel
+  const report = withEventsMuted(() => replayRun(exportReplay()));
+  replaceState(live);
+
+  if (report.ok) {
+    pushIntel('SYSTEM', `REPLAY OK: ${report.ticks} ticks, ${report.commandsApplied} commands, ${report.checkpointsVerified} checkpoints verified`);
+  } else if (report.mismatch) {
+    const m = report.mismatch;
+    pushIntel('ALERT', `REPLAY DIVERGED at tick ${m.tick}: expected ${m.expected}, got ${m.actual}`);
+  }
+  return report;
+}
@@ -0,0 +1,287 @@
+// src/core/Salvage.ts
+// -----------------------------------------------------------------------------
+// HexFleet — SALVAGE Task, Wrecks & Loot Tables (NO Phaser imports)
+//
+// Salvage sources in a system (stripped in this order):
+// 1. Wrecks: left by ships destroyed in combat, or generated in DERELICT systems
+// 2. Derelict stations
+//
+// Every SALVAGE_TICKS_PER_OP ticks a salvaging fleet completes one operation:
+// the source loses scrap (like asteroid yield) and one loot roll is paid out.
+// Rolls are seeded from the source and its remaining scrap, so the same
+// source always gives the same sequence of loot.
+// -----------------------------------------------------------------------------
+
+import { getState, pushIntel } from './GameState';
+import { emit } from './Events';
+import { getHulls, hullUnlocked } from './ShipDesign';
+import { deriveSeed, makeRng, pickOne, pickWeighted, randInt, type RNG } from './RNG';
+import type { Fleet, SalvageLoot, Ship, ShipType, StarSystem, Station, Wreck } from './types';
+
+// TDD §6.2: 5 seconds base = 50 ticks per operation
+export const SALVAGE_TICKS_PER_OP = 50;
+
+// Scrap removed per operation (percent). Wrecks split this across their hulls.
+const WRECK_SCRAP_PER_OP = 25;
+const STATION_SCRAP_PER_OP = 10;
+
+const SHIP_WRECK_TIER: Record<ShipType, number> = {
+  MINER: 1,
+  CORVETTE: 1,
+  FRIGATE: 2,
+  DESTROYER: 2,
+  CRUISER: 3,
+  BATTLESHIP: 3,
+  CARRIER: 3
+};
+
+// -----------------------------------------------------------------------------
+// Loot tables
+// -----------------------------------------------------------------------------
+
+type LootKind = 'T1' | 'T2' | 'T3' | 'ALLOYS' | 'CRYSTALS' | 'BLUEPRINT';
+
+type LootEntry = { kind: LootKind; weight: number; min: number; max: number };
+
+// Keyed by source tier; higher tiers shift toward rarer metals and finds
+const LOOT_TABLES: Record<number, LootEntry[]> = {
+  1: [
+    { kind: 'T1', weight: 60, min: 4, max: 10 },
+    { kind: 'T2', weight: 20, min: 1, max: 4 },
+    { kind: 'ALLOYS', weight: 15, min: 1, max: 3 },
+    { kind: 'CRYSTALS', weight: 5, min: 1, max: 2 }
+  ],
+  2: [
+    { kind: 'T1', weight: 35, min: 6, max: 14 },
+    { kind: 'T2', weight: 30, min: 2, max: 6 },
+    { kind: 'T3', weight: 8, min: 1, max: 2 },
+    { kind: 'ALLOYS', weight: 17, min: 2, max: 5 },
+    { kind: 'CRYSTALS', weight: 8, min: 1, max: 3 },
+    { kind: 'BLUEPRINT', weight: 2, min: 1, max: 1 }
+  ],
+  3: [
+    { kind: 'T1', weight: 20, min: 8, max: 18 },
+    { kind: 'T2', weight: 30, min: 4, max: 8 },
+    { kind: 'T3', weight: 20, min: 1, max: 4 },
+    { kind: 'ALLOYS', weight: 15, min: 3, max: 7 },
+    { kind: 'CRYSTALS', weight: 10, min: 2, max: 4 },
+    { kind: 'BLUEPRINT', weight: 5, min: 1, max: 1 }
+  ]
+};
+
+/**
+ * Roll one salvage operation's loot. Pure given the seed and locked-out blueprints.
+ * @param seed - Roll seed (source seed + operation)
+ * @param tier - Source tier 1..3
+ * @param lockedBlueprints - Rare blueprint keys not yet unlocked (a blueprint
+ *        roll with none left pays out alloys instead)
+ */
+export function rollSalvageLoot(seed: number, tier: number, lockedBlueprints: string[]): SalvageLoot {
+  const rng = makeRng(seed);
+  const table = LOOT_TABLES[Math.min(3, Math.max(1, Math.round(tier)))];
+  const loot: SalvageLoot = { tieredMetals: {}, alloys: 0, crystals: 0 };
+
+  // Two draws per operation
+  for (let i = 0; i < 2; i++) {
+    const entry = pickWeighted(rng, table.map(e => ({ item: e, weight: e.weight })));
+    applyEntry(rng, loot, entry, lockedBlueprints);
+  }
+  return loot;
+}
+
+function applyEntry(rng: RNG, loot: SalvageLoot, entry: LootEntry, lockedBlueprints: string[]): void {
+  const amount = randInt(rng, entry.min, entry.max);
+  switch (entry.kind) {
+    case 'T1':
+    case 'T2':
+    case 'T3':
+      loot.tieredMetals[entry.kind] = (loot.tieredMetals[entry.kind] ?? 0) + amount;
+      break;
+    case 'ALLOYS':
+      loot.alloys += amount;
+      break;
+    case 'CRYSTALS':
+      loot.crystals += amount;
+      break;
+    case 'BLUEPRINT': {
+      const open = lockedBlueprints.filter(k => k !== loot.blueprint);
+      if (!loot.blueprint && open.length > 0) {
+        loot.blueprint = pickOne(rng, open);
+      } else {
+        loot.alloys += 5;
+      }
+      break;
+    }
+  }
+}
+
+/**
+ * Average haul from stripping a wreck of these hulls bare
+ * (blueprint finds count as their alloy fallback)
+ */
+export function estimateWreckLoot(shipTypes: ShipType[]): SalvageLoot {
+  const loot: SalvageLoot = { tieredMetals: {}, alloys: 0, crystals: 0 };
+  if (shipTypes.length === 0) return loot;
+
+  const table = LOOT_TABLES[wreckTier(shipTypes)];
+  const totalWeight = table.reduce((sum, e) => sum + e.weight, 0);
+  // Each operation strips WRECK_SCRAP_PER_OP / hulls and makes two draws
+  const draws = 2 * Math.ceil(100 / (WRECK_SCRAP_PER_OP / shipTypes.length));
+  for (const entry of table) {
+    const amount = draws * (entry.weight / totalWeight) * (entry.kind === 'BLUEPRINT' ? 5 : (entry.min + entry.max) / 2);
+    switch (entry.kind) {
+      case 'T1':
+      case 'T2':
+      case 'T3':
+        loot.tieredMetals[entry.kind] = (loot.tieredMetals[entry.kind] ?? 0) + amount;
+        break;
+      case 'CRYSTALS':
+        loot.crystals += amount;
+        break;
+      default:
+        loot.alloys += amount;
+    }
+  }
+  return loot;
+}
+
+export function describeLoot(loot: SalvageLoot): string {
+  const parts: string[] = [];
+  for (const tier of ['T1', 'T2', 'T3'] as const) {
+    if (loot.tieredMetals[tier]) parts.push(`${tier}:${loot.tieredMetals[tier]}`);
+  }
+  if (loot.alloys) parts.push(`Alloys:${loot.alloys}`);
+  if (loot.crystals) parts.push(`Crystals:${loot.crystals}`);
+  if (loot.blueprint) parts.push(`BLUEPRINT ${loot.blueprint}`);
+  return parts.length > 0 ? parts.join(' ') : 'nothing';
+}
+
+// -----------------------------------------------------------------------------
+// Sources
+// -----------------------------------------------------------------------------
+
+type SalvageTarget =
+  | { kind: 'WRECK'; wreck: Wreck }
+  | { kind: 'STATION'; station: Station };
+
+/**
+ * Next thing to strip in a system (wrecks first), or null if nothing is left
+ */
+export function getSalvageTarget(sys: StarSystem): SalvageTarget | null {
+  const wreck = sys.wrecks?.find(w => w.scrapRemaining > 0);
+  if (wreck) return { kind: 'WRECK', wreck };
+
+  const station = sys.station;
+  if (station?.state === 'DERELICT' && (station.salvageRemaining ?? 100) > 0) {
+    return { kind: 'STATION', station };
+  }
+  return null;
+}
+
+export function hasSalvage(sys: StarSystem): boolean {
+  return getSalvageTarget(sys) !== null;
+}
+
+/**
+ * Leave a wreck for ships destroyed at a system
+ */
+export function leaveWreck(systemId: string, ships: Ship[], fleetName: string): Wreck | null {
+  const state = getState();
+  const sys = state.galaxy[systemId];
+  if (!sys || ships.length === 0) return null;
+
+  const tier = wreckTier(ships.map(s => s.type));
+  const wreck: Wreck = {
+    id: `${systemId}-WRECK-${state.tick}-${(sys.wrecks?.length ?? 0) + 1}`,
+    name: `Wreck of ${fleetName}`,
+    source: 'COMBAT',
+    tier,
+    hulls: ships.length,
+    scrapRemaining: 100,
+    seed: deriveSeed(sys.seed, 'wreck', state.tick, ships.map(s => s.id).join(','))
+  };
+  sys.wrecks = [...(sys.wrecks ?? []), wreck];
+  return wreck;
+}
+
+function wreckTier(shipTypes: ShipType[]): number {
+  return shipTypes.reduce((best, type) => Math.max(best, SHIP_WRECK_TIER[type] ?? 1), 1);
+}
+
+// -----------------------------------------------------------------------------
+// Task processing
+// -----------------------------------------------------------------------------
+
+/**
+ * One tick of a SALVAGE task.
+ * @returns true when nothing is left to salvage (caller finishes the order)
+ */
+export function processSalvage(fleet: Fleet): boolean {
+  const state = getState();
+  const sys = state.galaxy[fleet.location];
+  if (!sys) return true;
+
+  const target = getSalvageTarget(sys);
+  if (!target) return true;
+
+  // etaTicks counts down to the next operation
+  fleet.etaTicks = (fleet.etaTicks ?? SALVAGE_TICKS_PER_OP) - 1;
+  if (fleet.etaTicks > 0) return false;
+  fleet.etaTicks = SALVAGE_TICKS_PER_OP;
+
+  const locked = getHulls()
+    .filter(h => !hullUnlocked(state, h.type))
+    .map(h => h.type);
+
+  let loot: SalvageLoot;
+  let label: string;
+  if (target.kind === 'WRECK') {
+    const w = target.wreck;
+    loot = rollSalvageLoot(deriveSeed(w.seed, Math.round(w.scrapRemaining)), w.tier, locked);
+    w.scrapRemaining = Math.max(0, w.scrapRemaining - WRECK_SCRAP_PER_OP / Math.max(1, w.hulls));
+    label = w.name;
+    if (w.scrapRemaining <= 0) {
+      sys.wrecks = sys.wrecks?.filter(x => x.id !== w.id);
+      pushIntel('SALVAGE', `SALVAGE: ${w.name} stripped bare.`, { systemId: sys.id });
+    }
+  } else {
+    const st = target.station;
+    const remaining = st.salvageRemaining ?? 100;
+    loot = rollSalvageLoot(deriveSeed(sys.seed, 'station', Math.round(remaining)), sys.tier, locked);
+    st.salvageRemaining = Math.max(0, remaining - STATION_SCRAP_PER_OP);
+    label = st.name;
+    if (st.salvageRemaining <= 0) {
+      pushIntel('SALVAGE', `SALVAGE: ${st.name} picked clean.`, { systemId: sys.id });
+    }
+  }
+
+  emit({
+    type: 'ResourcesGained',
+    source: 'SALVAGE',
+    systemId: sys.id,
+    fleetId: fleet.id,
+    fleetName: fleet.name,
+    metals: loot.tieredMetals,
+    alloys: loot.alloys,
+    crystals: loot.crystals,
+    from: label
+  });
+  creditLoot(loot, sys.id);
+
+  return !hasSalvage(sys);
+}
+
+function creditLoot(loot: SalvageLoot, systemId: string): void {
+  const state = getState();
+  const res = state.resources;
+  res.tieredMetals.T1 += loot.tieredMetals.T1 ?? 0;
+  res.tieredMetals.T2 += loot.tieredMetals.T2 ?? 0;
+  res.tieredMetals.T3 += loot.tieredMetals.T3 ?? 0;
+  res.alloys += loot.alloys;
+  res.crystals += loot.crystals;
+
+  if (loot.blueprint && !state.unlockedBlueprints.includes(loot.blueprint)) {
+    state.unlockedBlueprints.push(loot.blueprint);
+    emit({ type: 'BlueprintRecovered', blueprint: loot.blueprint, systemId });
+  }
+}
@@ -0,0 +1,431 @@
+// src/core/SaveMigration.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Save Format Versions & Migrations (NO Phaser imports)
+//
+// Every save carries `version`. A migration upgrades a save from one version
+// to the next; migrateSave() chains them, so a save from any known version
+// reaches CURRENT_SAVE_VERSION one step at a time.
+//
+// Rules for migrations:
+// - Pure and deterministic: same input, same output (no clock, no Math.random)
+// - Work on plain JSON and only assume what the source version guaranteed
+// - Never call gameplay code whose output may change later; copy the values
+//   the format had at the time instead (see V2_SHIP_STATS)
+// - Changing the GameState shape = bump CURRENT_SAVE_VERSION, add a migration
+//   here, add a fixture under scripts/fixtures/saves
+//
+// Versions:
+// 1  TDD §5.8 draft format (`paused`, fleet `eta`, boosts in `activeBoosts`)
+// 2  first real-time format; grew fields without a bump (planets.defense,
+//    systemAnchor, boost, lanes, clock, command log, ...)
+// 3  every field required; validated on load (see SaveValidation.ts)
+// 4  structured intel entries (severity, repeat count, refs); whole-run archive
+// 5  player stations own a shipyard build queue (station.shipyard)
+// 6  player ship designs (designs)
+// 7  damage is per ship: fleet integrity / morale are their ships' averages
+// 8  battle reports from tactical combat (battleReports)
+// 9  ship loadouts: firepower by weapon type, toughness by defense layer
+// 10 ship experience (xp) and captains
+// -----------------------------------------------------------------------------
+
+import { deriveSeed, makeRng, randInt } from './RNG';
+
+export const CURRENT_SAVE_VERSION = 10;
+
+// Untyped save JSON: a migration can't trust the shape it's handed
+export type RawSave = Record<string, unknown>;
+
+export type SaveMigration = {
+  from: number;          // upgrades `from` -> `from + 1`
+  description: string;
+  migrate(save: RawSave): void; // mutates in place (migrateSave works on a copy)
+};
+
+export type MigrationResult =
+  | { ok: true; save: RawSave; fromVersion: number; applied: string[] }
+  | { ok: false; reason: string };
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+function isRecord(value: unknown): value is RawSave {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function recordValues(value: unknown): RawSave[] {
+  return isRecord(value) ? Object.values(value).filter(isRecord) : [];
+}
+
+function num(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+// Ship stats as of format v2, for ships saved before they carried their own
+const V2_SHIP_STATS: Record<string, { firepower: number; toughness: number; groundTroops: number; groundTroopCapacity: number; buildCost: Record<string, number> }> = {
+  MINER: { firepower: 1, toughness: 2, groundTroops: 0, groundTroopCapacity: 0, buildCost: { T1: 8 } },
+  CORVETTE: { firepower: 3, toughness: 3, groundTroops: 5, groundTroopCapacity: 10, buildCost: { T1: 10 } },
+  FRIGATE: { firepower: 5, toughness: 4, groundTroops: 10, groundTroopCapacity: 20, buildCost: { T1: 15, T2: 5 } },
+  DESTROYER: { firepower: 8, toughness: 6, groundTroops: 15, groundTroopCapacity: 30, buildCost: { T2: 10, T3: 2 } },
+  CRUISER: { firepower: 12, toughness: 8, groundTroops: 20, groundTroopCapacity: 40, buildCost: { T2: 15, T3: 5 } },
+  BATTLESHIP: { firepower: 20, toughness: 12, groundTroops: 30, groundTroopCapacity: 60, buildCost: { T3: 12 } },
+  CARRIER: { firepower: 5, toughness: 10, groundTroops: 50, groundTroopCapacity: 100, buildCost: { T2: 20, T3: 8 } }
+};
+
+// Lanes as v3 built them for saves from before hyperlanes: one plain lane
+// (id "a|b", endpoints sorted) between every pair of hex-adjacent systems
+function v2AdjacencyLanes(galaxy: RawSave): RawSave {
+  const systems = recordValues(galaxy).flatMap(s => {
+    const coord = isRecord(s.coord) ? s.coord : {};
+    return typeof s.id === 'string' ? [{ id: s.id, q: num(coord.q, NaN), r: num(coord.r, NaN) }] : [];
+  });
+  const lanes: RawSave = {};
+  for (let i = 0; i < systems.length; i++) {
+    for (let j = i + 1; j < systems.length; j++) {
+      const dq = systems[i].q - systems[j].q;
+      const dr = systems[i].r - systems[j].r;
+      if (Math.max(Math.abs(dq), Math.abs(dr), Math.abs(dq + dr)) !== 1) continue;
+      const [a, b] = [systems[i].id, systems[j].id].sort();
+      lanes[`${a}|${b}`] = { id: `${a}|${b}`, a, b, travelMultiplier: 1, blocked: false, contested: false };
+    }
+  }
+  return lanes;
+}
+
+// Weapon type / defense layer of each v8 part, and the weapon and armor parts
+// of each v8 stock design (keyed by design, which was the hull for old ships)
+type V8Loadout = { weapons: Record<string, number>; defenses: Record<string, number> };
+const V8_PART_LOADOUTS: Record<string, V8Loadout> = {
+  LASER: { weapons: { LASER: 1 }, defenses: {} },
+  MASS_DRIVER: { weapons: { KINETIC: 3 }, defenses: {} },
+  LANCE: { weapons: { LASER: 5 }, defenses: {} },
+  ARMOR_PLATE: { weapons: {}, defenses: { ARMOR: 1 } },
+  COMPOSITE_ARMOR: { weapons: {}, defenses: { ARMOR: 2 } },
+  NEUTRONIUM_ARMOR: { weapons: {}, defenses: { ARMOR: 4 } }
+};
+const V8_STOCK_LOADOUTS: Record<string, V8Loadout> = {
+  MINER: { weapons: {}, defenses: { ARMOR: 1 } },
+  CORVETTE: { weapons: { LASER: 2 }, defenses: { ARMOR: 1 } },
+  FRIGATE: { weapons: { LASER: 3 }, defenses: { ARMOR: 2 } },
+  TENDER: { weapons: { LASER: 1 }, defenses: { ARMOR: 2 } },
+  DESTROYER: { weapons: { KINETIC: 6 }, defenses: { ARMOR: 4 } },
+  CRUISER: { weapons: { KINETIC: 9 }, defenses: { ARMOR: 6 } },
+  CARRIER: { weapons: { LASER: 2 }, defenses: { ARMOR: 6 } },
+  BATTLESHIP: { weapons: { LASER: 15 }, defenses: { ARMOR: 8 } }
+};
+
+// v1 boosts that became v2 mining boosts (the others were never implemented)
+const V1_MINING_BOOST = 'OVERCLOCK';
+const V1_MINING_BOOST_MULTIPLIER = 2;
+
+// -----------------------------------------------------------------------------
+// Migrations (one per version step, in order)
+// -----------------------------------------------------------------------------
+
+const SAVE_MIGRATIONS: SaveMigration[] = [
+  {
+    from: 1,
+    description: 'v1 -> v2: isPaused, runSeed, turns, fleet ETAs in ticks, per-fleet mining boost',
+    migrate(save) {
+      save.isPaused = save.paused === true;
+      delete save.paused;
+
+      // v1 had no run seed: derive one from the map so it is stable per save
+      const seeds = recordValues(save.galaxy).map(sys => num(sys.seed, 0));
+      save.runSeed = deriveSeed('v1-save', ...seeds);
+      save.turn = num(save.turn, 1);
+      save.phase = 'PLAYER';
+      save.selectedSystemObject = null;
+
+      // Boosts lived in a global registry (and on fleets as an array)
+      const boosts = [
+        ...recordValues(save.activeBoosts),
+        ...recordValues(save.fleets).flatMap(f => (Array.isArray(f.activeBoosts) ? f.activeBoosts.filter(isRecord) : []))
+      ];
+      delete save.activeBoosts;
+
+      for (const fleet of recordValues(save.fleets)) {
+        if (fleet.eta !== undefined) {
+          if (fleet.task !== 'IDLE') fleet.etaTicks = num(fleet.eta, 0);
+          delete fleet.eta;
+        }
+        delete fleet.activeBoosts;
+
+        const boost = boosts.find(b => b.fleetId === fleet.id && b.type === V1_MINING_BOOST);
+        if (boost) {
+          fleet.boost = {
+            fleetId: fleet.id,
+            multiplier: V1_MINING_BOOST_MULTIPLIER,
+            durationTicks: num(boost.duration, 0),
+            cooldownTicks: num(boost.cooldown, 0)
+          };
+        }
+
+        // v1 ships had no combat or troop stats
+        const ships: RawSave[] = Array.isArray(fleet.ships) ? fleet.ships.filter(isRecord) : [];
+        for (const ship of ships) {
+          const stats = V2_SHIP_STATS[String(ship.type)] ?? V2_SHIP_STATS.CORVETTE;
+          ship.firepower = num(ship.firepower, stats.firepower);
+          ship.toughness = num(ship.toughness, stats.toughness);
+          ship.groundTroops = num(ship.groundTroops, stats.groundTroops);
+          ship.groundTroopCapacity = num(ship.groundTroopCapacity, stats.groundTroopCapacity);
+          ship.buildCost = isRecord(ship.buildCost) ? ship.buildCost : { ...stats.buildCost };
+        }
+        fleet.groundTroops = num(fleet.groundTroops, ships.reduce((sum, s) => sum + num(s.groundTroops, 0), 0));
+        fleet.groundTroopCapacity = num(fleet.groundTroopCapacity, ships.reduce((sum, s) => sum + num(s.groundTroopCapacity, 0), 0));
+        const maxMoves = num(fleet.maxMoves, 2);
+        fleet.maxMoves = maxMoves;
+        fleet.movesLeft = num(fleet.movesLeft, maxMoves);
+      }
+
+      // Pressure moved onto the systems themselves
+      if (isRecord(save.systemPressures)) {
+        for (const [systemId, pressure] of Object.entries(save.systemPressures)) {
+          const sys = isRecord(save.galaxy) ? save.galaxy[systemId] : undefined;
+          if (isRecord(sys) && isRecord(pressure)) sys.pressure = pressure;
+        }
+      }
+      delete save.systemPressures;
+
+      for (const sys of recordValues(save.galaxy)) {
+        const a = sys.asteroids;
+        if (isRecord(a)) {
+          a.yieldRemaining = num(a.yieldRemaining, 100);
+          a.totalYield = num(a.totalYield, 1000);
+        }
+        const station = sys.station;
+        if (isRecord(station)) {
+          station.owner ??= station.state === 'FRIENDLY' ? 'PLAYER' : station.state === 'ENEMY' ? 'ENEMY' : 'NEUTRAL';
+          station.type ??= 'MINING';
+        }
+      }
+
+      if (Array.isArray(save.intelLog)) {
+        for (const entry of save.intelLog.filter(isRecord)) entry.tick = num(entry.tick, 0);
+      }
+    }
+  },
+  {
+    from: 2,
+    description: 'v2 -> v3: fill every field v2 saves gained without a version bump',
+    migrate(save) {
+      save.isPaused = save.isPaused === true;
+      save.selectedSystemId ??= null;
+      save.selectedFleetId ??= null;
+      save.selectedSystemObject ??= null;
+
+      const r = isRecord(save.resources) ? save.resources : (save.resources = {});
+      const tm = isRecord(r.tieredMetals) ? r.tieredMetals : {};
+      r.tieredMetals = { T1: num(tm.T1, 0), T2: num(tm.T2, 0), T3: num(tm.T3, 0) };
+      r.alloys = num(r.alloys, 0);
+      r.gas = num(r.gas, 0);
+      r.crystals = num(r.crystals, 0);
+
+      // before procedural generation: the fixed five-system map
+      save.galaxyOptions ??= { systemCount: Object.keys(save.galaxy ?? {}).length, shape: 'CLUSTER' };
+
+      // before hyperlanes: keep the old hex-adjacency connectivity
+      if (!isRecord(save.lanes) && isRecord(save.galaxy)) {
+        save.lanes = v2AdjacencyLanes(save.galaxy);
+      }
+
+      // before salvage
+      save.unlockedBlueprints ??= [];
+
+      // before command logging: ids continue past anything in the save,
+      // and the run can no longer be replayed from its seed
+      save.commandLog ??= { commands: [], checkpoints: [] };
+      save.nextEntityId ??= Object.keys(save.fleets ?? {}).length + 1;
+      save.nextIntelId ??= (Array.isArray(save.intelLog) ? save.intelLog.length : 0) + 1;
+
+      // before the unified tick engine
+      save.clock ??= { speedIndex: 0, accumulatorMs: 0, timers: {} };
+
+      // before fog of war: vision is rebuilt on load, sightings start empty
+      save.visibility ??= { visibleSystems: [], lastSeen: {} };
+
+      for (const sys of recordValues(save.galaxy)) {
+        // before the invasion system: derive planet defense from the old fields
+        for (const [planetId, planet] of Object.entries(isRecord(sys.planets) ? sys.planets : {})) {
+          if (!isRecord(planet)) continue;
+          const controller = planet.controller ?? 'NEUTRAL';
+          planet.controller = controller;
+          planet.groundTroops = num(planet.groundTroops, 0);
+          planet.defenses = num(planet.defenses, 0);
+          planet.population = num(planet.population, randInt(makeRng(deriveSeed(num(sys.seed, 0), 'planet', planetId)), 1000, 10999));
+          planet.defense ??= {
+            control: controller,
+            garrison: planet.groundTroops,
+            fortification: planet.defenses,
+            unrest: 0
+          };
+        }
+      }
+
+      for (const fleet of recordValues(save.fleets)) {
+        fleet.task ??= 'IDLE';
+
+        // anchors pointing at objects that no longer exist fall back to the star
+        const anchor = fleet.systemAnchor;
+        if (typeof anchor === 'string' && anchor !== 'STAR') {
+          const sys = isRecord(save.galaxy) ? save.galaxy[String(fleet.location)] : undefined;
+          const [kind, id] = anchor.split(':');
+          const exists = !isRecord(sys) ? false
+            : kind === 'PLANET' ? isRecord(sys.planets) && isRecord(sys.planets[id])
+            : kind === 'ASTEROID' ? isRecord(sys.asteroids)
+            : kind === 'STATION' ? isRecord(sys.station) && sys.station.id === id
+            : false;
+          if (!exists) fleet.systemAnchor = 'STAR';
+        }
+
+        // boosts saved without their owner can't be processed
+        if (isRecord(fleet.boost) && typeof fleet.boost.fleetId !== 'string') {
+          fleet.boost.fleetId = fleet.id;
+        }
+      }
+    }
+  },
+  {
+    from: 3,
+    description: 'v3 -> v4: intel entries gain severity and a repeat count',
+    migrate(save) {
+      // Old lines were plain text: no refs, no folding, ALERT meant a warning
+      for (const entry of Array.isArray(save.intelLog) ? save.intelLog.filter(isRecord) : []) {
+        entry.severity ??= entry.kind === 'ALERT' ? 'WARNING' : 'INFO';
+        entry.count ??= 1;
+        entry.lastTick ??= num(entry.tick, 0);
+      }
+    }
+  },
+  {
+    from: 4,
+    description: 'v4 -> v5: player stations get an empty shipyard',
+    migrate(save) {
+      for (const sys of recordValues(save.galaxy)) {
+        if (isRecord(sys.station) && sys.station.owner === 'PLAYER') {
+          sys.station.shipyard ??= { queue: [] };
+        }
+      }
+    }
+  },
+  {
+    from: 5,
+    description: 'v5 -> v6: no player ship designs yet',
+    migrate(save) {
+      save.designs ??= [];
+    }
+  },
+  {
+    from: 6,
+    description: 'v6 -> v7: fleet integrity and morale become averages of their ships',
+    migrate(save) {
+      // Combat used to hit the fleet figure harder than its ships
+      for (const fleet of recordValues(save.fleets)) {
+        const ships = Array.isArray(fleet.ships) ? fleet.ships.filter(isRecord) : [];
+        if (ships.length === 0) continue;
+        const average = (key: string) => Math.round(ships.reduce((sum, s) => sum + num(s[key], 0), 0) / ships.length);
+        fleet.integrity = average('integrity');
+        fleet.morale = average('morale');
+      }
+    }
+  },
+  {
+    from: 7,
+    description: 'v7 -> v8: no battle reports yet',
+    migrate(save) {
+      save.battleReports ??= [];
+    }
+  },
+  {
+    from: 8,
+    description: 'v8 -> v9: ships get a loadout from the parts they were built with',
+    migrate(save) {
+      const designs = new Map<string, unknown[]>();
+      for (const design of Array.isArray(save.designs) ? save.designs.filter(isRecord) : []) {
+        if (Array.isArray(design.parts)) designs.set(String(design.key), design.parts);
+      }
+
+      for (const fleet of recordValues(save.fleets)) {
+        for (const ship of Array.isArray(fleet.ships) ? fleet.ships.filter(isRecord) : []) {
+          if (isRecord(ship.loadout)) continue;
+          const parts = designs.get(String(ship.design));
+          const known = parts
+            ? parts.map(key => V8_PART_LOADOUTS[String(key)]).filter(Boolean)
+            : [V8_STOCK_LOADOUTS[String(ship.design ?? ship.type)] ?? V8_STOCK_LOADOUTS.CORVETTE];
+
+          const loadout: V8Loadout = { weapons: {}, defenses: {} };
+          for (const part of known) {
+            for (const [k, v] of Object.entries(part.weapons)) loadout.weapons[k] = (loadout.weapons[k] ?? 0) + v;
+            for (const [k, v] of Object.entries(part.defenses)) loadout.defenses[k] = (loadout.defenses[k] ?? 0) + v;
+          }
+
+          // Whatever firepower the parts don't explain is hull guns, which are kinetic
+          const firepower = num(ship.firepower, 0);
+          const typed = Object.values(loadout.weapons).reduce((sum, v) => sum + v, 0);
+          if (typed > firepower) {
+            for (const k of Object.keys(loadout.weapons)) loadout.weapons[k] *= firepower / typed;
+          } else if (firepower > typed) {
+            loadout.weapons.KINETIC = (loadout.weapons.KINETIC ?? 0) + firepower - typed;
+          }
+          const toughness = num(ship.toughness, 0);
+          if (loadout.defenses.ARMOR !== undefined) loadout.defenses.ARMOR = Math.min(loadout.defenses.ARMOR, toughness);
+          ship.loadout = loadout;
+        }
+      }
+    }
+  },
+  {
+    from: 9,
+    description: 'v9 -> v10: every ship starts green, with no captain',
+    migrate(save) {
+      for (const fleet of recordValues(save.fleets)) {
+        for (const ship of Array.isArray(fleet.ships) ? fleet.ships.filter(isRecord) : []) {
+          ship.xp ??= 0;
+        }
+      }
+    }
+  }
+];
+
+/**
+ * Registered migrations, oldest first
+ */
+export function getSaveMigrations(): readonly SaveMigration[] {
+  return SAVE_MIGRATIONS;
+}
+
+/**
+ * Upgrade parsed save JSON to CURRENT_SAVE_VERSION. Pure: the input is not modified.
+ * The result still needs validateGameState() before it is trusted.
+ */
+export function migrateSave(parsed: unknown): MigrationResult {
+  if (!isRecord(parsed)) {
+    return { ok: false, reason: 'Save is not a JSON object.' };
+  }
+
+  const fromVersion = parsed.version;
+  if (typeof fromVersion !== 'number' || !Number.isInteger(fromVersion)) {
+    return { ok: false, reason: 'Save has no version.' };
+  }
+  if (fromVersion > CURRENT_SAVE_VERSION) {
+    return { ok: false, reason: `Save is version ${fromVersion}, newer than this game (${CURRENT_SAVE_VERSION}).` };
+  }
+
+  const save = JSON.parse(JSON.stringify(parsed)) as RawSave;
+  const applied: string[] = [];
+  for (let version = fromVersion; version < CURRENT_SAVE_VERSION; version++) {
+    const step = SAVE_MIGRATIONS.find(m => m.from === version);
+    if (!step) {
+      return { ok: false, reason: `Unknown save version ${version}.` };
+    }
+    try {
+      step.migrate(save);
+    } catch (err) {
+      return { ok: false, reason: `Migration v${version} -> v${version + 1} failed: ${String(err)}` };
+    }
+    save.version = version + 1;
+    applied.push(step.description);
+  }
+
+  return { ok: true, save, fromVersion, applied };
+}
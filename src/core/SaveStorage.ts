@@ -0,0 +1,318 @@
+// src/core/SaveStorage.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Save Storage Backends & Save Slots (NO Phaser imports)
+//
+// Backends (all async, so IndexedDB fits the same shape):
+// - IndexedDB      browser default when available
+// - localStorage   fallback (and where pre-slot saves live)
+// - memory         tests / headless runs
+// - file           Node tools; the caller injects the file IO
+//
+// Every named slot is two keys: a small metadata record (listing the
+// picker never parses whole saves) and the serialized GameState.
+// Autosaves rotate through AUTOSAVE_SLOT_COUNT slots, oldest first.
+// -----------------------------------------------------------------------------
+
+import { getState, getVictoryProgress, loadGameFromString, pushIntel, serializeGame } from './GameState';
+import { TICKS_PER_SECOND } from './Simulation';
+import { parseSave } from './SaveValidation';
+import type { GameState } from './types';
+
+export type SaveBackend = {
+  name: string;
+  read(key: string): Promise<string | null>;
+  write(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+  keys(prefix: string): Promise<string[]>;
+};
+
+export type SaveSlotMeta = {
+  slot: string;
+  label: string;
+  autosave: boolean;
+  runSeed: number;
+  turn: number;
+  tick: number;
+  savedAt: number;          // ms since epoch (wall clock, display only)
+  victoryType: string;
+  victoryProgress: number;  // 0..1, closest victory condition
+  thumbnail: string;        // one-line text summary for the picker
+};
+
+const META_PREFIX = 'hexfleet:meta:';
+const DATA_PREFIX = 'hexfleet:save:';
+
+// The single-slot save written before slots existed
+const LEGACY_STORAGE_KEY = 'hexfleet_save_v2';
+export const LEGACY_SLOT = 'legacy';
+
+export const QUICKSAVE_SLOT = 'quicksave';
+export const AUTOSAVE_SLOT_COUNT = 3;
+export const AUTOSAVE_INTERVAL_TICKS = 120 * TICKS_PER_SECOND; // every 2 minutes of game time
+
+// -----------------------------------------------------------------------------
+// Backends
+// -----------------------------------------------------------------------------
+
+export function createMemoryBackend(initial: Record<string, string> = {}): SaveBackend {
+  const items: Record<string, string> = { ...initial };
+  return {
+    name: 'memory',
+    read: async key => items[key] ?? null,
+    write: async (key, value) => { items[key] = value; },
+    remove: async key => { delete items[key]; },
+    keys: async prefix => Object.keys(items).filter(k => k.startsWith(prefix)).sort()
+  };
+}
+
+export function createLocalStorageBackend(storage: Storage = localStorage): SaveBackend {
+  return {
+    name: 'localStorage',
+    read: async key => storage.getItem(key),
+    write: async (key, value) => storage.setItem(key, value),
+    remove: async key => storage.removeItem(key),
+    keys: async prefix => {
+      const found: string[] = [];
+      for (let i = 0; i < storage.length; i++) {
+        const key = storage.key(i);
+        if (key?.startsWith(prefix)) found.push(key);
+      }
+      return found.sort();
+    }
+  };
+}
+
+const IDB_STORE = 'saves';
+
+function idbRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function createIndexedDbBackend(dbName: string = 'hexfleet'): SaveBackend {
+  let db: Promise<IDBDatabase> | null = null;
+  const open = (): Promise<IDBDatabase> => {
+    db ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return db;
+  };
+  const store = async (mode: IDBTransactionMode): Promise<IDBObjectStore> =>
+    (await open()).transaction(IDB_STORE, mode).objectStore(IDB_STORE);
+
+  return {
+    name: 'IndexedDB',
+    read: async key => (await idbRequest((await store('readonly')).get(key)) as string | undefined) ?? null,
+    write: async (key, value) => { await idbRequest((await store('readwrite')).put(value, key)); },
+    remove: async key => { await idbRequest((await store('readwrite')).delete(key)); },
+    keys: async prefix => {
+      const all = await idbRequest((await store('readonly')).getAllKeys());
+      return all.map(String).filter(k => k.startsWith(prefix)).sort();
+    }
+  };
+}
+
+/**
+ * Minimal file access for createFileBackend (e.g. wrap node:fs in a script)
+ */
+export type FileIO = {
+  readFile(path: string): string | null;
+  writeFile(path: string, contents: string): void;
+  removeFile(path: string): void;
+  listFiles(dir: string): string[];
+};
+
+// Reversible, filename-safe key encoding: percent-encode, then '%' -> '~'
+function encodeFileKey(key: string): string {
+  return encodeURIComponent(key)
+    .replace(/[~!'()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)
+    .replace(/%/g, '~');
+}
+
+function decodeFileKey(name: string): string {
+  return decodeURIComponent(name.replace(/~/g, '%'));
+}
+
+/**
+ * One file per key inside `dir`
+ */
+export function createFileBackend(io: FileIO, dir: string): SaveBackend {
+  const pathFor = (key: string) => `${dir}/${encodeFileKey(key)}.json`;
+  return {
+    name: 'file',
+    read: async key => io.readFile(pathFor(key)),
+    write: async (key, value) => io.writeFile(pathFor(key), value),
+    remove: async key => io.removeFile(pathFor(key)),
+    keys: async prefix => io.listFiles(dir)
+      .filter(f => f.endsWith('.json'))
+      .map(f => decodeFileKey(f.slice(0, -'.json'.length)))
+      .filter(k => k.startsWith(prefix))
+      .sort()
+  };
+}
+
+function createDefaultBackend(): SaveBackend {
+  if (typeof indexedDB !== 'undefined') return createIndexedDbBackend();
+  if (typeof localStorage !== 'undefined') return createLocalStorageBackend();
+  return createMemoryBackend();
+}
+
+let backend: SaveBackend = createDefaultBackend();
+
+export function setSaveBackend(next: SaveBackend): void {
+  backend = next;
+}
+
+export function getSaveBackend(): SaveBackend {
+  return backend;
+}
+
+// -----------------------------------------------------------------------------
+// Metadata
+// -----------------------------------------------------------------------------
+
+/**
+ * Build slot metadata for a game state. Pure apart from the wall-clock timestamp.
+ */
+export function describeSave(st: GameState, slot: string, label: string, autosave: boolean): SaveSlotMeta {
+  const victory = getVictoryProgress(st);
+  const fleets = Object.values(st.fleets).filter(f => f.owner === 'PLAYER' && f.maxMoves > 0).length;
+  const scanned = Object.values(st.galaxy).filter(s => s.intel === 'SCANNED' || s.intel === 'STALE').length;
+  const tm = st.resources.tieredMetals;
+  return {
+    slot,
+    label,
+    autosave,
+    runSeed: st.runSeed,
+    turn: st.turn,
+    tick: st.tick,
+    savedAt: Date.now(),
+    victoryType: victory.type,
+    victoryProgress: Math.round(victory.progress * 100) / 100,
+    thumbnail: `${fleets} fleets · T1 ${Math.floor(tm.T1)} T2 ${Math.floor(tm.T2)} T3 ${Math.floor(tm.T3)} · ${scanned}/${Object.keys(st.galaxy).length} scanned`
+  };
+}
+
+function safeParse<T>(raw: string): T | null {
+  try {
+    return JSON.parse(raw) as T;
+  } catch {
+    return null;
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Slots
+// -----------------------------------------------------------------------------
+
+/**
+ * Save the live game into a named slot (overwrites)
+ */
+export async function saveToSlot(slot: string, label: string = slot, autosave: boolean = false): Promise<boolean> {
+  const meta = describeSave(getState(), slot, label, autosave);
+  try {
+    await backend.write(DATA_PREFIX + slot, serializeGame());
+    await backend.write(META_PREFIX + slot, JSON.stringify(meta));
+  } catch (err) {
+    pushIntel('ALERT', `SAVE FAILED: ${slot} (${backend.name}: ${String(err)})`);
+    return false;
+  }
+  if (!autosave) pushIntel('SYSTEM', `SAVE: ${label} saved (${meta.thumbnail}).`);
+  return true;
+}
+
+/**
+ * Load a named slot into the live game
+ */
+export async function loadFromSlot(slot: string): Promise<boolean> {
+  let raw: string | null;
+  try {
+    raw = slot === LEGACY_SLOT ? readLegacySave() : await backend.read(DATA_PREFIX + slot);
+  } catch (err) {
+    pushIntel('ALERT', `LOAD FAILED: ${slot} (${backend.name}: ${String(err)})`);
+    return false;
+  }
+  if (!raw) {
+    pushIntel('ALERT', `LOAD FAILED: No save in slot ${slot}.`);
+    return false;
+  }
+  return loadGameFromString(raw);
+}
+
+export async function deleteSlot(slot: string): Promise<void> {
+  if (slot === LEGACY_SLOT) {
+    if (typeof localStorage !== 'undefined') localStorage.removeItem(LEGACY_STORAGE_KEY);
+    return;
+  }
+  try {
+    await backend.remove(DATA_PREFIX + slot);
+    await backend.remove(META_PREFIX + slot);
+  } catch (err) {
+    pushIntel('ALERT', `DELETE FAILED: ${slot} (${backend.name}: ${String(err)})`);
+  }
+}
+
+/**
+ * All slots, newest first (includes the pre-slot legacy save if one exists).
+ * A failing backend lists no slots of its own.
+ */
+export async function listSlots(): Promise<SaveSlotMeta[]> {
+  const metas: SaveSlotMeta[] = [];
+  try {
+    for (const key of await backend.keys(META_PREFIX)) {
+      const raw = await backend.read(key);
+      const meta = raw ? safeParse<SaveSlotMeta>(raw) : null;
+      if (meta) metas.push(meta);
+    }
+  } catch (err) {
+    pushIntel('ALERT', `SAVE LIST FAILED: ${backend.name}: ${String(err)}`);
+  }
+
+  // The legacy save predates the current format: only list it if it upgrades cleanly
+  const legacy = readLegacySave();
+  const parsed = legacy ? parseSave(legacy) : null;
+  if (parsed?.ok) {
+    metas.push({ ...describeSave(parsed.save, LEGACY_SLOT, 'Old save', false), savedAt: 0 });
+  }
+
+  return metas.sort((a, b) => b.savedAt - a.savedAt);
+}
+
+function readLegacySave(): string | null {
+  return typeof localStorage !== 'undefined' ? localStorage.getItem(LEGACY_STORAGE_KEY) : null;
+}
+
+// -----------------------------------------------------------------------------
+// Autosave
+// -----------------------------------------------------------------------------
+
+/**
+ * Write an autosave into the oldest of the rotating autosave slots
+ */
+export async function autosave(): Promise<boolean> {
+  const existing = (await listSlots()).filter(m => m.autosave);
+  const savedAt = (slot: string) => existing.find(m => m.slot === slot)?.savedAt ?? -1;
+
+  // First unused autosave slot, else the one written longest ago
+  const names = Array.from({ length: AUTOSAVE_SLOT_COUNT }, (_, i) => `autosave-${i + 1}`);
+  const slot = names.reduce((oldest, name) => (savedAt(name) < savedAt(oldest) ? name : oldest));
+
+  const st = getState();
+  return saveToSlot(slot, `Autosave (turn ${st.turn}, tick ${st.tick})`, true);
+}
+
+/**
+ * Autosave when the simulation has crossed an AUTOSAVE_INTERVAL_TICKS
+ * boundary since `previousTick`. Hosts call this after feeding real time.
+ */
+export function autosaveIfDue(previousTick: number): void {
+  const tick = getState().tick;
+  if (Math.floor(tick / AUTOSAVE_INTERVAL_TICKS) > Math.floor(previousTick / AUTOSAVE_INTERVAL_TICKS)) {
+    void autosave();
+  }
+}
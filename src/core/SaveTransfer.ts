@@ -0,0 +1,128 @@
+// src/core/SaveTransfer.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Save Export / Import & Share Codes (NO Phaser imports)
+//
+// Moving a run between machines:
+// - Save files: the serialized GameState (command log included), as JSON
+// - Share codes: the same state, deflated and base64url-encoded behind
+//   SHARE_CODE_PREFIX, small enough to paste into chat. The intel log is
+//   left out (it is most of the text and not needed to continue a run).
+//
+// Both come back in through importSave(), which runs the same parse /
+// migrate / validate pipeline as loading a slot and returns what was wrong.
+// The browser-side download, file picker and clipboard live in src/ui/saveFiles.ts.
+// -----------------------------------------------------------------------------
+
+import { getState, loadGameFromString, pushIntel, reportLoadErrors, serializeGame } from './GameState';
+import { parseSave } from './SaveValidation';
+import type { GameState } from './types';
+
+// Versioned so the encoding can change without misreading old codes
+export const SHARE_CODE_PREFIX = 'HEXFLEET1:';
+
+export const SAVE_FILE_EXTENSION = '.hexfleet.json';
+
+export type SaveExport = {
+  filename: string;
+  contents: string;
+  mimeType: string;
+};
+
+export type ImportResult =
+  | { ok: true; fromVersion: number }
+  | { ok: false; errors: string[] };
+
+// -----------------------------------------------------------------------------
+// Export
+// -----------------------------------------------------------------------------
+
+/**
+ * The live game as a downloadable save file
+ */
+export function exportSaveFile(): SaveExport {
+  const st = getState();
+  const filename = `hexfleet-${st.runSeed}-tick${st.tick}${SAVE_FILE_EXTENSION}`;
+  pushIntel('SYSTEM', `EXPORT: Run exported as ${filename}.`);
+  return { filename, contents: serializeGame(), mimeType: 'application/json' };
+}
+
+/**
+ * The live game as a share code (async: compression streams are async)
+ */
+export async function encodeShareCode(): Promise<string> {
+  const save = JSON.parse(serializeGame()) as GameState;
+  save.intelLog = [];
+  const compressed = await pipeBytes(new TextEncoder().encode(JSON.stringify(save)), new CompressionStream('deflate-raw'));
+  const code = SHARE_CODE_PREFIX + toBase64Url(compressed);
+  pushIntel('SYSTEM', `EXPORT: Share code created (${code.length} characters).`);
+  return code;
+}
+
+/**
+ * Save JSON inside a share code (whitespace from chat line-wrapping is ignored)
+ */
+export async function decodeShareCode(code: string): Promise<{ ok: true; raw: string } | { ok: false; reason: string }> {
+  const compact = code.replace(/\s+/g, '');
+  if (!compact.startsWith(SHARE_CODE_PREFIX)) {
+    return { ok: false, reason: 'Not a HexFleet share code.' };
+  }
+  try {
+    const bytes = fromBase64Url(compact.slice(SHARE_CODE_PREFIX.length));
+    const json = await pipeBytes(bytes, new DecompressionStream('deflate-raw'));
+    return { ok: true, raw: new TextDecoder().decode(json) };
+  } catch {
+    return { ok: false, reason: 'Share code is damaged or incomplete.' };
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Import
+// -----------------------------------------------------------------------------
+
+/**
+ * Load a save file's text or a share code into the live game.
+ * On failure the live game is untouched and every problem is returned
+ * (and logged as intel when a game is running).
+ */
+export async function importSave(text: string): Promise<ImportResult> {
+  let raw = text.trim();
+  if (raw.startsWith(SHARE_CODE_PREFIX)) {
+    const decoded = await decodeShareCode(raw);
+    if (!decoded.ok) {
+      pushIntel('ALERT', `IMPORT FAILED: ${decoded.reason}`);
+      return { ok: false, errors: [decoded.reason] };
+    }
+    raw = decoded.raw;
+  }
+
+  const parsed = parseSave(raw);
+  if (!parsed.ok) {
+    reportLoadErrors('IMPORT FAILED', parsed.errors);
+    return { ok: false, errors: parsed.errors };
+  }
+
+  loadGameFromString(raw);
+  return { ok: true, fromVersion: parsed.fromVersion };
+}
+
+// -----------------------------------------------------------------------------
+// Encoding helpers
+// -----------------------------------------------------------------------------
+
+async function pipeBytes(bytes: Uint8Array<ArrayBuffer>, transform: CompressionStream | DecompressionStream): Promise<Uint8Array<ArrayBuffer>> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+}
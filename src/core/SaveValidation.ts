@@ -0,0 +1,604 @@
+// src/core/SaveValidation.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Save Structural Validation (NO Phaser imports)
+//
+// validateGameState() walks a (migrated) save and reports every field that
+// doesn't match the current GameState shape, with a precise path
+// ("fleets.MINER-1.ships[0].integrity: expected number, got string").
+// Loading only proceeds with zero issues, so gameplay code never sees a
+// half-valid state.
+//
+// Enum lists are built from Record<Union, true> tables: adding a member to a
+// union in types.ts fails type-checking here until the validator knows it.
+// -----------------------------------------------------------------------------
+
+import { GAME_SPEEDS } from './Simulation';
+import { CURRENT_SAVE_VERSION, migrateSave } from './SaveMigration';
+import type {
+  GameState,
+  CommandSource,
+  CaptainTrait,
+  CommandType,
+  DefenseLayer,
+  FleetOwner,
+  FleetRole,
+  FleetTask,
+  GalaxyShape,
+  GamePhase,
+  IntelKind,
+  IntelSeverity,
+  MetalTier,
+  PlanetController,
+  RepairPriority,
+  ShipType,
+  StarSystemType,
+  StationState,
+  StationType,
+  SystemIntel,
+  WeaponType
+} from './types';
+
+export type SaveIssue = {
+  path: string;
+  message: string;
+};
+
+// A save text run through the whole load pipeline (parse, migrate, validate)
+export type ParsedSave =
+  | { ok: true; save: GameState; fromVersion: number }
+  | { ok: false; errors: string[] }; // first line is the summary
+
+type Json = Record<string, unknown>;
+
+function members<T extends string>(table: Record<T, true>): readonly string[] {
+  return Object.keys(table);
+}
+
+const FLEET_TASKS = members<FleetTask>({ IDLE: true, MOVE: true, MINE: true, SCAN: true, SALVAGE: true, SUPPRESS: true, FIGHT: true });
+const FLEET_OWNERS = members<FleetOwner>({ PLAYER: true, ENEMY: true });
+const FLEET_ROLES = members<FleetRole>({ MINER: true, COMBAT: true });
+// Station modules are stored as ships of type 'STATION' (see buildStation)
+const HULL_TYPES = members<ShipType>({ MINER: true, CORVETTE: true, FRIGATE: true, DESTROYER: true, CRUISER: true, BATTLESHIP: true, CARRIER: true });
+const SHIP_TYPES = [...HULL_TYPES, 'STATION'];
+const REPAIR_PRIORITIES = members<RepairPriority>({ HIGH: true, NORMAL: true, OFF: true });
+const WEAPON_TYPES = members<WeaponType>({ KINETIC: true, LASER: true, MISSILE: true, FIGHTER: true });
+const DEFENSE_LAYERS = members<DefenseLayer>({ SHIELD: true, ARMOR: true, POINT_DEFENSE: true });
+const CAPTAIN_TRAITS = members<CaptainTrait>({ CAUTIOUS: true, AGGRESSIVE: true, STEADFAST: true, MINER_SAVANT: true });
+const METAL_TIERS = members<MetalTier>({ T1: true, T2: true, T3: true });
+const SYSTEM_TYPES = members<StarSystemType>({
+  EMPTY_SPACE: true, MINING_SYSTEM: true, DERELICT: true, HOSTILE_STRONGHOLD: true, ABYSS_ZONE: true,
+  STAR: true, NEBULA: true, RUIN: true, ANOMALY: true
+});
+const SYSTEM_INTEL = members<SystemIntel>({ UNKNOWN: true, PARTIAL: true, SCANNED: true, STALE: true });
+const STATION_STATES = members<StationState>({ FRIENDLY: true, ENEMY: true, DERELICT: true });
+const STATION_TYPES = members<StationType>({ MINING: true, INDUSTRIAL: true, MILITARY: true, RESEARCH: true });
+const STATION_OWNERS = [...FLEET_OWNERS, 'NEUTRAL'];
+const PLANET_CONTROLLERS = members<PlanetController>({ PLAYER: true, ENEMY: true, NEUTRAL: true, CONTESTED: true });
+const GALAXY_SHAPES = members<GalaxyShape>({ RING: true, SPIRAL: true, CLUSTER: true });
+const GAME_PHASES = members<GamePhase>({ PLAYER: true, ENEMY: true });
+const INTEL_KINDS = members<IntelKind>({
+  MOVE: true, SCAN: true, MINE: true, SALVAGE: true, BUILD: true, DISMANTLE: true, ALERT: true, SYSTEM: true, BOOST: true
+});
+const INTEL_SEVERITIES = members<IntelSeverity>({ INFO: true, WARNING: true, CRITICAL: true });
+const COMMAND_SOURCES = members<CommandSource>({ PLAYER: true, AI: true });
+const COMMAND_TYPES = members<CommandType>({
+  MOVE_FLEET: true, ASSIGN_TASK: true, QUEUE_ORDER: true, CLEAR_ORDERS: true, SET_ORDER_LOOP: true,
+  BOOST_MINING: true, TOGGLE_BLOCKADE: true, BUILD_FLEET: true, BUILD_STATION: true, DISMANTLE_FLEET: true,
+  SPLIT_FLEET: true, MERGE_FLEETS: true, TRANSFER_SHIPS: true,
+  QUEUE_BUILD: true, CANCEL_BUILD: true, MOVE_BUILD: true, SET_RALLY_FLEET: true,
+  CREATE_DESIGN: true, DELETE_DESIGN: true, SET_REPAIR_PRIORITY: true,
+  MOVE_IN_SYSTEM: true, MINE_AT_POSITION: true, START_INVASION: true, REINFORCE_PLANET: true,
+  END_TURN: true, ADVANCE_TURN: true, AI_ORDER: true
+});
+
+// -----------------------------------------------------------------------------
+// Checker
+// -----------------------------------------------------------------------------
+
+type Checker = {
+  issues: SaveIssue[];
+  fail(path: string, message: string): false;
+  record(path: string, value: unknown): value is Json;
+  array(path: string, value: unknown): value is unknown[];
+  number(path: string, value: unknown, opts?: { int?: boolean; min?: number; max?: number }): value is number;
+  string(path: string, value: unknown): value is string;
+  boolean(path: string, value: unknown): value is boolean;
+  oneOf(path: string, value: unknown, allowed: readonly string[]): value is string;
+  keyedRecord(path: string, value: unknown, each: (entryPath: string, entry: Json) => void): void; // keys must equal each entry's `id`
+  systemRef(path: string, value: unknown, galaxy: Json): boolean;
+};
+
+/**
+ * Collects issues while walking the save. Each check returns whether the
+ * value passed, so callers can skip walking into a broken subtree.
+ */
+function createChecker(): Checker {
+  const issues: SaveIssue[] = [];
+  const fail = (path: string, message: string): false => {
+    issues.push({ path, message });
+    return false;
+  };
+  const isJson = (value: unknown): value is Json => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+  const c: Checker = {
+    issues,
+    fail,
+    record: (path, value): value is Json => isJson(value) || fail(path, `expected object, got ${describe(value)}`),
+    array: (path, value): value is unknown[] => Array.isArray(value) || fail(path, `expected array, got ${describe(value)}`),
+    number: (path, value, opts = {}): value is number => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return fail(path, `expected number, got ${describe(value)}`);
+      if (opts.int && !Number.isInteger(value)) return fail(path, `expected integer, got ${value}`);
+      if (opts.min !== undefined && value < opts.min) return fail(path, `expected >= ${opts.min}, got ${value}`);
+      if (opts.max !== undefined && value > opts.max) return fail(path, `expected <= ${opts.max}, got ${value}`);
+      return true;
+    },
+    string: (path, value): value is string => typeof value === 'string' || fail(path, `expected string, got ${describe(value)}`),
+    boolean: (path, value): value is boolean => typeof value === 'boolean' || fail(path, `expected boolean, got ${describe(value)}`),
+    oneOf: (path, value, allowed): value is string =>
+      (typeof value === 'string' && allowed.includes(value)) || fail(path, `expected one of ${allowed.join('|')}, got ${describe(value)}`),
+    keyedRecord: (path, value, each) => {
+      if (!c.record(path, value)) return;
+      for (const [key, entry] of Object.entries(value)) {
+        const entryPath = `${path}.${key}`;
+        if (!c.record(entryPath, entry)) continue;
+        if (entry.id !== key) fail(`${entryPath}.id`, `expected "${key}" (its key), got ${describe(entry.id)}`);
+        each(entryPath, entry);
+      }
+    },
+    systemRef: (path, value, galaxy) => c.string(path, value) && (value in galaxy || fail(path, `unknown system "${value}"`))
+  };
+  return c;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value.length > 24 ? `${value.slice(0, 24)}…` : value}"`;
+  if (typeof value === 'number') return String(value);
+  return typeof value;
+}
+
+// -----------------------------------------------------------------------------
+// Validation
+// -----------------------------------------------------------------------------
+
+/**
+ * Every structural problem in a save (empty = valid current-version GameState)
+ */
+export function validateGameState(save: unknown): SaveIssue[] {
+  const c = createChecker();
+  if (!c.record('(save)', save)) return c.issues;
+
+  if (save.version !== CURRENT_SAVE_VERSION) {
+    c.fail('version', `expected ${CURRENT_SAVE_VERSION}, got ${describe(save.version)}`);
+  }
+  c.number('runSeed', save.runSeed, { int: true });
+  c.number('tick', save.tick, { int: true, min: 0 });
+  c.boolean('isPaused', save.isPaused);
+  c.number('nextEntityId', save.nextEntityId, { int: true, min: 1 });
+  c.number('nextIntelId', save.nextIntelId, { int: true, min: 1 });
+  c.number('turn', save.turn, { int: true, min: 1 });
+  c.oneOf('phase', save.phase, GAME_PHASES);
+
+  if (c.record('clock', save.clock)) {
+    c.number('clock.speedIndex', save.clock.speedIndex, { int: true, min: 0, max: GAME_SPEEDS.length - 1 });
+    c.number('clock.accumulatorMs', save.clock.accumulatorMs, { min: 0 });
+    if (c.record('clock.timers', save.clock.timers)) {
+      for (const [name, at] of Object.entries(save.clock.timers)) c.number(`clock.timers.${name}`, at, { int: true });
+    }
+  }
+
+  if (c.record('galaxyOptions', save.galaxyOptions)) {
+    c.number('galaxyOptions.systemCount', save.galaxyOptions.systemCount, { int: true, min: 1 });
+    c.oneOf('galaxyOptions.shape', save.galaxyOptions.shape, GALAXY_SHAPES);
+  }
+
+  // Everything below cross-references systems
+  const galaxy: Json = c.record('galaxy', save.galaxy) ? save.galaxy : {};
+  c.keyedRecord('galaxy', save.galaxy, (path, sys) => checkSystem(c, path, sys));
+  if (Object.keys(galaxy).length === 0) c.fail('galaxy', 'expected at least one system');
+
+  c.keyedRecord('lanes', save.lanes, (path, lane) => {
+    c.systemRef(`${path}.a`, lane.a, galaxy);
+    c.systemRef(`${path}.b`, lane.b, galaxy);
+    c.number(`${path}.travelMultiplier`, lane.travelMultiplier, { min: 1 });
+    c.boolean(`${path}.blocked`, lane.blocked);
+    if (lane.blockedBy !== undefined) c.oneOf(`${path}.blockedBy`, lane.blockedBy, FLEET_OWNERS);
+    c.boolean(`${path}.contested`, lane.contested);
+  });
+
+  c.keyedRecord('fleets', save.fleets, (path, fleet) => checkFleet(c, path, fleet, galaxy));
+  const fleets: Json = c.record('fleets', save.fleets) ? save.fleets : {};
+
+  if (c.record('visibility', save.visibility)) {
+    if (c.array('visibility.visibleSystems', save.visibility.visibleSystems)) {
+      save.visibility.visibleSystems.forEach((id, i) => c.systemRef(`visibility.visibleSystems[${i}]`, id, galaxy));
+    }
+    if (c.record('visibility.lastSeen', save.visibility.lastSeen)) {
+      for (const [id, sighting] of Object.entries(save.visibility.lastSeen)) {
+        const path = `visibility.lastSeen.${id}`;
+        if (!c.record(path, sighting)) continue;
+        c.string(`${path}.name`, sighting.name);
+        c.oneOf(`${path}.role`, sighting.role, FLEET_ROLES);
+        c.systemRef(`${path}.systemId`, sighting.systemId, galaxy);
+        c.number(`${path}.shipCount`, sighting.shipCount, { int: true, min: 0 });
+        c.number(`${path}.tick`, sighting.tick, { int: true });
+      }
+    }
+  }
+
+  if (save.selectedSystemId !== null) c.systemRef('selectedSystemId', save.selectedSystemId, galaxy);
+  if (save.selectedFleetId !== null && c.string('selectedFleetId', save.selectedFleetId) && !(save.selectedFleetId in fleets)) {
+    c.fail('selectedFleetId', `unknown fleet "${save.selectedFleetId}"`);
+  }
+  if (save.selectedSystemObject !== null && c.record('selectedSystemObject', save.selectedSystemObject)) {
+    c.systemRef('selectedSystemObject.systemId', save.selectedSystemObject.systemId, galaxy);
+    c.string('selectedSystemObject.objectId', save.selectedSystemObject.objectId);
+  }
+
+  if (c.record('resources', save.resources)) {
+    checkMetals(c, 'resources.tieredMetals', save.resources.tieredMetals, false);
+    c.number('resources.alloys', save.resources.alloys);
+    c.number('resources.gas', save.resources.gas);
+    c.number('resources.crystals', save.resources.crystals);
+  }
+
+  if (c.array('unlockedBlueprints', save.unlockedBlueprints)) {
+    save.unlockedBlueprints.forEach((key, i) => c.string(`unlockedBlueprints[${i}]`, key));
+  }
+
+  if (c.array('designs', save.designs)) {
+    save.designs.forEach((design, i) => {
+      const path = `designs[${i}]`;
+      if (!c.record(path, design)) return;
+      c.string(`${path}.key`, design.key);
+      c.string(`${path}.name`, design.name);
+      c.oneOf(`${path}.hull`, design.hull, HULL_TYPES);
+      if (c.array(`${path}.parts`, design.parts)) {
+        design.parts.forEach((part, j) => c.string(`${path}.parts[${j}]`, part));
+      }
+    });
+  }
+
+  if (c.array('battleReports', save.battleReports)) {
+    save.battleReports.forEach((report, i) => checkBattleReport(c, `battleReports[${i}]`, report, galaxy));
+  }
+
+  if (c.array('intelLog', save.intelLog)) {
+    save.intelLog.forEach((entry, i) => {
+      const path = `intelLog[${i}]`;
+      if (!c.record(path, entry)) return;
+      c.string(`${path}.id`, entry.id);
+      c.number(`${path}.turn`, entry.turn);
+      c.number(`${path}.tick`, entry.tick);
+      c.number(`${path}.ts`, entry.ts);
+      c.oneOf(`${path}.kind`, entry.kind, INTEL_KINDS);
+      c.string(`${path}.text`, entry.text);
+      c.oneOf(`${path}.severity`, entry.severity, INTEL_SEVERITIES);
+      c.number(`${path}.count`, entry.count, { int: true, min: 1 });
+      c.number(`${path}.lastTick`, entry.lastTick, { int: true, min: 0 });
+      if (entry.group !== undefined) c.string(`${path}.group`, entry.group);
+      // Fleets and planets come and go; only systems are permanent
+      if (entry.systemId !== undefined) c.systemRef(`${path}.systemId`, entry.systemId, galaxy);
+      if (entry.fleetId !== undefined) c.string(`${path}.fleetId`, entry.fleetId);
+      if (entry.planetId !== undefined) c.string(`${path}.planetId`, entry.planetId);
+      if (entry.battleId !== undefined) c.string(`${path}.battleId`, entry.battleId);
+    });
+  }
+
+  if (c.record('commandLog', save.commandLog)) {
+    if (c.array('commandLog.commands', save.commandLog.commands)) {
+      save.commandLog.commands.forEach((record, i) => {
+        const path = `commandLog.commands[${i}]`;
+        if (!c.record(path, record)) return;
+        c.number(`${path}.tick`, record.tick, { int: true, min: 0 });
+        c.number(`${path}.seq`, record.seq, { int: true, min: 0 });
+        c.oneOf(`${path}.source`, record.source, COMMAND_SOURCES);
+        if (c.record(`${path}.command`, record.command)) c.oneOf(`${path}.command.type`, record.command.type, COMMAND_TYPES);
+      });
+    }
+    if (c.array('commandLog.checkpoints', save.commandLog.checkpoints)) {
+      save.commandLog.checkpoints.forEach((cp, i) => {
+        const path = `commandLog.checkpoints[${i}]`;
+        if (!c.record(path, cp)) return;
+        c.number(`${path}.tick`, cp.tick, { int: true, min: 0 });
+        c.string(`${path}.hash`, cp.hash);
+      });
+    }
+  }
+
+  return c.issues;
+}
+
+function checkMetals(c: Checker, path: string, value: unknown, partial: boolean): void {
+  if (!c.record(path, value)) return;
+  for (const tier of METAL_TIERS) {
+    if (partial && value[tier] === undefined) continue;
+    c.number(`${path}.${tier}`, value[tier]);
+  }
+}
+
+function checkLoadout(c: Checker, path: string, loadout: unknown): void {
+  if (!c.record(path, loadout)) return;
+  const checkValues = (p: string, values: unknown, keys: readonly string[]) => {
+    if (!c.record(p, values)) return;
+    for (const [key, value] of Object.entries(values)) {
+      c.oneOf(`${p}.${key}`, key, keys);
+      c.number(`${p}.${key}`, value, { min: 0 });
+    }
+  };
+  checkValues(`${path}.weapons`, loadout.weapons, WEAPON_TYPES);
+  checkValues(`${path}.defenses`, loadout.defenses, DEFENSE_LAYERS);
+}
+
+function checkSystem(c: Checker, path: string, sys: Json): void {
+  c.string(`${path}.name`, sys.name);
+  if (c.record(`${path}.coord`, sys.coord)) {
+    c.number(`${path}.coord.q`, sys.coord.q, { int: true });
+    c.number(`${path}.coord.r`, sys.coord.r, { int: true });
+  }
+  c.number(`${path}.seed`, sys.seed, { int: true });
+  c.boolean(`${path}.discovered`, sys.discovered);
+  c.oneOf(`${path}.type`, sys.type, SYSTEM_TYPES);
+  c.number(`${path}.tier`, sys.tier, { int: true, min: 0 });
+  c.oneOf(`${path}.intel`, sys.intel, SYSTEM_INTEL);
+
+  if (sys.scan !== undefined && c.record(`${path}.scan`, sys.scan)) {
+    c.number(`${path}.scan.progress`, sys.scan.progress, { min: 0, max: 100 });
+    c.number(`${path}.scan.revealLevel`, sys.scan.revealLevel, { int: true, min: 0, max: 4 });
+    c.number(`${path}.scan.lastIntelTick`, sys.scan.lastIntelTick, { int: true });
+  }
+
+  if (sys.asteroids !== undefined && c.record(`${path}.asteroids`, sys.asteroids)) {
+    const a = sys.asteroids;
+    c.oneOf(`${path}.asteroids.metalTier`, a.metalTier, METAL_TIERS);
+    c.number(`${path}.asteroids.richness`, a.richness, { min: 0 });
+    c.number(`${path}.asteroids.yieldRemaining`, a.yieldRemaining, { min: 0, max: 100 });
+    c.number(`${path}.asteroids.totalYield`, a.totalYield, { min: 0 });
+  }
+
+  if (sys.station !== undefined && c.record(`${path}.station`, sys.station)) {
+    const s = sys.station;
+    c.string(`${path}.station.id`, s.id);
+    c.string(`${path}.station.name`, s.name);
+    c.oneOf(`${path}.station.owner`, s.owner, STATION_OWNERS);
+    c.oneOf(`${path}.station.type`, s.type, STATION_TYPES);
+    c.oneOf(`${path}.station.state`, s.state, STATION_STATES);
+    c.number(`${path}.station.integrity`, s.integrity, { min: 0, max: 100 });
+    c.boolean(`${path}.station.functional`, s.functional);
+    if (s.shipyard !== undefined && c.record(`${path}.station.shipyard`, s.shipyard)) {
+      const yp = `${path}.station.shipyard`;
+      if (s.shipyard.rallyFleetId !== undefined) c.string(`${yp}.rallyFleetId`, s.shipyard.rallyFleetId);
+      if (c.array(`${yp}.queue`, s.shipyard.queue)) {
+        s.shipyard.queue.forEach((order, i) => {
+          const op = `${yp}.queue[${i}]`;
+          if (!c.record(op, order)) return;
+          c.string(`${op}.id`, order.id);
+          c.string(`${op}.blueprint`, order.blueprint);
+          c.number(`${op}.buildTicks`, order.buildTicks, { int: true, min: 1 });
+          c.number(`${op}.progressTicks`, order.progressTicks, { int: true, min: 0 });
+          checkMetals(c, `${op}.paid`, order.paid, true);
+        });
+      }
+    } else if (s.shipyard === undefined && s.owner === 'PLAYER') {
+      c.fail(`${path}.station.shipyard`, 'player stations must have a shipyard');
+    }
+  }
+
+  if (sys.wrecks !== undefined && c.array(`${path}.wrecks`, sys.wrecks)) {
+    sys.wrecks.forEach((wreck, i) => {
+      const wp = `${path}.wrecks[${i}]`;
+      if (!c.record(wp, wreck)) return;
+      c.string(`${wp}.id`, wreck.id);
+      c.string(`${wp}.name`, wreck.name);
+      c.oneOf(`${wp}.source`, wreck.source, ['COMBAT', 'DERELICT']);
+      c.number(`${wp}.tier`, wreck.tier, { int: true, min: 1, max: 3 });
+      c.number(`${wp}.hulls`, wreck.hulls, { int: true, min: 0 });
+      c.number(`${wp}.scrapRemaining`, wreck.scrapRemaining, { min: 0, max: 100 });
+      c.number(`${wp}.seed`, wreck.seed, { int: true });
+    });
+  }
+
+  if (sys.pressure !== undefined && c.record(`${path}.pressure`, sys.pressure)) {
+    c.number(`${path}.pressure.current`, sys.pressure.current, { min: 0 });
+    c.number(`${path}.pressure.max`, sys.pressure.max, { min: 0 });
+    c.number(`${path}.pressure.rate`, sys.pressure.rate);
+    c.number(`${path}.pressure.suppression`, sys.pressure.suppression);
+  }
+
+  if (sys.planets !== undefined && c.record(`${path}.planets`, sys.planets)) {
+    for (const [planetId, planet] of Object.entries(sys.planets)) {
+      const pp = `${path}.planets.${planetId}`;
+      if (!c.record(pp, planet)) continue;
+      if (planet.name !== undefined) c.string(`${pp}.name`, planet.name);
+      c.oneOf(`${pp}.controller`, planet.controller, PLANET_CONTROLLERS);
+      c.number(`${pp}.groundTroops`, planet.groundTroops, { min: 0 });
+      c.number(`${pp}.defenses`, planet.defenses, { min: 0 });
+      c.number(`${pp}.population`, planet.population, { min: 0 });
+      if (c.record(`${pp}.defense`, planet.defense)) {
+        c.oneOf(`${pp}.defense.control`, planet.defense.control, PLANET_CONTROLLERS);
+        c.number(`${pp}.defense.garrison`, planet.defense.garrison, { min: 0 });
+        c.number(`${pp}.defense.fortification`, planet.defense.fortification, { min: 0 });
+        c.number(`${pp}.defense.unrest`, planet.defense.unrest, { min: 0 });
+      }
+      if (planet.invasion !== undefined && c.record(`${pp}.invasion`, planet.invasion)) {
+        c.string(`${pp}.invasion.planetId`, planet.invasion.planetId);
+        c.oneOf(`${pp}.invasion.attacker`, planet.invasion.attacker, FLEET_OWNERS);
+        c.number(`${pp}.invasion.invasionStrength`, planet.invasion.invasionStrength, { min: 0 });
+        c.number(`${pp}.invasion.turnsOngoing`, planet.invasion.turnsOngoing, { int: true, min: 0 });
+      }
+    }
+  }
+}
+
+function checkBattleReport(c: Checker, path: string, report: unknown, galaxy: Json): void {
+  if (!c.record(path, report)) return;
+  c.string(`${path}.id`, report.id);
+  c.systemRef(`${path}.systemId`, report.systemId, galaxy);
+  c.number(`${path}.tick`, report.tick, { int: true, min: 0 });
+  c.number(`${path}.rounds`, report.rounds, { int: true, min: 0 });
+  if (report.winner !== null) c.oneOf(`${path}.winner`, report.winner, FLEET_OWNERS);
+
+  if (c.array(`${path}.ships`, report.ships)) {
+    report.ships.forEach((ship, i) => {
+      const shipPath = `${path}.ships[${i}]`;
+      if (!c.record(shipPath, ship)) return;
+      c.string(`${shipPath}.shipId`, ship.shipId);
+      c.string(`${shipPath}.shipName`, ship.shipName);
+      c.oneOf(`${shipPath}.shipType`, ship.shipType, SHIP_TYPES);
+      c.string(`${shipPath}.fleetId`, ship.fleetId);
+      c.string(`${shipPath}.fleetName`, ship.fleetName);
+      c.oneOf(`${shipPath}.owner`, ship.owner, FLEET_OWNERS);
+      for (const key of ['integrityBefore', 'integrityAfter', 'moraleBefore', 'moraleAfter', 'damageDealt', 'damageTaken']) {
+        c.number(`${shipPath}.${key}`, ship[key], { min: 0 });
+      }
+      c.boolean(`${shipPath}.destroyed`, ship.destroyed);
+    });
+  }
+  if (c.array(`${path}.routs`, report.routs)) {
+    report.routs.forEach((rout, i) => {
+      if (!c.record(`${path}.routs[${i}]`, rout)) return;
+      c.number(`${path}.routs[${i}].round`, rout.round, { int: true, min: 1 });
+      c.string(`${path}.routs[${i}].fleetId`, rout.fleetId);
+    });
+  }
+  if (c.array(`${path}.hits`, report.hits)) {
+    report.hits.forEach((hit, i) => {
+      const hitPath = `${path}.hits[${i}]`;
+      if (!c.record(hitPath, hit)) return;
+      c.number(`${hitPath}.round`, hit.round, { int: true, min: 1 });
+      c.string(`${hitPath}.attackerId`, hit.attackerId);
+      c.string(`${hitPath}.targetId`, hit.targetId);
+      c.number(`${hitPath}.damage`, hit.damage, { min: 0 });
+      c.boolean(`${hitPath}.destroyed`, hit.destroyed);
+    });
+  }
+  if (c.array(`${path}.wrecks`, report.wrecks)) {
+    report.wrecks.forEach((wreck, i) => {
+      const wreckPath = `${path}.wrecks[${i}]`;
+      if (!c.record(wreckPath, wreck)) return;
+      c.string(`${wreckPath}.wreckId`, wreck.wreckId);
+      c.string(`${wreckPath}.name`, wreck.name);
+      c.number(`${wreckPath}.tier`, wreck.tier, { int: true, min: 1 });
+      c.number(`${wreckPath}.hulls`, wreck.hulls, { int: true, min: 1 });
+    });
+  }
+}
+
+function checkFleet(c: Checker, path: string, fleet: Json, galaxy: Json): void {
+  c.string(`${path}.name`, fleet.name);
+  c.oneOf(`${path}.owner`, fleet.owner, FLEET_OWNERS);
+  c.oneOf(`${path}.role`, fleet.role, FLEET_ROLES);
+  c.oneOf(`${path}.shipType`, fleet.shipType, SHIP_TYPES);
+  c.systemRef(`${path}.location`, fleet.location, galaxy);
+
+  if (c.array(`${path}.ships`, fleet.ships)) {
+    fleet.ships.forEach((ship, i) => {
+      const sp = `${path}.ships[${i}]`;
+      if (!c.record(sp, ship)) return;
+      c.string(`${sp}.id`, ship.id);
+      c.string(`${sp}.name`, ship.name);
+      c.oneOf(`${sp}.type`, ship.type, SHIP_TYPES);
+      c.number(`${sp}.integrity`, ship.integrity, { min: 0, max: 100 });
+      c.number(`${sp}.morale`, ship.morale, { min: 0, max: 100 });
+      c.number(`${sp}.firepower`, ship.firepower, { min: 0 });
+      c.number(`${sp}.toughness`, ship.toughness, { min: 0 });
+      c.number(`${sp}.groundTroops`, ship.groundTroops, { min: 0 });
+      c.number(`${sp}.groundTroopCapacity`, ship.groundTroopCapacity, { min: 0 });
+      if (ship.miningTier !== undefined) c.oneOf(`${sp}.miningTier`, ship.miningTier, METAL_TIERS);
+      if (ship.weapons !== undefined) c.number(`${sp}.weapons`, ship.weapons, { min: 0 });
+      if (ship.armor !== undefined) c.number(`${sp}.armor`, ship.armor, { min: 0 });
+      if (ship.sensors !== undefined) c.number(`${sp}.sensors`, ship.sensors, { int: true, min: 0 });
+      if (ship.repairBays !== undefined) c.number(`${sp}.repairBays`, ship.repairBays, { int: true, min: 0 });
+      if (ship.design !== undefined) c.string(`${sp}.design`, ship.design);
+      checkLoadout(c, `${sp}.loadout`, ship.loadout);
+      c.number(`${sp}.xp`, ship.xp, { min: 0 });
+      if (ship.captain !== undefined && c.record(`${sp}.captain`, ship.captain)) {
+        c.string(`${sp}.captain.name`, ship.captain.name);
+        c.oneOf(`${sp}.captain.trait`, ship.captain.trait, CAPTAIN_TRAITS);
+        c.number(`${sp}.captain.since`, ship.captain.since, { int: true, min: 0 });
+      }
+      checkMetals(c, `${sp}.buildCost`, ship.buildCost, true);
+    });
+  }
+
+  if (fleet.systemPos !== undefined && c.record(`${path}.systemPos`, fleet.systemPos)) {
+    c.number(`${path}.systemPos.q`, fleet.systemPos.q, { int: true });
+    c.number(`${path}.systemPos.r`, fleet.systemPos.r, { int: true });
+  }
+  if (fleet.systemAnchor !== undefined && c.string(`${path}.systemAnchor`, fleet.systemAnchor)
+      && !/^(STAR|(PLANET|ASTEROID|STATION):.+)$/.test(fleet.systemAnchor)) {
+    c.fail(`${path}.systemAnchor`, `expected STAR or PLANET:/ASTEROID:/STATION:<id>, got ${describe(fleet.systemAnchor)}`);
+  }
+
+  c.oneOf(`${path}.task`, fleet.task, FLEET_TASKS);
+  if (fleet.taskTarget !== undefined) c.string(`${path}.taskTarget`, fleet.taskTarget);
+  if (fleet.etaTicks !== undefined) c.number(`${path}.etaTicks`, fleet.etaTicks, { min: 0 });
+  if (fleet.task === 'MOVE') c.systemRef(`${path}.taskTarget`, fleet.taskTarget, galaxy);
+  if (fleet.route !== undefined && c.array(`${path}.route`, fleet.route)) {
+    fleet.route.forEach((id, i) => c.systemRef(`${path}.route[${i}]`, id, galaxy));
+  }
+
+  const checkOrder = (op: string, order: unknown) => {
+    if (!c.record(op, order)) return;
+    c.oneOf(`${op}.task`, order.task, FLEET_TASKS);
+    if (order.target !== undefined) c.string(`${op}.target`, order.target);
+  };
+  if (fleet.orders !== undefined && c.array(`${path}.orders`, fleet.orders)) {
+    fleet.orders.forEach((order, i) => checkOrder(`${path}.orders[${i}]`, order));
+  }
+  if (fleet.activeOrder !== undefined) checkOrder(`${path}.activeOrder`, fleet.activeOrder);
+  if (fleet.loopOrders !== undefined) c.boolean(`${path}.loopOrders`, fleet.loopOrders);
+  if (fleet.cargo !== undefined) checkMetals(c, `${path}.cargo`, fleet.cargo, false);
+  if (fleet.repairPriority !== undefined) c.oneOf(`${path}.repairPriority`, fleet.repairPriority, REPAIR_PRIORITIES);
+
+  if (fleet.boost !== undefined && c.record(`${path}.boost`, fleet.boost)) {
+    c.string(`${path}.boost.fleetId`, fleet.boost.fleetId);
+    c.number(`${path}.boost.multiplier`, fleet.boost.multiplier, { min: 0 });
+    c.number(`${path}.boost.durationTicks`, fleet.boost.durationTicks, { min: 0 });
+    c.number(`${path}.boost.cooldownTicks`, fleet.boost.cooldownTicks, { min: 0 });
+  }
+
+  c.number(`${path}.movesLeft`, fleet.movesLeft, { min: 0 });
+  c.number(`${path}.maxMoves`, fleet.maxMoves, { min: 0 });
+  c.number(`${path}.integrity`, fleet.integrity, { min: 0, max: 100 });
+  c.number(`${path}.morale`, fleet.morale, { min: 0, max: 100 });
+  if (fleet.miningTier !== undefined) c.oneOf(`${path}.miningTier`, fleet.miningTier, METAL_TIERS);
+  c.number(`${path}.groundTroops`, fleet.groundTroops, { min: 0 });
+  c.number(`${path}.groundTroopCapacity`, fleet.groundTroopCapacity, { min: 0 });
+}
+
+/**
+ * One-line summaries for the intel log, at most `limit` of them
+ */
+export function formatSaveIssues(issues: SaveIssue[], limit: number = 5): string[] {
+  const lines = issues.slice(0, limit).map(issue => `${issue.path}: ${issue.message}`);
+  if (issues.length > limit) lines.push(`...and ${issues.length - limit} more`);
+  return lines;
+}
+
+/**
+ * Parse, migrate and validate save text without touching the live game.
+ * loadGameFromString and imports both go through here.
+ */
+export function parseSave(raw: string): ParsedSave {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return { ok: false, errors: ['Could not parse save.'] };
+  }
+
+  const migrated = migrateSave(parsed);
+  if (!migrated.ok) {
+    return { ok: false, errors: [migrated.reason] };
+  }
+
+  const issues = validateGameState(migrated.save);
+  if (issues.length > 0) {
+    const summary = `Save is corrupt (${issues.length} problem${issues.length === 1 ? '' : 's'}).`;
+    return { ok: false, errors: [summary, ...formatSaveIssues(issues)] };
+  }
+
+  return { ok: true, save: migrated.save as GameState, fromVersion: migrated.fromVersion };
+}
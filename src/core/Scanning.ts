@@ -0,0 +1,265 @@
+// src/core/Scanning.ts
+// -----------------------------------------------------------------------------
+// HexFleet — SCAN Task, Progressive Reveal & Intel Aging (NO Phaser imports)
+//
+// A SCAN takes ticks based on system tier and the fleet's sensors. Progress
+// crosses reveal thresholds in order:
+//   25%  asteroids (tier / richness)
+//   50%  station (owner / state)
+//   75%  planets (controllers / garrisons)
+//   100% enemy presence -> intel SCANNED
+//
+// Intel ages: with no friendly fleet or station present for
+// INTEL_STALE_TICKS, PARTIAL/SCANNED intel becomes STALE. What was revealed
+// is kept; only its freshness (and combat estimate confidence) drops.
+// -----------------------------------------------------------------------------
+
+import { getState, pushIntel } from './GameState';
+import { emit } from './Events';
+import type { CombatIntel, Fleet, ScanReveal, ScanState, ShipType, StarSystem, SystemIntel } from './types';
+
+// TDD §6.2: scan base 80 ticks; each tier above 1 adds 50%
+export const SCAN_BASE_TICKS = 80;
+const SCAN_TIER_FACTOR = 0.5;
+
+// 60 seconds at 10 ticks/s without eyes on a system
+export const INTEL_STALE_TICKS = 600;
+
+// Sensor contribution per hull; best ship counts fully, the rest add 25%
+const SENSOR_STRENGTH: Record<ShipType, number> = {
+  MINER: 0.5,
+  CORVETTE: 1.0,
+  FRIGATE: 1.2,
+  DESTROYER: 0.9,
+  CRUISER: 1.0,
+  BATTLESHIP: 0.6,
+  CARRIER: 0.8
+};
+const SENSOR_SUPPORT_FACTOR = 0.25;
+
+// Added per sensor part fitted (see ShipDesign.ts)
+const SENSOR_PART_STRENGTH = 0.5;
+
+const REVEAL_THRESHOLDS: { level: ScanReveal; at: number }[] = [
+  { level: 1, at: 25 },
+  { level: 2, at: 50 },
+  { level: 3, at: 75 },
+  { level: 4, at: 100 }
+];
+
+// -----------------------------------------------------------------------------
+// Queries
+// -----------------------------------------------------------------------------
+
+/**
+ * Highest reveal level known for a system.
+ * Systems without scan state (home, legacy saves) count as fully known if SCANNED.
+ */
+export function getRevealLevel(sys: StarSystem): ScanReveal {
+  if (sys.scan) return sys.scan.revealLevel;
+  return sys.intel === 'SCANNED' || sys.intel === 'STALE' ? 4 : 0;
+}
+
+/**
+ * Combined sensor strength of a fleet (>= 0.25)
+ */
+export function fleetSensorStrength(fleet: Fleet): number {
+  const strengths = fleet.ships
+    .map(s => (SENSOR_STRENGTH[s.type] ?? 0.5) + (s.sensors ?? 0) * SENSOR_PART_STRENGTH)
+    .sort((a, b) => b - a);
+  if (strengths.length === 0) return 0.25;
+
+  const support = strengths.slice(1).reduce((sum, v) => sum + v, 0) * SENSOR_SUPPORT_FACTOR;
+  return Math.max(0.25, strengths[0] + support);
+}
+
+/**
+ * Ticks for a fleet to fully scan a system
+ */
+export function scanTicksRequired(fleet: Fleet, sys: StarSystem): number {
+  const tierFactor = 1 + Math.max(0, sys.tier - 1) * SCAN_TIER_FACTOR;
+  return Math.ceil((SCAN_BASE_TICKS * tierFactor) / fleetSensorStrength(fleet));
+}
+
+/**
+ * Estimate spread (+/- fraction) for enemy strength given intel quality
+ */
+export function intelUncertainty(intel: SystemIntel): number {
+  switch (intel) {
+    case 'SCANNED': return 0.1;
+    case 'STALE': return 0.25;
+    case 'PARTIAL': return 0.35;
+    default: return 0.5;
+  }
+}
+
+/**
+ * Best combat-estimate confidence the intel level allows
+ */
+export function intelConfidenceCap(intel: SystemIntel): CombatIntel['confidence'] {
+  switch (intel) {
+    case 'SCANNED': return 'HIGH';
+    case 'STALE':
+    case 'PARTIAL': return 'MEDIUM';
+    default: return 'LOW';
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Scanning
+// -----------------------------------------------------------------------------
+
+function ensureScanState(sys: StarSystem): ScanState {
+  if (!sys.scan) {
+    sys.scan = { progress: 0, revealLevel: getRevealLevel(sys), lastIntelTick: getState().tick };
+  }
+  return sys.scan;
+}
+
+/**
+ * Can this system still be scanned for new or fresher intel?
+ */
+export function needsScan(sys: StarSystem): boolean {
+  return sys.intel !== 'SCANNED' || getRevealLevel(sys) < 4;
+}
+
+/**
+ * Start a scan at the fleet's current system (progress restarts from 0)
+ */
+export function beginScan(fleet: Fleet, sys: StarSystem): void {
+  const scan = ensureScanState(sys);
+  scan.progress = 0;
+  pushIntel('SCAN', `SCAN STARTED: ${fleet.name} sweeping ${sys.name} (~${scanTicksRequired(fleet, sys)} ticks)`, { fleetId: fleet.id, systemId: sys.id });
+}
+
+/**
+ * One tick of a SCAN task.
+ * @returns true when the scan is complete (caller finishes the order)
+ */
+export function processScan(fleet: Fleet): boolean {
+  const state = getState();
+  const sys = state.galaxy[fleet.location];
+  if (!sys) return true;
+
+  const scan = ensureScanState(sys);
+  const before = scan.progress;
+  scan.progress = Math.min(100, scan.progress + 100 / scanTicksRequired(fleet, sys));
+
+  for (const t of REVEAL_THRESHOLDS) {
+    if (before < t.at && scan.progress >= t.at) {
+      reveal(sys, t.level);
+    }
+  }
+
+  if (scan.progress >= 100) {
+    sys.intel = 'SCANNED';
+    scan.lastIntelTick = state.tick;
+    emit({ type: 'ScanCompleted', systemId: sys.id, fleetId: fleet.id, fleetName: fleet.name });
+    return true;
+  }
+
+  if (sys.intel === 'UNKNOWN') {
+    sys.intel = 'PARTIAL';
+  }
+  return false;
+}
+
+/**
+ * A player fleet entering a system gets a first look (asteroids) and
+ * refreshes whatever was already known.
+ */
+export function revealOnArrival(sys: StarSystem): void {
+  const state = getState();
+  sys.discovered = true;
+
+  const scan = ensureScanState(sys);
+  scan.lastIntelTick = state.tick;
+
+  if (scan.revealLevel < 1) {
+    reveal(sys, 1);
+  }
+  if (sys.intel === 'UNKNOWN') {
+    sys.intel = 'PARTIAL';
+  } else if (sys.intel === 'STALE') {
+    sys.intel = scan.revealLevel >= 4 ? 'SCANNED' : 'PARTIAL';
+    pushIntel('SCAN', `INTEL REFRESHED: ${sys.name}`, { systemId: sys.id });
+  }
+}
+
+function reveal(sys: StarSystem, level: ScanReveal): void {
+  const state = getState();
+  const scan = ensureScanState(sys);
+  // Already-known contents aren't re-reported; enemy presence always is (it changes)
+  if (level <= scan.revealLevel && level < 4) return;
+  if (level > scan.revealLevel) scan.revealLevel = level;
+  const refs = { systemId: sys.id };
+
+  switch (level) {
+    case 1: {
+      const a = sys.asteroids;
+      pushIntel('SCAN', a
+        ? `SCAN ${sys.name}: asteroid field ${a.metalTier} richness x${a.richness} (${Math.floor(a.yieldRemaining)}% left)`
+        : `SCAN ${sys.name}: no asteroid field`, refs);
+      break;
+    }
+    case 2: {
+      const st = sys.station;
+      pushIntel('SCAN', st
+        ? `SCAN ${sys.name}: ${st.state} ${st.type} station (${st.owner})`
+        : `SCAN ${sys.name}: no station`, refs);
+      break;
+    }
+    case 3: {
+      const planets = Object.values(sys.planets ?? {});
+      pushIntel('SCAN', planets.length === 0
+        ? `SCAN ${sys.name}: no planets`
+        : `SCAN ${sys.name}: ${planets.map(p => `${p.name ?? 'planet'} ${p.defense.control} G${p.defense.garrison}`).join(', ')}`, refs);
+      break;
+    }
+    case 4: {
+      const enemies = Object.values(state.fleets).filter(f => f.owner === 'ENEMY' && f.location === sys.id).length;
+      scan.knownEnemyFleets = enemies;
+      pushIntel(enemies > 0 ? 'ALERT' : 'SCAN', `SCAN ${sys.name}: ${enemies} hostile fleet${enemies === 1 ? '' : 's'} detected`, refs);
+      break;
+    }
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Aging (run every tick)
+// -----------------------------------------------------------------------------
+
+/**
+ * Refresh intel where the player has eyes (fleet or station); age it elsewhere.
+ */
+export function ageIntel(): void {
+  const state = getState();
+
+  const watched = new Set<string>();
+  for (const f of Object.values(state.fleets)) {
+    if (f.owner === 'PLAYER') watched.add(f.location);
+  }
+  for (const sys of Object.values(state.galaxy)) {
+    if (sys.station?.owner === 'PLAYER') watched.add(sys.id);
+  }
+
+  for (const sys of Object.values(state.galaxy)) {
+    if (sys.intel === 'UNKNOWN') continue;
+
+    if (watched.has(sys.id)) {
+      const scan = ensureScanState(sys);
+      scan.lastIntelTick = state.tick;
+      if (scan.revealLevel >= 4) {
+        scan.knownEnemyFleets = Object.values(state.fleets).filter(f => f.owner === 'ENEMY' && f.location === sys.id).length;
+      }
+      continue;
+    }
+
+    if (sys.intel === 'STALE') continue;
+    const scan = ensureScanState(sys);
+    if (state.tick - scan.lastIntelTick > INTEL_STALE_TICKS) {
+      sys.intel = 'STALE';
+      emit({ type: 'IntelStale', systemId: sys.id });
+    }
+  }
+}
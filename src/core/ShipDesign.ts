@@ -0,0 +1,305 @@
+// src/core/ShipDesign.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Hulls, Parts & Ship Designs (NO Phaser imports)
+//
+// Every ShipType is a hull with a base statline and a number of slots per
+// part kind. A design fills those slots; a ship's firepower, toughness,
+// troop capacity, mining tier, sensors, cost and build time are derived
+// from hull + parts (designStats).
+//
+// Weapon and hangar parts deal a damage type, armor and defense parts add to
+// a defensive layer; together they make the ship's loadout (see Weapons.ts).
+// Hull base firepower counts as kinetic, hull base toughness as structure.
+//
+// - Stock designs are the built-in blueprints; the first one on each hull
+//   is keyed by the hull type, so old saves and commands keep working
+// - Player designs live in state.designs and are created / deleted through
+//   Commands, so they are saved and replayed with the run
+// - Rare hulls must be recovered through salvage before anything on them
+//   can be designed or built (state.unlockedBlueprints holds hull types)
+// -----------------------------------------------------------------------------
+
+import { getState, pushIntel, nextId } from './GameState';
+import { emptyLoadout } from './Weapons';
+import type { ActionResult, Blueprint, GameState, Hull, MetalTier, Ship, ShipDesign, ShipLoadout, ShipPart, ShipPartKind, ShipType, TieredMetals } from './types';
+
+// Player designs kept at once
+export const MAX_DESIGNS = 12;
+export const MAX_DESIGN_NAME = 16;
+
+// Shipyard time added per fitted part
+const PART_BUILD_TICKS = 10;
+
+export const PART_KINDS: ShipPartKind[] = ['WEAPON', 'HANGAR', 'ARMOR', 'DEFENSE', 'TROOP_BAY', 'MINING_LASER', 'SENSOR', 'REPAIR'];
+
+const PARTS: ShipPart[] = [
+  { key: 'LASER', name: 'Laser', kind: 'WEAPON', cost: { T1: 1 }, firepower: 1, weaponType: 'LASER' },
+  { key: 'MASS_DRIVER', name: 'Mass Driver', kind: 'WEAPON', cost: { T2: 1 }, firepower: 3, weaponType: 'KINETIC' },
+  { key: 'LANCE', name: 'Lance', kind: 'WEAPON', cost: { T3: 1 }, firepower: 5, weaponType: 'LASER' },
+  { key: 'MISSILE_RACK', name: 'Missile Rack', kind: 'WEAPON', cost: { T1: 1, T2: 1 }, firepower: 2, weaponType: 'MISSILE' },
+  { key: 'FIGHTER_BAY', name: 'Fighter Bay', kind: 'HANGAR', cost: { T2: 1 }, firepower: 1, weaponType: 'FIGHTER' },
+  { key: 'ARMOR_PLATE', name: 'Armor Plate', kind: 'ARMOR', cost: { T1: 1 }, toughness: 1, defense: 'ARMOR' },
+  { key: 'COMPOSITE_ARMOR', name: 'Composite', kind: 'ARMOR', cost: { T2: 1 }, toughness: 2, defense: 'ARMOR' },
+  { key: 'NEUTRONIUM_ARMOR', name: 'Neutronium', kind: 'ARMOR', cost: { T3: 1 }, toughness: 4, defense: 'ARMOR' },
+  { key: 'SHIELD_GENERATOR', name: 'Shield Gen', kind: 'DEFENSE', cost: { T2: 2 }, toughness: 2, defense: 'SHIELD' },
+  { key: 'POINT_DEFENSE', name: 'Point Defense', kind: 'DEFENSE', cost: { T1: 1, T2: 1 }, toughness: 1, defense: 'POINT_DEFENSE' },
+  { key: 'TROOP_BAY', name: 'Troop Bay', kind: 'TROOP_BAY', cost: { T1: 1 }, troopCapacity: 10 },
+  { key: 'MINING_LASER', name: 'Mining Laser', kind: 'MINING_LASER', cost: { T1: 1 }, miningTier: 'T1' },
+  { key: 'REFINING_LASER', name: 'Refining Laser', kind: 'MINING_LASER', cost: { T2: 1 }, miningTier: 'T2' },
+  { key: 'DEEP_CORE_LASER', name: 'Deep Core Laser', kind: 'MINING_LASER', cost: { T3: 1 }, miningTier: 'T3' },
+  { key: 'SENSOR_ARRAY', name: 'Sensor Array', kind: 'SENSOR', cost: { T2: 1 }, sensors: 1 },
+  { key: 'REPAIR_BAY', name: 'Repair Bay', kind: 'REPAIR', cost: { T1: 2, T2: 1 }, repairBays: 1 }
+];
+
+// Rare hulls in the order salvage rolls them
+const HULLS: Hull[] = [
+  { type: 'MINER', name: 'Miner', firepower: 1, toughness: 1, slots: { MINING_LASER: 1, ARMOR: 1, SENSOR: 1 }, cost: { T1: 6 }, repairCost: { T1: 1 }, buildTicks: 60 },
+  { type: 'CORVETTE', name: 'Corvette', firepower: 1, toughness: 2, slots: { WEAPON: 2, ARMOR: 1, TROOP_BAY: 1, SENSOR: 1 }, cost: { T1: 6 }, repairCost: { T1: 1 }, buildTicks: 60 },
+  { type: 'FRIGATE', name: 'Frigate', firepower: 2, toughness: 2, slots: { WEAPON: 3, ARMOR: 2, DEFENSE: 1, TROOP_BAY: 2, SENSOR: 1, REPAIR: 1 }, cost: { T1: 8, T2: 5 }, repairCost: { T1: 2 }, buildTicks: 130 },
+  { type: 'DESTROYER', name: 'Destroyer', firepower: 2, toughness: 2, slots: { WEAPON: 3, ARMOR: 2, DEFENSE: 2, TROOP_BAY: 3, SENSOR: 1 }, cost: { T2: 6, T3: 2 }, repairCost: { T1: 1, T2: 1 }, buildTicks: 230 },
+  { type: 'CRUISER', name: 'Cruiser', firepower: 3, toughness: 2, slots: { WEAPON: 4, ARMOR: 3, DEFENSE: 2, TROOP_BAY: 4, SENSOR: 1, REPAIR: 1 }, cost: { T2: 9, T3: 5 }, repairCost: { T1: 2, T2: 1 }, buildTicks: 350, rare: true },
+  { type: 'CARRIER', name: 'Carrier', firepower: 3, toughness: 4, slots: { WEAPON: 2, HANGAR: 4, ARMOR: 3, DEFENSE: 2, TROOP_BAY: 10, SENSOR: 2, REPAIR: 2 }, cost: { T2: 17, T3: 8 }, repairCost: { T2: 2 }, buildTicks: 450, rare: true },
+  { type: 'BATTLESHIP', name: 'Battleship', firepower: 5, toughness: 4, slots: { WEAPON: 4, ARMOR: 3, DEFENSE: 3, TROOP_BAY: 6, SENSOR: 1 }, cost: { T3: 7 }, repairCost: { T2: 1, T3: 1 }, buildTicks: 490, rare: true }
+];
+
+// Built-in loadouts; the hull-keyed ones match the pre-designer hulls in
+// firepower and toughness
+const STOCK_DESIGNS: ShipDesign[] = [
+  { key: 'MINER', name: 'Miner', hull: 'MINER', parts: ['MINING_LASER', 'ARMOR_PLATE'] },
+  { key: 'CORVETTE', name: 'Corvette', hull: 'CORVETTE', parts: [...repeat('LASER', 2), 'ARMOR_PLATE', 'TROOP_BAY'] },
+  { key: 'FRIGATE', name: 'Frigate', hull: 'FRIGATE', parts: [...repeat('LASER', 3), ...repeat('ARMOR_PLATE', 2), ...repeat('TROOP_BAY', 2)] },
+  { key: 'TENDER', name: 'Tender', hull: 'FRIGATE', parts: ['LASER', ...repeat('ARMOR_PLATE', 2), 'REPAIR_BAY'] },
+  { key: 'STRIKER', name: 'Striker', hull: 'FRIGATE', parts: [...repeat('MISSILE_RACK', 2), ...repeat('ARMOR_PLATE', 2), 'POINT_DEFENSE', 'TROOP_BAY'] },
+  { key: 'DESTROYER', name: 'Destroyer', hull: 'DESTROYER', parts: [...repeat('MASS_DRIVER', 2), ...repeat('COMPOSITE_ARMOR', 2), ...repeat('TROOP_BAY', 3)] },
+  { key: 'WARDEN', name: 'Warden', hull: 'DESTROYER', parts: ['MASS_DRIVER', 'LASER', 'COMPOSITE_ARMOR', 'SHIELD_GENERATOR', 'POINT_DEFENSE', ...repeat('TROOP_BAY', 2)] },
+  { key: 'CRUISER', name: 'Cruiser', hull: 'CRUISER', parts: [...repeat('MASS_DRIVER', 3), ...repeat('COMPOSITE_ARMOR', 3), ...repeat('TROOP_BAY', 4)] },
+  { key: 'CARRIER', name: 'Carrier', hull: 'CARRIER', parts: [...repeat('FIGHTER_BAY', 2), ...repeat('COMPOSITE_ARMOR', 3), ...repeat('TROOP_BAY', 10)] },
+  { key: 'BATTLESHIP', name: 'Battleship', hull: 'BATTLESHIP', parts: [...repeat('LANCE', 3), ...repeat('NEUTRONIUM_ARMOR', 2), ...repeat('TROOP_BAY', 6)] }
+];
+
+export type DesignStats = {
+  firepower: number;
+  toughness: number;
+  groundTroopCapacity: number;
+  miningTier?: MetalTier;
+  sensors: number;
+  repairBays: number;
+  weapons: number; // weapon parts fitted
+  armor: number;   // armor parts fitted
+  loadout: ShipLoadout;
+  cost: TieredMetals;
+  buildTicks: number;
+};
+
+// -----------------------------------------------------------------------------
+// Catalog
+// -----------------------------------------------------------------------------
+
+export function getHulls(): Hull[] {
+  return HULLS.slice();
+}
+
+export function getHull(type: ShipType): Hull | undefined {
+  return HULLS.find(h => h.type === type);
+}
+
+export function getParts(): ShipPart[] {
+  return PARTS.slice();
+}
+
+export function getPart(key: string): ShipPart | undefined {
+  return PARTS.find(p => p.key === key);
+}
+
+/**
+ * Rare hulls need their blueprint recovered first
+ */
+export function hullUnlocked(st: GameState, type: ShipType): boolean {
+  return !getHull(type)?.rare || st.unlockedBlueprints.includes(type);
+}
+
+/**
+ * Stock blueprints, then the player's designs.
+ * Pure: reads the state passed in.
+ */
+export function listBlueprints(st: GameState): Blueprint[] {
+  return [
+    ...STOCK_DESIGNS.map(d => toBlueprint(d, false)),
+    ...st.designs.map(d => toBlueprint(d, true))
+  ];
+}
+
+export function stockBlueprint(type: ShipType): Blueprint {
+  const design = STOCK_DESIGNS.find(d => d.hull === type) ?? STOCK_DESIGNS[1];
+  return toBlueprint(design, false);
+}
+
+function toBlueprint(design: ShipDesign, custom: boolean): Blueprint {
+  const stats = designStats(design.hull, design.parts);
+  return {
+    key: design.key,
+    name: design.name,
+    shipType: design.hull,
+    parts: design.parts.slice(),
+    cost: stats.cost,
+    buildTicks: stats.buildTicks,
+    rare: getHull(design.hull)?.rare,
+    custom
+  };
+}
+
+// -----------------------------------------------------------------------------
+// Derived stats
+// -----------------------------------------------------------------------------
+
+/**
+ * Hull + parts. Unknown part keys count for nothing (checkDesign rejects them).
+ */
+export function designStats(hullType: ShipType, partKeys: string[]): DesignStats {
+  const hull = getHull(hullType) ?? HULLS[1];
+  const stats: DesignStats = {
+    firepower: hull.firepower,
+    toughness: hull.toughness,
+    groundTroopCapacity: 0,
+    sensors: 0,
+    repairBays: 0,
+    weapons: 0,
+    armor: 0,
+    loadout: emptyLoadout(),
+    cost: { T1: hull.cost.T1 ?? 0, T2: hull.cost.T2 ?? 0, T3: hull.cost.T3 ?? 0 },
+    buildTicks: hull.buildTicks
+  };
+  if (hull.firepower > 0) stats.loadout.weapons.KINETIC = hull.firepower;
+
+  for (const key of partKeys) {
+    const part = getPart(key);
+    if (!part) continue;
+    stats.firepower += part.firepower ?? 0;
+    stats.toughness += part.toughness ?? 0;
+    stats.groundTroopCapacity += part.troopCapacity ?? 0;
+    stats.sensors += part.sensors ?? 0;
+    stats.repairBays += part.repairBays ?? 0;
+    if (part.kind === 'WEAPON') stats.weapons++;
+    if (part.kind === 'ARMOR') stats.armor++;
+    if (part.weaponType) addTo(stats.loadout.weapons, part.weaponType, part.firepower ?? 0);
+    if (part.defense) addTo(stats.loadout.defenses, part.defense, part.toughness ?? 0);
+    if (part.miningTier && (!stats.miningTier || part.miningTier > stats.miningTier)) stats.miningTier = part.miningTier;
+    stats.cost.T1 += part.cost.T1 ?? 0;
+    stats.cost.T2 += part.cost.T2 ?? 0;
+    stats.cost.T3 += part.cost.T3 ?? 0;
+    stats.buildTicks += PART_BUILD_TICKS;
+  }
+  return stats;
+}
+
+/**
+ * Parts fitted per kind
+ */
+export function countSlots(partKeys: string[]): Partial<Record<ShipPartKind, number>> {
+  const used: Partial<Record<ShipPartKind, number>> = {};
+  for (const key of partKeys) {
+    const part = getPart(key);
+    if (part) used[part.kind] = (used[part.kind] ?? 0) + 1;
+  }
+  return used;
+}
+
+/**
+ * Why a hull + parts combination can't be built, or null if it can
+ */
+export function checkDesign(hullType: ShipType, partKeys: string[]): string | null {
+  const hull = getHull(hullType);
+  if (!hull) return `Unknown hull ${hullType}`;
+
+  const unknown = partKeys.find(k => !getPart(k));
+  if (unknown) return `Unknown part ${unknown}`;
+
+  const used = countSlots(partKeys);
+  for (const kind of PART_KINDS) {
+    if ((used[kind] ?? 0) > (hull.slots[kind] ?? 0)) {
+      return `${hull.name} has ${hull.slots[kind] ?? 0} ${kind} slot(s), ${used[kind]} fitted`;
+    }
+  }
+  if (hull.type === 'MINER' && !used.MINING_LASER) return 'A mining hull needs a mining laser';
+  return null;
+}
+
+/**
+ * A fresh ship built to a blueprint (full integrity and morale, bays half full)
+ */
+export function createShipFromBlueprint(bp: Blueprint, id: string, name: string): Ship {
+  const stats = designStats(bp.shipType, bp.parts);
+  const ship: Ship = {
+    id,
+    name,
+    type: bp.shipType,
+    integrity: 100,
+    morale: 100,
+    firepower: stats.firepower,
+    toughness: stats.toughness,
+    groundTroops: Math.floor(stats.groundTroopCapacity / 2),
+    groundTroopCapacity: stats.groundTroopCapacity,
+    design: bp.key,
+    loadout: stats.loadout,
+    xp: 0,
+    buildCost: { ...stats.cost }
+  };
+
+  if (stats.miningTier) ship.miningTier = stats.miningTier;
+  if (stats.weapons > 0) ship.weapons = stats.weapons;
+  if (stats.armor > 0) ship.armor = stats.armor;
+  if (stats.sensors > 0) ship.sensors = stats.sensors;
+  if (stats.repairBays > 0) ship.repairBays = stats.repairBays;
+  return ship;
+}
+
+// -----------------------------------------------------------------------------
+// Player designs (reached through Commands)
+// -----------------------------------------------------------------------------
+
+export function createDesign(name: string, hullType: ShipType, partKeys: string[]): ActionResult {
+  const state = getState();
+  const trimmed = name.trim();
+  if (trimmed === '') return { ok: false, reason: 'Name the design' };
+  if (trimmed.length > MAX_DESIGN_NAME) return { ok: false, reason: `Design names are at most ${MAX_DESIGN_NAME} characters` };
+
+  const taken = listBlueprints(state).some(b => b.name.toLowerCase() === trimmed.toLowerCase());
+  if (taken) return { ok: false, reason: `A blueprint named ${trimmed} already exists` };
+  if (state.designs.length >= MAX_DESIGNS) return { ok: false, reason: `Design limit reached (${MAX_DESIGNS})` };
+
+  const problem = checkDesign(hullType, partKeys);
+  if (problem) return { ok: false, reason: problem };
+  if (!hullUnlocked(state, hullType)) {
+    return { ok: false, reason: `${getHull(hullType)?.name ?? hullType} hull not recovered yet` };
+  }
+
+  const design: ShipDesign = { key: nextId('DESIGN'), name: trimmed, hull: hullType, parts: partKeys.slice() };
+  state.designs.push(design);
+
+  const stats = designStats(hullType, partKeys);
+  pushIntel('BUILD', `DESIGN: ${trimmed} saved (${getHull(hullType)?.name} FP ${stats.firepower} TG ${stats.toughness} TROOPS ${stats.groundTroopCapacity})`);
+  return { ok: true, intel: `${trimmed} saved` };
+}
+
+export function deleteDesign(designKey: string): ActionResult {
+  const state = getState();
+  const at = state.designs.findIndex(d => d.key === designKey);
+  if (at < 0) return { ok: false, reason: 'Design not found' };
+
+  // Queued orders are built from the design when they finish
+  const queued = Object.values(state.galaxy)
+    .some(sys => sys.station?.shipyard?.queue.some(o => o.blueprint === designKey));
+  if (queued) return { ok: false, reason: `${state.designs[at].name} is still in a build queue` };
+
+  const [design] = state.designs.splice(at, 1);
+  pushIntel('BUILD', `DESIGN: ${design.name} deleted`);
+  return { ok: true, intel: `${design.name} deleted` };
+}
+
+function addTo<K extends string>(values: Partial<Record<K, number>>, key: K, amount: number): void {
+  values[key] = (values[key] ?? 0) + amount;
+}
+
+function repeat(key: string, count: number): string[] {
+  return Array(count).fill(key);
+}
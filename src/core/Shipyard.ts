@@ -0,0 +1,195 @@
+// src/core/Shipyard.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Station Shipyards & Build Queues (NO Phaser imports)
+//
+// Every PLAYER station owns a build queue (station.shipyard):
+// - Queuing a blueprint charges its cost up front
+// - Only the front order advances, one tick of work per simulation tick,
+//   and only while the station is ours and functional
+// - A finished hull joins the station's rally fleet if that fleet is still
+//   waiting there; otherwise it founds a new fleet, which becomes the rally fleet
+// - Orders can be reordered (progress stays with the order) or cancelled for
+//   a refund of the unbuilt share of what was paid
+// -----------------------------------------------------------------------------
+
+import { getState, pushIntel, getBlueprints, canAfford, pay, nextId, createShip, addPlayerFleet, refreshFleetStats } from './GameState';
+import { emit } from './Events';
+import { hullUnlocked } from './ShipDesign';
+import type { ActionResult, BuildOrder, Fleet, Shipyard, StarSystem, TieredMetals } from './types';
+
+// Orders a single station will hold at once
+export const MAX_BUILD_QUEUE = 8;
+
+// -----------------------------------------------------------------------------
+// Queries
+// -----------------------------------------------------------------------------
+
+/**
+ * The system's shipyard, or null if it has no working player station
+ */
+export function getShipyard(sys: StarSystem | undefined): Shipyard | null {
+  const station = sys?.station;
+  if (!station || station.owner !== 'PLAYER' || !station.functional) return null;
+  return station.shipyard ?? null;
+}
+
+/**
+ * Metals returned if the order were cancelled now
+ */
+export function buildRefund(order: BuildOrder): TieredMetals {
+  const unbuilt = 1 - Math.min(1, order.progressTicks / order.buildTicks);
+  return {
+    T1: Math.floor((order.paid.T1 ?? 0) * unbuilt),
+    T2: Math.floor((order.paid.T2 ?? 0) * unbuilt),
+    T3: Math.floor((order.paid.T3 ?? 0) * unbuilt)
+  };
+}
+
+/**
+ * The rally fleet, if it is still at the station and able to take ships
+ */
+export function getRallyFleet(sys: StarSystem): Fleet | null {
+  const fleetId = sys.station?.shipyard?.rallyFleetId;
+  const fleet = fleetId ? getState().fleets[fleetId] : undefined;
+  if (!fleet || fleet.owner !== 'PLAYER' || fleet.location !== sys.id || fleet.task === 'MOVE' || fleet.maxMoves === 0) {
+    return null;
+  }
+  return fleet;
+}
+
+// -----------------------------------------------------------------------------
+// Queue management (reached through Commands)
+// -----------------------------------------------------------------------------
+
+export function queueBuild(systemId: string, blueprintKey: string): ActionResult {
+  const state = getState();
+  const sys = state.galaxy[systemId];
+  const yard = getShipyard(sys);
+  if (!yard) return { ok: false, reason: 'No friendly station here' };
+
+  const bp = getBlueprints().find(b => b.key === blueprintKey);
+  if (!bp) return { ok: false, reason: `Unknown blueprint ${blueprintKey}` };
+  if (!hullUnlocked(state, bp.shipType)) {
+    return { ok: false, reason: `${bp.name} blueprint not recovered yet` };
+  }
+  if (yard.queue.length >= MAX_BUILD_QUEUE) {
+    return { ok: false, reason: `Build queue full (${MAX_BUILD_QUEUE})` };
+  }
+  if (!canAfford(state.resources, bp.cost)) {
+    const tm = state.resources.tieredMetals;
+    pushIntel(
+      'ALERT',
+      `BUILD FAILED: ${bp.name} costs [T1:${bp.cost.T1 ?? 0} T2:${bp.cost.T2 ?? 0} T3:${bp.cost.T3 ?? 0}] | You have [T1:${tm.T1} T2:${tm.T2} T3:${tm.T3}]`,
+      { systemId }
+    );
+    return { ok: false, reason: `Cannot afford ${bp.name}` };
+  }
+
+  pay(state.resources, bp.cost);
+  yard.queue.push({
+    id: nextId('BUILD'),
+    blueprint: bp.key,
+    buildTicks: bp.buildTicks,
+    progressTicks: 0,
+    paid: { ...bp.cost }
+  });
+
+  pushIntel('BUILD', `SHIPYARD: ${bp.name} queued at ${sys.name} (#${yard.queue.length})`, { systemId });
+  return { ok: true, intel: `${bp.name} queued` };
+}
+
+export function cancelBuild(systemId: string, orderId: string): ActionResult {
+  const state = getState();
+  const sys = state.galaxy[systemId];
+  const yard = sys?.station?.shipyard;
+  const at = yard ? yard.queue.findIndex(o => o.id === orderId) : -1;
+  if (!yard || at < 0) return { ok: false, reason: 'Build order not found' };
+
+  const [order] = yard.queue.splice(at, 1);
+  const refund = buildRefund(order);
+  const tm = state.resources.tieredMetals;
+  tm.T1 += refund.T1;
+  tm.T2 += refund.T2;
+  tm.T3 += refund.T3;
+
+  pushIntel('BUILD', `SHIPYARD: ${blueprintName(order.blueprint)} cancelled at ${sys.name}, refunded [T1:${refund.T1} T2:${refund.T2} T3:${refund.T3}]`, { systemId });
+  return { ok: true, intel: 'Build cancelled' };
+}
+
+/**
+ * Move an order to another queue position (0 = build next)
+ */
+export function moveBuild(systemId: string, orderId: string, toIndex: number): ActionResult {
+  const yard = getState().galaxy[systemId]?.station?.shipyard;
+  const at = yard ? yard.queue.findIndex(o => o.id === orderId) : -1;
+  if (!yard || at < 0) return { ok: false, reason: 'Build order not found' };
+
+  const to = Math.max(0, Math.min(yard.queue.length - 1, Math.floor(toIndex)));
+  if (to === at) return { ok: true };
+
+  const [order] = yard.queue.splice(at, 1);
+  yard.queue.splice(to, 0, order);
+  return { ok: true };
+}
+
+export function setRallyFleet(systemId: string, fleetId: string): ActionResult {
+  const state = getState();
+  const sys = state.galaxy[systemId];
+  const yard = getShipyard(sys);
+  if (!yard) return { ok: false, reason: 'No friendly station here' };
+
+  const fleet = state.fleets[fleetId];
+  if (!fleet || fleet.owner !== 'PLAYER' || fleet.maxMoves === 0) return { ok: false, reason: 'Not a player fleet' };
+  if (fleet.location !== systemId) return { ok: false, reason: `${fleet.name} is not at ${sys.name}` };
+
+  yard.rallyFleetId = fleetId;
+  pushIntel('BUILD', `SHIPYARD: new ships at ${sys.name} will join ${fleet.name}`, { systemId, fleetId });
+  return { ok: true };
+}
+
+// -----------------------------------------------------------------------------
+// Tick
+// -----------------------------------------------------------------------------
+
+/**
+ * One tick of work on the front order of every shipyard
+ */
+export function processShipyards(): void {
+  const state = getState();
+  for (const sys of Object.values(state.galaxy)) {
+    const yard = getShipyard(sys);
+    const order = yard?.queue[0];
+    if (!yard || !order) continue;
+
+    order.progressTicks++;
+    if (order.progressTicks >= order.buildTicks) {
+      yard.queue.shift();
+      completeBuild(sys, yard, order);
+    }
+  }
+}
+
+function completeBuild(sys: StarSystem, yard: Shipyard, order: BuildOrder): void {
+  const bp = getBlueprints().find(b => b.key === order.blueprint);
+  if (!bp) return;
+
+  const ship = createShip(bp.shipType, order.id, 0, bp);
+  let fleet = getRallyFleet(sys);
+  const newFleet = !fleet;
+
+  if (fleet) {
+    fleet.ships.push(ship);
+    fleet.groundTroops += ship.groundTroops;
+    refreshFleetStats(fleet);
+  } else {
+    fleet = addPlayerFleet(nextId(`P-${bp.key}`), bp.name, [ship], sys.id);
+    yard.rallyFleetId = fleet.id;
+    emit({ type: 'FleetBuilt', fleetId: fleet.id, fleetName: fleet.name, systemId: sys.id });
+  }
+
+  emit({ type: 'ShipBuilt', systemId: sys.id, blueprint: bp.key, shipId: ship.id, fleetId: fleet.id, fleetName: fleet.name, newFleet });
+}
+
+function blueprintName(key: string): string {
+  return getBlueprints().find(b => b.key === key)?.name ?? key;
+}
@@ -0,0 +1,158 @@
+// src/core/Simulation.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Fixed-Step Simulation Engine (NO Phaser imports)
+//
+// The one clock the game runs on. Scenes feed it real (frame) time; it turns
+// that into whole ticks at TICKS_PER_SECOND, scaled by the game speed, and
+// runs every registered system once per tick in a fixed order.
+//
+// - Everything that advances (clock accumulator, speed, timers, ETAs) lives
+//   in GameState, so a save taken mid-movement resumes exactly
+// - Systems register once at module load with an explicit order; ties keep
+//   registration order
+// - Pause and speed are game state too, not scene state
+// -----------------------------------------------------------------------------
+
+import type { GameState, SimClock } from './types';
+
+export const TICKS_PER_SECOND = 10;
+export const TICK_MS = 1000 / TICKS_PER_SECOND;
+
+// Ticks a single feed may run; a long frame (tab switch, breakpoint) is dropped, not replayed
+export const MAX_TICKS_PER_FEED = 10;
+
+export type GameSpeed = {
+  multiplier: number;
+  name: string;
+};
+
+export const GAME_SPEEDS: GameSpeed[] = [
+  { multiplier: 1, name: 'NORMAL' },
+  { multiplier: 2, name: 'FAST' },
+  { multiplier: 4, name: 'VERY FAST' }
+];
+
+export const DEFAULT_SPEED_INDEX = 0;
+
+export type SimSystem = {
+  id: string;
+  order: number;
+  update: (st: GameState) => void;
+};
+
+const systems: SimSystem[] = [];
+
+// -----------------------------------------------------------------------------
+// Registry
+// -----------------------------------------------------------------------------
+
+/**
+ * Register a per-tick system. Lower order runs first.
+ * Re-registering an id replaces the previous entry.
+ */
+export function registerSimSystem(system: SimSystem): void {
+  const existing = systems.findIndex(s => s.id === system.id);
+  if (existing >= 0) systems.splice(existing, 1);
+
+  const at = systems.findIndex(s => s.order > system.order);
+  if (at < 0) {
+    systems.push(system);
+  } else {
+    systems.splice(at, 0, system);
+  }
+}
+
+/**
+ * Registered systems in run order (ids only, for debugging / tools)
+ */
+export function getSimSystemIds(): string[] {
+  return systems.map(s => s.id);
+}
+
+// -----------------------------------------------------------------------------
+// Clock
+// -----------------------------------------------------------------------------
+
+export function createSimClock(): SimClock {
+  return {
+    speedIndex: DEFAULT_SPEED_INDEX,
+    accumulatorMs: 0,
+    timers: {}
+  };
+}
+
+export function getSpeed(st: GameState): GameSpeed {
+  return GAME_SPEEDS[st.clock.speedIndex] ?? GAME_SPEEDS[DEFAULT_SPEED_INDEX];
+}
+
+/**
+ * Run exactly one tick: advance the counter, then every system in order.
+ * Ignores pause (callers decide whether a tick should happen).
+ */
+export function stepTick(st: GameState): void {
+  st.tick++;
+  for (const system of systems) {
+    system.update(st);
+  }
+}
+
+/**
+ * Feed real elapsed time into the engine.
+ * @returns Number of ticks run (0 while paused)
+ */
+export function feedRealTime(st: GameState, realDeltaMs: number): number {
+  if (st.isPaused || realDeltaMs <= 0) return 0;
+
+  const budget = TICK_MS * MAX_TICKS_PER_FEED;
+  st.clock.accumulatorMs = Math.min(st.clock.accumulatorMs + realDeltaMs * getSpeed(st).multiplier, budget);
+
+  let ran = 0;
+  while (st.clock.accumulatorMs >= TICK_MS) {
+    st.clock.accumulatorMs -= TICK_MS;
+    stepTick(st);
+    ran++;
+  }
+  return ran;
+}
+
+// -----------------------------------------------------------------------------
+// Timers (tick-based, stored in the clock)
+// -----------------------------------------------------------------------------
+
+/**
+ * Arm a named timer to fire `ticks` from now
+ */
+export function setTimer(st: GameState, name: string, ticks: number): void {
+  st.clock.timers[name] = st.tick + Math.max(1, Math.ceil(ticks));
+}
+
+export function clearTimer(st: GameState, name: string): void {
+  delete st.clock.timers[name];
+}
+
+export function hasTimer(st: GameState, name: string): boolean {
+  return st.clock.timers[name] !== undefined;
+}
+
+/**
+ * True (and the timer is cleared) once a timer's tick has been reached
+ */
+export function consumeTimer(st: GameState, name: string): boolean {
+  const at = st.clock.timers[name];
+  if (at === undefined || st.tick < at) return false;
+  delete st.clock.timers[name];
+  return true;
+}
+
+/**
+ * Repeating timer: true every `interval` ticks. Arms itself on first use.
+ */
+export function everyTicks(st: GameState, name: string, interval: number): boolean {
+  if (!hasTimer(st, name)) {
+    setTimer(st, name, interval);
+    return false;
+  }
+  if (!consumeTimer(st, name)) return false;
+  setTimer(st, name, interval);
+  return true;
+}
@@ -0,0 +1,238 @@
+// src/core/Veterancy.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Ship Veterancy & Captains (NO Phaser imports)
+//
+// Ships keep the experience they live through and rank up with it:
+// - Battles: every surviving ship, more for the winning side and for damage dealt
+// - Invasions: warships over the planet, each round and on the capture
+// - Suppression: combat ships holding down a system's pressure
+// - Mining: miners working a field
+// Each rank (RANKS) adds firepower, toughness and resolve (less morale lost
+// in a fight). A ship that first makes VETERAN promotes a captain from its
+// crew: seeded name and trait (CAPTAIN_TRAITS), which shift combat or mining.
+// Losing one hurts twice: the experience dies with the ship, and its
+// fleetmates lose morale by rank (mournLosses).
+// -----------------------------------------------------------------------------
+
+import { getState, refreshFleetStats } from './GameState';
+import { emit } from './Events';
+import { isSuppressing } from './Pressure';
+import { deriveSeed, makeRng, pickOne, pickWeighted } from './RNG';
+import { everyTicks, TICKS_PER_SECOND } from './Simulation';
+import { scaleLoadout } from './Weapons';
+import type { BattleReport, Captain, CaptainTrait, Fleet, Ship, ShipLoadout, ShipRank, XpSource } from './types';
+
+type RankBonus = { rank: ShipRank; xp: number; firepower: number; toughness: number; resolve: number };
+type TraitEffect = { name: string; firepower: number; toughness: number; resolve: number; mining: number };
+
+// XP needed for each rank; firepower / toughness are multipliers, morale
+// loss in combat is divided by resolve
+const RANKS: RankBonus[] = [
+  { rank: 'GREEN', xp: 0, firepower: 1, toughness: 1, resolve: 1 },
+  { rank: 'TRAINED', xp: 20, firepower: 1.05, toughness: 1.05, resolve: 1.1 },
+  { rank: 'VETERAN', xp: 60, firepower: 1.1, toughness: 1.1, resolve: 1.25 },
+  { rank: 'ELITE', xp: 150, firepower: 1.2, toughness: 1.15, resolve: 1.4 },
+  { rank: 'ACE', xp: 300, firepower: 1.3, toughness: 1.2, resolve: 1.6 }
+];
+
+export const CAPTAIN_TRAITS: Record<CaptainTrait, TraitEffect> = {
+  CAUTIOUS: { name: 'Cautious', firepower: 0.9, toughness: 1.2, resolve: 1, mining: 1 },
+  AGGRESSIVE: { name: 'Aggressive', firepower: 1.2, toughness: 0.9, resolve: 1, mining: 1 },
+  STEADFAST: { name: 'Steadfast', firepower: 1, toughness: 1, resolve: 1.5, mining: 1 },
+  MINER_SAVANT: { name: 'Miner-savant', firepower: 1, toughness: 1, resolve: 1, mining: 1.5 }
+};
+
+const CAPTAIN_RANK: ShipRank = 'VETERAN';
+
+const CAPTAIN_FIRST_NAMES = ['Ada', 'Bram', 'Cato', 'Dara', 'Elio', 'Fen', 'Ines', 'Juno', 'Kasimir', 'Lio',
+  'Mara', 'Nils', 'Orla', 'Pax', 'Rhea', 'Soren', 'Tamsin', 'Vela', 'Wren', 'Yara'];
+const CAPTAIN_SURNAMES = ['Achterberg', 'Brandt', 'Castell', 'Dunmore', 'Esquivel', 'Falk', 'Grau', 'Holloway',
+  'Ibarra', 'Kestrel', 'Lindqvist', 'Marr', 'Novak', 'Okafor', 'Quill', 'Reyes', 'Sato', 'Thorne', 'Varga', 'Zeller'];
+
+// XP per award
+const XP_BATTLE = 5;
+const XP_BATTLE_WON = 5;
+const XP_PER_DAMAGE_DEALT = 0.2;
+const XP_INVASION_ROUND = 3;
+const XP_PLANET_CAPTURED = 10;
+const XP_SUPPRESSION = 1;
+const XP_INTERVAL_TICKS = 5 * TICKS_PER_SECOND;
+// Per second of ore actually mined
+const XP_MINING_PER_SECOND = 0.05;
+
+// Morale fleetmates lose when a ship dies, per rank above GREEN, and extra for a captain
+const MOURNING_PER_RANK = 5;
+const MOURNING_CAPTAIN = 10;
+
+// -----------------------------------------------------------------------------
+// Queries
+// -----------------------------------------------------------------------------
+
+export function getRank(ship: Ship): ShipRank {
+  return rankOf(ship.xp).rank;
+}
+
+/**
+ * XP needed for the next rank, or null at the top
+ */
+export function nextRankXp(ship: Ship): number | null {
+  return RANKS.find(r => r.xp > ship.xp)?.xp ?? null;
+}
+
+/**
+ * Firepower, toughness and loadout with rank and captain applied, plus the
+ * divisor on morale lost in combat
+ */
+export function combatProfile(ship: Ship): { firepower: number; toughness: number; loadout: ShipLoadout; resolve: number } {
+  const rank = rankOf(ship.xp);
+  const trait = ship.captain ? CAPTAIN_TRAITS[ship.captain.trait] : undefined;
+  const firepower = rank.firepower * (trait?.firepower ?? 1);
+  const toughness = rank.toughness * (trait?.toughness ?? 1);
+  return {
+    firepower: ship.firepower * firepower,
+    toughness: ship.toughness * toughness,
+    loadout: {
+      weapons: scaleLoadout(ship.loadout, firepower).weapons,
+      defenses: scaleLoadout(ship.loadout, toughness).defenses
+    },
+    resolve: rank.resolve * (trait?.resolve ?? 1)
+  };
+}
+
+/**
+ * Mining yield multiplier: the best captain aboard one of the fleet's miners
+ */
+export function miningMultiplier(fleet: Fleet): number {
+  return fleet.ships
+    .filter(s => s.type === 'MINER')
+    .reduce((best, s) => Math.max(best, s.captain ? CAPTAIN_TRAITS[s.captain.trait].mining : 1), 1);
+}
+
+export function describeCaptain(captain: Captain): string {
+  return `Cpt. ${captain.name} (${CAPTAIN_TRAITS[captain.trait].name})`;
+}
+
+function rankIndex(rank: ShipRank): number {
+  return RANKS.findIndex(r => r.rank === rank);
+}
+
+function rankOf(xp: number): RankBonus {
+  let found = RANKS[0];
+  for (const rank of RANKS) if (xp >= rank.xp) found = rank;
+  return found;
+}
+
+// -----------------------------------------------------------------------------
+// Awards
+// -----------------------------------------------------------------------------
+
+/**
+ * Add XP to ships of one fleet; promotions are announced as ShipPromoted
+ */
+export function awardXp(fleet: Fleet, ships: Ship[], amount: number, source: XpSource): void {
+  if (amount <= 0) return;
+  for (const ship of ships) {
+    const before = getRank(ship);
+    ship.xp += amount;
+    const after = getRank(ship);
+    if (after === before) continue;
+
+    const newCaptain = !ship.captain && rankIndex(after) >= rankIndex(CAPTAIN_RANK);
+    if (newCaptain) ship.captain = promoteCaptain(ship);
+    emit({
+      type: 'ShipPromoted',
+      fleetId: fleet.id,
+      fleetName: fleet.name,
+      owner: fleet.owner,
+      shipId: ship.id,
+      shipName: ship.name,
+      rank: after,
+      source,
+      captain: newCaptain ? ship.captain : undefined
+    });
+  }
+}
+
+/**
+ * Survivors of a filed battle
+ */
+export function awardBattleXp(report: BattleReport): void {
+  const state = getState();
+  for (const entry of report.ships) {
+    if (entry.destroyed) continue;
+    const fleet = state.fleets[entry.fleetId];
+    const ship = fleet?.ships.find(s => s.id === entry.shipId);
+    if (!fleet || !ship) continue;
+    const won = report.winner === entry.owner ? XP_BATTLE_WON : 0;
+    awardXp(fleet, [ship], Math.round(XP_BATTLE + won + entry.damageDealt * XP_PER_DAMAGE_DEALT), 'BATTLE');
+  }
+}
+
+/**
+ * Warships over a planet under invasion, per round (and more on the capture)
+ */
+export function awardInvasionXp(fleets: Fleet[], captured: boolean): void {
+  for (const fleet of fleets) {
+    awardXp(fleet, fleet.ships, captured ? XP_INVASION_ROUND + XP_PLANET_CAPTURED : XP_INVASION_ROUND, 'INVASION');
+  }
+}
+
+/**
+ * Miners of a fleet that mined ore this tick
+ */
+export function awardMiningXp(fleet: Fleet): void {
+  awardXp(fleet, fleet.ships.filter(s => s.type === 'MINER'), XP_MINING_PER_SECOND / TICKS_PER_SECOND, 'MINING');
+}
+
+/**
+ * Sim system: steady XP for suppression duty
+ */
+export function processVeterancy(): void {
+  const state = getState();
+  if (!everyTicks(state, 'veterancy', XP_INTERVAL_TICKS)) return;
+
+  for (const fleet of Object.values(state.fleets).sort((a, b) => a.id.localeCompare(b.id))) {
+    const pressure = state.galaxy[fleet.location]?.pressure?.current ?? 0;
+    if (fleet.role === 'COMBAT' && isSuppressing(fleet) && pressure > 0) {
+      awardXp(fleet, fleet.ships.filter(s => s.type !== 'MINER'), XP_SUPPRESSION, 'SUPPRESSION');
+    }
+  }
+}
+
+// -----------------------------------------------------------------------------
+// Captains & losses
+// -----------------------------------------------------------------------------
+
+/**
+ * Seeded from the run and the ship, so a replay promotes the same captain
+ */
+function promoteCaptain(ship: Ship): Captain {
+  const rng = makeRng(deriveSeed(getState().runSeed, 'captain', ship.id));
+  const traits = (Object.keys(CAPTAIN_TRAITS) as CaptainTrait[])
+    .map(trait => ({ item: trait, weight: traitWeight(ship, trait) }))
+    .filter(t => t.weight > 0);
+  return {
+    name: `${pickOne(rng, CAPTAIN_FIRST_NAMES)} ${pickOne(rng, CAPTAIN_SURNAMES)}`,
+    trait: pickWeighted(rng, traits),
+    since: getState().tick
+  };
+}
+
+// Miners mostly raise mining captains; warships never do
+function traitWeight(ship: Ship, trait: CaptainTrait): number {
+  if (trait === 'MINER_SAVANT') return ship.type === 'MINER' ? 3 : 0;
+  return 1;
+}
+
+/**
+ * Fleetmates of lost ships lose morale by the rank (and captain) lost
+ */
+export function mournLosses(fleet: Fleet, lost: Ship[]): void {
+  const penalty = lost.reduce((sum, ship) => {
+    return sum + rankIndex(getRank(ship)) * MOURNING_PER_RANK + (ship.captain ? MOURNING_CAPTAIN : 0);
+  }, 0);
+  if (penalty === 0 || fleet.ships.length === 0) return;
+
+  for (const ship of fleet.ships) ship.morale = Math.max(0, ship.morale - penalty);
+  refreshFleetStats(fleet);
+}
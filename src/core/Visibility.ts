@@ -0,0 +1,161 @@
+// src/core/Visibility.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Fog of War (NO Phaser imports)
+//
+// Each tick the player's sensors (fleets + stations) observe every system
+// within their range, counted in hyperlane hops. Sensors see across
+// blockaded lanes; only travel is blocked.
+//
+// - Enemy fleets are only visible inside observed systems
+// - Every sighting is remembered (system + tick); once the fleet leaves
+//   vision the sighting becomes a "ghost" marker
+// - A ghost is cleared when its system is observed again without the fleet
+// -----------------------------------------------------------------------------
+
+import { getState } from './GameState';
+import { emit } from './Events';
+import { getLanesFrom, otherEnd } from './Hyperlanes';
+import type { EnemySighting, Fleet, GameState, ShipType, StationType } from './types';
+
+// Sensor range per hull, in lane hops (0 = own system only)
+const SENSOR_RANGE: Record<ShipType, number> = {
+  MINER: 0,
+  CORVETTE: 1,
+  FRIGATE: 2,
+  DESTROYER: 1,
+  CRUISER: 1,
+  BATTLESHIP: 0,
+  CARRIER: 1
+};
+
+const STATION_SENSOR_RANGE: Record<StationType, number> = {
+  MINING: 0,
+  INDUSTRIAL: 0,
+  MILITARY: 2,
+  RESEARCH: 1
+};
+
+// -----------------------------------------------------------------------------
+// Sensors
+// -----------------------------------------------------------------------------
+
+/**
+ * A fleet sees as far as its best sensor ship (each sensor part adds a hop)
+ */
+export function fleetSensorRange(fleet: Fleet): number {
+  return fleet.ships.reduce((best, s) => Math.max(best, (SENSOR_RANGE[s.type] ?? 0) + (s.sensors ?? 0)), 0);
+}
+
+/**
+ * All systems currently inside the player's sensor coverage.
+ * Pure: reads the state passed in.
+ */
+export function computeVisibleSystems(st: GameState): Set<string> {
+  // Best range per origin system
+  const origins: Record<string, number> = {};
+  const addOrigin = (systemId: string, range: number) => {
+    origins[systemId] = Math.max(origins[systemId] ?? 0, range);
+  };
+
+  for (const f of Object.values(st.fleets)) {
+    if (f.owner === 'PLAYER') addOrigin(f.location, fleetSensorRange(f));
+  }
+  for (const sys of Object.values(st.galaxy)) {
+    const station = sys.station;
+    if (station?.owner === 'PLAYER' && station.functional) {
+      addOrigin(sys.id, STATION_SENSOR_RANGE[station.type] ?? 0);
+    }
+  }
+
+  const visible = new Set<string>();
+  for (const [origin, range] of Object.entries(origins)) {
+    // Breadth-first out to `range` hops
+    let frontier = [origin];
+    visible.add(origin);
+    for (let hop = 0; hop < range; hop++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const lane of getLanesFrom(st.lanes, id)) {
+          const n = otherEnd(lane, id);
+          if (!visible.has(n)) {
+            visible.add(n);
+            next.push(n);
+          }
+        }
+      }
+      frontier = next;
+    }
+  }
+  return visible;
+}
+
+// -----------------------------------------------------------------------------
+// Per-tick update
+// -----------------------------------------------------------------------------
+
+/**
+ * Recompute vision, record enemy sightings and clear disproven ghosts.
+ */
+export function updateVisibility(): void {
+  const state = getState();
+  const visible = computeVisibleSystems(state);
+  const lastSeen = state.visibility.lastSeen;
+
+  for (const f of Object.values(state.fleets)) {
+    if (f.owner !== 'ENEMY' || !visible.has(f.location)) continue;
+
+    const prev = lastSeen[f.id];
+    if (!prev || prev.tick < state.tick - 1) {
+      emit({ type: 'ContactSighted', fleetId: f.id, fleetName: f.name, systemId: f.location });
+    }
+    lastSeen[f.id] = {
+      fleetId: f.id,
+      name: f.name,
+      role: f.role,
+      systemId: f.location,
+      shipCount: f.ships.length,
+      tick: state.tick
+    };
+  }
+
+  // A ghost whose system we can see, but whose fleet isn't there, is stale
+  for (const [id, seen] of Object.entries(lastSeen)) {
+    if (!visible.has(seen.systemId)) continue;
+    const f = state.fleets[id];
+    if (!f || f.location !== seen.systemId) {
+      delete lastSeen[id];
+    }
+  }
+
+  state.visibility.visibleSystems = [...visible].sort();
+}
+
+// -----------------------------------------------------------------------------
+// Queries (UI + AI-facing)
+// -----------------------------------------------------------------------------
+
+export function isSystemVisible(systemId: string): boolean {
+  return getState().visibility.visibleSystems.includes(systemId);
+}
+
+/**
+ * Player fleets are always visible; enemy fleets only inside sensor range
+ */
+export function isFleetVisible(fleet: Fleet): boolean {
+  return fleet.owner === 'PLAYER' || isSystemVisible(fleet.location);
+}
+
+export function getVisibleFleets(): Fleet[] {
+  return Object.values(getState().fleets).filter(isFleetVisible);
+}
+
+/**
+ * Last-known enemy positions that are not currently in view
+ */
+export function getEnemyGhosts(): EnemySighting[] {
+  const state = getState();
+  return Object.values(state.visibility.lastSeen).filter(seen => {
+    const f = state.fleets[seen.fleetId];
+    return !f || !isFleetVisible(f);
+  });
+}
@@ -0,0 +1,142 @@
+// src/core/Weapons.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Weapon Types & Defensive Layers (NO Phaser imports)
+//
+// Weapon parts deal one of four damage types and defensive parts add to one
+// of three layers (see ShipDesign.ts). DEFENSE_VS is the whole interaction
+// table: how much one point of a layer counts against each weapon type.
+// - Shields shrug off lasers but soak little of a kinetic slug
+// - Armor stops slugs but burns through under lasers
+// - Point defense does nothing against guns, a lot against missiles and
+//   fighters
+// Toughness outside any layer is plain hull structure and counts 1:1.
+// Ship-to-ship fights (Combat.ts) and orbital bombardment (Invasion.ts) both
+// go through loadoutDamage().
+// -----------------------------------------------------------------------------
+
+import type { DefenseLayer, Planet, Ship, ShipLoadout, WeaponType } from './types';
+
+export const WEAPON_TYPES: WeaponType[] = ['KINETIC', 'LASER', 'MISSILE', 'FIGHTER'];
+export const DEFENSE_LAYERS: DefenseLayer[] = ['SHIELD', 'ARMOR', 'POINT_DEFENSE'];
+
+const DEFENSE_VS: Record<DefenseLayer, Record<WeaponType, number>> = {
+  SHIELD:        { KINETIC: 0.5, LASER: 1.5,  MISSILE: 1, FIGHTER: 0.75 },
+  ARMOR:         { KINETIC: 1.5, LASER: 0.75, MISSILE: 1, FIGHTER: 1 },
+  POINT_DEFENSE: { KINETIC: 0,   LASER: 0,    MISSILE: 3, FIGHTER: 3 }
+};
+
+// Effective toughness at which incoming damage is halved
+const DAMAGE_HALVING = 8;
+
+// A planet's defense rating split into layers, per point of planet.defenses
+const PLANET_LAYERS: Record<DefenseLayer, number> = { SHIELD: 0.06, ARMOR: 0.04, POINT_DEFENSE: 0.03 };
+
+// Fortification knocked out per point of (mitigated) firepower in orbit
+const BOMBARD_SCALE = 1.5;
+
+const SHORT: Record<WeaponType | DefenseLayer, string> = {
+  KINETIC: 'KIN', LASER: 'LAS', MISSILE: 'MSL', FIGHTER: 'FTR',
+  SHIELD: 'SHD', ARMOR: 'ARM', POINT_DEFENSE: 'PD'
+};
+
+// -----------------------------------------------------------------------------
+// Interactions
+// -----------------------------------------------------------------------------
+
+/**
+ * Toughness as seen by one weapon type
+ */
+export function effectiveToughness(toughness: number, defenses: ShipLoadout['defenses'], weapon: WeaponType): number {
+  let layered = 0;
+  let effective = 0;
+  for (const layer of DEFENSE_LAYERS) {
+    const points = defenses[layer] ?? 0;
+    layered += points;
+    effective += points * DEFENSE_VS[layer][weapon];
+  }
+  return Math.max(0, toughness - layered) + effective;
+}
+
+/**
+ * Firepower that gets through, summed over the attacker's weapon types.
+ * Unmitigated this is the attacker's firepower; DAMAGE_HALVING effective
+ * toughness halves it.
+ */
+export function loadoutDamage(weapons: ShipLoadout['weapons'], toughness: number, defenses: ShipLoadout['defenses']): number {
+  let damage = 0;
+  for (const weapon of WEAPON_TYPES) {
+    const firepower = weapons[weapon] ?? 0;
+    if (firepower <= 0) continue;
+    damage += firepower * DAMAGE_HALVING / (DAMAGE_HALVING + effectiveToughness(toughness, defenses, weapon));
+  }
+  return damage;
+}
+
+/**
+ * Fortification one ship in orbit knocks out per invasion round
+ */
+export function bombardmentDamage(ship: Ship, planet: Planet): number {
+  const defenses: ShipLoadout['defenses'] = {};
+  let toughness = 0;
+  for (const layer of DEFENSE_LAYERS) {
+    const points = planet.defenses * PLANET_LAYERS[layer];
+    defenses[layer] = points;
+    toughness += points;
+  }
+  return BOMBARD_SCALE * loadoutDamage(ship.loadout.weapons, toughness, defenses) * ship.integrity / 100;
+}
+
+// -----------------------------------------------------------------------------
+// Helpers
+// -----------------------------------------------------------------------------
+
+export function emptyLoadout(): ShipLoadout {
+  return { weapons: {}, defenses: {} };
+}
+
+/**
+ * Every weapon and defense value multiplied by factor
+ */
+export function scaleLoadout(loadout: ShipLoadout, factor: number): ShipLoadout {
+  const scaled = emptyLoadout();
+  for (const weapon of WEAPON_TYPES) {
+    const firepower = loadout.weapons[weapon];
+    if (firepower !== undefined) scaled.weapons[weapon] = firepower * factor;
+  }
+  for (const layer of DEFENSE_LAYERS) {
+    const points = loadout.defenses[layer];
+    if (points !== undefined) scaled.defenses[layer] = points * factor;
+  }
+  return scaled;
+}
+
+/**
+ * Summed over ships, e.g. for a fleet
+ */
+export function sumLoadouts(loadouts: ShipLoadout[]): ShipLoadout {
+  const total = emptyLoadout();
+  for (const loadout of loadouts) {
+    for (const weapon of WEAPON_TYPES) {
+      const firepower = loadout.weapons[weapon];
+      if (firepower) total.weapons[weapon] = (total.weapons[weapon] ?? 0) + firepower;
+    }
+    for (const layer of DEFENSE_LAYERS) {
+      const points = loadout.defenses[layer];
+      if (points) total.defenses[layer] = (total.defenses[layer] ?? 0) + points;
+    }
+  }
+  return total;
+}
+
+/**
+ * "LAS 3 MSL 2 | ARM 2 PD 1"
+ */
+export function describeLoadout(loadout: ShipLoadout): string {
+  const part = (keys: (WeaponType | DefenseLayer)[], values: Partial<Record<string, number>>) => keys
+    .filter(k => (values[k] ?? 0) > 0)
+    .map(k => `${SHORT[k]} ${Math.round((values[k] ?? 0) * 10) / 10}`)
+    .join(' ');
+  const weapons = part(WEAPON_TYPES, loadout.weapons) || 'unarmed';
+  const defenses = part(DEFENSE_LAYERS, loadout.defenses);
+  return defenses ? `${weapons} | ${defenses}` : weapons;
+}
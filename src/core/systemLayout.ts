@@ -2,11 +2,13 @@
 // -----------------------------------------------------------------------------
 // HexFleet — Deterministic System Layout Helpers
 //
-// Provides deterministic positioning for system objects like asteroids
+// Provides deterministic positioning for system objects (asteroids, stations,
+// planets, anomalies)
 // Ensures GameState and SystemScene agree on object positions
 // -----------------------------------------------------------------------------
 
-import type { StarSystem, HexCoord } from './types';
+import type { StarSystem, HexCoord, SystemObjectType } from './types';
+import { makeRng, deriveSeed } from './RNG';
 
 /**
  * Get the deterministic hex coordinate for the asteroid in a system
@@ -51,21 +53,72 @@ export function isAsteroidHex(sys: StarSystem, coord: HexCoord): boolean {
 }
 
 /**
- * Get all deterministic object positions for a system
+ * Number of anomaly objects a system shows (deterministic from seed)
  * @param sys - The star system
- * @returns Array of object positions and types
  */
-export function getSystemObjectPositions(sys: StarSystem): Array<{coord: HexCoord, type: 'asteroid' | 'station' | 'planet'}> {
-  const positions: Array<{coord: HexCoord, type: 'asteroid' | 'station' | 'planet'}> = [];
-  
-  // Add asteroid position
+export function getAnomalyCount(sys: StarSystem): number {
+  if (sys.type === 'ANOMALY') return 1;
+  if (sys.type === 'RUIN') return Math.floor(sys.seed % 3) + 1;
+  return 0;
+}
+
+/**
+ * Get all deterministic object positions for a system.
+ * Station, planets (in id order), anomalies and wrecks take distinct hexes within
+ * LAYOUT_RADIUS, never the star at the center or the asteroid hex.
+ * @param sys - The star system
+ * @returns Array of object positions keyed by core object key
+ *          ('asteroid', 'station', 'planet:<id>', 'anomaly:<i>', 'wreck:<id>')
+ */
+export function getSystemObjectPositions(sys: StarSystem): Array<{ key: string; coord: HexCoord; type: SystemObjectType }> {
+  const positions: Array<{ key: string; coord: HexCoord; type: SystemObjectType }> = [];
+
   const asteroidHex = getAsteroidHex(sys);
   if (asteroidHex) {
-    positions.push({ coord: asteroidHex, type: 'asteroid' });
+    positions.push({ key: 'asteroid', coord: asteroidHex, type: 'asteroid' });
   }
-  
-  // TODO: Add station and planet positions later if needed
-  // For now, focus on asteroid positioning
-  
+
+  // Seeded shuffle of free hexes; each object takes the next one.
+  const free = layoutHexes().filter(c =>
+    !(c.q === 0 && c.r === 0) &&
+    !(asteroidHex && c.q === asteroidHex.q && c.r === asteroidHex.r)
+  );
+  const rng = makeRng(deriveSeed(sys.seed, 'objects'));
+  for (let i = free.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [free[i], free[j]] = [free[j], free[i]];
+  }
+  let next = 0;
+
+  if (sys.station) {
+    positions.push({ key: 'station', coord: free[next++ % free.length], type: 'station' });
+  }
+
+  for (const planetId of Object.keys(sys.planets ?? {}).sort()) {
+    positions.push({ key: `planet:${planetId}`, coord: free[next++ % free.length], type: 'planet' });
+  }
+
+  const anomalies = getAnomalyCount(sys);
+  for (let i = 0; i < anomalies; i++) {
+    positions.push({ key: `anomaly:${i}`, coord: free[next++ % free.length], type: 'anomaly' });
+  }
+
+  // Wrecks come last so they never displace the permanent objects
+  for (const wreck of sys.wrecks ?? []) {
+    positions.push({ key: `wreck:${wreck.id}`, coord: free[next++ % free.length], type: 'wreck' });
+  }
+
   return positions;
 }
+
+const LAYOUT_RADIUS = 4;
+
+function layoutHexes(): HexCoord[] {
+  const out: HexCoord[] = [];
+  for (let q = -LAYOUT_RADIUS; q <= LAYOUT_RADIUS; q++) {
+    for (let r = -LAYOUT_RADIUS; r <= LAYOUT_RADIUS; r++) {
+      if (Math.abs(q + r) <= LAYOUT_RADIUS) out.push({ q, r });
+    }
+  }
+  return out;
+}
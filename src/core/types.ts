@@ -3,7 +3,7 @@
 // HexFleet — shared types (NO Phaser imports)
 // -----------------------------------------------------------------------------
 
-export type FleetTask = 'IDLE' | 'MOVE' | 'MINE' | 'SCAN' | 'SALVAGE' | 'FIGHT';
+export type FleetTask = 'IDLE' | 'MOVE' | 'MINE' | 'SCAN' | 'SALVAGE' | 'SUPPRESS' | 'FIGHT';
 
 export type MiningBoost = {
   fleetId: string;
@@ -34,9 +34,21 @@ export type Resources = {
   crystals: number;
 };
 
-export type SystemIntel = 'UNKNOWN' | 'SCANNED';
+// UNKNOWN: never seen | PARTIAL: some contents revealed | SCANNED: full, current
+// STALE: was PARTIAL/SCANNED but no fleet has looked in a while
+export type SystemIntel = 'UNKNOWN' | 'PARTIAL' | 'SCANNED' | 'STALE';
 
-export type SystemObjectType = 'planet' | 'asteroid' | 'station' | 'anomaly';
+// Reveal levels reached by scanning (see Scanning.ts)
+export type ScanReveal = 0 | 1 | 2 | 3 | 4; // none, asteroids, station, planets, enemy presence
+
+export type ScanState = {
+  progress: number;         // 0..100 for the scan in progress (or last scan)
+  revealLevel: ScanReveal;  // highest level ever revealed (knowledge is kept when stale)
+  lastIntelTick: number;    // tick intel was last refreshed (scan or fleet presence)
+  knownEnemyFleets?: number; // enemy fleets seen at the last level-4 refresh
+};
+
+export type SystemObjectType = 'planet' | 'asteroid' | 'station' | 'anomaly' | 'wreck';
 
 export type SystemObjectRef = {
   systemId: string;
@@ -68,6 +80,22 @@ export type Station = {
   state: StationState;
   integrity: number; // 0..100
   functional: boolean; // can be repaired/rebuilt
+  salvageRemaining?: number; // 0..100 percentage (derelicts only)
+  shipyard?: Shipyard;       // PLAYER stations only
+};
+
+// Shipyard (see Shipyard.ts): one build at a time, front of the queue first
+export type BuildOrder = {
+  id: string;
+  blueprint: string;               // blueprint key
+  buildTicks: number;              // work needed
+  progressTicks: number;           // work done (only the front order advances)
+  paid: Partial<TieredMetals>;     // charged when queued, refunded on cancel
+};
+
+export type Shipyard = {
+  queue: BuildOrder[];
+  rallyFleetId?: string;  // finished ships join this fleet while it waits at the station
 };
 
 export type Asteroids = {
@@ -77,6 +105,35 @@ export type Asteroids = {
   totalYield: number; // Total resources when 100%
 };
 
+// TDD §5.6: per-system pressure meter (see Pressure.ts)
+export type PressureLevel = 'SAFE' | 'CONTAINED' | 'WARNING' | 'CRITICAL';
+
+export type SystemPressure = {
+  current: number;     // 0..max
+  max: number;         // collapse point
+  rate: number;        // generation per tick last tick (while player fleets present)
+  suppression: number; // reduction per tick last tick from SUPPRESS fleets
+};
+
+// Scrap left by destroyed ships (COMBAT) or generated in DERELICT systems
+export type Wreck = {
+  id: string;
+  name: string;
+  source: 'COMBAT' | 'DERELICT';
+  tier: number;           // 1..3, drives the loot table
+  hulls: number;          // ships in the wreck; bigger wrecks take longer to strip
+  scrapRemaining: number; // 0..100 percentage
+  seed: number;           // loot rolls derive from this
+};
+
+// One salvage operation's haul (see Salvage.ts)
+export type SalvageLoot = {
+  tieredMetals: Partial<TieredMetals>;
+  alloys: number;
+  crystals: number;
+  blueprint?: string; // rare blueprint key unlocked
+};
+
 export type PlanetController = 'PLAYER' | 'ENEMY' | 'NEUTRAL' | 'CONTESTED';
 
 export type PlanetDefense = {
@@ -94,6 +151,7 @@ export type Invasion = {
 };
 
 export type Planet = {
+  name?: string; // Display name (set by the galaxy generator)
   controller: PlanetController;
   groundTroops: number; // Troops stationed on planet
   defenses: number; // Planetary defense strength 0-100
@@ -114,6 +172,7 @@ export type StarSystem = {
   tier: number;
 
   intel: SystemIntel;
+  scan?: ScanState;
 
   // Mining: if present, miners can extract per turn while stationed here
   asteroids?: Asteroids;
@@ -121,12 +180,41 @@ export type StarSystem = {
   // NEW: Stations can exist in systems
   station?: Station;
 
+  // Salvageable wrecks (deplete like asteroids, removed at 0%)
+  wrecks?: Wreck[];
+
+  // Hostile pressure while the player is present (absent = never pressured)
+  pressure?: SystemPressure;
+
   // NEW: Planets can be controlled and fought over
   planets?: Record<string, Planet>;
 };
 
 export type Galaxy = Record<string, StarSystem>;
 
+// Hyperlanes: the only connections fleets may travel along (see Hyperlanes.ts)
+export type Hyperlane = {
+  id: string;              // laneKey(a, b)
+  a: string;               // system id (a < b)
+  b: string;               // system id
+  travelMultiplier: number; // >= 1, scales movement time across this lane
+  blocked: boolean;        // blockaded: impassable except to blockedBy
+  blockedBy?: FleetOwner;  // side holding the blockade
+  contested: boolean;      // opposing fleets hold both ends (slower travel)
+};
+
+export type HyperlaneGraph = Record<string, Hyperlane>;
+
+// Procedural galaxy generation (see GalaxyGenerator.ts)
+export type GalaxyShape = 'RING' | 'SPIRAL' | 'CLUSTER';
+
+export type GalaxySize = 'SMALL' | 'MEDIUM' | 'LARGE' | 'HUGE';
+
+export type GalaxyGenOptions = {
+  systemCount: number; // Total systems including the home system
+  shape: GalaxyShape;
+};
+
 export type FleetOwner = 'PLAYER' | 'ENEMY';
 
 export type FleetRole = 'MINER' | 'COMBAT';
@@ -161,11 +249,108 @@ export type Ship = {
   // Combat specific
   weapons?: number; // weapon slots
   armor?: number; // armor value
+
+  // Sensor parts fitted (extra sensor range / scan strength)
+  sensors?: number;
+
+  // Repair bays fitted (field repair, see Repair.ts)
+  repairBays?: number;
+
+  // Blueprint it was built from (see ShipDesign.ts)
+  design?: string;
+
+  // Firepower by weapon type and defense by layer (see Weapons.ts)
+  loadout: ShipLoadout;
+
+  // Experience from battles, invasions, suppression and mining; the rank
+  // follows from it (see Veterancy.ts)
+  xp: number;
+  // Promoted from the crew when the ship first makes VETERAN
+  captain?: Captain;
   
   // Cost for rebuilding/dismantling calculations
   buildCost: Partial<TieredMetals>;
 };
 
+export type ShipRank = 'GREEN' | 'TRAINED' | 'VETERAN' | 'ELITE' | 'ACE';
+export type CaptainTrait = 'CAUTIOUS' | 'AGGRESSIVE' | 'STEADFAST' | 'MINER_SAVANT';
+export type XpSource = 'BATTLE' | 'INVASION' | 'SUPPRESSION' | 'MINING';
+
+export type Captain = {
+  name: string;
+  trait: CaptainTrait;
+  since: number; // tick promoted
+};
+
+// -----------------------------------------------------------------------------
+// Ship design (see ShipDesign.ts): hulls expose slots, parts fill them
+// -----------------------------------------------------------------------------
+
+export type ShipPartKind = 'WEAPON' | 'HANGAR' | 'ARMOR' | 'DEFENSE' | 'TROOP_BAY' | 'MINING_LASER' | 'SENSOR' | 'REPAIR';
+
+// What a weapon deals and what a defense stops (interactions in Weapons.ts)
+export type WeaponType = 'KINETIC' | 'LASER' | 'MISSILE' | 'FIGHTER';
+export type DefenseLayer = 'SHIELD' | 'ARMOR' | 'POINT_DEFENSE';
+
+// A ship's firepower split by weapon type, and the share of its toughness
+// held in each defensive layer (the rest is plain hull structure)
+export type ShipLoadout = {
+  weapons: Partial<Record<WeaponType, number>>;
+  defenses: Partial<Record<DefenseLayer, number>>;
+};
+
+export type ShipPart = {
+  key: string;
+  name: string;
+  kind: ShipPartKind;
+  cost: Partial<TieredMetals>;
+  firepower?: number;
+  weaponType?: WeaponType;  // what its firepower deals
+  toughness?: number;
+  defense?: DefenseLayer;   // which layer its toughness adds to
+  troopCapacity?: number;
+  miningTier?: MetalTier;
+  sensors?: number;
+  repairBays?: number;
+};
+
+export type Hull = {
+  type: ShipType;
+  name: string;
+  firepower: number;  // before parts
+  toughness: number;
+  slots: Partial<Record<ShipPartKind, number>>;
+  cost: Partial<TieredMetals>;
+  repairCost: Partial<TieredMetals>; // per repair step (see Repair.ts)
+  buildTicks: number;
+  rare?: boolean; // must be recovered through salvage before it can be built
+};
+
+// A named variant: a hull plus the parts in its slots (part keys)
+export type ShipDesign = {
+  key: string;
+  name: string;
+  hull: ShipType;
+  parts: string[];
+};
+
+// What a shipyard builds: a design with its derived cost and build time
+export type Blueprint = {
+  key: string;
+  name: string;
+  shipType: ShipType;
+  parts: string[];
+  cost: Partial<TieredMetals>;
+  buildTicks: number; // shipyard time for one hull
+  rare?: boolean; // hull must be recovered through salvage first
+  custom?: boolean; // player design (state.designs)
+};
+
+export type FleetOrder = {
+  task: FleetTask;
+  target?: string; // systemId (MOVE destination, MINE location)
+};
+
 export type Fleet = {
   id: string;
   name: string;
@@ -190,7 +375,16 @@ export type Fleet = {
   // NEW: Real-time task system
   task: FleetTask;
   taskTarget?: string;  // systemId or objectId for task
-  etaTicks?: number;    // countdown for task completion
+  etaTicks?: number;    // countdown for task completion (MOVE: ticks left on current hop, SALVAGE: ticks to next operation)
+  route?: string[];     // MOVE: systems still to visit, next hop first (last = taskTarget)
+
+  // Order queue: orders run after the current task completes
+  orders?: FleetOrder[];
+  activeOrder?: FleetOrder; // order behind the current task (re-queued when looping)
+  loopOrders?: boolean;     // re-append each finished order to the end of the queue
+
+  // Cargo hold (mined ore not yet delivered to a friendly station)
+  cargo?: TieredMetals;
 
   // NEW: Mining boost state
   boost?: MiningBoost;
@@ -203,6 +397,9 @@ export type Fleet = {
   integrity: number; // 0..100 (average of ships)
   morale: number; // 0..100 (average of ships)
 
+  // Order in a station's repair line (default NORMAL; OFF = don't spend metals)
+  repairPriority?: RepairPriority;
+
   // Mining: derived from miner ships in fleet
   miningTier?: MetalTier;
 
@@ -211,22 +408,40 @@ export type Fleet = {
   groundTroopCapacity: number;
 };
 
+export type RepairPriority = 'HIGH' | 'NORMAL' | 'OFF';
+
+export type RepairSource = 'STATION' | 'FIELD';
+
 export type GamePhase = 'PLAYER' | 'ENEMY';
 
-export type IntelKind = 'MOVE' | 'SCAN' | 'MINE' | 'BUILD' | 'DISMANTLE' | 'ALERT' | 'SYSTEM' | 'BOOST';
+export type IntelKind = 'MOVE' | 'SCAN' | 'MINE' | 'SALVAGE' | 'BUILD' | 'DISMANTLE' | 'ALERT' | 'SYSTEM' | 'BOOST';
+
+export type IntelSeverity = 'INFO' | 'WARNING' | 'CRITICAL';
 
-export type IntelEntry = {
+// What an entry is about; the intel view focuses the map on it when clicked
+export type IntelRefs = {
+  systemId?: string;
+  fleetId?: string;
+  planetId?: string;
+  battleId?: string; // a battle report in battleReports
+};
+
+export type IntelEntry = IntelRefs & {
   id: string;
   turn: number;
   tick: number;  // NEW: tick-level precision
   ts: number;
   kind: IntelKind;
   text: string;
+  severity: IntelSeverity;
+
+  // Repeats folded into this entry (see IntelLog.ts): text is the latest one
+  count: number;
+  lastTick: number;
+  group?: string;  // entries with the same group fold together
 };
 
 // Combat system types (NEW)
-export type CombatOutcomeType = 'VICTORY' | 'PYRRHIC_VICTORY' | 'RETREAT' | 'DESTRUCTION';
-
 export type CombatIntel = {
   fleetPower: number;
   estimatedEnemyThreat: number;
@@ -234,11 +449,78 @@ export type CombatIntel = {
   confidence: 'HIGH' | 'MEDIUM' | 'LOW';
 };
 
-export type CombatOutcome = {
-  outcome: CombatOutcomeType;
-  intel: CombatIntel;
-  damage: number; // Damage multiplier (0.1 - 1.0)
-  loot: Partial<TieredMetals>;
+// -----------------------------------------------------------------------------
+// Tactical combat (see Combat.ts): fleets in one system fight ship by ship
+// -----------------------------------------------------------------------------
+
+// One ship's part in an engagement
+export type BattleShipReport = {
+  shipId: string;
+  shipName: string;
+  shipType: ShipType;
+  fleetId: string;
+  fleetName: string;
+  owner: FleetOwner;
+  integrityBefore: number;
+  integrityAfter: number;
+  moraleBefore: number;
+  moraleAfter: number;
+  damageDealt: number;
+  damageTaken: number;
+  destroyed: boolean;
+};
+
+export type BattleHit = {
+  round: number;
+  attackerId: string; // ship ids
+  targetId: string;
+  damage: number;
+  destroyed: boolean; // this hit finished the target
+};
+
+// A fleet broke off when its morale failed
+export type BattleRout = {
+  round: number;
+  fleetId: string;
+};
+
+// A wreck the engagement left for salvage
+export type BattleWreck = {
+  wreckId: string;
+  name: string;
+  tier: number;
+  hulls: number;
+};
+
+// What simulateBattle() works out
+export type BattleResult = {
+  systemId: string;
+  tick: number;
+  rounds: number;
+  winner: FleetOwner | null; // null: both sides still standing after the last round
+  ships: BattleShipReport[];
+  routs: BattleRout[];
+  hits: BattleHit[];         // every shot, in order
+};
+
+// An applied engagement, as kept in battleReports
+export type BattleReport = BattleResult & {
+  id: string;
+  wrecks: BattleWreck[];
+};
+
+// Monte-Carlo preview of sending a fleet into a system (see predictBattle)
+export type BattleOdds = {
+  samples: number;
+  enemyShips: number;        // known enemy ships there
+  winChance: number;         // 0..1, likewise lossChance / drawChance
+  lossChance: number;
+  drawChance: number;
+  expectedLosses: number;    // player ships destroyed, per engagement
+  expectedEnemyLosses: number;
+  expectedLoot: SalvageLoot; // from the enemy wrecks, if stripped bare
+  uncertainty: number;       // +/- share of enemy strength the samples vary by
+  confidence: CombatIntel['confidence'];
 };
 
 // Victory & Defeat system types (NEW)
@@ -292,21 +574,182 @@ export type HexLayout = {
   bottomLane: number; // y + hexSize * 0.38
 };
 
+// Where and when the player last saw an enemy fleet
+export type EnemySighting = {
+  fleetId: string;
+  name: string;
+  role: FleetRole;
+  systemId: string;
+  shipCount: number;
+  tick: number;
+};
+
+export type Visibility = {
+  visibleSystems: string[];                 // systems inside player sensor range right now
+  lastSeen: Record<string, EnemySighting>;  // by fleet id; ghosts when not currently visible
+};
+
+// -----------------------------------------------------------------------------
+// Commands (see Commands.ts): every state-changing action, stamped with its tick
+// -----------------------------------------------------------------------------
+
+export type Command =
+  | { type: 'MOVE_FLEET'; fleetId: string; target: string }
+  | { type: 'ASSIGN_TASK'; fleetId: string; task: FleetTask; target?: string }
+  | { type: 'QUEUE_ORDER'; fleetId: string; task: FleetTask; target?: string }
+  | { type: 'CLEAR_ORDERS'; fleetId: string }
+  | { type: 'SET_ORDER_LOOP'; fleetId: string; loop?: boolean }
+  | { type: 'BOOST_MINING'; fleetId: string }
+  | { type: 'TOGGLE_BLOCKADE'; fleetId: string; target: string }
+  | { type: 'BUILD_FLEET'; blueprint: string; systemId: string }
+  | { type: 'BUILD_STATION'; systemId: string }
+  | { type: 'DISMANTLE_FLEET'; fleetId: string }
+  | { type: 'QUEUE_BUILD'; systemId: string; blueprint: string }
+  | { type: 'CANCEL_BUILD'; systemId: string; orderId: string }
+  | { type: 'MOVE_BUILD'; systemId: string; orderId: string; toIndex: number }
+  | { type: 'SET_RALLY_FLEET'; systemId: string; fleetId: string }
+  | { type: 'CREATE_DESIGN'; name: string; hull: ShipType; parts: string[] }
+  | { type: 'DELETE_DESIGN'; designKey: string }
+  | { type: 'SET_REPAIR_PRIORITY'; fleetId: string; priority: RepairPriority }
+  | { type: 'SPLIT_FLEET'; fleetId: string; shipIds: string[] }
+  | { type: 'MERGE_FLEETS'; fleetId: string; intoFleetId: string }
+  | { type: 'TRANSFER_SHIPS'; fromFleetId: string; toFleetId: string; shipIds: string[] }
+  | { type: 'MOVE_IN_SYSTEM'; fleetId: string; to: HexCoord }
+  | { type: 'MINE_AT_POSITION'; fleetId: string }
+  | { type: 'START_INVASION'; planetId: string; strength: number }
+  | { type: 'REINFORCE_PLANET'; planetId: string; amount: number }
+  | { type: 'END_TURN' }
+  | { type: 'ADVANCE_TURN' }
+  | { type: 'AI_ORDER'; fleetId: string; task: FleetTask; target?: string };
+
+export type CommandType = Command['type'];
+
+// PLAYER commands are replayed; AI commands are re-derived by the simulation
+export type CommandSource = 'PLAYER' | 'AI';
+
+export type CommandRecord = {
+  tick: number;        // applied after this tick completed, before the next one
+  seq: number;         // order within the run
+  source: CommandSource;
+  command: Command;
+};
+
+export type StateCheckpoint = {
+  tick: number;
+  hash: string;
+};
+
+export type CommandLog = {
+  commands: CommandRecord[];
+  checkpoints: StateCheckpoint[];
+};
+
+// -----------------------------------------------------------------------------
+// Domain events (see Events.ts): what just happened, emitted by core as it
+// happens. Scenes animate from them; the intel log is written from them
+// (see EventIntel.ts). Not saved: they describe changes, the state is the record.
+// -----------------------------------------------------------------------------
+
+export type DamageCause = 'PRESSURE' | 'COMBAT';
+
+export type ResourceSource = 'MINING' | 'DELIVERY' | 'STATION' | 'SALVAGE' | 'DISMANTLE';
+
+// How ships changed hands between two co-located fleets (see GameState fleet organization)
+export type ShipTransferKind = 'SPLIT' | 'MERGE' | 'TRANSFER';
+
+export type GameEvent =
+  // jumpsLeft > 0: passing through on a multi-jump route; observed: the player could see the move
+  | { type: 'FleetArrived'; fleetId: string; fleetName: string; owner: FleetOwner; from: string; to: string; jumpsLeft: number; observed: boolean }
+  | { type: 'FleetBuilt'; fleetId: string; fleetName: string; systemId: string }
+  | { type: 'FleetRepaired'; fleetId: string; fleetName: string; systemId: string; source: RepairSource }
+  // Fleets in one system fought an engagement (see Combat.ts)
+  | { type: 'BattleFought'; systemId: string; report: BattleReport }
+  // A shipyard finished a hull; it joined (or founded, newFleet) the rally fleet
+  | { type: 'ShipBuilt'; systemId: string; blueprint: string; shipId: string; fleetId: string; fleetName: string; newFleet: boolean }
+  | { type: 'StationBuilt'; fleetId: string; fleetName: string; systemId: string; free: boolean }
+  // SPLIT: `to` is the new fleet; MERGE: `from` no longer exists
+  | {
+      type: 'ShipsTransferred';
+      kind: ShipTransferKind;
+      fromFleetId: string;
+      fromFleetName: string;
+      toFleetId: string;
+      toFleetName: string;
+      systemId: string;
+      shipIds: string[];
+    }
+  // Ships lost from a fleet; when the last one goes, FleetDestroyed follows
+  | { type: 'ShipDestroyed'; fleetId: string; fleetName: string; owner: FleetOwner; shipId: string; shipType: ShipType; systemId: string; cause: DamageCause; shipName: string; rank: ShipRank; captain?: string }
+  // A ship crossed into a higher rank (captain set when one was promoted with it)
+  | { type: 'ShipPromoted'; fleetId: string; fleetName: string; owner: FleetOwner; shipId: string; shipName: string; rank: ShipRank; source: XpSource; captain?: Captain }
+  | { type: 'FleetDestroyed'; fleetId: string; fleetName: string; owner: FleetOwner; systemId: string; cause: DamageCause }
+  | {
+      type: 'ResourcesGained';
+      source: ResourceSource;
+      systemId: string;
+      fleetId?: string;
+      fleetName?: string;
+      metals: Partial<TieredMetals>;
+      alloys?: number;
+      crystals?: number;
+      from?: string;  // salvage: the wreck or station picked over
+    }
+  | { type: 'BlueprintRecovered'; blueprint: string; systemId: string }
+  | { type: 'BoostStarted'; fleetId: string; fleetName: string; multiplier: number; durationTicks: number }
+  | { type: 'BoostExpired'; fleetId: string; fleetName: string }
+  | { type: 'ScanCompleted'; systemId: string; fleetId: string; fleetName: string }
+  | { type: 'IntelStale'; systemId: string }
+  | { type: 'ContactSighted'; fleetId: string; fleetName: string; systemId: string }
+  | { type: 'InvasionStarted'; systemId: string; planetId: string; attacker: FleetOwner; strength: number }
+  // bombardment: fortification knocked out by the attacker's ships this round
+  | { type: 'InvasionTick'; systemId: string; planetId: string; attacker: FleetOwner; turnsOngoing: number; garrison: number; invasionStrength: number; fortification: number; bombardment: number }
+  | { type: 'PlanetCaptured'; systemId: string; planetId: string; by: FleetOwner; troopLosses?: number }
+  | { type: 'InvasionRepelled'; systemId: string; planetId: string; attacker: FleetOwner; troopLosses?: number }
+  // Pressure crossed into a level: up into CONTAINED/WARNING/CRITICAL, or back down to SAFE
+  | { type: 'PressureChanged'; systemId: string; level: PressureLevel; pressure: number }
+  | { type: 'PressureCollapsed'; systemId: string };
+
+export type GameEventType = GameEvent['type'];
+
+export type GameEventOf<T extends GameEventType> = Extract<GameEvent, { type: T }>;
+
+// Simulation clock (see Simulation.ts). Saved with the game so timing resumes exactly.
+export type SimClock = {
+  speedIndex: number;              // index into GAME_SPEEDS
+  accumulatorMs: number;           // scaled real time not yet turned into a tick
+  timers: Record<string, number>;  // named timers: tick at which each fires
+};
+
 export type GameState = {
-  version: 2;  // Updated for real-time mechanics
+  version: 10;  // save format (see SaveMigration.ts)
 
   // NEW: Real-time simulation fields
   runSeed: number;
   tick: number;
   isPaused: boolean;
+  clock: SimClock;
+
+  // Deterministic id counters (entities are hashed; intel ids are not)
+  nextEntityId: number;
+  nextIntelId: number;
+
+  // Everything the player (and AI) did this run; runSeed + log rebuilds it
+  commandLog: CommandLog;
+
+  // Generator parameters used for this run (same seed + options = same map)
+  galaxyOptions: GalaxyGenOptions;
 
   // Legacy turn-based fields (kept for compatibility)
   turn: number;
   phase: GamePhase;
 
   galaxy: Galaxy;
+  lanes: HyperlaneGraph;
   fleets: Record<string, Fleet>;
 
+  // Fog of war (recomputed every tick from player sensors)
+  visibility: Visibility;
+
   // Selected ids (UI reads these)
   selectedSystemId: string | null;
   selectedFleetId: string | null;
@@ -314,5 +757,15 @@ export type GameState = {
 
   resources: Resources;
 
+  // Rare blueprint keys recovered through salvage
+  unlockedBlueprints: string[];
+
+  // Player-designed ship variants (see ShipDesign.ts)
+  designs: ShipDesign[];
+
+  // Most recent engagements, oldest first (see Combat.ts)
+  battleReports: BattleReport[];
+
+  // Whole-run archive, oldest first (repeats are folded, nothing is dropped)
   intelLog: IntelEntry[];
 };
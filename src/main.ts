@@ -4,6 +4,10 @@ import Phaser from 'phaser';
 import GalaxyScene from './scenes/GalaxyScene';
 import SystemScene from './scenes/SystemScene';
 import MenuScene from './scenes/MenuScene';
+import IntelScene from './scenes/IntelScene';
+import FleetScene from './scenes/FleetScene';
+import StationScene from './scenes/StationScene';
+import BattleReportScene from './scenes/BattleReportScene';
 
 const config: Phaser.Types.Core.GameConfig = {
   type: Phaser.AUTO,
@@ -15,7 +19,7 @@ const config: Phaser.Types.Core.GameConfig = {
     mode: Phaser.Scale.FIT,
     autoCenter: Phaser.Scale.CENTER_BOTH
   },
-  scene: [MenuScene, GalaxyScene, SystemScene],
+  scene: [MenuScene, GalaxyScene, SystemScene, IntelScene, FleetScene, StationScene, BattleReportScene],
   physics: { default: 'arcade' }
 };
 
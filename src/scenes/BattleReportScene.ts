@@ -0,0 +1,219 @@
+// src/scenes/BattleReportScene.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Battle Report Scene
+//
+// Opened from IntelScene by clicking a COMBAT entry. Shows one filed battle
+// report (state.battleReports, see Combat.ts):
+// - Outcome, ships lost per side and the wrecks left for salvage
+// - Every ship on both sides: integrity and morale before / after, damage
+//   dealt and taken, destroyed or routed
+// - The round log: every hit in order, and when each fleet broke
+// [ / ] step to older / newer reports, wheel / arrows scroll the round log,
+// ESC goes back to the intel archive.
+// -----------------------------------------------------------------------------
+
+import Phaser from 'phaser';
+import { getState, advanceSimulation } from '../core/GameState';
+import { onEvent } from '../core/Events';
+import { autosaveIfDue } from '../core/SaveStorage';
+import { VisualStyle } from '../ui/VisualStyle';
+import type { BattleReport, BattleShipReport, FleetOwner } from '../core/types';
+
+const LEFT_X = 16;
+const RIGHT_X = 660;
+const TOP = 64;
+const ROW_H = 20;
+
+// Ship rows shown per side before the rest are summarised
+const MAX_SHIP_ROWS = 10;
+
+export default class BattleReportScene extends Phaser.Scene {
+  private battleId: string | null = null;
+  private logScroll = 0;
+  private logRows = 0;
+
+  private widgets: Phaser.GameObjects.GameObject[] = [];
+  private dirty = true;
+
+  constructor() {
+    super('BattleReportScene');
+  }
+
+  init(data: { battleId?: string }): void {
+    this.battleId = data.battleId ?? null;
+    this.logScroll = 0;
+  }
+
+  create(): void {
+    const { width, height } = this.scale;
+    this.widgets = [];
+    this.add.rectangle(0, 0, width, height, VisualStyle.bg, 0.94).setOrigin(0, 0);
+
+    this.add.text(LEFT_X, 14, 'HexFleet — Battle Report', { font: VisualStyle.font, color: VisualStyle.uiText });
+    this.add.text(LEFT_X, 38, '[ Older report | ] Newer report | Wheel / arrows scroll the round log | ESC Back to intel',
+      { font: VisualStyle.smallFont, color: VisualStyle.uiDim });
+
+    this.input.on('wheel', (_pointer: any, _go: any, _dx: number, dy: number) => this.scrollLog(dy > 0 ? 3 : -3));
+    this.input.keyboard?.on('keydown', (e: KeyboardEvent) => {
+      switch (e.key) {
+        case 'Escape': this.close(); return;
+        case '[': this.step(-1); return;
+        case ']': this.step(1); return;
+        case 'ArrowDown': this.scrollLog(1); return;
+        case 'ArrowUp': this.scrollLog(-1); return;
+        case 'PageDown': this.scrollLog(this.logRows); return;
+        case 'PageUp': this.scrollLog(-this.logRows); return;
+      }
+    });
+
+    // Newer reports can be filed while we're open
+    const unsubscribe = onEvent('BattleFought', () => { this.dirty = true; });
+    this.events.once('shutdown', unsubscribe);
+
+    this.render();
+  }
+
+  update(_time: number, delta: number): void {
+    // GalaxyScene is paused while we're open, so the simulation is fed from here
+    const before = getState().tick;
+    advanceSimulation(delta);
+    autosaveIfDue(before);
+
+    if (this.dirty) this.render();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Navigation
+  // ---------------------------------------------------------------------------
+
+  private currentReport(): BattleReport | undefined {
+    const reports = getState().battleReports;
+    return this.battleId ? reports.find(r => r.id === this.battleId) : reports[reports.length - 1];
+  }
+
+  private step(by: number): void {
+    const reports = getState().battleReports;
+    const current = this.currentReport();
+    const at = current ? reports.indexOf(current) : reports.length;
+    const next = reports[Phaser.Math.Clamp(at + by, 0, reports.length - 1)];
+    if (!next || next === current) return;
+    this.battleId = next.id;
+    this.logScroll = 0;
+    this.render();
+  }
+
+  private scrollLog(rows: number): void {
+    this.logScroll = Math.max(0, this.logScroll + rows);
+    this.render();
+  }
+
+  private close(): void {
+    this.scene.start('IntelScene');
+  }
+
+  // ---------------------------------------------------------------------------
+  // Rendering
+  // ---------------------------------------------------------------------------
+
+  private render(): void {
+    this.dirty = false;
+    this.widgets.forEach(w => w.destroy());
+    this.widgets = [];
+
+    const state = getState();
+    const report = this.currentReport();
+    if (!report) {
+      this.line(LEFT_X, TOP, this.battleId
+        ? 'This report is no longer archived (only the most recent battles are kept).'
+        : 'No battles fought yet.', VisualStyle.uiDim);
+      return;
+    }
+
+    const reports = state.battleReports;
+    const systemName = state.galaxy[report.systemId]?.name ?? report.systemId;
+    const outcome = report.winner === 'PLAYER' ? 'VICTORY' : report.winner === 'ENEMY' ? 'DEFEAT' : 'INDECISIVE';
+    const outcomeColor = report.winner === 'PLAYER' ? VisualStyle.uiText : report.winner === 'ENEMY' ? VisualStyle.uiBad : VisualStyle.uiWarn;
+    this.line(LEFT_X, TOP,
+      `${outcome} at ${systemName}   TICK ${report.tick}   ${report.rounds} round${report.rounds === 1 ? '' : 's'}   ` +
+      `(report ${reports.indexOf(report) + 1}/${reports.length})`, outcomeColor);
+
+    const wrecks = report.wrecks.length === 0
+      ? 'none'
+      : report.wrecks.map(w => `${w.name} (T${w.tier}, ${w.hulls} hull${w.hulls === 1 ? '' : 's'})`).join(', ');
+    this.line(LEFT_X, TOP + ROW_H, `Wrecks left for salvage: ${wrecks}`, VisualStyle.uiDim);
+
+    const routed = new Set(report.routs.map(r => r.fleetId));
+    const sideTop = TOP + ROW_H * 3;
+    const bottom = Math.max(
+      this.renderSide(LEFT_X, sideTop, 'YOUR FLEETS', report, 'PLAYER', routed),
+      this.renderSide(RIGHT_X, sideTop, 'ENEMY FLEETS', report, 'ENEMY', routed)
+    );
+    this.renderLog(bottom + ROW_H, report);
+  }
+
+  /**
+   * One side's ships; returns the y below the last row
+   */
+  private renderSide(x: number, y: number, title: string, report: BattleReport, owner: FleetOwner, routed: Set<string>): number {
+    const ships = report.ships.filter(s => s.owner === owner);
+    const lost = ships.filter(s => s.destroyed).length;
+    const dealt = ships.reduce((sum, s) => sum + s.damageDealt, 0);
+    this.line(x, y, `${title} — lost ${lost}/${ships.length} ships, dealt ${Math.round(dealt)} damage`, VisualStyle.uiText);
+    y += ROW_H;
+
+    for (const ship of ships.slice(0, MAX_SHIP_ROWS)) {
+      const color = ship.destroyed ? VisualStyle.uiBad : routed.has(ship.fleetId) ? VisualStyle.uiWarn : VisualStyle.combatText;
+      this.line(x + 8, y, describeShip(ship, routed.has(ship.fleetId)), color);
+      y += ROW_H;
+    }
+    if (ships.length > MAX_SHIP_ROWS) {
+      this.line(x + 8, y, `... and ${ships.length - MAX_SHIP_ROWS} more`, VisualStyle.uiDim);
+      y += ROW_H;
+    }
+    return y;
+  }
+
+  private renderLog(top: number, report: BattleReport): void {
+    const { height } = this.scale;
+    const names = new Map(report.ships.map(s => [s.shipId, s]));
+    const shipLabel = (id: string) => {
+      const s = names.get(id);
+      return s ? `${s.shipName} (${s.fleetName})` : id;
+    };
+
+    const lines: { text: string; color: string }[] = [];
+    for (let round = 1; round <= report.rounds; round++) {
+      for (const hit of report.hits.filter(h => h.round === round)) {
+        const attacker = names.get(hit.attackerId);
+        lines.push({
+          text: `R${round}  ${shipLabel(hit.attackerId)} -> ${shipLabel(hit.targetId)}  ${hit.damage}${hit.destroyed ? '  DESTROYED' : ''}`,
+          color: hit.destroyed ? VisualStyle.uiBad : attacker?.owner === 'PLAYER' ? VisualStyle.combatText : VisualStyle.uiDim
+        });
+      }
+      for (const rout of report.routs.filter(r => r.round === round)) {
+        const fleetName = report.ships.find(s => s.fleetId === rout.fleetId)?.fleetName ?? rout.fleetId;
+        lines.push({ text: `R${round}  ${fleetName} breaks and flees`, color: VisualStyle.uiWarn });
+      }
+    }
+
+    this.logRows = Math.max(1, Math.floor((height - top - ROW_H - 16) / ROW_H));
+    this.logScroll = Math.min(this.logScroll, Math.max(0, lines.length - this.logRows));
+    this.line(LEFT_X, top, `ROUND LOG — ${report.hits.length} hits (${this.logScroll + 1}-${Math.min(lines.length, this.logScroll + this.logRows)} of ${lines.length})`, VisualStyle.uiText);
+
+    lines.slice(this.logScroll, this.logScroll + this.logRows).forEach((l, i) => {
+      this.line(LEFT_X + 8, top + ROW_H * (i + 1), l.text, l.color);
+    });
+  }
+
+  private line(x: number, y: number, text: string, color: string): void {
+    this.widgets.push(this.add.text(x, y, text, { font: VisualStyle.smallFont, color }));
+  }
+}
+
+function describeShip(ship: BattleShipReport, routed: boolean): string {
+  const status = ship.destroyed ? ' LOST' : routed ? ' ROUTED' : '';
+  return `${ship.shipName} [${ship.fleetName}]  ` +
+    `INT ${Math.round(ship.integrityBefore)}>${Math.round(ship.integrityAfter)}  ` +
+    `MOR ${Math.round(ship.moraleBefore)}>${Math.round(ship.moraleAfter)}  ` +
+    `dealt ${Math.round(ship.damageDealt)} taken ${Math.round(ship.damageTaken)}${status}`;
+}
@@ -1,106 +1,299 @@
 /**
  * FleetScene
  *
- * Fleet overview screen.
+ * Fleet organization screen, opened over GalaxyScene with O.
  *
  * Responsibilities (GDD-aligned):
- * - Show fleets, composition, and computed power
- * - Highlight role/tier via icons (later)
- * - Offer actions like dismantle (later)
+ * - Show fleets, composition and derived stats, each ship's rank and captain
+ * - Split picked ships into a new fleet, transfer them to another fleet
+ *   in the same system, or merge two co-located fleets
+ * - Cycle the fleet's repair priority (see Repair.ts)
+ * - Every change goes through issueCommand (SPLIT_FLEET / TRANSFER_SHIPS /
+ *   MERGE_FLEETS / SET_REPAIR_PRIORITY) so it is recorded and replayable
  *
  * Lane-based layout:
- * - Top lane: Fleet name
- * - Center lane: Fleet details (role, stats)
- * - Bottom lane: Fleet composition
+ * - Left lane: player fleets, grouped by system (click = source fleet)
+ * - Center lane: the source fleet's ships (click = pick for split/transfer)
+ * - Right lane: other fleets in the same system (click = target fleet)
  */
 
 import Phaser from 'phaser';
-import { getState } from '../core/GameState';
+import { getState, advanceSimulation, selectFleet } from '../core/GameState';
+import { issueCommand } from '../core/Commands';
+import { onAnyEvent } from '../core/Events';
+import { autosaveIfDue } from '../core/SaveStorage';
+import { fleetRepairBays, getRepairPriority, REPAIR_PRIORITIES } from '../core/Repair';
+import { describeCaptain, getRank, nextRankXp } from '../core/Veterancy';
+import { describeLoadout, sumLoadouts } from '../core/Weapons';
 import { VisualStyle } from '../ui/VisualStyle';
 import { getFleetGlyph } from '../ui/IconKit';
-import type { Fleet } from '../core/types';
+import type { ActionResult, Fleet, Ship } from '../core/types';
+
+const LEFT_X = 16;
+const CENTER_X = 400;
+const RIGHT_X = 880;
+const TOP = 84;
+const ROW_H = 22;
 
 export default class FleetScene extends Phaser.Scene {
+  private sourceId: string | null = null;
+  private targetId: string | null = null;
+  private picked = new Set<string>();
+  private status = '';
+
+  private widgets: Phaser.GameObjects.GameObject[] = [];
+  private dirty = true;
+
   constructor() {
     super('FleetScene');
   }
 
   create(): void {
     const { width, height } = this.scale;
+    this.add.rectangle(0, 0, width, height, VisualStyle.bg, 0.94).setOrigin(0, 0);
 
-    // Title
-    this.add.text(16, 14, 'HexFleet — Fleets', {
-      fontFamily: 'monospace',
-      fontSize: '20px',
-      color: '#d9e2ef'
-    });
+    this.add.text(LEFT_X, 14, 'HexFleet — Fleets', { font: VisualStyle.font, color: VisualStyle.uiText });
+    this.add.text(LEFT_X, 38,
+      'Click fleet = source | Click ships to pick | Click right fleet = target | P Split | T Transfer | M Merge | A Pick all | R Repair priority | ESC Close',
+      { font: VisualStyle.smallFont, color: VisualStyle.uiDim });
 
-    // Fleet list with lane-based layout
-    this.renderFleetList();
+    // Start from the fleet selected on the map
+    this.widgets = [];
+    this.sourceId = getState().selectedFleetId;
+    this.targetId = null;
+    this.picked.clear();
+    this.status = '';
 
-    // Back button
-    const backButton = this.add.text(width - 100, height - 30, '← Back to Galaxy', {
-      fontFamily: 'monospace',
-      fontSize: '16px',
-      color: '#4a9eff'
-    }).setInteractive().on('pointerdown', () => {
-      this.scene.start('GalaxyScene');
+    this.input.keyboard?.on('keydown', (e: KeyboardEvent) => {
+      switch (e.key.toLowerCase()) {
+        case 'escape': this.close(); return;
+        case 'p': this.split(); return;
+        case 't': this.transfer(); return;
+        case 'm': this.merge(); return;
+        case 'a': this.pickAll(); return;
+        case 'r': this.cycleRepairPriority(); return;
+      }
     });
 
-    // A simple placeholder box for future fleet entries.
-    this.add.rectangle(width / 2, height / 2, 640, 280, 0x111827, 0.7).setStrokeStyle(2, 0x2b394a);
-    this.add.text(width / 2, height / 2, 'Fleet entries will go here\n(icons + composition + power)', {
-      fontFamily: 'monospace',
-      fontSize: '16px',
-      color: '#d9e2ef',
-      align: 'center'
-    }).setOrigin(0.5);
+    // Ships can be lost or fleets arrive while we're open
+    const unsubscribe = onAnyEvent(() => { this.dirty = true; });
+    this.events.once('shutdown', unsubscribe);
+
+    this.render();
+  }
+
+  update(_time: number, delta: number): void {
+    // GalaxyScene is paused while we're open, so the simulation is fed from here
+    const before = getState().tick;
+    advanceSimulation(delta);
+    autosaveIfDue(before);
+
+    if (this.dirty) this.render();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Actions
+  // ---------------------------------------------------------------------------
+
+  private split(): void {
+    if (!this.sourceId) return this.report({ ok: false, reason: 'Pick a source fleet' });
+    this.report(issueCommand({ type: 'SPLIT_FLEET', fleetId: this.sourceId, shipIds: [...this.picked] }));
+  }
+
+  private transfer(): void {
+    if (!this.sourceId || !this.targetId) return this.report({ ok: false, reason: 'Pick a source and a target fleet' });
+    this.report(issueCommand({ type: 'TRANSFER_SHIPS', fromFleetId: this.sourceId, toFleetId: this.targetId, shipIds: [...this.picked] }));
   }
 
-  private renderFleetList(): void {
+  private merge(): void {
+    if (!this.sourceId || !this.targetId) return this.report({ ok: false, reason: 'Pick a source and a target fleet' });
+    const into = this.targetId;
+    const result = issueCommand({ type: 'MERGE_FLEETS', fleetId: this.sourceId, intoFleetId: into });
+    if (result.ok) {
+      this.sourceId = into;
+      this.targetId = null;
+    }
+    this.report(result);
+  }
+
+  private pickAll(): void {
+    const source = this.sourceId ? getState().fleets[this.sourceId] : undefined;
+    if (!source) return;
+    const all = source.ships.every(s => this.picked.has(s.id));
+    this.picked = all ? new Set() : new Set(source.ships.map(s => s.id));
+    this.render();
+  }
+
+  private cycleRepairPriority(): void {
+    const source = this.sourceId ? getState().fleets[this.sourceId] : undefined;
+    if (!source) return this.report({ ok: false, reason: 'Pick a source fleet' });
+    const next = REPAIR_PRIORITIES[(REPAIR_PRIORITIES.indexOf(getRepairPriority(source)) + 1) % REPAIR_PRIORITIES.length];
+    this.report(issueCommand({ type: 'SET_REPAIR_PRIORITY', fleetId: source.id, priority: next }));
+  }
+
+  private report(result: ActionResult): void {
+    this.status = result.ok ? (result.intel ?? 'Done') : `FAILED: ${result.reason}`;
+    if (result.ok) this.picked.clear();
+    this.render();
+  }
+
+  private close(): void {
+    if (this.sourceId && getState().fleets[this.sourceId]) selectFleet(this.sourceId);
+    this.scene.stop();
+    this.scene.wake('GalaxyScene');
+  }
+
+  // ---------------------------------------------------------------------------
+  // Rendering
+  // ---------------------------------------------------------------------------
+
+  private render(): void {
+    this.dirty = false;
+    this.widgets.forEach(w => w.destroy());
+    this.widgets = [];
+
     const state = getState();
     const fleets = Object.values(state.fleets)
-      .filter(f => f.owner === 'PLAYER')
-      .sort((a, b) => a.name.localeCompare(b.name));
-
-    const startY = 60;
-    const lineHeight = 80;
-
-    fleets.forEach((fleet, index) => {
-      const y = startY + (index * lineHeight);
-      
-      // Top lane: Fleet name
-      this.add.text(16, y, fleet.name, {
-        fontFamily: 'monospace',
-        fontSize: '18px',
-        color: '#ffffff'
-      }).setOrigin(0.5, 0);
-
-      // Center lane: Fleet details
-      const roleText = fleet.role === 'MINER' ? `MINER(${fleet.miningTier || 'T1'})` : 'COMBAT';
-      const detailsText = `Role: ${roleText} | Moves: ${fleet.movesLeft}/${fleet.maxMoves} | Ships: ${fleet.ships.length}`;
-      
-      this.add.text(16, y + 25, detailsText, {
-        fontFamily: 'monospace',
-        fontSize: '14px',
-        color: '#cccccc'
-      }).setOrigin(0.5, 0);
-
-      // Bottom lane: Fleet composition
-      const compositionText = fleet.ships.map(ship => `${ship.type} (${ship.integrity}%)`).join(', ');
-      
-      this.add.text(16, y + 50, compositionText, {
-        fontFamily: 'monospace',
-        fontSize: '12px',
-        color: '#999999'
-      }).setOrigin(0.5, 0);
-
-      // Fleet icon
-      this.add.text(16 + 200, y + 25, getFleetGlyph(fleet), {
-        fontFamily: 'monospace',
-        fontSize: '24px',
-        color: '#4a9eff'
-      }).setOrigin(0.5, 0);
-    });
+      .filter(f => f.owner === 'PLAYER' && f.maxMoves > 0)
+      .sort((a, b) => a.location.localeCompare(b.location) || a.name.localeCompare(b.name));
+
+    // Drop choices that no longer exist (merged away, destroyed, moved off)
+    const source = this.sourceId ? state.fleets[this.sourceId] : undefined;
+    if (!source) this.sourceId = null;
+    const target = this.targetId ? state.fleets[this.targetId] : undefined;
+    if (!target || !source || target.location !== source.location) this.targetId = null;
+    if (source) {
+      this.picked = new Set([...this.picked].filter(id => source.ships.some(s => s.id === id)));
+    }
+
+    this.renderFleetLane(fleets);
+    if (source) {
+      this.renderShipLane(source);
+      this.renderTargetLane(source, fleets.filter(f => f.location === source.location && f.id !== source.id));
+    }
+
+    const { height } = this.scale;
+    this.track(this.add.text(LEFT_X, height - 30, this.status, {
+      font: VisualStyle.smallFont,
+      color: this.status.startsWith('FAILED') ? VisualStyle.uiBad : VisualStyle.uiText
+    }));
+  }
+
+  private renderFleetLane(fleets: Fleet[]): void {
+    const state = getState();
+    let y = TOP;
+    this.heading(LEFT_X, y, 'FLEETS');
+    y += ROW_H;
+
+    let lastLocation = '';
+    for (const fleet of fleets) {
+      if (fleet.location !== lastLocation) {
+        lastLocation = fleet.location;
+        y += 4;
+        this.track(this.add.text(LEFT_X, y, `@ ${state.galaxy[fleet.location]?.name ?? fleet.location}`, {
+          font: VisualStyle.smallFont, color: VisualStyle.uiDim
+        }));
+        y += ROW_H;
+      }
+      const selected = fleet.id === this.sourceId;
+      const underway = fleet.task === 'MOVE' ? ' (underway)' : '';
+      this.button(LEFT_X + 12, y, `${selected ? '>' : ' '} ${getFleetGlyph(fleet)} ${fleet.name} [${fleet.ships.length}]${underway}`,
+        selected ? VisualStyle.uiText : VisualStyle.combatText, () => {
+          this.sourceId = fleet.id;
+          this.targetId = null;
+          this.picked.clear();
+          this.render();
+        });
+      y += ROW_H;
+    }
+  }
+
+  private renderShipLane(fleet: Fleet): void {
+    let y = TOP;
+    this.heading(CENTER_X, y, `${fleet.name} — ${describeFleet(fleet)}`);
+    y += ROW_H;
+    this.track(this.add.text(CENTER_X, y, describeLoad(fleet), { font: VisualStyle.smallFont, color: VisualStyle.uiDim }));
+    y += ROW_H;
+    this.track(this.add.text(CENTER_X, y, `Loadout ${describeLoadout(sumLoadouts(fleet.ships.map(s => s.loadout)))}`, {
+      font: VisualStyle.smallFont, color: VisualStyle.uiDim
+    }));
+    y += ROW_H + 4;
+
+    for (const ship of fleet.ships) {
+      const picked = this.picked.has(ship.id);
+      this.button(CENTER_X, y, `[${picked ? 'x' : ' '}] ${describeShip(ship)}`, picked ? VisualStyle.uiWarn : VisualStyle.uiText, () => {
+        if (picked) this.picked.delete(ship.id);
+        else this.picked.add(ship.id);
+        this.render();
+      });
+      y += ROW_H;
+      if (ship.captain) {
+        this.track(this.add.text(CENTER_X + 32, y, `${describeCaptain(ship.captain)}  ${describeXp(ship)}`, {
+          font: VisualStyle.smallFont, color: VisualStyle.uiDim
+        }));
+        y += ROW_H;
+      }
+    }
+  }
+
+  private renderTargetLane(source: Fleet, others: Fleet[]): void {
+    let y = TOP;
+    this.heading(RIGHT_X, y, 'SAME SYSTEM');
+    y += ROW_H;
+    if (others.length === 0) {
+      this.track(this.add.text(RIGHT_X, y, '(no other fleets here — P splits)', { font: VisualStyle.smallFont, color: VisualStyle.uiDim }));
+      return;
+    }
+    for (const fleet of others) {
+      const selected = fleet.id === this.targetId;
+      this.button(RIGHT_X, y, `${selected ? '>' : ' '} ${fleet.name} [${fleet.ships.length}] ${describeFleet(fleet)}`,
+        selected ? VisualStyle.uiText : VisualStyle.combatText, () => {
+          this.targetId = selected ? null : fleet.id;
+          this.render();
+        });
+      y += ROW_H;
+    }
+    if (this.targetId) {
+      y += 8;
+      this.track(this.add.text(RIGHT_X, y, `T: ${this.picked.size} picked -> target\nM: all of ${source.name} -> target`, {
+        font: VisualStyle.smallFont, color: VisualStyle.uiDim
+      }));
+    }
+  }
+
+  private heading(x: number, y: number, text: string): void {
+    this.track(this.add.text(x, y, text, { font: VisualStyle.smallFont, color: VisualStyle.uiText }));
+  }
+
+  private button(x: number, y: number, text: string, color: string, onClick: () => void): void {
+    this.track(this.add
+      .text(x, y, text, { font: VisualStyle.smallFont, color })
+      .setInteractive({ useHandCursor: true })
+      .on('pointerdown', onClick));
   }
+
+  private track<T extends Phaser.GameObjects.GameObject>(widget: T): T {
+    this.widgets.push(widget);
+    return widget;
+  }
+}
+
+function describeFleet(fleet: Fleet): string {
+  const role = fleet.role === 'MINER' ? `MINER(${fleet.miningTier ?? 'T1'})` : 'COMBAT';
+  return `${role} INT ${fleet.integrity}% MOR ${fleet.morale}% MP ${fleet.movesLeft}/${fleet.maxMoves}`;
+}
+
+function describeLoad(fleet: Fleet): string {
+  const cargo = fleet.cargo ? Math.floor(fleet.cargo.T1 + fleet.cargo.T2 + fleet.cargo.T3) : 0;
+  const bays = fleetRepairBays(fleet);
+  return `Troops ${fleet.groundTroops}/${fleet.groundTroopCapacity}  Hold ${cargo}  Task ${fleet.task}  Repair ${getRepairPriority(fleet)}${bays > 0 ? ` (${bays} bays)` : ''}`;
+}
+
+function describeShip(ship: Ship): string {
+  return `${ship.name.padEnd(14)} ${getRank(ship).padEnd(10)} INT ${String(Math.floor(ship.integrity)).padStart(3)}%  MOR ${String(Math.floor(ship.morale)).padStart(3)}%  FP ${ship.firepower}  TG ${ship.toughness}`;
+}
+
+function describeXp(ship: Ship): string {
+  const next = nextRankXp(ship);
+  return next === null ? `XP ${Math.floor(ship.xp)}` : `XP ${Math.floor(ship.xp)}/${next}`;
 }
@@ -10,13 +10,28 @@
 
 import Phaser from 'phaser';
 
-import type { StarSystem, Fleet } from '../core/types';
-import { getState, selectSystem, selectFleet, moveFleet, endTurn, advanceTurn, saveGame, loadGame, newGame, buildFleet, dismantleFleet, isSystemBeingMined } from '../core/GameState';
+import type { StarSystem, Fleet, GameEventOf, BattleOdds } from '../core/types';
+import { getState, selectSystem, selectFleet, newGame, isSystemBeingMined, describeOrder, advanceSimulation, togglePause, getGameSpeed, setGameSpeed, GAME_SPEEDS, TICKS_PER_SECOND } from '../core/GameState';
+import { issueCommand } from '../core/Commands';
+import { predictBattle } from '../core/Combat';
+import { describeLoot } from '../core/Salvage';
+import { verifyCurrentRun } from '../core/Replay';
+import { onAnyEvent, onEvent } from '../core/Events';
+import { formatIntelEntry } from '../core/IntelLog';
+import { QUICKSAVE_SLOT, autosaveIfDue, loadFromSlot, saveToSlot } from '../core/SaveStorage';
+import { encodeShareCode, exportSaveFile } from '../core/SaveTransfer';
+import { areConnected, getNeighbors } from '../core/Hyperlanes';
+import { findPath } from '../core/Pathfinding';
+import { HOME_SYSTEM_ID } from '../core/GalaxyGenerator';
+import { getRevealLevel } from '../core/Scanning';
+import { getEnemyGhosts, getVisibleFleets, isSystemVisible } from '../core/Visibility';
 import { VisualStyle } from '../ui/VisualStyle';
-import { hexDistance, hexToPixel, pixelToHexRounded } from '../utils/hex';
-import { getFleetGlyph } from '../ui/IconKit';
-import { getSystemAffiliation, getAffiliationColor, getHighlightStyle } from '../ui/colors';
+import { copyText, downloadSave } from '../ui/saveFiles';
+import { hexToPixel, pixelToHexRounded } from '../utils/hex';
+import { getFleetGlyph, pressureMeter } from '../ui/IconKit';
+import { getSystemAffiliation, getAffiliationColor, getHighlightStyle, getLaneStyle } from '../ui/colors';
 import { createFleetIcon } from '../ui/IconFactory';
+import type { IntelFocus } from './IntelScene';
 import type { PerformanceMetrics, AccessibilitySettings } from '../core/types';
 
 function systemGlyph(sys: StarSystem): string {
@@ -24,6 +39,7 @@ function systemGlyph(sys: StarSystem): string {
   if (sys.intel === 'UNKNOWN') {
     return '•'; // Bullet for unknown systems
   }
+  const suffix = sys.intel === 'PARTIAL' ? '?' : sys.intel === 'STALE' ? '~' : '';
   
   // Return glyph based on system type
   const typeGlyphs: Record<string, string> = {
@@ -38,7 +54,7 @@ function systemGlyph(sys: StarSystem): string {
     'ANOMALY': '✧'
   };
   
-  return typeGlyphs[sys.type || 'STAR'] || '•';
+  return (typeGlyphs[sys.type || 'STAR'] || '•') + suffix;
 }
 
 function ellipsize(s: string, max: number): string {
@@ -85,19 +101,20 @@ export default class GalaxyScene extends Phaser.Scene {
 
   // Fleet sprites for animation
   private fleetSprites: Record<string, Phaser.GameObjects.Container> = {};
-  private prevFleetLocations: Record<string, string> = {}; // Track for animation triggers
+  private ghostTexts: Record<string, Phaser.GameObjects.Text> = {}; // Last-known enemy positions
 
   // UI text overlays
   private fleetListText!: Phaser.GameObjects.Text;
   private intelText!: Phaser.GameObjects.Text;
   private headerText!: Phaser.GameObjects.Text;
   private turnText!: Phaser.GameObjects.Text;
+  private oddsText!: Phaser.GameObjects.Text;
 
-  // Move planning
-  private plannedMove: { fleetId: string; targetSystemId: string } | null = null;
+  // Move planning (odds: the battle preview when enemies are known at the target)
+  private plannedMove: { fleetId: string; targetSystemId: string; route: string[]; odds: BattleOdds | null } | null = null;
 
-  // Real-time updates
-  private lastUpdateTime = 0;
+  // Set by core events; the HUD is redrawn once on the next frame
+  private eventsPending = false;
 
   create(): void {
     this.cameras.main.setBackgroundColor(VisualStyle.bg);
@@ -109,6 +126,10 @@ export default class GalaxyScene extends Phaser.Scene {
     // Build system render cache
     this.rebuildSystemRenderables();
 
+    // Generated galaxies extend in every direction from home; start centered on it
+    const home = this.hexToPixel(0, 0);
+    this.cameras.main.centerOn(home.x, home.y);
+
     // UI
     this.headerText = this.add
       .text(16, 12, '', { font: VisualStyle.font, color: VisualStyle.uiText })
@@ -119,6 +140,12 @@ export default class GalaxyScene extends Phaser.Scene {
       .setScrollFactor(0)
       .setOrigin(1, 0); // Right-aligned
 
+    this.oddsText = this.add
+      .text(this.cameras.main.width - 16, 64, '', { font: VisualStyle.smallFont, color: VisualStyle.uiText, backgroundColor: '#0d1420', padding: { x: 8, y: 6 } })
+      .setScrollFactor(0)
+      .setOrigin(1, 0)
+      .setVisible(false);
+
     this.fleetListText = this.add
       .text(16, 48, '', { font: VisualStyle.font, color: VisualStyle.uiText })
       .setScrollFactor(0);
@@ -187,6 +214,15 @@ export default class GalaxyScene extends Phaser.Scene {
       const fleetId = s.selectedFleetId;
       let moveAttempted = false;
 
+      // Shift-click appends a MOVE to the selected fleet's order queue
+      const shiftHeld = (p.event as MouseEvent | undefined)?.shiftKey ?? false;
+      if (shiftHeld && fleetId && s.fleets[fleetId]?.owner === 'PLAYER') {
+        const result = issueCommand({ type: 'QUEUE_ORDER', fleetId, task: 'MOVE', target: clickedSystem.id });
+        if (!result.ok) console.log(`[GalaxyScene] Queue failed: ${result.reason}`);
+        this.refreshAll();
+        return;
+      }
+
       if (fleetId) {
         const f = s.fleets[fleetId];
         const from = s.galaxy[f.location];
@@ -195,15 +231,20 @@ export default class GalaxyScene extends Phaser.Scene {
         const isPlayerPhase = s.phase === 'PLAYER';
         const hasMoves = f.movesLeft > 0;
         const isDifferent = f.location !== clickedSystem.id;
-        const isAdjacent = from && to ? hexDistance(from.coord, to.coord) === 1 : false;
+        const isAdjacent = from && to ? areConnected(s.lanes, from.id, to.id, f.owner) : false;
 
         console.log(`[GalaxyScene] Move check: phase=${isPlayerPhase}, moves=${hasMoves}, different=${isDifferent}, adjacent=${isAdjacent}`);
 
         moveAttempted = true;
 
-        if (isPlayerPhase && hasMoves && isDifferent && isAdjacent) {
+        // Known enemies at the target: plan the move so the odds can be read first
+        const odds = f.owner === 'PLAYER' && isDifferent ? predictBattle(s, fleetId, clickedSystem.id) : null;
+
+        if (odds && isAdjacent) {
+          this.plannedMove = { fleetId, targetSystemId: clickedSystem.id, route: [clickedSystem.id], odds };
+        } else if (isPlayerPhase && hasMoves && isDifferent && isAdjacent) {
           // Execute the move immediately
-          const result = moveFleet(fleetId, clickedSystem.id);
+          const result = issueCommand({ type: 'MOVE_FLEET', fleetId, target: clickedSystem.id });
           console.log(`[GalaxyScene] Move result:`, result);
           
           if (result.ok) {
@@ -214,13 +255,22 @@ export default class GalaxyScene extends Phaser.Scene {
             // Show intel message for failure
             this.openSystemView();
           }
+        } else if (isDifferent && !isAdjacent && f.owner === 'PLAYER') {
+          // Distant target: plan a multi-hop route, Enter confirms
+          const path = findPath(s, f.location, clickedSystem.id, f.owner);
+          if (path) {
+            this.plannedMove = { fleetId, targetSystemId: clickedSystem.id, route: path.route, odds };
+          } else {
+            console.log(`[GalaxyScene] No known route to ${clickedSystem.id}`);
+            this.openSystemView();
+          }
         } else {
           // Move failed - log reason and open system view
           const reasons = [];
           if (!isPlayerPhase) reasons.push('wrong phase');
           if (!hasMoves) reasons.push('no moves left');
           if (!isDifferent) reasons.push('same system');
-          if (!isAdjacent) reasons.push('not adjacent');
+          if (!isAdjacent) reasons.push('no hyperlane');
           console.log(`[GalaxyScene] Move failed: ${reasons.join(', ')}`);
           this.openSystemView();
         }
@@ -256,15 +306,28 @@ export default class GalaxyScene extends Phaser.Scene {
 
       if (e.ctrlKey && key === 's') {
         e.preventDefault();
-        saveGame();
-        this.refreshAll();
+        void saveToSlot(QUICKSAVE_SLOT, 'Quicksave').then(() => this.refreshAll());
         return;
       }
 
       if (e.ctrlKey && key === 'l') {
         e.preventDefault();
-        loadGame();
-        this.refreshAll();
+        void loadFromSlot(QUICKSAVE_SLOT).then(ok => {
+          if (ok) this.rebuildSystemRenderables();
+          this.refreshAll();
+        });
+        return;
+      }
+
+      if (e.ctrlKey && key === 'e') {
+        // Ctrl+E downloads the run as a save file; Ctrl+Shift+E copies a share code
+        e.preventDefault();
+        if (e.shiftKey) {
+          void this.copyShareCode();
+        } else {
+          downloadSave(exportSaveFile());
+          this.refreshAll();
+        }
         return;
       }
 
@@ -276,13 +339,20 @@ export default class GalaxyScene extends Phaser.Scene {
       }
 
       if (key === 'e') {
-        advanceTurn();
+        issueCommand({ type: 'ADVANCE_TURN' });
         this.refreshAll();
         return;
       }
 
-      if (key === 'space') {
-        // Space bar toggles auto-end turn mode (placeholder)
+      if (key === ' ') {
+        togglePause();
+        this.refreshAll();
+        return;
+      }
+
+      if (key === '[' || key === ']') {
+        const current = GAME_SPEEDS.indexOf(getGameSpeed());
+        setGameSpeed(Math.max(0, Math.min(GAME_SPEEDS.length - 1, current + (key === ']' ? 1 : -1))));
         this.refreshAll();
         return;
       }
@@ -299,11 +369,13 @@ export default class GalaxyScene extends Phaser.Scene {
       }
 
       if (key === 'enter') {
-        // Enter confirms planned move (turn-based)
+        // Enter confirms planned move (travels hop by hop in real time)
         if (this.plannedMove) {
-          const result = moveFleet(this.plannedMove.fleetId, this.plannedMove.targetSystemId);
+          const result = issueCommand({ type: 'ASSIGN_TASK', fleetId: this.plannedMove.fleetId, task: 'MOVE', target: this.plannedMove.targetSystemId });
           if (result.ok) {
             this.plannedMove = null;
+          } else {
+            console.log(`[GalaxyScene] Route failed: ${result.reason}`);
           }
           this.refreshAll();
         }
@@ -312,7 +384,7 @@ export default class GalaxyScene extends Phaser.Scene {
 
       if (key === 'e') {
         // E key ends turn
-        endTurn();
+        issueCommand({ type: 'END_TURN' });
         this.refreshAll();
         return;
       }
@@ -334,22 +406,38 @@ export default class GalaxyScene extends Phaser.Scene {
         return;
       }
 
+      if (key === 'i') {
+        this.scene.pause('GalaxyScene');
+        this.scene.launch('IntelScene');
+        return;
+      }
+
+      if (key === 'o') {
+        this.scene.pause('GalaxyScene');
+        this.scene.launch('FleetScene');
+        return;
+      }
+
+      if (key === 'y') {
+        // Shipyard of the selected system's station
+        this.scene.pause('GalaxyScene');
+        this.scene.launch('StationScene', { systemId: getState().selectedSystemId ?? HOME_SYSTEM_ID });
+        return;
+      }
+
       // Build ships at selected system
       const st = getState();
       const buildAt = st.selectedSystemId ?? 'SOL';
       if (key === '1') {
-        buildFleet('CORVETTE', buildAt);
-        this.refreshAll();
+        this.queueBuild('CORVETTE', buildAt);
         return;
       }
       if (key === '2') {
-        buildFleet('FRIGATE', buildAt);
-        this.refreshAll();
+        this.queueBuild('FRIGATE', buildAt);
         return;
       }
       if (key === '3') {
-        buildFleet('DESTROYER', buildAt);
-        this.refreshAll();
+        this.queueBuild('DESTROYER', buildAt);
         return;
       }
       if (key === 'b') {
@@ -358,21 +446,114 @@ export default class GalaxyScene extends Phaser.Scene {
         return;
       }
 
+      if (key === 'x') {
+        // X toggles a blockade on the lane between the selected fleet and selected system
+        if (st.selectedFleetId && st.selectedSystemId) {
+          const result = issueCommand({ type: 'TOGGLE_BLOCKADE', fleetId: st.selectedFleetId, target: st.selectedSystemId });
+          if (!result.ok) console.log(`[GalaxyScene] Blockade failed: ${result.reason}`);
+          this.refreshAll();
+        }
+        return;
+      }
+
+      if (key === 'l' && !e.ctrlKey) {
+        // L toggles looping of the selected fleet's order queue
+        if (st.selectedFleetId) {
+          issueCommand({ type: 'SET_ORDER_LOOP', fleetId: st.selectedFleetId });
+          this.refreshAll();
+        }
+        return;
+      }
+
+      if (key === 'v') {
+        // V scans the selected system with the selected fleet (Shift queues it)
+        if (st.selectedFleetId && st.selectedSystemId) {
+          const result = e.shiftKey
+            ? issueCommand({ type: 'QUEUE_ORDER', fleetId: st.selectedFleetId, task: 'SCAN', target: st.selectedSystemId })
+            : issueCommand({ type: 'ASSIGN_TASK', fleetId: st.selectedFleetId, task: 'SCAN', target: st.selectedSystemId });
+          if (!result.ok) console.log(`[GalaxyScene] Scan failed: ${result.reason}`);
+          this.refreshAll();
+        }
+        return;
+      }
+
+      if (key === 'u') {
+        // U puts the selected fleet on SUPPRESS at the selected system (Shift queues it)
+        if (st.selectedFleetId && st.selectedSystemId) {
+          const result = e.shiftKey
+            ? issueCommand({ type: 'QUEUE_ORDER', fleetId: st.selectedFleetId, task: 'SUPPRESS', target: st.selectedSystemId })
+            : issueCommand({ type: 'ASSIGN_TASK', fleetId: st.selectedFleetId, task: 'SUPPRESS', target: st.selectedSystemId });
+          if (!result.ok) console.log(`[GalaxyScene] Suppress failed: ${result.reason}`);
+          this.refreshAll();
+        }
+        return;
+      }
+
+      if (key === 'g') {
+        // G salvages the selected system with the selected fleet (Shift queues it)
+        if (st.selectedFleetId && st.selectedSystemId) {
+          const result = e.shiftKey
+            ? issueCommand({ type: 'QUEUE_ORDER', fleetId: st.selectedFleetId, task: 'SALVAGE', target: st.selectedSystemId })
+            : issueCommand({ type: 'ASSIGN_TASK', fleetId: st.selectedFleetId, task: 'SALVAGE', target: st.selectedSystemId });
+          if (!result.ok) console.log(`[GalaxyScene] Salvage failed: ${result.reason}`);
+          this.refreshAll();
+        }
+        return;
+      }
+
+      if (key === 'r' && e.shiftKey) {
+        // Shift+R replays this run from its seed + command log and checks the hashes
+        verifyCurrentRun();
+        this.refreshAll();
+        return;
+      }
+
+      if (key === 'c') {
+        // C clears the selected fleet's order queue
+        if (st.selectedFleetId) {
+          issueCommand({ type: 'CLEAR_ORDERS', fleetId: st.selectedFleetId });
+          this.refreshAll();
+        }
+        return;
+      }
+
       if (key === 'd') {
         // dismantleFleet(s.selectedFleetId); // Function doesn't exist yet
         if (st.selectedFleetId) {
-          dismantleFleet(st.selectedFleetId);
+          issueCommand({ type: 'DISMANTLE_FLEET', fleetId: st.selectedFleetId });
           this.refreshAll();
         }
         return;
       }
     });
 
+    this.subscribeToEvents();
+
+    // Back from IntelScene: jump to the entry the player clicked
+    this.events.on('wake', (_sys: Phaser.Scenes.Systems, focus?: IntelFocus) => {
+      const sys = focus?.focusSystemId ? getState().galaxy[focus.focusSystemId] : undefined;
+      if (sys) {
+        const c = this.hexToPixel(sys.coord.q, sys.coord.r);
+        this.cameras.main.pan(c.x, c.y, 300, 'Sine.easeInOut');
+      }
+      this.refreshAll();
+    });
+
     // First draw
     this.refreshAll();
   }
 
-  update(): void {
+  update(_time: number, delta: number): void {
+    // The simulation engine owns the clock; we only hand it real time
+    const before = getState().tick;
+    advanceSimulation(delta);
+    autosaveIfDue(before);
+    const after = getState().tick;
+    if (this.eventsPending || Math.floor(after / TICKS_PER_SECOND) !== Math.floor(before / TICKS_PER_SECOND)) {
+      this.eventsPending = false;
+      this.refreshAll();
+    }
+
     // Repaint grid + selection each frame (cheap enough for small maps)
     this.drawGrid();
     this.drawRangeHighlights(); // NEW: draw reachable highlights on dedicated layer
@@ -420,19 +601,21 @@ export default class GalaxyScene extends Phaser.Scene {
     
     // Show planned move status
     const plannedMoveText = this.plannedMove ? 
-      `PLANNED: ${s.fleets[this.plannedMove.fleetId]?.name} → ${s.galaxy[this.plannedMove.targetSystemId]?.name}` : 
+      `${s.fleets[this.plannedMove.fleetId]?.name} → ${s.galaxy[this.plannedMove.targetSystemId]?.name} (${this.plannedMove.route.length} jumps)` : 
       '';
 
     this.headerText.setText(
       [
-        `TURN ${s.turn}   PHASE: ${phase}`,
+        `TURN ${s.turn}   PHASE: ${phase}   TICK ${s.tick}   SPEED: ${s.isPaused ? 'PAUSED' : getGameSpeed().name}`,
         `Selected System: ${selSys}    Selected Fleet: ${selFleet}`,
         `Metals: T1 ${tm.T1} | T2 ${tm.T2} | T3 ${tm.T3}`,
         plannedMoveText ? `PLANNED MOVE: ${plannedMoveText}` : '',
-        `Keys: E EndTurn | Tab/Shift+Tab Fleet | F Next Fleet | Enter Confirm Move | ESC Cancel | S SystemView | B Station | D Dismantle | 1 Corvette | 2 Frigate | 3 Destroyer | ESC Menu`
+        `Keys: E EndTurn | Tab/Shift+Tab Fleet | F Next Fleet | Enter Confirm Move | ESC Cancel | S SystemView | I Intel | O Fleets | B Station | X Blockade | V Scan | G Salvage | U Suppress | Shift+Click Queue | L Loop | C Clear Queue | D Dismantle | 1/2/3 Queue Corvette/Frigate/Destroyer | Y Shipyard | Space Pause | [ ] Speed | Shift+R Verify Replay | Ctrl+S/L Quicksave/load | Ctrl+E Export | Ctrl+Shift+E Share Code | ESC Menu`
       ].filter(line => line !== '').join('\n')
     );
 
+    this.refreshOdds();
+
     // Update turn indicator on the right
     this.turnText.setText(`TURN ${s.turn}\n${phase}`);
     
@@ -444,6 +627,31 @@ export default class GalaxyScene extends Phaser.Scene {
     }
   }
 
+  /**
+   * Battle odds panel for a planned move into known enemy forces
+   */
+  private refreshOdds(): void {
+    const odds = this.plannedMove?.odds;
+    if (!this.plannedMove || !odds) {
+      this.oddsText.setVisible(false);
+      return;
+    }
+    const s = getState();
+    const pct = (p: number) => `${Math.round(p * 100)}%`;
+    const target = s.galaxy[this.plannedMove.targetSystemId]?.name ?? this.plannedMove.targetSystemId;
+
+    this.oddsText.setText([
+      `BATTLE ODDS at ${target}`,
+      `vs ${odds.enemyShips} known enemy ship${odds.enemyShips === 1 ? '' : 's'} — ${odds.confidence} confidence (±${pct(odds.uncertainty)})`,
+      `Win ${pct(odds.winChance)}   Loss ${pct(odds.lossChance)}   Draw ${pct(odds.drawChance)}`,
+      `Expected losses: ${odds.expectedLosses} ours / ${odds.expectedEnemyLosses} theirs`,
+      `Expected loot: ${describeLoot(odds.expectedLoot)}`,
+      `${odds.samples} simulated engagements   Enter commit | ESC cancel`
+    ].join('\n'));
+    this.oddsText.setColor(odds.winChance >= 0.6 ? VisualStyle.uiText : odds.lossChance >= 0.4 ? VisualStyle.uiBad : VisualStyle.uiWarn);
+    this.oddsText.setVisible(true);
+  }
+
   private refreshFleetList(): void {
     const s = getState();
     const fleets = Object.values(s.fleets)
@@ -469,6 +677,20 @@ export default class GalaxyScene extends Phaser.Scene {
         `${getFleetGlyph(f)}`;
 
       lines.push(line);
+
+      // Selected fleet: current task, cargo and order queue
+      if (isSel) {
+        const current = f.task === 'IDLE' ? 'IDLE' : describeOrder({ task: f.task, target: f.taskTarget });
+        const scanning = f.task === 'SCAN' ? s.galaxy[f.location]?.scan : undefined;
+        lines.push(`    TASK: ${current}${f.task === 'MOVE' && f.etaTicks !== undefined ? ` (hop ${f.etaTicks}t)` : ''}${scanning ? ` (${Math.floor(scanning.progress)}%)` : ''}`);
+        if (f.cargo) {
+          lines.push(`    HOLD: T1 ${Math.floor(f.cargo.T1)} | T2 ${Math.floor(f.cargo.T2)} | T3 ${Math.floor(f.cargo.T3)}`);
+        }
+        const queue = f.orders ?? [];
+        if (queue.length > 0 || f.loopOrders) {
+          lines.push(`    QUEUE${f.loopOrders ? ' (LOOP)' : ''}: ${queue.length === 0 ? '—' : queue.map((o, i) => `${i + 1}.${describeOrder(o)}`).join('  ')}`);
+        }
+      }
     }
 
     this.fleetListText.setText(lines.join('\n'));
@@ -483,7 +705,7 @@ export default class GalaxyScene extends Phaser.Scene {
     lines.push('INTEL FEED');
     lines.push('------------------------------------------');
     for (const it of last) {
-      lines.push(`[T${it.turn}] ${it.text}`);
+      lines.push(formatIntelEntry(it));
     }
     this.intelText.setText(lines.join('\n'));
   }
@@ -495,15 +717,19 @@ export default class GalaxyScene extends Phaser.Scene {
       const sys = s.galaxy[r.id];
 
       const isUnknown = sys.intel === 'UNKNOWN';
+      const isStale = sys.intel === 'STALE';
       const glyph = systemGlyph(sys);
-      const hasAst = sys.asteroids ? true : false;
+      // Asteroid details only once a scan (or fly-by) has revealed them
+      const hasAst = sys.asteroids && getRevealLevel(sys) >= 1 ? true : false;
       const isBeingMined = isSystemBeingMined(r.id);
       const miningIcon = isBeingMined ? ' ⛏️' : '';
-      const yieldInfo = sys.asteroids && sys.asteroids.yieldRemaining < 100 ? 
-        ` ${Math.floor(sys.asteroids.yieldRemaining)}%` : '';
+      const yieldInfo = hasAst && sys.asteroids!.yieldRemaining < 100 ? 
+        ` ${Math.floor(sys.asteroids!.yieldRemaining)}%` : '';
       
       // Update glyph text with all status icons
-      r.glyphText.setText(`${glyph}${hasAst ? ' ⟡' : ''}${miningIcon}${yieldInfo}`);
+      const hasWrecks = (sys.wrecks?.length ?? 0) > 0 && getRevealLevel(sys) >= 1;
+      const pressure = sys.pressure && sys.pressure.current > 0 ? `\n${pressureMeter(sys.pressure.current)}` : '';
+      r.glyphText.setText(`${glyph}${hasAst ? ' ⟡' : ''}${miningIcon}${yieldInfo}${hasWrecks ? ' ⌬' : ''}${pressure}`);
 
       // Update name text with ellipsis for long names
       r.nameText.setText(ellipsize(sys.name, 12));
@@ -513,6 +739,11 @@ export default class GalaxyScene extends Phaser.Scene {
         r.marker.setFillStyle(VisualStyle.systemUnknown, 1);
         r.nameText.setColor(VisualStyle.uiDim);
         r.glyphText.setColor(VisualStyle.uiDim);
+      } else if (isStale) {
+        // Old intel: still drawn, but faded so it isn't trusted at a glance
+        r.marker.setFillStyle(VisualStyle.systemNode, 0.5);
+        r.nameText.setColor(VisualStyle.uiText);
+        r.glyphText.setColor(VisualStyle.uiDim);
       } else {
         r.marker.setFillStyle(VisualStyle.systemNode, 1);
         r.nameText.setColor(VisualStyle.uiText);
@@ -530,9 +761,25 @@ export default class GalaxyScene extends Phaser.Scene {
     const g = this.gridLayer;
     g.clear();
 
+    // Hyperlanes first so hex outlines sit on top; hide lanes between two unknown systems
+    for (const lane of Object.values(s.lanes)) {
+      const a = s.galaxy[lane.a];
+      const b = s.galaxy[lane.b];
+      if (!a || !b || (!a.discovered && !b.discovered)) continue;
+
+      const pa = this.hexToPixel(a.coord.q, a.coord.r);
+      const pb = this.hexToPixel(b.coord.q, b.coord.r);
+      const style = getLaneStyle(lane);
+      g.lineStyle(style.width, style.stroke, style.alpha);
+      g.beginPath();
+      g.moveTo(pa.x, pa.y);
+      g.lineTo(pb.x, pb.y);
+      g.strokePath();
+    }
+
     // Use affiliation resolver for consistent colors
     const playerLocations = new Set(Object.values(s.fleets).filter(f => f.owner === 'PLAYER').map(f => f.location));
-    const enemyLocations = new Set(Object.values(s.fleets).filter(f => f.owner === 'ENEMY').map(f => f.location));
+    const enemyLocations = new Set(getVisibleFleets().filter(f => f.owner === 'ENEMY').map(f => f.location));
 
     for (const sys of Object.values(s.galaxy)) {
       const c = this.hexToPixel(sys.coord.q, sys.coord.r);
@@ -554,7 +801,7 @@ export default class GalaxyScene extends Phaser.Scene {
     const g = this.rangeLayer;
     g.clear();
 
-    // If fleet selected, show reachable ring (adjacent) - stroke only
+    // If fleet selected, show reachable ring (one lane hop) - stroke only
     if (s.selectedFleetId) {
       const f = s.fleets[s.selectedFleetId];
       const from = s.galaxy[f.location];
@@ -563,8 +810,9 @@ export default class GalaxyScene extends Phaser.Scene {
       const reachableStyle = getHighlightStyle('reachable');
       g.lineStyle(reachableStyle.width, reachableStyle.stroke, reachableStyle.alpha);
 
-      for (const other of Object.values(s.galaxy)) {
-        if (hexDistance(from.coord, other.coord) !== 1) continue;
+      for (const otherId of getNeighbors(s.lanes, from.id, f.owner)) {
+        const other = s.galaxy[otherId];
+        if (!other) continue;
         const p = this.hexToPixel(other.coord.q, other.coord.r);
         this.drawHexOutline(g, p.x, p.y, this.HEX_SIZE - 6, reachableStyle.stroke, reachableStyle.width);
       }
@@ -599,38 +847,68 @@ export default class GalaxyScene extends Phaser.Scene {
       }
     }
 
-    // Draw planned move
+    // Draw the selected fleet's active route (solid) and any planned route (dashed)
+    if (s.selectedFleetId) {
+      const fleet = s.fleets[s.selectedFleetId];
+      if (fleet?.task === 'MOVE' && fleet.route && fleet.route.length > 0) {
+        this.drawRoute(g, [fleet.location, ...fleet.route], 0x49b36d, false);
+      }
+    }
+
     if (this.plannedMove) {
       const fleet = s.fleets[this.plannedMove.fleetId];
       const targetSystem = s.galaxy[this.plannedMove.targetSystemId];
-      
+
       if (fleet && targetSystem) {
-        // Draw dashed line from fleet to target
-        const fromPos = this.hexToPixel(s.galaxy[fleet.location].coord.q, s.galaxy[fleet.location].coord.r);
+        this.drawRoute(g, [fleet.location, ...this.plannedMove.route], 0xffaa00, true);
+
+        // Highlight target system with planned move style (orange)
         const toPos = this.hexToPixel(targetSystem.coord.q, targetSystem.coord.r);
-        
-        g.lineStyle(3, 0xffaa00, 0.8); // Orange dashed line
-        g.setAlpha(0.8);
-        
+        this.drawHexOutline(g, toPos.x, toPos.y, this.HEX_SIZE + 2, 0xffaa00, 3);
+      }
+    }
+  }
+
+  private drawRoute(g: Phaser.GameObjects.Graphics, systemIds: string[], color: number, dashed: boolean): void {
+    const s = getState();
+    g.lineStyle(3, color, 0.8);
+
+    for (let hop = 1; hop < systemIds.length; hop++) {
+      const from = s.galaxy[systemIds[hop - 1]];
+      const to = s.galaxy[systemIds[hop]];
+      if (!from || !to) continue;
+
+      const fromPos = this.hexToPixel(from.coord.q, from.coord.r);
+      const toPos = this.hexToPixel(to.coord.q, to.coord.r);
+
+      if (!dashed) {
+        g.beginPath();
+        g.moveTo(fromPos.x, fromPos.y);
+        g.lineTo(toPos.x, toPos.y);
+        g.strokePath();
+      } else {
         // Draw dashed line manually
         const dx = toPos.x - fromPos.x;
         const dy = toPos.y - fromPos.y;
         const distance = Math.sqrt(dx * dx + dy * dy);
         const dashLength = 8;
         const gapLength = 4;
-        
+
         for (let i = 0; i < distance; i += dashLength + gapLength) {
           const startRatio = i / distance;
           const endRatio = Math.min((i + dashLength) / distance, 1);
-          
+
           g.beginPath();
           g.moveTo(fromPos.x + dx * startRatio, fromPos.y + dy * startRatio);
           g.lineTo(fromPos.x + dx * endRatio, fromPos.y + dy * endRatio);
           g.strokePath();
         }
-        
-        // Highlight target system with planned move style (orange)
-        this.drawHexOutline(g, toPos.x, toPos.y, this.HEX_SIZE + 2, 0xffaa00, 3);
+      }
+
+      // Waypoint dot at each intermediate stop
+      if (hop < systemIds.length - 1) {
+        g.fillStyle(color, 0.9);
+        g.fillCircle(toPos.x, toPos.y, 4);
       }
     }
   }
@@ -717,6 +995,15 @@ export default class GalaxyScene extends Phaser.Scene {
     return best;
   }
 
+  private async copyShareCode(): Promise<void> {
+    const code = await encodeShareCode();
+    if (!(await copyText(code))) {
+      // Clipboard blocked (permissions / insecure origin): let the player copy it by hand
+      window.prompt('Copy this share code:', code);
+    }
+    this.refreshAll();
+  }
+
   private selectNextPlayerFleet(): void {
     const s = getState();
     const fleets = Object.values(s.fleets)
@@ -743,6 +1030,12 @@ export default class GalaxyScene extends Phaser.Scene {
     this.refreshAll();
   }
 
+  private queueBuild(blueprint: string, systemId: string): void {
+    const result = issueCommand({ type: 'QUEUE_BUILD', blueprint, systemId });
+    if (!result.ok) console.log(`[GalaxyScene] Build failed: ${result.reason}`);
+    this.refreshAll();
+  }
+
   private openSystemView(): void {
     // Disable GalaxyScene input to prevent interference
     this.input.enabled = false;
@@ -760,6 +1053,48 @@ export default class GalaxyScene extends Phaser.Scene {
     console.log('GalaxyScene input disabled, SystemScene launched');
   }
 
+  // -----------------------------------------------------------------------------
+  // Domain events (see core/Events.ts)
+  // -----------------------------------------------------------------------------
+
+  private subscribeToEvents(): void {
+    const unsubscribe = [
+      onAnyEvent(() => { this.eventsPending = true; }),
+      onEvent('FleetArrived', e => this.onFleetArrived(e)),
+      onEvent('FleetDestroyed', e => this.pulseSystem(e.systemId, getAffiliationColor(e.owner).stroke)),
+      onEvent('PlanetCaptured', e => this.pulseSystem(e.systemId, getAffiliationColor(e.by).stroke)),
+      onEvent('PressureCollapsed', e => this.pulseSystem(e.systemId, getAffiliationColor('CONTESTED').stroke))
+    ];
+    this.events.once('shutdown', () => unsubscribe.forEach(off => off()));
+  }
+
+  private onFleetArrived(event: GameEventOf<'FleetArrived'>): void {
+    // Paused under SystemScene: sprites are re-placed when we wake up
+    if (!event.observed || !this.scene.isActive()) return;
+    this.animateFleetToSystem(event.fleetId, event.from, event.to);
+  }
+
+  /**
+   * Expanding ring over a system where something dramatic happened
+   */
+  private pulseSystem(systemId: string, color: number): void {
+    const system = getState().galaxy[systemId];
+    if (!system || !isSystemVisible(systemId) || !this.scene.isActive()) return;
+
+    const pos = this.hexToPixel(system.coord.q, system.coord.r);
+    const ring = this.add.circle(pos.x, pos.y, this.HEX_SIZE * 0.5)
+      .setStrokeStyle(3, color, 1)
+      .setFillStyle(color, 0.15);
+    this.tweens.add({
+      targets: ring,
+      scale: 2,
+      alpha: 0,
+      duration: 700,
+      ease: 'Quad.easeOut',
+      onComplete: () => ring.destroy()
+    });
+  }
+
   // -----------------------------------------------------------------------------
   // Fleet Sprite Management
   // -----------------------------------------------------------------------------
@@ -767,11 +1102,12 @@ export default class GalaxyScene extends Phaser.Scene {
   private refreshFleets(): void {
     const state = getState();
     
-    // Store previous locations for animation detection
     const currentLocations: Record<string, string> = {};
     
-    // Update or create fleet sprites
-    for (const [fleetId, fleet] of Object.entries(state.fleets)) {
+    // Update or create fleet sprites (enemies only inside sensor range)
+    const visible = getVisibleFleets();
+    for (const fleet of visible) {
+      const fleetId = fleet.id;
       currentLocations[fleetId] = fleet.location;
       
       const system = state.galaxy[fleet.location];
@@ -780,13 +1116,10 @@ export default class GalaxyScene extends Phaser.Scene {
       const pos = this.hexToPixel(system.coord.q, system.coord.r);
       
       if (this.fleetSprites[fleetId]) {
-        // Update existing sprite
+        // Update existing sprite (moves are tweened from FleetArrived events)
         const sprite = this.fleetSprites[fleetId];
-        sprite.setPosition(pos.x, pos.y);
-        
-        // Check if fleet moved and animate
-        if (this.prevFleetLocations[fleetId] && this.prevFleetLocations[fleetId] !== fleet.location) {
-          this.animateFleetToSystem(fleetId, this.prevFleetLocations[fleetId], fleet.location);
+        if (!this.tweens.isTweening(sprite)) {
+          sprite.setPosition(pos.x, pos.y);
         }
       } else {
         // Create new sprite
@@ -803,17 +1136,45 @@ export default class GalaxyScene extends Phaser.Scene {
       }
     }
     
-    // Remove sprites for fleets that no longer exist
+    // Remove sprites for fleets that no longer exist or left vision
     for (const fleetId of Object.keys(this.fleetSprites)) {
-      if (!state.fleets[fleetId]) {
+      if (!currentLocations[fleetId]) {
         this.fleetSprites[fleetId].destroy();
         delete this.fleetSprites[fleetId];
-        delete this.prevFleetLocations[fleetId];
       }
     }
-    
-    // Update previous locations
-    this.prevFleetLocations = currentLocations;
+
+    this.refreshGhosts();
+  }
+
+  /**
+   * Faded markers where enemy fleets were last seen, with the tick of the sighting
+   */
+  private refreshGhosts(): void {
+    const state = getState();
+    const ghosts = getEnemyGhosts();
+    const keep = new Set(ghosts.map(g => g.fleetId));
+
+    for (const ghost of ghosts) {
+      const system = state.galaxy[ghost.systemId];
+      if (!system) continue;
+
+      const pos = this.hexToPixel(system.coord.q, system.coord.r);
+      const label = `◌ ${ellipsize(ghost.name, 10)} t${ghost.tick}`;
+      const text = this.ghostTexts[ghost.fleetId] ?? this.add
+        .text(0, 0, '', { fontFamily: 'monospace', fontSize: '10px', color: '#ff4444' })
+        .setOrigin(0.5, 0)
+        .setAlpha(0.5);
+      text.setText(label).setPosition(pos.x, pos.y + this.HEX_SIZE * 0.45);
+      this.ghostTexts[ghost.fleetId] = text;
+    }
+
+    for (const fleetId of Object.keys(this.ghostTexts)) {
+      if (!keep.has(fleetId)) {
+        this.ghostTexts[fleetId].destroy();
+        delete this.ghostTexts[fleetId];
+      }
+    }
   }
 
   private animateFleetToSystem(fleetId: string, fromSystemId: string, toSystemId: string): void {
@@ -829,7 +1190,9 @@ export default class GalaxyScene extends Phaser.Scene {
     const fromPos = this.hexToPixel(fromSystem.coord.q, fromSystem.coord.r);
     const toPos = this.hexToPixel(toSystem.coord.q, toSystem.coord.r);
     
-    // Animate movement
+    // Animate movement (from the departure system, even if a refresh already placed it)
+    this.tweens.killTweensOf(sprite);
+    sprite.setPosition(fromPos.x, fromPos.y);
     this.tweens.add({
       targets: sprite,
       x: toPos.x,
@@ -0,0 +1,226 @@
+// src/scenes/IntelScene.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Intel Scene (full intel archive)
+//
+// Opened over GalaxyScene with I. Browses the whole run's intel log:
+// - Click a kind chip to filter by it (several can be on; none = all)
+// - TAB cycles the minimum severity
+// - Type to search, BACKSPACE to edit, wheel / arrows / PgUp / PgDn to scroll
+// - Click an entry to select its fleet or system and jump there on the map;
+//   COMBAT entries open their battle report (BattleReportScene) instead
+// -----------------------------------------------------------------------------
+
+import Phaser from 'phaser';
+import { getState, advanceSimulation, selectFleet, selectSystem } from '../core/GameState';
+import { onAnyEvent } from '../core/Events';
+import { autosaveIfDue } from '../core/SaveStorage';
+import { INTEL_KINDS, INTEL_SEVERITIES, formatIntelEntry, queryIntel } from '../core/IntelLog';
+import { VisualStyle } from '../ui/VisualStyle';
+import type { IntelEntry, IntelKind, IntelSeverity } from '../core/types';
+
+// Passed to GalaxyScene's 'wake' handler
+export type IntelFocus = { focusSystemId?: string };
+
+const LEFT = 16;
+const LIST_TOP = 112;
+const ROW_H = 20;
+
+const SEVERITY_COLOR: Record<IntelSeverity, string> = {
+  INFO: VisualStyle.uiText,
+  WARNING: VisualStyle.uiWarn,
+  CRITICAL: VisualStyle.uiBad
+};
+
+export default class IntelScene extends Phaser.Scene {
+  private kinds = new Set<IntelKind>();
+  private minSeverity: IntelSeverity = 'INFO';
+  private search = '';
+  private scroll = 0;
+
+  private matches: IntelEntry[] = [];
+  private dirty = true;
+
+  private headerText!: Phaser.GameObjects.Text;
+  private filterText!: Phaser.GameObjects.Text;
+  private chips: Partial<Record<IntelKind, Phaser.GameObjects.Text>> = {};
+  private rows: Phaser.GameObjects.Text[] = [];
+
+  constructor() {
+    super('IntelScene');
+  }
+
+  create(): void {
+    const { width, height } = this.scale;
+    // The scene object is reused between openings; filters are kept, widgets rebuilt
+    this.chips = {};
+    this.rows = [];
+    this.scroll = 0;
+    this.add.rectangle(0, 0, width, height, VisualStyle.bg, 0.94).setOrigin(0, 0);
+
+    this.headerText = this.add.text(LEFT, 12, '', { font: VisualStyle.font, color: VisualStyle.uiText });
+    this.filterText = this.add.text(LEFT, 72, '', { font: VisualStyle.smallFont, color: VisualStyle.uiDim });
+
+    let x = LEFT;
+    for (const kind of INTEL_KINDS) {
+      const chip = this.add
+        .text(x, 44, ` ${kind} `, { font: VisualStyle.smallFont, color: VisualStyle.uiDim })
+        .setInteractive({ useHandCursor: true })
+        .on('pointerdown', () => this.toggleKind(kind));
+      this.chips[kind] = chip;
+      x += chip.width + 8;
+    }
+
+    const rowCount = Math.floor((height - LIST_TOP - 16) / ROW_H);
+    for (let i = 0; i < rowCount; i++) {
+      const row = this.add
+        .text(LEFT, LIST_TOP + i * ROW_H, '', { font: VisualStyle.smallFont, color: VisualStyle.uiText })
+        .setInteractive({ useHandCursor: true })
+        .on('pointerdown', () => this.focusEntry(this.matches[this.scroll + i]))
+        .on('pointerover', () => row.setBackgroundColor('#1a2433'))
+        .on('pointerout', () => row.setBackgroundColor('transparent'));
+      this.rows.push(row);
+    }
+
+    this.setupInput();
+
+    // New intel while we're open
+    const unsubscribe = onAnyEvent(() => { this.dirty = true; });
+    this.events.once('shutdown', unsubscribe);
+
+    this.refresh();
+  }
+
+  update(_time: number, delta: number): void {
+    // GalaxyScene is paused while we're open, so the simulation is fed from here
+    const before = getState().tick;
+    advanceSimulation(delta);
+    autosaveIfDue(before);
+
+    if (this.dirty) this.refresh();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Input
+  // ---------------------------------------------------------------------------
+
+  private setupInput(): void {
+    this.input.on('wheel', (_pointer: any, _go: any, _dx: number, dy: number) => {
+      this.scrollBy(dy > 0 ? 3 : -3);
+    });
+
+    this.input.keyboard?.on('keydown', (e: KeyboardEvent) => {
+      switch (e.key) {
+        case 'Escape':
+          this.close();
+          return;
+        case 'Tab':
+          e.preventDefault();
+          this.minSeverity = INTEL_SEVERITIES[(INTEL_SEVERITIES.indexOf(this.minSeverity) + 1) % INTEL_SEVERITIES.length];
+          this.resetScroll();
+          return;
+        case 'Backspace':
+          this.search = this.search.slice(0, -1);
+          this.resetScroll();
+          return;
+        case 'ArrowDown': this.scrollBy(1); return;
+        case 'ArrowUp': this.scrollBy(-1); return;
+        case 'PageDown': this.scrollBy(this.rows.length); return;
+        case 'PageUp': this.scrollBy(-this.rows.length); return;
+        case 'Home': this.scrollBy(-this.matches.length); return;
+      }
+
+      if (e.key.length === 1 && !e.ctrlKey && !e.metaKey) {
+        this.search += e.key;
+        this.resetScroll();
+      }
+    });
+  }
+
+  private toggleKind(kind: IntelKind): void {
+    if (this.kinds.has(kind)) {
+      this.kinds.delete(kind);
+    } else {
+      this.kinds.add(kind);
+    }
+    this.resetScroll();
+  }
+
+  private scrollBy(rows: number): void {
+    const max = Math.max(0, this.matches.length - this.rows.length);
+    this.scroll = Phaser.Math.Clamp(this.scroll + rows, 0, max);
+    this.refreshRows();
+  }
+
+  private resetScroll(): void {
+    this.scroll = 0;
+    this.refresh();
+  }
+
+  /**
+   * Select what the entry is about and show it on the galaxy map
+   */
+  private focusEntry(entry: IntelEntry | undefined): void {
+    if (!entry) return;
+    if (entry.battleId) {
+      this.scene.start('BattleReportScene', { battleId: entry.battleId });
+      return;
+    }
+    const st = getState();
+    const fleet = entry.fleetId ? st.fleets[entry.fleetId] : undefined;
+
+    if (fleet && fleet.owner === 'PLAYER') {
+      selectFleet(fleet.id);
+    }
+    const focusSystemId = entry.systemId ?? fleet?.location;
+    if (focusSystemId && st.galaxy[focusSystemId]) {
+      selectSystem(focusSystemId);
+    }
+    this.close({ focusSystemId });
+  }
+
+  private close(focus: IntelFocus = {}): void {
+    this.scene.stop();
+    this.scene.wake('GalaxyScene', focus);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Rendering
+  // ---------------------------------------------------------------------------
+
+  private refresh(): void {
+    this.dirty = false;
+    const st = getState();
+    this.matches = queryIntel(st.intelLog, {
+      kinds: [...this.kinds],
+      minSeverity: this.minSeverity,
+      search: this.search
+    });
+    this.scroll = Math.min(this.scroll, Math.max(0, this.matches.length - this.rows.length));
+
+    this.headerText.setText(
+      `INTEL ARCHIVE   TURN ${st.turn}   TICK ${st.tick}   ${this.matches.length}/${st.intelLog.length} entries   ` +
+      '| Click kind to filter | TAB Severity | Type to search | Click entry to focus (COMBAT: report) | ESC Close'
+    );
+    for (const kind of INTEL_KINDS) {
+      this.chips[kind]?.setColor(this.kinds.has(kind) ? VisualStyle.uiText : VisualStyle.uiDim)
+        .setBackgroundColor(this.kinds.has(kind) ? '#1f3550' : 'transparent');
+    }
+    this.filterText.setText(
+      `KINDS: ${this.kinds.size === 0 ? 'ALL' : [...this.kinds].join(', ')}   ` +
+      `SEVERITY: ${this.minSeverity}+   SEARCH: ${this.search === '' ? '—' : `"${this.search}"`}`
+    );
+    this.refreshRows();
+  }
+
+  private refreshRows(): void {
+    this.rows.forEach((row, i) => {
+      const entry = this.matches[this.scroll + i];
+      if (!entry) {
+        row.setText('');
+        return;
+      }
+      row.setText(`${entry.severity === 'INFO' ? ' ' : '!'} ${entry.kind.padEnd(9)} ${formatIntelEntry(entry)}`);
+      row.setColor(SEVERITY_COLOR[entry.severity]);
+    });
+  }
+}
@@ -4,8 +4,15 @@
 // -----------------------------------------------------------------------------
 
 import Phaser from 'phaser';
-import { newGame, loadGame } from '../core/GameState';
+import { newGame } from '../core/GameState';
+import { deleteSlot, listSlots, loadFromSlot, type SaveSlotMeta } from '../core/SaveStorage';
+import { importSave } from '../core/SaveTransfer';
+import { GALAXY_SIZES, GALAXY_SHAPES } from '../core/GalaxyGenerator';
+import type { GalaxySize, GalaxyShape } from '../core/types';
 import { VisualStyle } from '../ui/VisualStyle';
+import { pickSaveFile, promptShareCode } from '../ui/saveFiles';
+
+const SIZE_OPTIONS = Object.keys(GALAXY_SIZES) as GalaxySize[];
 
 export default class MenuScene extends Phaser.Scene {
   private background!: Phaser.GameObjects.Graphics;
@@ -13,6 +20,20 @@ export default class MenuScene extends Phaser.Scene {
   private menuItems: Phaser.GameObjects.Text[] = [];
   private selectedIndex = 0;
 
+  // Continue: save slot picker (replaces the main menu while open)
+  private mode: 'MAIN' | 'SLOTS' = 'MAIN';
+  private slotMetas: SaveSlotMeta[] = [];
+  private slotItems: Phaser.GameObjects.Text[] = [];
+  private slotHeader?: Phaser.GameObjects.Text;
+  private slotIndex = 0;
+
+  // Why the last import was rejected (cleared on the next attempt)
+  private importErrors?: Phaser.GameObjects.Text;
+
+  // New game settings (cycled from the menu)
+  private sizeIndex = SIZE_OPTIONS.indexOf('MEDIUM');
+  private shapeIndex = 0;
+
   constructor() {
     super({ key: 'MenuScene' });
   }
@@ -72,11 +93,15 @@ export default class MenuScene extends Phaser.Scene {
   private createMenuItems(): void {
     const centerX = this.cameras.main.width / 2;
     const startY = 250;
-    const spacing = 60;
+    const spacing = 52;
 
     const menuOptions = [
       { text: 'New Game', action: () => this.startNewGame() },
+      { text: this.sizeLabel(), action: (item: Phaser.GameObjects.Text) => this.cycleSize(item) },
+      { text: this.shapeLabel(), action: (item: Phaser.GameObjects.Text) => this.cycleShape(item) },
       { text: 'Continue Game', action: () => this.continueGame() },
+      { text: 'Import Save File', action: () => this.importFromFile() },
+      { text: 'Import Share Code', action: () => this.importFromShareCode() },
       { text: 'Quit', action: () => this.quitGame() }
     ];
 
@@ -100,6 +125,11 @@ export default class MenuScene extends Phaser.Scene {
   private setupInput(): void {
     // Keyboard navigation
     this.input.keyboard?.on('keydown', (e: KeyboardEvent) => {
+      if (this.mode === 'SLOTS') {
+        this.handleSlotKey(e);
+        return;
+      }
+
       switch (e.key) {
         case 'ArrowUp':
           this.selectedIndex = Math.max(0, this.selectedIndex - 1);
@@ -149,24 +179,192 @@ export default class MenuScene extends Phaser.Scene {
   private selectCurrentItem(): void {
     const selectedItem = this.menuItems[this.selectedIndex];
     const action = selectedItem.getData('action');
-    if (action) action();
+    if (action) action(selectedItem);
+  }
+
+  private sizeLabel(): string {
+    const size = SIZE_OPTIONS[this.sizeIndex];
+    return `Galaxy Size: ${size} (${GALAXY_SIZES[size]})`;
+  }
+
+  private shapeLabel(): string {
+    return `Galaxy Shape: ${GALAXY_SHAPES[this.shapeIndex]}`;
+  }
+
+  private cycleSize(item: Phaser.GameObjects.Text): void {
+    this.sizeIndex = (this.sizeIndex + 1) % SIZE_OPTIONS.length;
+    item.setText(this.sizeLabel());
+  }
+
+  private cycleShape(item: Phaser.GameObjects.Text): void {
+    this.shapeIndex = (this.shapeIndex + 1) % GALAXY_SHAPES.length;
+    item.setText(this.shapeLabel());
   }
 
   private startNewGame(): void {
-    newGame();
+    const shape: GalaxyShape = GALAXY_SHAPES[this.shapeIndex];
+    newGame({ systemCount: GALAXY_SIZES[SIZE_OPTIONS[this.sizeIndex]], shape });
     this.scene.start('GalaxyScene');
   }
 
-  private continueGame(): void {
-    const success = loadGame();
-    if (success) {
+  private async continueGame(): Promise<void> {
+    const slots = await listSlots();
+    if (slots.length === 0) {
+      this.flashTitle('HEX FLEET - No Save Found');
+      return;
+    }
+    this.showSlotPicker(slots);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Import (save files and share codes; see SaveTransfer.ts)
+  // ---------------------------------------------------------------------------
+
+  private async importFromFile(): Promise<void> {
+    const text = await pickSaveFile();
+    if (text !== null) await this.importText(text);
+  }
+
+  private async importFromShareCode(): Promise<void> {
+    const code = promptShareCode();
+    if (code !== null) await this.importText(code);
+  }
+
+  private async importText(text: string): Promise<void> {
+    this.importErrors?.destroy();
+    this.importErrors = undefined;
+
+    const result = await importSave(text);
+    if (result.ok) {
+      this.scene.start('GalaxyScene');
+      return;
+    }
+
+    this.flashTitle('HEX FLEET - Import Failed');
+    this.importErrors = this.add.text(
+      this.cameras.main.width - 30,
+      250,
+      ['IMPORT FAILED', ...result.errors].join('\n'),
+      {
+        font: '14px monospace',
+        color: VisualStyle.uiWarn,
+        wordWrap: { width: 360 }
+      }
+    ).setOrigin(1, 0);
+  }
+
+  private flashTitle(text: string): void {
+    this.title.setText(text);
+    setTimeout(() => {
+      this.title.setText('HEX FLEET');
+    }, 2000);
+  }
+
+  // ---------------------------------------------------------------------------
+  // Save slot picker
+  // ---------------------------------------------------------------------------
+
+  private showSlotPicker(slots: SaveSlotMeta[]): void {
+    this.closeSlotPicker();
+    this.importErrors?.destroy();
+    this.importErrors = undefined;
+    this.mode = 'SLOTS';
+    this.slotMetas = slots;
+    this.slotIndex = Math.min(this.slotIndex, slots.length - 1);
+    this.menuItems.forEach(item => item.setVisible(false));
+
+    const centerX = this.cameras.main.width / 2;
+    this.slotHeader = this.add.text(centerX, 220, 'CONTINUE — Enter load · Del delete · Esc back', {
+      font: '16px monospace',
+      color: VisualStyle.uiDim
+    }).setOrigin(0.5, 0);
+
+    slots.forEach((meta, index) => {
+      const item = this.add.text(centerX, 260 + index * 56, this.slotLabel(meta), {
+        font: '18px monospace',
+        color: VisualStyle.uiText,
+        align: 'center'
+      }).setOrigin(0.5, 0).setInteractive({ useHandCursor: true });
+
+      item.on('pointerover', () => {
+        this.slotIndex = index;
+        this.updateSlotSelection();
+      });
+      item.on('pointerdown', () => {
+        this.slotIndex = index;
+        void this.loadSelectedSlot();
+      });
+      this.slotItems.push(item);
+    });
+
+    this.updateSlotSelection();
+  }
+
+  private closeSlotPicker(): void {
+    this.slotItems.forEach(item => item.destroy());
+    this.slotItems = [];
+    this.slotHeader?.destroy();
+    this.slotHeader = undefined;
+    this.mode = 'MAIN';
+    this.menuItems.forEach(item => item.setVisible(true));
+  }
+
+  private slotLabel(meta: SaveSlotMeta): string {
+    const when = meta.savedAt > 0 ? new Date(meta.savedAt).toLocaleString() : 'before save slots';
+    const victory = `${Math.round(meta.victoryProgress * 100)}% ${meta.victoryType}`;
+    return `${meta.label} — turn ${meta.turn}, tick ${meta.tick}, seed ${meta.runSeed} — ${victory}\n${meta.thumbnail} — ${when}`;
+  }
+
+  private updateSlotSelection(): void {
+    this.slotItems.forEach((item, index) => {
+      item.setColor(index === this.slotIndex ? '#ffffff' : VisualStyle.uiText);
+    });
+  }
+
+  private handleSlotKey(e: KeyboardEvent): void {
+    switch (e.key) {
+      case 'ArrowUp':
+        this.slotIndex = Math.max(0, this.slotIndex - 1);
+        this.updateSlotSelection();
+        break;
+      case 'ArrowDown':
+        this.slotIndex = Math.min(this.slotItems.length - 1, this.slotIndex + 1);
+        this.updateSlotSelection();
+        break;
+      case 'Enter':
+        void this.loadSelectedSlot();
+        break;
+      case 'Delete':
+      case 'Backspace':
+        void this.deleteSelectedSlot();
+        break;
+      case 'Escape':
+        this.closeSlotPicker();
+        this.updateSelection();
+        break;
+    }
+  }
+
+  private async loadSelectedSlot(): Promise<void> {
+    const meta = this.slotMetas[this.slotIndex];
+    if (!meta) return;
+    if (await loadFromSlot(meta.slot)) {
       this.scene.start('GalaxyScene');
     } else {
-      // Flash message or could show a "no save found" dialog
-      this.title.setText('HEX FLEET - No Save Found');
-      setTimeout(() => {
-        this.title.setText('HEX FLEET');
-      }, 2000);
+      this.flashTitle('HEX FLEET - Save Could Not Be Loaded');
+    }
+  }
+
+  private async deleteSelectedSlot(): Promise<void> {
+    const meta = this.slotMetas[this.slotIndex];
+    if (!meta) return;
+    await deleteSlot(meta.slot);
+    const slots = await listSlots();
+    if (slots.length === 0) {
+      this.closeSlotPicker();
+      this.updateSelection();
+    } else {
+      this.showSlotPicker(slots);
     }
   }
 
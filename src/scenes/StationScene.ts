@@ -1,60 +1,426 @@
 /**
  * StationScene
  *
- * The rebuild / repair hub.
+ * The rebuild / repair hub, opened over GalaxyScene with Y for the selected
+ * system's station.
  *
  * Responsibilities (GDD-aligned):
- * - Build new fleets from blueprints
- * - Repair fleets (restore integrity)
- * - Manage resources
- * - Handle "you lost all fleets" recovery
+ * - Shipyard: queue blueprints, reorder or cancel (refund) queued builds
+ * - Pick the rally fleet finished ships join
+ * - Designer (TAB): fit parts into a hull's slots and save named variants
+ * - Repair: docked fleets' condition and repair priority (see Repair.ts)
  *
- * Starter behavior:
- * - Placeholder screen with navigation
+ * Every change goes through issueCommand (QUEUE_BUILD / MOVE_BUILD /
+ * CANCEL_BUILD / SET_RALLY_FLEET / CREATE_DESIGN / DELETE_DESIGN /
+ * SET_REPAIR_PRIORITY) so it is recorded and replayable.
+ *
+ * Lane-based layout:
+ * - Left lane: blueprints (click = queue one; in the designer, start from it)
+ * - Center lane: build queue, front first ([^] [v] move, [x] cancel)
+ *   or the designer's hull and slots ([+part] fit, [-part] remove)
+ * - Right lane: fleets at the station (click = make it the rally fleet,
+ *   [rep] cycles repair priority) or the design preview, name and saved designs
  */
 
 import Phaser from 'phaser';
+import { getState, advanceSimulation, getBlueprints, TICKS_PER_SECOND } from '../core/GameState';
+import { issueCommand } from '../core/Commands';
+import { onAnyEvent } from '../core/Events';
+import { autosaveIfDue } from '../core/SaveStorage';
+import { buildRefund, getRallyFleet, getShipyard, MAX_BUILD_QUEUE } from '../core/Shipyard';
+import { getRepairPriority, REPAIR_PRIORITIES } from '../core/Repair';
+import { checkDesign, countSlots, designStats, getHull, getHulls, getParts, hullUnlocked, MAX_DESIGNS, MAX_DESIGN_NAME, PART_KINDS } from '../core/ShipDesign';
+import { describeLoadout } from '../core/Weapons';
+import { VisualStyle } from '../ui/VisualStyle';
+import type { ActionResult, Blueprint, BuildOrder, ShipType, TieredMetals } from '../core/types';
+
+const LEFT_X = 16;
+const CENTER_X = 420;
+const RIGHT_X = 900;
+const TOP = 84;
+const ROW_H = 22;
 
 export default class StationScene extends Phaser.Scene {
+  private systemId = '';
+  private status = '';
+
+  // Designer draft (kept between openings)
+  private designing = false;
+  private draftHull: ShipType = 'CORVETTE';
+  private draftParts: string[] = [];
+  private draftName = '';
+
+  private widgets: Phaser.GameObjects.GameObject[] = [];
+  // Rewritten every tick without rebuilding the layout
+  private metalsText?: Phaser.GameObjects.Text;
+  private queueRows: Phaser.GameObjects.Text[] = [];
+  private dirty = true;
+  private lastTick = -1;
+
   constructor() {
     super('StationScene');
   }
 
+  init(data: { systemId?: string }): void {
+    this.systemId = data.systemId ?? getState().selectedSystemId ?? '';
+  }
+
   create(): void {
     const { width, height } = this.scale;
+    this.add.rectangle(0, 0, width, height, VisualStyle.bg, 0.94).setOrigin(0, 0);
 
-    this.add.text(16, 14, 'HexFleet — Station', {
-      fontFamily: 'monospace',
-      fontSize: '20px',
-      color: '#d9e2ef'
-    });
+    this.widgets = [];
+    this.status = '';
+    this.lastTick = -1;
+
+    this.input.keyboard?.on('keydown', (e: KeyboardEvent) => this.onKey(e));
+
+    const unsubscribe = onAnyEvent(() => { this.dirty = true; });
+    this.events.once('shutdown', unsubscribe);
+
+    this.render();
+  }
+
+  update(_time: number, delta: number): void {
+    // GalaxyScene is paused while we're open, so the simulation is fed from here
+    const before = getState().tick;
+    advanceSimulation(delta);
+    autosaveIfDue(before);
+
+    // Layout only changes on events / input; progress bars move every tick
+    if (this.dirty) this.render();
+    else if (getState().tick !== this.lastTick) this.refreshProgress();
+  }
+
+  private onKey(e: KeyboardEvent): void {
+    if (e.key === 'Escape') {
+      if (!this.designing) return this.close();
+      this.designing = false;
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      this.designing = !this.designing;
+    } else if (!this.designing) {
+      return;
+    } else if (e.key === 'Enter') {
+      return this.saveDesign();
+    } else if (e.key === 'Backspace') {
+      this.draftName = this.draftName.slice(0, -1);
+    } else if (e.key.length === 1 && !e.ctrlKey && !e.metaKey && this.draftName.length < MAX_DESIGN_NAME) {
+      this.draftName += e.key;
+    } else {
+      return;
+    }
+    this.render();
+  }
+
+  private saveDesign(): void {
+    const result = issueCommand({ type: 'CREATE_DESIGN', name: this.draftName, hull: this.draftHull, parts: this.draftParts });
+    if (result.ok) this.draftName = '';
+    this.run(result);
+  }
+
+  private loadDraft(bp: Blueprint): void {
+    this.draftHull = bp.shipType;
+    this.draftParts = bp.parts.slice();
+    this.status = `Designing from ${bp.name}`;
+    this.render();
+  }
+
+  private cycleHull(step: number): void {
+    const hulls = getHulls();
+    const at = hulls.findIndex(h => h.type === this.draftHull);
+    this.draftHull = hulls[(at + step + hulls.length) % hulls.length].type;
+    this.draftParts = [];
+    this.render();
+  }
+
+  private run(result: ActionResult): void {
+    this.status = result.ok ? (result.intel ?? '') : `FAILED: ${result.reason}`;
+    this.render();
+  }
+
+  private close(): void {
+    this.scene.stop();
+    this.scene.wake('GalaxyScene');
+  }
+
+  // ---------------------------------------------------------------------------
+  // Rendering
+  // ---------------------------------------------------------------------------
+
+  private render(): void {
+    this.dirty = false;
+    this.widgets.forEach(w => w.destroy());
+    this.widgets = [];
+    this.metalsText = undefined;
+    this.queueRows = [];
+
+    const st = getState();
+    this.lastTick = st.tick;
+    const sys = st.galaxy[this.systemId];
+    const yard = getShipyard(sys);
+    const tm = st.resources.tieredMetals;
+
+    this.text(LEFT_X, 14, `HexFleet — Station${sys?.station ? `: ${sys.station.name}` : ''}`, VisualStyle.uiText, VisualStyle.font);
+    this.metalsText = this.label(LEFT_X, 38, this.headerLine(tm));
+
+    if (!sys || !yard) {
+      this.text(LEFT_X, TOP, `No working player station at ${sys?.name ?? 'this system'}. Select a system with one and press Y.`, VisualStyle.uiWarn);
+      return;
+    }
+
+    this.renderBlueprints(tm);
+    if (this.designing) {
+      this.renderDesigner();
+      this.renderPreview();
+    } else {
+      this.renderQueue(yard.queue);
+      this.renderRally();
+    }
+
+    const { height } = this.scale;
+    this.text(LEFT_X, height - 30, this.status, this.status.startsWith('FAILED') ? VisualStyle.uiBad : VisualStyle.uiText);
+  }
+
+  private renderBlueprints(tm: TieredMetals): void {
+    const st = getState();
+    let y = TOP;
+    this.text(LEFT_X, y, 'BLUEPRINTS', VisualStyle.uiText);
+    y += ROW_H;
 
-    this.add.text(16, 44, 'Placeholder station UI. Next: blueprint build + repair + resource display.', {
-      fontFamily: 'monospace',
-      fontSize: '14px',
-      color: '#9fb3c8'
+    for (const bp of getBlueprints()) {
+      const locked = !hullUnlocked(st, bp.shipType);
+      const affordable = (bp.cost.T1 ?? 0) <= tm.T1 && (bp.cost.T2 ?? 0) <= tm.T2 && (bp.cost.T3 ?? 0) <= tm.T3;
+      const label = `${bp.custom ? '*' : ' '}${bp.name.padEnd(MAX_DESIGN_NAME)} ${describeCost(bp.cost)} ${seconds(bp.buildTicks)}${locked ? ' LOCKED' : ''}`;
+      const color = locked ? VisualStyle.uiDim : affordable ? VisualStyle.combatText : VisualStyle.uiWarn;
+      if (this.designing) {
+        this.button(LEFT_X, y, label, color, () => this.loadDraft(bp));
+      } else if (locked) {
+        this.text(LEFT_X, y, label, color);
+      } else {
+        this.button(LEFT_X, y, label, color, () => this.run(issueCommand({ type: 'QUEUE_BUILD', systemId: this.systemId, blueprint: bp.key })));
+      }
+      y += ROW_H;
+    }
+  }
+
+  private renderQueue(queue: BuildOrder[]): void {
+    let y = TOP;
+    this.text(CENTER_X, y, `BUILD QUEUE (${queue.length}/${MAX_BUILD_QUEUE})`, VisualStyle.uiText);
+    y += ROW_H;
+    if (queue.length === 0) {
+      this.text(CENTER_X, y, '(idle)', VisualStyle.uiDim);
+      return;
+    }
+
+    // ETA accumulates down the queue: each order waits for the ones ahead
+    let waitTicks = 0;
+    queue.forEach((order, i) => {
+      waitTicks += order.buildTicks - order.progressTicks;
+      this.queueRows.push(this.label(CENTER_X, y, queueLine(order, i, waitTicks), i === 0 ? VisualStyle.uiText : VisualStyle.uiDim));
+
+      const controls = CENTER_X + 360;
+      this.button(controls, y, '[^]', VisualStyle.combatText,
+        () => this.run(issueCommand({ type: 'MOVE_BUILD', systemId: this.systemId, orderId: order.id, toIndex: i - 1 })));
+      this.button(controls + 34, y, '[v]', VisualStyle.combatText,
+        () => this.run(issueCommand({ type: 'MOVE_BUILD', systemId: this.systemId, orderId: order.id, toIndex: i + 1 })));
+      this.button(controls + 68, y, `[x] ${describeCost(buildRefund(order))}`, VisualStyle.uiWarn,
+        () => this.run(issueCommand({ type: 'CANCEL_BUILD', systemId: this.systemId, orderId: order.id })));
+      y += ROW_H;
     });
+  }
+
+  private renderRally(): void {
+    const st = getState();
+    const sys = st.galaxy[this.systemId];
+    const rally = getRallyFleet(sys);
+    let y = TOP;
+    this.text(RIGHT_X, y, 'RALLY FLEET', VisualStyle.uiText);
+    y += ROW_H;
+    this.text(RIGHT_X, y, rally ? `${rally.name} [${rally.ships.length} ships]` : '(next ship founds a new fleet)', VisualStyle.uiDim);
+    y += ROW_H * 2;
+
+    this.text(RIGHT_X, y, 'FLEETS HERE (click = rally, [rep] = repair priority)', VisualStyle.uiText);
+    y += ROW_H;
+    const docked = Object.values(st.fleets)
+      .filter(f => f.owner === 'PLAYER' && f.maxMoves > 0 && f.location === this.systemId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    for (const fleet of docked) {
+      const isRally = fleet.id === rally?.id;
+      this.button(RIGHT_X, y, `${isRally ? '>' : ' '} ${fleet.name} [${fleet.ships.length}] ${fleet.task}`,
+        isRally ? VisualStyle.uiText : VisualStyle.combatText,
+        () => this.run(issueCommand({ type: 'SET_RALLY_FLEET', systemId: this.systemId, fleetId: fleet.id })));
+      y += ROW_H;
+
+      const priority = getRepairPriority(fleet);
+      const next = REPAIR_PRIORITIES[(REPAIR_PRIORITIES.indexOf(priority) + 1) % REPAIR_PRIORITIES.length];
+      const x = this.text(RIGHT_X + 16, y, `INT ${fleet.integrity}%  MOR ${fleet.morale}%`,
+        fleet.integrity < 100 ? VisualStyle.uiWarn : VisualStyle.uiDim);
+      this.button(x, y, `[rep ${priority}]`, priority === 'OFF' ? VisualStyle.uiDim : VisualStyle.combatText,
+        () => this.run(issueCommand({ type: 'SET_REPAIR_PRIORITY', fleetId: fleet.id, priority: next })));
+      y += ROW_H;
+    }
+  }
 
-    // Back button
-    const back = this.add.rectangle(16, height - 52, 220, 34, 0x111827, 0.95)
-      .setOrigin(0, 0)
-      .setStrokeStyle(2, 0x2b394a)
-      .setInteractive({ useHandCursor: true });
+  private renderDesigner(): void {
+    const hull = getHull(this.draftHull);
+    if (!hull) return;
+    const locked = !hullUnlocked(getState(), hull.type);
+    const used = countSlots(this.draftParts);
+    let y = TOP;
 
-    this.add.text(28, height - 44, 'Back to Galaxy', {
-      fontFamily: 'monospace',
-      fontSize: '14px',
-      color: '#d9e2ef'
+    this.text(CENTER_X, y, 'DESIGNER', VisualStyle.uiText);
+    y += ROW_H;
+    let x = this.button(CENTER_X, y, '[<]', VisualStyle.combatText, () => this.cycleHull(-1));
+    x = this.text(x, y, `${hull.name} hull${locked ? ' (LOCKED)' : ''}`, locked ? VisualStyle.uiWarn : VisualStyle.uiText);
+    this.button(x, y, '[>]', VisualStyle.combatText, () => this.cycleHull(1));
+    y += ROW_H;
+    this.text(CENTER_X, y, `Base FP ${hull.firepower} TG ${hull.toughness} ${describeCost(hull.cost)}`);
+    y += ROW_H + 6;
+
+    for (const kind of PART_KINDS) {
+      const slots = hull.slots[kind] ?? 0;
+      if (slots === 0) continue;
+      this.text(CENTER_X, y, `${kind} ${used[kind] ?? 0}/${slots}`, VisualStyle.uiText);
+      y += ROW_H;
+
+      // Fitted parts of this kind (click = remove), wrapping before the right lane
+      x = CENTER_X + 12;
+      this.draftParts.forEach((key, i) => {
+        const part = getParts().find(p => p.key === key);
+        if (part?.kind !== kind) return;
+        if (x > RIGHT_X - 120) {
+          x = CENTER_X + 12;
+          y += ROW_H;
+        }
+        x = this.button(x, y, `[-${part.name}]`, VisualStyle.uiWarn, () => {
+          this.draftParts.splice(i, 1);
+          this.render();
+        });
+      });
+      if (x === CENTER_X + 12) this.text(x, y, '(empty)');
+      y += ROW_H;
+
+      // Parts that fit here (click = add)
+      x = CENTER_X + 12;
+      const full = (used[kind] ?? 0) >= slots;
+      for (const part of getParts().filter(p => p.kind === kind)) {
+        x = this.button(x, y, `[+${part.name}]`, full ? VisualStyle.uiDim : VisualStyle.combatText, () => {
+          if (full) return;
+          this.draftParts.push(part.key);
+          this.render();
+        });
+      }
+      y += ROW_H + 4;
+    }
+  }
+
+  private renderPreview(): void {
+    const st = getState();
+    const stats = designStats(this.draftHull, this.draftParts);
+    const problem = checkDesign(this.draftHull, this.draftParts);
+    let y = TOP;
+
+    this.text(RIGHT_X, y, 'PREVIEW', VisualStyle.uiText);
+    y += ROW_H;
+    const lines = [
+      `Firepower ${stats.firepower}   Toughness ${stats.toughness}`,
+      `Loadout ${describeLoadout(stats.loadout)}`,
+      `Troops ${Math.floor(stats.groundTroopCapacity / 2)}/${stats.groundTroopCapacity}   Sensors +${stats.sensors}`,
+      `Mining ${stats.miningTier ?? '—'}   Repair bays ${stats.repairBays}`,
+      `Cost ${describeCost(stats.cost)}   Build ${seconds(stats.buildTicks)}`
+    ];
+    for (const line of lines) {
+      this.text(RIGHT_X, y, line);
+      y += ROW_H;
+    }
+    if (problem) {
+      this.text(RIGHT_X, y, problem, VisualStyle.uiBad);
+    }
+    y += ROW_H * 2;
+
+    this.text(RIGHT_X, y, `Name: ${this.draftName}_`, VisualStyle.uiText);
+    y += ROW_H;
+    this.button(RIGHT_X, y, '[Save design]', problem ? VisualStyle.uiDim : VisualStyle.combatText, () => this.saveDesign());
+    y += ROW_H * 2;
+
+    this.text(RIGHT_X, y, `YOUR DESIGNS (${st.designs.length}/${MAX_DESIGNS})`, VisualStyle.uiText);
+    y += ROW_H;
+    for (const design of st.designs) {
+      const x = this.text(RIGHT_X, y, `${design.name} (${getHull(design.hull)?.name ?? design.hull})`, VisualStyle.uiDim);
+      this.button(x, y, '[x]', VisualStyle.uiWarn, () => this.run(issueCommand({ type: 'DELETE_DESIGN', designKey: design.key })));
+      y += ROW_H;
+    }
+  }
+
+  /**
+   * Per tick: metals and queue progress in place; anything that would move
+   * the layout waits for the next render()
+   */
+  private refreshProgress(): void {
+    const st = getState();
+    this.lastTick = st.tick;
+    this.metalsText?.setText(this.headerLine(st.resources.tieredMetals));
+    if (this.designing) return;
+
+    const queue = getShipyard(st.galaxy[this.systemId])?.queue ?? [];
+    if (queue.length !== this.queueRows.length) {
+      this.render();
+      return;
+    }
+
+    let waitTicks = 0;
+    queue.forEach((order, i) => {
+      waitTicks += order.buildTicks - order.progressTicks;
+      this.queueRows[i].setText(queueLine(order, i, waitTicks));
     });
+  }
 
-    back.on('pointerdown', () => this.scene.start('GalaxyScene'));
+  private headerLine(tm: TieredMetals): string {
+    return this.designing
+      ? `Metals: T1 ${tm.T1} | T2 ${tm.T2} | T3 ${tm.T3}   |   Click blueprint to start from it | Type a name | ENTER Save | TAB / ESC Back to queue`
+      : `Metals: T1 ${tm.T1} | T2 ${tm.T2} | T3 ${tm.T3}   |   Click blueprint to queue | [^]/[v] reorder | [x] cancel + refund | TAB Designer | ESC Close`;
+  }
+
+  /**
+   * @returns x just past the text, for laying out a row
+   */
+  private text(x: number, y: number, text: string, color: string = VisualStyle.uiDim, font: string = VisualStyle.smallFont): number {
+    const widget = this.label(x, y, text, color, font);
+    return x + widget.width + 8;
+  }
+
+  private label(x: number, y: number, text: string, color: string = VisualStyle.uiDim, font: string = VisualStyle.smallFont): Phaser.GameObjects.Text {
+    const widget = this.add.text(x, y, text, { font, color });
+    this.widgets.push(widget);
+    return widget;
+  }
 
-    // Placeholder panel
-    this.add.rectangle(width / 2, height / 2, 640, 280, 0x111827, 0.7).setStrokeStyle(2, 0x2b394a);
-    this.add.text(width / 2, height / 2, 'Blueprint build / repair UI goes here', {
-      fontFamily: 'monospace',
-      fontSize: '16px',
-      color: '#d9e2ef'
-    }).setOrigin(0.5);
+  private button(x: number, y: number, text: string, color: string, onClick: () => void): number {
+    const widget = this.add
+      .text(x, y, text, { font: VisualStyle.smallFont, color })
+      .setInteractive({ useHandCursor: true })
+      .on('pointerdown', onClick);
+    this.widgets.push(widget);
+    return x + widget.width + 8;
   }
 }
+
+function describeCost(cost: Partial<TieredMetals>): string {
+  return `[T1:${cost.T1 ?? 0} T2:${cost.T2 ?? 0} T3:${cost.T3 ?? 0}]`;
+}
+
+function seconds(ticks: number): string {
+  return `${(ticks / TICKS_PER_SECOND).toFixed(1)}s`;
+}
+
+function queueLine(order: BuildOrder, index: number, waitTicks: number): string {
+  const name = getBlueprints().find(b => b.key === order.blueprint)?.name ?? order.blueprint;
+  const pct = Math.floor((order.progressTicks / order.buildTicks) * 100);
+  return `${String(index + 1).padStart(2)}. ${name.padEnd(11)} ${progressBar(pct, 10)} ${String(pct).padStart(3)}%  ${seconds(waitTicks)}`;
+}
+
+function progressBar(pct: number, width: number): string {
+  const filled = Math.round((pct / 100) * width);
+  return `[${'#'.repeat(filled)}${'.'.repeat(width - filled)}]`;
+}
@@ -8,15 +8,22 @@
 // -----------------------------------------------------------------------------
 
 import Phaser from 'phaser';
-import { getState, mineAsteroid, isSystemBeingMined, invadePlanet, reinforcePlanet, getPlanetController, selectSystemObject, getSelectedSystemObject, mineSelectedObject, invadeSelectedObject, reinforceSelectedObject, listSystemObjects, createPlanet, setFleetAnchor, moveFleetInSystem, mineAtFleetPosition } from '../core/GameState';
-import { startInvasion, getOngoingInvasions } from '../core/Invasion';
-import { reinforcePlanet as reinforcePlanetLegacy, getReinforcementCapacity } from '../core/Reinforcement';
+import { getState, advanceSimulation, isSystemBeingMined, getPlanetController, selectSystemObject, getSelectedSystemObject, listSystemObjects, setFleetAnchor } from '../core/GameState';
+import { issueCommand } from '../core/Commands';
+import { onEvent } from '../core/Events';
+import { autosaveIfDue } from '../core/SaveStorage';
+import { getOngoingInvasions } from '../core/Invasion';
+import { getReinforcementCapacity } from '../core/Reinforcement';
 import { getAsteroidHex, isAsteroidHex } from '../core/systemLayout';
+import { getRevealLevel } from '../core/Scanning';
+import { isFleetVisible, isSystemVisible } from '../core/Visibility';
+import { getPressureLevel } from '../core/Pressure';
 import { hexToPixel, pixelToHexRounded } from '../utils/hex';
 import { VisualStyle } from '../ui/VisualStyle';
 import { getAffiliationColor, getHighlightStyle, getStationAffiliation, getPlanetAffiliation } from '../ui/colors';
-import { createFleetIcon, createPulseAnimation, createFadeAnimation } from '../ui/IconFactory';
-import type { Fleet } from '../core/types';
+import { createFleetIcon, createFadeAnimation } from '../ui/IconFactory';
+import { pressureMeter } from '../ui/IconKit';
+import type { Fleet, GameEventOf, MetalTier } from '../core/types';
 
 // -----------------------------------------------------------------------------
 // Safe formatting helper to prevent crashes
@@ -33,7 +40,7 @@ type StationState = 'FRIENDLY' | 'ENEMY' | 'DERELICT';
 
 type SystemObject = {
   id: string;
-  type: 'planet' | 'asteroid' | 'station' | 'anomaly';
+  type: 'planet' | 'asteroid' | 'station' | 'anomaly' | 'wreck';
   coord: { q: number; r: number };
   name: string;
 
@@ -179,7 +186,7 @@ export default class SystemScene extends Phaser.Scene {
     clickCatcher.on('pointerdown', (p: Phaser.Input.Pointer) => {
       // Convert to world coordinates and route to existing handler
       const worldPos = p.positionToCamera(this.cameras.main) as Phaser.Math.Vector2;
-      this.onSystemPointerDown(worldPos.x, worldPos.y);
+      this.onSystemPointerDown(worldPos.x, worldPos.y, (p.event as MouseEvent | undefined)?.shiftKey ?? false);
     });
 
     clickCatcher.on('pointermove', (p: Phaser.Input.Pointer) => {
@@ -196,6 +203,9 @@ export default class SystemScene extends Phaser.Scene {
     // Input handling
     this.setupInput();
 
+    // Feedback for what the simulation does while we're open
+    this.subscribeToEvents();
+
     // Initial render
     this.refresh();
     
@@ -267,77 +277,50 @@ export default class SystemScene extends Phaser.Scene {
     const system = state.galaxy[systemId];
     if (!system) return;
 
-    // Use system seed for deterministic RNG
+    // Contents are generated with the galaxy; this only lays them out.
+    // Use system seed for deterministic anomaly names.
     const rng = this.createSeededRNG(system.seed);
 
-    // Generate system objects based on system type and tier
-    const objectCount = 3 + system.tier + Math.floor(rng() * 3);
-
-    for (let i = 0; i < objectCount; i++) {
-      const coord = this.generateRandomCoord(rng);
-      const type = this.selectObjectType(rng, system.type);
-
-      // Determine if enemies are in this system (for enemy station coloring)
-      const enemyInSystem = Object.values(state.fleets).some(
-        f => f.owner === 'ENEMY' && f.location === systemId
-      );
-
-      // Station state rules (deterministic via rng):
-      // - 35% chance station is DERELICT (raidable)
-      // - otherwise, if enemy present: 50% ENEMY / 50% FRIENDLY
-      // - otherwise: FRIENDLY
-      let stationState: StationState | undefined = undefined;
-      if (type === 'station') {
-        const roll = rng();
-        if (roll < 0.35) stationState = 'DERELICT';
-        else if (enemyInSystem && rng() < 0.5) stationState = 'ENEMY';
-        else stationState = 'FRIENDLY';
-      }
-
+    for (const ref of listSystemObjects(systemId)) {
+      const key = ref.objectId.split(':')[2];
       const obj: SystemObject = {
-        id: `${system.id}-${i}`,
-        objectId: `${systemId}:${type}:${i}`, // Core object ID for selection
-        type,
-        coord,
-        name: this.generateObjectName(type, i, rng, systemId),
-        stationState,
+        id: ref.type === 'asteroid' ? `${system.id}-asteroid` : key,
+        objectId: ref.objectId,
+        type: ref.type,
+        coord: ref.coord,
+        name: '',
         marker: null as any,
         label: null as any,
         icon: null as any
       };
 
-      // Add planet control information for planets
-      if (type === 'planet') {
-        const controller = this.determinePlanetController(systemId, enemyInSystem, rng);
-        obj.planetController = controller;
-        obj.planetTroops = controller === 'NEUTRAL' ? 0 : Math.floor(rng() * 50) + 20;
-        obj.planetDefenses = Math.floor(rng() * 40) + 20;
-        
-        // Create the actual planet in core GameState
-        createPlanet(systemId, obj.id, controller);
+      switch (ref.type) {
+        case 'asteroid':
+          obj.name = `${system.name} Asteroid Field`;
+          break;
+        case 'station':
+          obj.name = system.station!.name;
+          obj.stationState = system.station!.state;
+          break;
+        case 'planet': {
+          const planet = system.planets![key];
+          obj.name = planet.name ?? key;
+          obj.planetController = planet.defense.control;
+          obj.planetTroops = planet.defense.garrison;
+          obj.planetDefenses = planet.defense.fortification;
+          break;
+        }
+        case 'anomaly':
+          obj.name = this.generateObjectName('anomaly', Number(key), rng, systemId);
+          break;
+        case 'wreck':
+          obj.name = system.wrecks?.find(w => w.id === key)?.name ?? 'Wreck';
+          break;
       }
 
       this.systemObjects.push(obj);
     }
 
-    // Add deterministic asteroid if system has asteroids
-    if (system.asteroids) {
-      const asteroidHex = getAsteroidHex(system);
-      if (asteroidHex) {
-        const asteroidObj: SystemObject = {
-          id: `${system.id}-asteroid`,
-          objectId: `${systemId}:asteroid:0`,
-          type: 'asteroid',
-          coord: asteroidHex,
-          name: `${system.name} Asteroid Field`,
-          marker: null as any,
-          label: null as any,
-          icon: null as any
-        };
-        this.systemObjects.push(asteroidObj);
-      }
-    }
-
     // Create visual representations
     this.createSystemVisuals();
   }
@@ -350,61 +333,6 @@ export default class SystemScene extends Phaser.Scene {
     };
   }
 
-  private generateRandomCoord(rng: () => number): { q: number; r: number } {
-    const maxRadius = 4;
-    let q: number, r: number;
-
-    do {
-      q = Math.floor(rng() * (maxRadius * 2 + 1)) - maxRadius;
-      r = Math.floor(rng() * (maxRadius * 2 + 1)) - maxRadius;
-    } while (Math.abs(q) > maxRadius || Math.abs(r) > maxRadius || Math.abs(q + r) > maxRadius);
-
-    return { q, r };
-  }
-
-  private determinePlanetController(systemId: string, enemyInSystem: boolean, rng: () => number): 'PLAYER' | 'ENEMY' | 'NEUTRAL' | 'CONTESTED' {
-    const state = getState();
-    const system = state.galaxy[systemId];
-    
-    // Check if player has station in system
-    const hasPlayerStation = system?.station?.owner === 'PLAYER';
-    
-    // Check if enemy fleets are present
-    const hasEnemyFleets = enemyInSystem;
-    
-    if (hasPlayerStation && !hasEnemyFleets) {
-      return 'PLAYER';
-    } else if (hasEnemyFleets && !hasPlayerStation) {
-      return 'ENEMY';
-    } else if (hasPlayerStation && hasEnemyFleets) {
-      return 'CONTESTED';
-    } else {
-      // Neutral planets
-      return 'NEUTRAL';
-    }
-  }
-
-  private selectObjectType(
-    rng: () => number,
-    systemType: string
-  ): 'planet' | 'asteroid' | 'station' | 'anomaly' {
-    const roll = rng();
-
-    if (systemType === 'RUIN') {
-      if (roll < 0.3) return 'anomaly';
-      if (roll < 0.6) return 'station';
-      return 'planet';
-    } else if (systemType === 'NEBULA') {
-      if (roll < 0.2) return 'anomaly';
-      if (roll < 0.4) return 'asteroid';
-      return 'planet';
-    } else {
-      if (roll < 0.2) return 'asteroid';
-      if (roll < 0.3) return 'station';
-      return 'planet';
-    }
-  }
-
   private generateObjectName(
     type: 'planet' | 'asteroid' | 'station' | 'anomaly',
     index: number,
@@ -517,6 +445,7 @@ export default class SystemScene extends Phaser.Scene {
       case 'asteroid': return '⟡';
       case 'station': return '⌂';
       case 'anomaly': return '✦';
+      case 'wreck': return '⌬';
       default: return '?';
     }
   }
@@ -567,6 +496,10 @@ export default class SystemScene extends Phaser.Scene {
           affiliationColors = { fill: 0xff44ff, stroke: 0xff44ff }; // Magenta for anomalies
           size = 7;
           break;
+        case 'wreck':
+          affiliationColors = getAffiliationColor('DERELICT'); // Hollow gray, like derelict stations
+          size = 5;
+          break;
         default:
           affiliationColors = { fill: 0x4a4f5a, stroke: 0x4a4f5a }; // Gray fallback
           size = 6;
@@ -636,6 +569,8 @@ export default class SystemScene extends Phaser.Scene {
         if (system?.asteroids && system.asteroids.yieldRemaining !== undefined && system.asteroids.yieldRemaining <= 0) {
           iconText = '💀'; // Skull for depleted
         }
+      } else if (obj.type === 'wreck') {
+        iconText = this.wreckIconText(obj.id);
       }
 
       obj.icon = this.add
@@ -655,6 +590,45 @@ export default class SystemScene extends Phaser.Scene {
     }
   }
 
+  private wreckIconText(wreckId: string): string {
+    const system = getState().galaxy[getState().selectedSystemId ?? ''];
+    const wreck = system?.wrecks?.find(w => w.id === wreckId);
+    const salvaging = Object.values(getState().fleets).some(f => f.location === system?.id && f.task === 'SALVAGE');
+    return `${this.objectIcon('wreck')} ${wreck ? `${fmt(wreck.scrapRemaining)}%` : '💀'}${salvaging ? ' 🔧' : ''}`;
+  }
+
+  /**
+   * Wrecks appear (combat) and vanish (stripped) while the view is open:
+   * rebuild the object visuals when the set changes, otherwise update scrap %.
+   */
+  private syncWrecks(): void {
+    const state = getState();
+    const system = state.selectedSystemId ? state.galaxy[state.selectedSystemId] : null;
+    if (!system) return;
+
+    const live = (system.wrecks ?? []).map(w => w.id).join(',');
+    const shown = this.systemObjects.filter(o => o.type === 'wreck').map(o => o.id).join(',');
+    if (live !== shown) {
+      this.destroyObjectVisuals();
+      this.generateSystemContents();
+      return;
+    }
+
+    for (const obj of this.systemObjects) {
+      if (obj.type === 'wreck') obj.icon.setText(this.wreckIconText(obj.id));
+    }
+  }
+
+  private destroyObjectVisuals(): void {
+    for (const obj of this.systemObjects) {
+      (obj.marker as any)?.strokeGraphics?.destroy();
+      obj.marker?.destroy();
+      obj.label?.destroy();
+      obj.icon?.destroy();
+    }
+    this.systemObjects = [];
+  }
+
   private hexToPixel(q: number, r: number, centerX: number, centerY: number): { x: number; y: number } {
     return hexToPixel({ q, r }, this.HEX_SIZE, centerX, centerY);
   }
@@ -749,6 +723,66 @@ export default class SystemScene extends Phaser.Scene {
     });
   }
 
+  // ---------------------------------------------------------------------------
+  // Domain events (see core/Events.ts), for this system only
+  // ---------------------------------------------------------------------------
+
+  private subscribeToEvents(): void {
+    const here = (systemId: string) => systemId === getState().selectedSystemId;
+    const unsubscribe = [
+      onEvent('ResourcesGained', e => {
+        if (here(e.systemId)) this.showResourcesGained(e);
+      }),
+      onEvent('InvasionTick', e => {
+        if (here(e.systemId)) this.pulsePlanetMarker(e.planetId);
+      }),
+      onEvent('PlanetCaptured', e => {
+        if (here(e.systemId)) this.showPlanetEvent(e.planetId, `CAPTURED BY ${e.by}`, getAffiliationColor(e.by).stroke);
+      }),
+      onEvent('InvasionRepelled', e => {
+        if (here(e.systemId)) this.showPlanetEvent(e.planetId, 'INVASION REPELLED', getHighlightStyle('reachable').stroke);
+      }),
+      onEvent('ShipDestroyed', e => {
+        if (!here(e.systemId)) return;
+        const center = this.eventAnchor(null);
+        this.showFloatingText(center.x, center.y, `${e.fleetName}: ${e.shipType} LOST`, getAffiliationColor('ENEMY').stroke);
+      })
+    ];
+    this.events.once('shutdown', () => unsubscribe.forEach(off => off()));
+  }
+
+  private showResourcesGained(event: GameEventOf<'ResourcesGained'>): void {
+    const parts = (['T1', 'T2', 'T3'] as MetalTier[])
+      .filter(tier => event.metals[tier])
+      .map(tier => `+${Math.floor(event.metals[tier] ?? 0)} ${tier}`);
+    if (event.alloys) parts.push(`+${event.alloys} ALLOYS`);
+    if (event.crystals) parts.push(`+${event.crystals} CRYSTALS`);
+    if (parts.length === 0) return;
+
+    const anchor = this.eventAnchor(
+      event.source === 'DELIVERY' ? 'station'
+        : event.source === 'SALVAGE' ? 'wreck'
+        : 'asteroid'
+    );
+    this.showFloatingText(anchor.x, anchor.y - 20, parts.join(' '), getHighlightStyle('reachable').stroke);
+  }
+
+  private showPlanetEvent(planetId: string, message: string, color: number): void {
+    const planet = this.systemObjects.find(obj => obj.type === 'planet' && obj.id === planetId);
+    if (!planet) return;
+    this.pulsePlanetMarker(planetId);
+    this.showFloatingText(planet.marker.x, planet.marker.y - 20, message, color);
+  }
+
+  /**
+   * Screen position of the first object of a type in this system, or the panel centre
+   */
+  private eventAnchor(type: SystemObject['type'] | null): { x: number; y: number } {
+    const obj = type ? this.systemObjects.find(o => o.type === type) : undefined;
+    if (obj?.marker) return { x: obj.marker.x, y: obj.marker.y };
+    return { x: this.cameras.main.width / 2, y: this.cameras.main.height / 2 };
+  }
+
   // ---------------------------------------------------------------------------
   // Movement handling with core integration
   // ---------------------------------------------------------------------------
@@ -776,7 +810,7 @@ export default class SystemScene extends Phaser.Scene {
       selectedFleet.systemPos = { q: 0, r: 0 }; // Start at center
     }
 
-    const result = moveFleetInSystem(selectedFleetId, to);
+    const result = issueCommand({ type: 'MOVE_IN_SYSTEM', fleetId: selectedFleetId, to });
 
     if (!result.ok) {
       this.infoText.setText(`Move failed: ${result.reason}`);
@@ -823,6 +857,12 @@ export default class SystemScene extends Phaser.Scene {
         this.tryMineSelected();
         return;
       }
+
+      // G key: salvage wrecks / derelict station here (Shift queues it)
+      if (e.key.toLowerCase() === 'g') {
+        this.trySalvage(e.shiftKey);
+        return;
+      }
     });
 
     // Scene-level pointer handlers (MANDATORY - no .setInteractive() reliance)
@@ -845,7 +885,7 @@ export default class SystemScene extends Phaser.Scene {
       console.log('[SystemScene] world coords:', this.debugState.pointerWorld);
       
       // Route through unified handler
-      this.onSystemPointerDown(worldPos.x, worldPos.y);
+      this.onSystemPointerDown(worldPos.x, worldPos.y, (p.event as MouseEvent | undefined)?.shiftKey ?? false);
       
       // Update diagnostics
       this.updateDiagnostics();
@@ -853,7 +893,7 @@ export default class SystemScene extends Phaser.Scene {
   }
 
   // PHASE 2: Click Router Implementation
-  private onSystemPointerDown(worldX: number, worldY: number): void {
+  private onSystemPointerDown(worldX: number, worldY: number, queue: boolean = false): void {
     console.log('[SystemScene] onSystemPointerDown called with:', worldX, worldY);
     
     this.debugState.lastAction = 'POINTER_DOWN';
@@ -885,7 +925,7 @@ export default class SystemScene extends Phaser.Scene {
     this.debugText.setText(`DEBUG: World (${worldX.toFixed(0)}, ${worldY.toFixed(0)}) → Hex (${hex.q}, ${hex.r})`);
 
     // Handle hex click
-    this.handleHexClick(hex.q, hex.r, worldX, worldY, centerX, centerY);
+    this.handleHexClick(hex.q, hex.r, worldX, worldY, centerX, centerY, queue);
   }
 
   // ---------------------------------------------------------------------------
@@ -939,7 +979,7 @@ export default class SystemScene extends Phaser.Scene {
     return null;
   }
 
-  private handleHexClick(q: number, r: number, worldX: number, worldY: number, centerX: number, centerY: number): void {
+  private handleHexClick(q: number, r: number, worldX: number, worldY: number, centerX: number, centerY: number, queue: boolean = false): void {
     console.log('[SystemScene] handleHexClick called with hex:', q, r);
     
     // Debug: Show hex indicator
@@ -970,6 +1010,16 @@ export default class SystemScene extends Phaser.Scene {
       this.debugState.lastResult = `OK: Selected ${clickedObject.type} "${clickedObject.name}"`;
       this.selectedObjectId = clickedObject.id;
       
+      // Shift-click on an asteroid field queues a MINE order here (fleet travels if needed)
+      if (queue && clickedObject.type === 'asteroid' && state.selectedFleetId) {
+        const result = issueCommand({ type: 'QUEUE_ORDER', fleetId: state.selectedFleetId, task: 'MINE', target: systemId });
+        this.debugState.lastAction = 'QUEUE_MINE';
+        this.debugState.lastResult = result.ok ? 'OK: MINE order queued' : `FAILED: ${result.reason}`;
+        this.refresh();
+        this.updateDiagnostics();
+        return;
+      }
+
       // Check for mining interaction on asteroid
       if (clickedObject.type === 'asteroid') {
         const selectedFleetId = state.selectedFleetId;
@@ -1222,7 +1272,7 @@ export default class SystemScene extends Phaser.Scene {
 
     // Start invasion with default strength
     const invasionStrength = 3;
-    const success = startInvasion(actualObjectId, invasionStrength, 'PLAYER');
+    const success = issueCommand({ type: 'START_INVASION', planetId: actualObjectId, strength: invasionStrength }).ok;
     
     if (success) {
       // Animate fleet to planet
@@ -1283,7 +1333,7 @@ export default class SystemScene extends Phaser.Scene {
 
     // Reinforce with default amount
     const reinforcementAmount = Math.min(2, reinforcementCapacity);
-    const success = reinforcePlanetLegacy(actualObjectId, reinforcementAmount, 'PLAYER');
+    const success = issueCommand({ type: 'REINFORCE_PLANET', planetId: actualObjectId, amount: reinforcementAmount }).ok;
     
     if (success) {
       // Animate fleet to planet
@@ -1420,39 +1470,59 @@ export default class SystemScene extends Phaser.Scene {
     
     // Sync planet data between visual and core
     this.syncPlanetDataWithCore();
+    this.syncWrecks();
 
     // System information
     const isBeingMined = isSystemBeingMined(systemId);
     const miningStatus = isBeingMined ? '⛏️ MINING' : '';
-    const asteroidInfo = system.asteroids ? 
-      `Asteroids: ${system.asteroids.metalTier} (${fmt(system.asteroids.yieldRemaining, 1)}% remaining)` : 
+    // Contents are only shown up to what scans have revealed
+    const reveal = getRevealLevel(system);
+    const scanNote = system.scan && system.scan.progress > 0 && system.scan.progress < 100 ?
+      ` (scan ${Math.floor(system.scan.progress)}%)` : '';
+    const asteroidInfo = reveal < 1 ? 'Asteroids: unscanned' : system.asteroids ? 
+      `Asteroids: ${system.asteroids.metalTier} x${system.asteroids.richness} (${fmt(system.asteroids.yieldRemaining, 1)}% remaining)` : 
       'No asteroids';
     
-    const stationInfo = system.station ? 
-      `Station: ${system.station.name} (${system.station.owner})` : 
+    const stationInfo = reveal < 2 ? 'Station: unscanned' : system.station ? 
+      `Station: ${system.station.name} (${system.station.owner})` +
+        (system.station.state === 'DERELICT' ? ` | Salvage ${fmt(system.station.salvageRemaining ?? 100, 1)}% remaining` : '') : 
       'No station';
 
+    const pressure = system.pressure;
+    const pressureInfo = pressure && (pressure.current > 0 || pressure.rate > 0) ?
+      `Pressure: ${pressureMeter(pressure.current, 10)}/${pressure.max} ${getPressureLevel(pressure.current)} | +${fmt(pressure.rate, 2)}/t -${fmt(pressure.suppression, 2)}/t` :
+      'Pressure: none';
+
+    const wrecks = system.wrecks ?? [];
+    const wreckInfo = wrecks.length > 0 ?
+      `Wrecks: ${wrecks.map(w => `${w.name} T${w.tier} ${fmt(w.scrapRemaining, 1)}%`).join(', ')}` :
+      'No wrecks';
+
     // Count objects by type
     const objectCounts = {
       planets: this.systemObjects.filter(o => o.type === 'planet').length,
       asteroids: this.systemObjects.filter(o => o.type === 'asteroid').length,
       stations: this.systemObjects.filter(o => o.type === 'station').length,
-      anomalies: this.systemObjects.filter(o => o.type === 'anomaly').length
+      anomalies: this.systemObjects.filter(o => o.type === 'anomaly').length,
+      wrecks: this.systemObjects.filter(o => o.type === 'wreck').length
     };
 
     // Fleets in system
     const fleetsInSystem = Object.values(state.fleets).filter(f => f.location === systemId);
     const playerFleets = fleetsInSystem.filter(f => f.owner === 'PLAYER');
     const enemyFleets = fleetsInSystem.filter(f => f.owner === 'ENEMY');
+    const enemyInfo = isSystemVisible(systemId) ? String(enemyFleets.length) : '?';
 
     // Info text lines
     const lines = [
       `SYSTEM: ${system.name} (${system.id}) ${miningStatus}`,
-      `Type: ${system.type} | Tier: ${system.tier} | Intel: ${system.intel}`,
-      `Objects: ${objectCounts.planets} planets, ${objectCounts.asteroids} asteroids, ${objectCounts.stations} stations, ${objectCounts.anomalies} anomalies`,
+      `Type: ${system.type} | Tier: ${system.tier} | Intel: ${system.intel}${scanNote}`,
+      `Objects: ${objectCounts.planets} planets, ${objectCounts.asteroids} asteroids, ${objectCounts.stations} stations, ${objectCounts.anomalies} anomalies, ${objectCounts.wrecks} wrecks`,
+      pressureInfo,
       asteroidInfo,
       stationInfo,
-      `Fleets: ${playerFleets.length} player, ${enemyFleets.length} enemy | ESC to close | Tab: Next | 1-4: Select by type | M/Space: Mine | I: Invade Planet | R: Reinforce Planet`
+      wreckInfo,
+      `Fleets: ${playerFleets.length} player, ${enemyInfo} enemy | ESC to close | Tab: Next | 1-4: Select by type | M/Space: Mine | G: Salvage | I: Invade Planet | R: Reinforce Planet`
     ];
 
     // Show selected object info
@@ -1473,8 +1543,12 @@ export default class SystemScene extends Phaser.Scene {
           const planetId = parts[2];
           const corePlanet = system.planets?.[planetId];
           
-          lines.push(`Controller: ${selected.planetController}`);
-          if (selected.planetTroops) {
+          if (reveal < 3) {
+            lines.push('Controller: unscanned | Garrison: unscanned');
+          } else {
+            lines.push(`Controller: ${selected.planetController}`);
+          }
+          if (reveal >= 3 && selected.planetTroops) {
             lines.push(`Garrison: ${fmt(selected.planetTroops)} | Fortification: ${fmt(selected.planetDefenses || 0)}`);
             if (corePlanet?.defense && corePlanet.defense.unrest > 0) {
               lines.push(`Unrest: ${fmt(corePlanet.defense.unrest)}`);
@@ -1501,12 +1575,18 @@ export default class SystemScene extends Phaser.Scene {
             }
           }
         } else if (selected.type === 'station') {
-          if (selected.stationState) {
+          if (reveal >= 2 && selected.stationState) {
             lines.push(`Station Status: ${selected.stationState}`);
             if (selected.stationState === 'DERELICT') {
-              lines.push('Can be salvaged for resources');
+              lines.push('Can be salvaged for resources (G)');
             }
           }
+        } else if (selected.type === 'wreck') {
+          const wreck = wrecks.find(w => w.id === selected.id);
+          if (wreck) {
+            lines.push(`${wreck.source === 'COMBAT' ? 'Battle wreckage' : 'Ancient hulk'} | Tier ${wreck.tier} | ${wreck.hulls} hull(s) | ${fmt(wreck.scrapRemaining, 1)}% scrap left`);
+            lines.push('Press G to salvage');
+          }
         } else if (selected.type === 'anomaly') {
           lines.push('Anomaly - unknown properties, investigate with caution');
         }
@@ -1553,8 +1633,8 @@ export default class SystemScene extends Phaser.Scene {
     const centerX = viewX + 400;
     const centerY = viewY + 300;
 
-    // Get fleets in this system
-    const fleetsInSystem = Object.values(state.fleets).filter(f => f.location === systemId);
+    // Get fleets in this system (enemies only inside sensor range)
+    const fleetsInSystem = Object.values(state.fleets).filter(f => f.location === systemId && isFleetVisible(f));
 
     // Update or create fleet sprites
     for (const fleet of fleetsInSystem) {
@@ -1675,14 +1755,14 @@ export default class SystemScene extends Phaser.Scene {
     const planet = this.systemObjects.find(obj => obj.id === planetId && obj.type === 'planet');
     if (!planet) return;
 
-    // Create a container for the planet marker to pulse
-    const container = this.add.container(planet.marker.x, planet.marker.y);
-    container.add(planet.marker);
-    
-    createPulseAnimation(this, container, 300, 1.2).then(() => {
-      // Remove container and restore marker
-      container.remove(planet.marker);
-      container.destroy();
+    // Scale the marker in place (re-parenting it into a container would move it)
+    this.tweens.add({
+      targets: planet.marker,
+      scale: 1.2,
+      duration: 150,
+      ease: 'Quad.easeOut',
+      yoyo: true,
+      onComplete: () => planet.marker.setScale(1)
     });
   }
 
@@ -1734,12 +1814,7 @@ export default class SystemScene extends Phaser.Scene {
 
   private close(): void {
     // Cleanup: destroy object visuals so reopening doesn't duplicate them
-    for (const obj of this.systemObjects) {
-      obj.marker?.destroy();
-      obj.label?.destroy();
-      obj.icon?.destroy();
-    }
-    this.systemObjects = [];
+    this.destroyObjectVisuals();
     this.selectedObjectId = null;
     
     // Cleanup fleet sprites
@@ -1755,6 +1830,25 @@ export default class SystemScene extends Phaser.Scene {
     console.log('SystemScene closed, GalaxyScene resumed');
   }
 
+  private trySalvage(queue: boolean): void {
+    const state = getState();
+    const systemId = state.selectedSystemId;
+    const fleetId = state.selectedFleetId;
+    if (!systemId || !fleetId) {
+      this.infoText.setText('SALVAGE FAILED: Select a fleet first');
+      return;
+    }
+
+    const result = queue
+      ? issueCommand({ type: 'QUEUE_ORDER', fleetId, task: 'SALVAGE', target: systemId })
+      : issueCommand({ type: 'ASSIGN_TASK', fleetId, task: 'SALVAGE', target: systemId });
+    this.debugState.lastResult = result.ok ? 'SUCCESS: Salvage ordered' : `FAILED: ${result.reason}`;
+    if (!result.ok) {
+      this.infoText.setText(`SALVAGE FAILED: ${result.reason}`);
+    }
+    this.refresh();
+  }
+
   private tryMineSelected(): void {
     const state = getState();
     const systemId = state.selectedSystemId;
@@ -1785,7 +1879,7 @@ export default class SystemScene extends Phaser.Scene {
     }
 
     // Use new position-based mining
-    const result = mineAtFleetPosition(selectedFleetId);
+    const result = issueCommand({ type: 'MINE_AT_POSITION', fleetId: selectedFleetId });
     
     if (result.ok) {
       this.debugText.setText('DEBUG: Mining successful!');
@@ -1817,7 +1911,7 @@ export default class SystemScene extends Phaser.Scene {
   }
 
   private selectObjectByType(type: number): void {
-    const types: ('planet' | 'asteroid' | 'station' | 'anomaly')[] = ['planet', 'asteroid', 'station', 'anomaly'];
+    const types: SystemObject['type'][] = ['planet', 'asteroid', 'station', 'anomaly', 'wreck'];
     const targetType = types[type - 1];
     if (!targetType) return;
 
@@ -1828,7 +1922,12 @@ export default class SystemScene extends Phaser.Scene {
     }
   }
 
-  update(): void {
+  update(_time: number, delta: number): void {
+    // GalaxyScene is paused while we're open, so the simulation is fed from here
+    const before = getState().tick;
+    advanceSimulation(delta);
+    autosaveIfDue(before);
+
     // Keep your existing behavior, but avoid rebuilding objects per-frame.
     // (We only redraw grid/selection + info, which is cheap.)
     this.refresh();
@@ -18,6 +18,8 @@
 // - Keep the "decision logic" centralized and readable.
 // -----------------------------------------------------------------------------
 
+import type { SystemIntel } from '../core/types';
+
 export type IconDecisionInput = {
   // common identifiers seen across refactors
   id?: string;
@@ -121,10 +123,18 @@ export function fleetGlyph(fleet: IconDecisionInput): string {
   return getEntityGlyph(fleet);
 }
 
-export function systemGlyph(intel: 'UNKNOWN' | 'SCANNED'): string {
+export function systemGlyph(intel: SystemIntel): string {
   return intel === 'UNKNOWN' ? '·' : '◆';
 }
 
+/**
+ * Text meter for system pressure, e.g. "▰▰▰▱▱ 62"
+ */
+export function pressureMeter(pressure: number, width: number = 5): string {
+  const filled = Math.max(0, Math.min(width, Math.round((pressure / 100) * width)));
+  return `${'▰'.repeat(filled)}${'▱'.repeat(width - filled)} ${Math.floor(pressure)}`;
+}
+
 export function fleetColor(fleet: IconDecisionInput): string {
   // Assuming VisualStyle is available - you may need to import this
   // For now, return basic colors based on type
@@ -10,6 +10,7 @@
 // - "Reachable / in-move-range" highlight = GREEN stroke only (0x49b36d)
 // - "Selected" highlight = bright WHITE stroke (0xffffff)
 // - "Hover" highlight = subtle BLUE stroke (0x4a9eff)
+// - Hyperlanes = GRAY; contested = ORANGE; blockaded = blockading side's color
 // 
 // CRITICAL: Affiliation colors NEVER get overridden by highlight colors.
 // Highlights use stroke-only on dedicated layers drawn after affiliation fills.
@@ -94,3 +95,17 @@ export function getPlanetAffiliation(controller: string): Affiliation {
     default: return 'NEUTRAL';
   }
 }
+
+// HYPERLANE STYLE - stroke for galaxy lane lines
+export function getLaneStyle(lane: { travelMultiplier: number; blocked: boolean; blockedBy?: string; contested: boolean }): HighlightStyle {
+  if (lane.blocked) {
+    const side = getAffiliationColor(lane.blockedBy === 'PLAYER' ? 'PLAYER' : 'ENEMY');
+    return { stroke: side.stroke, alpha: 0.9, width: 3 };
+  }
+  if (lane.contested) {
+    return { stroke: getAffiliationColor('CONTESTED').stroke, alpha: 0.8, width: 2 };
+  }
+  // Slow lanes are drawn fainter so fast routes read at a glance
+  const alpha = lane.travelMultiplier > 1.5 ? 0.3 : 0.55;
+  return { stroke: 0x6b86a8, alpha, width: 2 };
+}
@@ -0,0 +1,64 @@
+// src/ui/saveFiles.ts
+// -----------------------------------------------------------------------------
+// HexFleet — Browser File & Clipboard Helpers for Save Export / Import
+//
+// DOM-only glue around src/core/SaveTransfer.ts: trigger a download, open a
+// file picker, read/write the clipboard. Kept out of core so core stays
+// runnable in Node.
+// -----------------------------------------------------------------------------
+
+import { SAVE_FILE_EXTENSION, type SaveExport } from '../core/SaveTransfer';
+
+/**
+ * Offer a save export as a file download
+ */
+export function downloadSave(file: SaveExport): void {
+  const url = URL.createObjectURL(new Blob([file.contents], { type: file.mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = file.filename;
+  link.click();
+  // Revoke after the click has been handled
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Let the player pick a save file; resolves to its text, or null if cancelled
+ */
+export function pickSaveFile(): Promise<string | null> {
+  return new Promise(resolve => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = `${SAVE_FILE_EXTENSION},.json,.txt`;
+    input.addEventListener('change', () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      file.text().then(resolve, () => resolve(null));
+    });
+    input.addEventListener('cancel', () => resolve(null));
+    input.click();
+  });
+}
+
+/**
+ * Copy text (a share code) to the clipboard; false if the browser refused
+ */
+export async function copyText(text: string): Promise<boolean> {
+  try {
+    await navigator.clipboard.writeText(text);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Ask the player to paste a share code; null if cancelled
+ */
+export function promptShareCode(): string | null {
+  const code = window.prompt('Paste a HexFleet share code:');
+  return code && code.trim() ? code : null;
+}